@@ -1,4 +1,12 @@
-import { app, BrowserWindow, ipcMain, dialog, shell } from "electron";
+import {
+  app,
+  BrowserWindow,
+  ipcMain,
+  dialog,
+  shell,
+  Menu,
+  MenuItemConstructorOptions,
+} from "electron";
 import squirrelStartup from "electron-squirrel-startup";
 import * as path from "path";
 import * as fs from "fs";
@@ -35,6 +43,32 @@ const createWindow = (): void => {
   }
 };
 
+// Application menu. Commands that act on game state are sent to the renderer,
+// which owns the state
+const sendMenuCommand = (command: string): void => {
+  mainWindow?.webContents.send("menu-command", command);
+};
+
+const buildMenu = (): void => {
+  const template: MenuItemConstructorOptions[] = [
+    ...(process.platform === "darwin" ? [{ role: "appMenu" } as const] : []),
+    { role: "fileMenu" },
+    { role: "editMenu" },
+    { role: "viewMenu" },
+    {
+      label: "Tools",
+      submenu: [
+        {
+          label: "Check Save Integrity…",
+          click: () => sendMenuCommand("check-save-integrity"),
+        },
+      ],
+    },
+    { role: "windowMenu" },
+  ];
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+};
+
 // Get save file path
 const getSaveFilePath = (): string => {
   const userDataPath = app.getPath("userData");
@@ -234,7 +268,10 @@ ipcMain.handle("open-save-location", async () => {
 declare const MAIN_WINDOW_VITE_DEV_SERVER_URL: string | undefined;
 declare const MAIN_WINDOW_VITE_NAME: string;
 
-app.on("ready", createWindow);
+app.on("ready", () => {
+  buildMenu();
+  createWindow();
+});
 
 app.on("window-all-closed", () => {
   if (process.platform !== "darwin") {
@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from "electron";
+import { contextBridge, ipcRenderer, IpcRendererEvent } from "electron";
 
 // Expose protected methods to the renderer process
 contextBridge.exposeInMainWorld("electronAPI", {
@@ -8,8 +8,16 @@ contextBridge.exposeInMainWorld("electronAPI", {
   exportGame: (data: string) => ipcRenderer.invoke("export-game", data),
   importGame: () => ipcRenderer.invoke("import-game"),
   openSaveLocation: () => ipcRenderer.invoke("open-save-location"),
+  onMenuCommand: (callback: (command: MenuCommand) => void) => {
+    const listener = (_event: IpcRendererEvent, command: MenuCommand) => callback(command);
+    ipcRenderer.on("menu-command", listener);
+    return () => ipcRenderer.removeListener("menu-command", listener);
+  },
 });
 
+/** Application menu commands handled by the renderer */
+export type MenuCommand = "check-save-integrity";
+
 // Type declaration for the renderer
 export interface ElectronAPI {
   saveGame: (data: string) => Promise<{ success: boolean; path?: string; error?: string }>;
@@ -26,6 +34,8 @@ export interface ElectronAPI {
     error?: string;
   }>;
   openSaveLocation: () => Promise<{ success: boolean; path?: string; error?: string }>;
+  /** Subscribe to application menu commands; returns an unsubscribe function */
+  onMenuCommand: (callback: (command: MenuCommand) => void) => () => void;
 }
 
 declare global {
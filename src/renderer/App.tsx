@@ -4,11 +4,14 @@ import { useGameStore } from "./store";
 import GameSetup from "./components/GameSetup";
 import GameView from "./components/GameView";
 import { deserialize, serialize } from "./utils/persistence";
+import { migrateSave } from "./utils/migrations";
+import { SaveReport, validateSave } from "./utils/saveValidator";
 
 type AppView = "loading" | "setup" | "game";
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>("loading");
+  const [startupReport, setStartupReport] = useState<SaveReport | null>(null);
   const { loadState } = useGameStore();
 
   // Load saved game on startup
@@ -17,15 +20,31 @@ const App: React.FC = () => {
       try {
         const result = await window.electronAPI.loadGame();
         if (result.success && result.data) {
-          const parsed = JSON.parse(result.data);
-          const state = deserialize(parsed);
-          loadState(state);
+          const { data, migratedFrom } = migrateSave(JSON.parse(result.data));
+          // Auto-save overwrites the file, so keep the pre-migration copy first
+          if (migratedFrom !== undefined) {
+            const backup = await window.electronAPI.backupSave();
+            if (!backup.success) {
+              throw new Error(
+                `Backup before migrating from v${migratedFrom} failed: ${backup.error}`,
+              );
+            }
+          }
+          loadState(deserialize(data));
+          setStartupReport(validateSave(data));
           setView("game");
         } else {
           setView("setup");
         }
       } catch (error) {
         console.error("Failed to load saved game:", error);
+        // Starting a new game would overwrite the save, so keep a copy
+        await window.electronAPI.backupSave().catch(() => undefined);
+        window.alert(
+          `The saved game could not be loaded. A backup copy was kept.\n\n${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
         setView("setup");
       }
     };
@@ -42,6 +61,7 @@ const App: React.FC = () => {
       currentEra: state.currentEra,
       tiles: state.tiles,
       cities: state.cities,
+      plannedSettlements: state.plannedSettlements,
       completedTechs: state.completedTechs,
       completedCivics: state.completedCivics,
       currentTech: state.currentTech,
@@ -51,6 +71,8 @@ const App: React.FC = () => {
       policyLoadout: state.policyLoadout,
       gold: state.gold,
       faith: state.faith,
+      sciencePerTurn: state.sciencePerTurn,
+      culturePerTurn: state.culturePerTurn,
       strategicResources: state.strategicResources,
       aiCivs: state.aiCivs,
       lastUpdated: state.lastUpdated,
@@ -94,7 +116,7 @@ const App: React.FC = () => {
     return <GameSetup onStart={handleStartGame} />;
   }
 
-  return <GameView onNewGame={handleNewGame} />;
+  return <GameView onNewGame={handleNewGame} startupReport={startupReport} />;
 };
 
 export default App;
@@ -8,7 +8,7 @@
  */
 
 import React, { useState, useMemo } from "react";
-import { HexCoord, Tile } from "../../types/model";
+import { HexCoord, MapBounds, Tile } from "../../types/model";
 import {
   calculateAllAdjacencies,
   AdjacencyResult,
@@ -32,6 +32,8 @@ interface AdjacencyPanelProps {
   tile: Tile | null;
   /** Player civilization for civ-specific bonuses */
   playerCiv?: string;
+  /** Map extent, so neighbors wrap across the east–west seam */
+  map?: MapBounds;
 }
 
 /**
@@ -54,14 +56,14 @@ interface AdjacencyPanelProps {
  *   playerCiv="korea"
  * />
  */
-const AdjacencyPanel: React.FC<AdjacencyPanelProps> = ({ coord, tiles, tile, playerCiv }) => {
+const AdjacencyPanel: React.FC<AdjacencyPanelProps> = ({ coord, tiles, tile, playerCiv, map }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const [expandedDistrict, setExpandedDistrict] = useState<string | null>(null);
 
   // Calculate adjacency bonuses
   const adjacencyResults = useMemo(() => {
-    return calculateAllAdjacencies(coord, tiles, playerCiv);
-  }, [coord, tiles, playerCiv]);
+    return calculateAllAdjacencies(coord, tiles, playerCiv, map);
+  }, [coord, tiles, playerCiv, map]);
 
   // Filter to only show districts with bonus > 0 or top 5
   const displayResults = useMemo(() => {
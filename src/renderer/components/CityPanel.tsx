@@ -0,0 +1,1145 @@
+/**
+ * @fileoverview City management panel for the TileInspector.
+ *
+ * This component lets players found a city on the selected tile and manage an
+ * existing city: population, housing (with the derived cap), growth, amenities, specialty, governor,
+ * districts with their buildings, worked tiles (with a citizen optimizer),
+ * border growth and tile purchases, planned districts (with a layout
+ * optimizer), and the build queue.
+ *
+ * @module renderer/components/CityPanel
+ */
+
+import React, { useState, useMemo, useEffect } from "react";
+import { useGameStore } from "../store";
+import {
+  BuildQueueItem,
+  City,
+  CitySpecialty,
+  coordKey,
+  DistrictType,
+  HexCoord,
+  Tile,
+} from "../../types/model";
+import { getBuildingName, getBuildingsForDistrict } from "../data/buildings";
+import { getDistrictDisplayName } from "../utils/adjacencyCalculator";
+import { getDistrictLabel } from "../utils/hexUtils";
+import { analyzeCityOverlap, isFoundableTile } from "../utils/cityOverlap";
+import { calculateHousing, getHousingStatus } from "../utils/housingCalculator";
+import {
+  calculateGrowth,
+  estimatePopulationTurn,
+  getNextDistrictCapPopulation,
+} from "../utils/growthCalculator";
+import { MIN_CITY_DISTANCE } from "../utils/settleScorer";
+import {
+  CitizenAssignment,
+  diffSpecialists,
+  diffWorkedTiles,
+  optimizeCitizens,
+} from "../utils/citizenOptimizer";
+import { predictBorderGrowth } from "../utils/borderGrowth";
+import { YIELD_TYPES, Yields, calculateTileYields, getYieldIcon } from "../utils/yieldCalculator";
+import {
+  applyLayoutToPlannedDistricts,
+  DistrictLayout,
+  solveDistrictLayout,
+} from "../utils/layoutSolver";
+import "./CityPanel.css";
+
+/**
+ * Props for the CityPanel component.
+ */
+interface CityPanelProps {
+  /** The coordinate of the selected tile */
+  coord: HexCoord;
+  /** The tile at the given coordinate */
+  tile: Tile;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SPECIALTIES: CitySpecialty[] = [
+  "science",
+  "production",
+  "culture",
+  "faith",
+  "gold",
+  "military",
+  "wonder",
+  "generalist",
+];
+
+const GOVERNORS = [
+  { id: "liang", name: "Liang" },
+  { id: "magnus", name: "Magnus" },
+  { id: "amani", name: "Amani" },
+  { id: "victor", name: "Victor" },
+  { id: "pingala", name: "Pingala" },
+  { id: "reyna", name: "Reyna" },
+  { id: "moksha", name: "Moksha" },
+  { id: "ibrahim", name: "Ibrahim" },
+];
+
+/** Districts that can be added to a city (the City Center is created on founding). */
+const DISTRICTS: DistrictType[] = [
+  "campus",
+  "holy_site",
+  "theater_square",
+  "commercial_hub",
+  "harbor",
+  "industrial_zone",
+  "encampment",
+  "entertainment_complex",
+  "water_park",
+  "aerodrome",
+  "spaceport",
+  "government_plaza",
+  "diplomatic_quarter",
+  "neighborhood",
+  "aqueduct",
+  "dam",
+  "canal",
+  "preserve",
+];
+
+const QUEUE_ITEM_TYPES: BuildQueueItem["type"][] = [
+  "district",
+  "building",
+  "wonder",
+  "unit",
+  "project",
+];
+
+const formatLabel = (str: string): string => {
+  return str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+const sameCoord = (a: HexCoord, b: HexCoord): boolean => a.q === b.q && a.r === b.r;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Collapsible panel for founding and managing the city on a tile.
+ *
+ * Features:
+ * - Found a new city when the tile has no city
+ * - Check a new site's overlap with other cities and its spacing, and record
+ *   it as a planned settlement with a justification
+ * - Edit population, housing, amenities, specialty and governor
+ * - Add/remove districts and toggle their buildings
+ * - Plan districts with the layout optimizer, which suggests the placements
+ *   with the highest total adjacency
+ * - Build queue with add/remove, drag-to-reorder and per-item locks
+ *   (locked items can't be dragged and keep their position)
+ *
+ * @param props - Component props
+ *
+ * @example
+ * <CityPanel coord={{ q: 0, r: 0 }} tile={selectedTile} />
+ */
+const CityPanel: React.FC<CityPanelProps> = ({ coord, tile }) => {
+  const { cities, foundCity } = useGameStore();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [cityName, setCityName] = useState("");
+
+  const city = useMemo(
+    () => cities.find((c) => sameCoord(c.location, coord)) ?? null,
+    [cities, coord],
+  );
+
+  // Another city's tile can't become a city center
+  const owner = useMemo(
+    () => cities.find((c) => c.ownedTiles.some((t) => sameCoord(t, coord))) ?? null,
+    [cities, coord],
+  );
+  const canFound = isFoundableTile(tile) && !owner;
+
+  const handleFoundCity = () => {
+    if (foundCity(cityName, coord)) setCityName("");
+  };
+
+  return (
+    <div className="city-panel">
+      <button className="city-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="city-title">
+          <span className="city-title-icon">🏛️</span>
+          {city ? city.name : "City"}
+        </span>
+        <span className={`expand-arrow ${isExpanded ? "expanded" : ""}`}>▼</span>
+      </button>
+
+      {isExpanded && (
+        <div className="city-content">
+          {city ? (
+            <CityDetails city={city} />
+          ) : canFound ? (
+            <>
+              <div className="found-city-form">
+                <input
+                  type="text"
+                  placeholder="City name"
+                  value={cityName}
+                  onChange={(e) => setCityName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleFoundCity()}
+                />
+                <button
+                  className="city-action-btn"
+                  onClick={handleFoundCity}
+                  disabled={!cityName.trim()}
+                >
+                  Found City
+                </button>
+              </div>
+              <CitySiteCheck coord={coord} />
+            </>
+          ) : owner ? (
+            <p className="city-empty">{owner.name} already owns this tile.</p>
+          ) : (
+            <p className="city-empty">A city can't be founded on this tile.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// CITY SITE CHECK
+// ============================================================================
+
+/**
+ * Overlap and spacing report for a tile without a city, with controls to
+ * record it as a planned settlement along with a justification.
+ *
+ * @param props - Component props
+ * @param props.coord - The proposed city center
+ */
+const CitySiteCheck: React.FC<{ coord: HexCoord }> = ({ coord }) => {
+  const {
+    setup,
+    cities,
+    plannedSettlements,
+    aiCivs,
+    addPlannedSettlement,
+    updatePlannedSettlement,
+    removePlannedSettlement,
+  } = useGameStore();
+  const [justification, setJustification] = useState("");
+
+  const { overlappingTiles, spacingViolations } = useMemo(
+    () => analyzeCityOverlap(coord, { setup, cities, plannedSettlements, aiCivs }),
+    [coord, setup, cities, plannedSettlements, aiCivs],
+  );
+  const settlement = plannedSettlements.find(
+    (p) => p.status !== "settled" && sameCoord(p.location, coord),
+  );
+
+  const handlePlan = () => {
+    addPlannedSettlement(coord, justification.trim() || undefined);
+    setJustification("");
+  };
+
+  return (
+    <>
+      <h5 className="city-section-title">Site Check</h5>
+      {spacingViolations.length === 0 && overlappingTiles.length === 0 && (
+        <p className="city-empty">No overlap with other cities.</p>
+      )}
+      {spacingViolations.length > 0 && (
+        <ul className="city-site-warnings">
+          {spacingViolations.map((v) => (
+            <li key={coordKey(v.location)}>
+              ⚠️ Too close to {v.name}: {v.distance} tile(s) apart, minimum {MIN_CITY_DISTANCE}
+            </li>
+          ))}
+        </ul>
+      )}
+      {overlappingTiles.length > 0 && (
+        <>
+          <p className="city-site-summary">
+            Shares {overlappingTiles.length} workable tile(s) with other cities
+          </p>
+          <ul className="city-site-overlaps">
+            {overlappingTiles.map((t) => (
+              <li key={coordKey(t.coord)} className={t.isOwned ? "owned" : ""}>
+                ({t.coord.q}, {t.coord.r}) {t.sharedWith.join(", ")}
+                {t.isOwned && <span className="city-site-owned">owned</span>}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <h5 className="city-section-title">Planned Settlement</h5>
+      {settlement ? (
+        <>
+          <textarea
+            className="city-site-justification"
+            placeholder="Justification (why this site is worth it)"
+            defaultValue={settlement.justification ?? ""}
+            key={settlement.id}
+            onBlur={(e) =>
+              updatePlannedSettlement(settlement.id, {
+                justification: e.target.value.trim() || undefined,
+              })
+            }
+          />
+          <div className="city-add-row">
+            <button
+              className="city-action-btn"
+              onClick={() => removePlannedSettlement(settlement.id)}
+            >
+              Remove Plan
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <textarea
+            className="city-site-justification"
+            placeholder="Justification (why this site is worth it)"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+          />
+          <div className="city-add-row">
+            <button className="city-action-btn" onClick={handlePlan}>
+              Plan Settlement
+            </button>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+// ============================================================================
+// GROWTH SUMMARY
+// ============================================================================
+
+/**
+ * Food surplus, turns to the next citizen, and when the next specialty
+ * district slot opens up.
+ *
+ * @param props - Component props
+ * @param props.city - The city to project
+ */
+const GrowthSummary: React.FC<{ city: City }> = ({ city }) => {
+  const { tiles, setup, currentTurn, completedTechs, completedCivics } = useGameStore();
+
+  const { growth, slotPopulation, slotTurn } = useMemo(() => {
+    const state = { tiles, setup, currentTurn, completedTechs, completedCivics };
+    const slotPopulation = getNextDistrictCapPopulation(city.population);
+    return {
+      growth: calculateGrowth(city, state),
+      slotPopulation,
+      slotTurn: estimatePopulationTurn(city, slotPopulation, state),
+    };
+  }, [city, tiles, setup, currentTurn, completedTechs, completedCivics]);
+
+  const formatNumber = (n: number): string => `${Math.round(n * 10) / 10}`;
+
+  return (
+    <div className="city-growth">
+      <p>
+        Food {formatNumber(growth.food)} − {growth.upkeep} upkeep ={" "}
+        <span className={growth.surplus < 0 ? "city-growth-starving" : ""}>
+          {growth.surplus >= 0 ? "+" : ""}
+          {formatNumber(growth.surplus)}
+        </span>
+        {growth.growthPerTurn !== growth.surplus && growth.surplus > 0 && (
+          <> ({formatNumber(growth.growthPerTurn)} after housing/amenities)</>
+        )}
+      </p>
+      <p>
+        {growth.turnsToGrow
+          ? `Pop ${city.population + 1} in ${growth.turnsToGrow} turns (turn ${currentTurn + growth.turnsToGrow})`
+          : growth.surplus < 0
+            ? "Starving: population will shrink"
+            : "Not growing"}
+      </p>
+      <p>
+        District slot at pop {slotPopulation}
+        {slotTurn ? `: ~turn ${slotTurn}` : ": not reached at current growth"}
+      </p>
+    </div>
+  );
+};
+
+// ============================================================================
+// CITIZEN PLANNER
+// ============================================================================
+
+const formatYields = (yields: Partial<Yields>): string =>
+  YIELD_TYPES.filter((t) => yields[t])
+    .map((t) => `${getYieldIcon(t)}${yields[t]}`)
+    .join(" ") || "no yields";
+
+const formatSpecialists = (specialists: City["specialists"]): string =>
+  Object.entries(specialists ?? {})
+    .filter(([, count]) => count)
+    .map(([district, count]) => `${getDistrictDisplayName(district as DistrictType)} ×${count}`)
+    .join(", ") || "none";
+
+/**
+ * Worked tiles and the citizen optimizer for a city.
+ *
+ * The optimizer proposes tiles and specialists weighted by the city's
+ * specialty; the proposal is shown as a diff against the current worked tiles
+ * and specialists and applied in one step. A proposal is dropped when the
+ * city changes, so a stale one can't be applied.
+ *
+ * @param props - Component props
+ * @param props.city - The city to assign citizens in
+ */
+const CitizenPlanner: React.FC<{ city: City }> = ({ city }) => {
+  const { setup, tiles, completedTechs, completedCivics, updateCity } = useGameStore();
+  const [assignment, setAssignment] = useState<CitizenAssignment | null>(null);
+
+  // The proposal was made for the city as it was
+  useEffect(() => setAssignment(null), [city]);
+
+  const diff = assignment && diffWorkedTiles(city.workedTiles, assignment.workedTiles);
+  const specialistChanges = assignment
+    ? diffSpecialists(city.specialists, assignment.specialists)
+    : [];
+  const tileYields = (coord: HexCoord): string =>
+    formatYields(
+      calculateTileYields(coord, tiles, { completedTechs, completedCivics }, setup.map).total,
+    );
+
+  const handleOptimize = () => {
+    setAssignment(optimizeCitizens(city, { setup, tiles, completedTechs, completedCivics }));
+  };
+
+  const handleApply = () => {
+    if (!assignment) return;
+    updateCity(city.id, {
+      workedTiles: assignment.workedTiles,
+      specialists: assignment.specialists,
+    });
+    setAssignment(null);
+  };
+
+  return (
+    <>
+      <h5 className="city-section-title">Citizens</h5>
+      <p className="city-empty">
+        Working {city.workedTiles.length} tile(s); specialists:{" "}
+        {formatSpecialists(city.specialists)}
+      </p>
+      <div className="city-add-row">
+        <button className="city-action-btn" onClick={handleOptimize}>
+          Optimize Citizens
+        </button>
+      </div>
+
+      {assignment && diff && (
+        <div className="city-citizen-diff">
+          {diff.added.length === 0 &&
+          diff.removed.length === 0 &&
+          specialistChanges.length === 0 ? (
+            <p className="city-empty">Citizens are already optimally assigned.</p>
+          ) : (
+            <ul>
+              {diff.added.map((c) => (
+                <li key={`+${coordKey(c)}`} className="city-citizen-added">
+                  + ({c.q}, {c.r}) {tileYields(c)}
+                </li>
+              ))}
+              {diff.removed.map((c) => (
+                <li key={`-${coordKey(c)}`} className="city-citizen-removed">
+                  − ({c.q}, {c.r}) {tileYields(c)}
+                </li>
+              ))}
+              {specialistChanges.map((c) => (
+                <li
+                  key={`specialists-${c.district}`}
+                  className={c.to > c.from ? "city-citizen-added" : "city-citizen-removed"}
+                >
+                  {c.to > c.from ? "+" : "−"} {getDistrictDisplayName(c.district)} specialists{" "}
+                  {c.from} → {c.to}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p>Specialists: {formatSpecialists(assignment.specialists)}</p>
+          <p>Citizen yields: {formatYields(assignment.yields)}</p>
+          <div className="city-add-row">
+            <button className="city-action-btn" onClick={handleApply}>
+              Apply
+            </button>
+            <button className="city-action-btn" onClick={() => setAssignment(null)}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// ============================================================================
+// BORDER PLANNER
+// ============================================================================
+
+/** Number of likely border tiles to list. */
+const BORDER_CANDIDATES_SHOWN = 3;
+
+/**
+ * Border growth outlook, tile purchases, and ownership repair.
+ *
+ * @param props - Component props
+ * @param props.city - The city whose borders to show
+ */
+const BorderPlanner: React.FC<{ city: City }> = ({ city }) => {
+  const {
+    tiles,
+    cities,
+    aiCivs,
+    setup,
+    culturePerTurn,
+    completedTechs,
+    completedCivics,
+    claimTile,
+    reconcileOwnership,
+  } = useGameStore();
+  const [repairMessage, setRepairMessage] = useState<string | null>(null);
+
+  const prediction = useMemo(
+    () =>
+      predictBorderGrowth(city, {
+        tiles,
+        cities,
+        aiCivs,
+        setup,
+        culturePerTurn,
+        completedTechs,
+        completedCivics,
+      }),
+    [city, tiles, cities, aiCivs, setup, culturePerTurn, completedTechs, completedCivics],
+  );
+
+  const handleRepair = () => {
+    const repairs = reconcileOwnership();
+    setRepairMessage(
+      repairs.length === 0 ? "Tile ownership is in sync." : `Repaired ${repairs.length} tile(s).`,
+    );
+  };
+
+  return (
+    <>
+      <h5 className="city-section-title">Borders</h5>
+      <p className="city-empty">
+        Next tile at {prediction.cost} culture
+        {prediction.turnsToNext !== null &&
+          ` (~${prediction.turnsToNext} turns at ${Math.round(prediction.culturePerTurn * 10) / 10}/turn)`}
+      </p>
+      {prediction.candidates.length === 0 ? (
+        <p className="city-empty">No mapped tiles to claim.</p>
+      ) : (
+        <ol className="city-border-list">
+          {prediction.candidates.slice(0, BORDER_CANDIDATES_SHOWN).map((candidate) => (
+            <li key={coordKey(candidate.coord)} className="city-district-row">
+              <span className="city-district-name" title={candidate.reasons.join("\n")}>
+                ({candidate.coord.q}, {candidate.coord.r})
+                <span className="city-district-coord">{candidate.reasons.slice(1).join(", ")}</span>
+              </span>
+              <button
+                className="city-action-btn"
+                onClick={() => claimTile(city.id, candidate.coord)}
+                title="Buy this tile"
+              >
+                Buy {candidate.goldCost}g
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="city-add-row">
+        <button className="city-action-btn" onClick={handleRepair}>
+          Repair Tile Ownership
+        </button>
+      </div>
+      {repairMessage && <p className="city-empty">{repairMessage}</p>}
+    </>
+  );
+};
+
+// ============================================================================
+// LAYOUT PLANNER
+// ============================================================================
+
+/**
+ * Planned districts list and multi-district layout optimizer for a city.
+ *
+ * The player picks the districts they want, the solver proposes the layouts
+ * with the highest total adjacency, and applying one writes it to the city's
+ * planned districts.
+ *
+ * @param props - Component props
+ * @param props.city - The city to plan
+ */
+const LayoutPlanner: React.FC<{ city: City }> = ({ city }) => {
+  const { tiles, setup, updateCity } = useGameStore();
+  const [targets, setTargets] = useState<DistrictType[]>([]);
+  const [layouts, setLayouts] = useState<DistrictLayout[] | null>(null);
+
+  const toggleTarget = (district: DistrictType) => {
+    setTargets((prev) =>
+      prev.includes(district) ? prev.filter((d) => d !== district) : [...prev, district],
+    );
+    setLayouts(null);
+  };
+
+  const handleSolve = () => {
+    setLayouts(solveDistrictLayout(city, tiles, targets, setup.playerCiv, { map: setup.map }));
+  };
+
+  const handleApply = (layout: DistrictLayout) => {
+    updateCity(city.id, {
+      plannedDistricts: applyLayoutToPlannedDistricts(city.plannedDistricts, layout),
+    });
+    setLayouts(null);
+  };
+
+  const handleRemovePlanned = (index: number) => {
+    updateCity(city.id, {
+      plannedDistricts: city.plannedDistricts.filter((_, i) => i !== index),
+    });
+  };
+
+  // Districts the city hasn't built yet
+  const targetOptions = DISTRICTS.filter((d) => !city.districts.some((cd) => cd.type === d));
+
+  return (
+    <>
+      <h5 className="city-section-title">Planned Districts</h5>
+      {city.plannedDistricts.length === 0 ? (
+        <p className="city-empty">No districts planned.</p>
+      ) : (
+        <ul className="city-district-list">
+          {city.plannedDistricts.map((d, index) => (
+            <li key={`${d.type}-${coordKey(d.tile)}`} className="city-district-item">
+              <div className="city-district-row">
+                <span className="city-district-name">
+                  {getDistrictLabel(d.type)} {getDistrictDisplayName(d.type)}
+                  <span className="city-district-coord">
+                    ({d.tile.q}, {d.tile.r})
+                  </span>
+                </span>
+                <button
+                  className="city-remove-btn"
+                  onClick={() => handleRemovePlanned(index)}
+                  title="Remove planned district"
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h5 className="city-section-title">Layout Optimizer</h5>
+      <div className="city-building-grid">
+        {targetOptions.map((d) => (
+          <label key={d} className="city-building-item">
+            <input type="checkbox" checked={targets.includes(d)} onChange={() => toggleTarget(d)} />
+            {getDistrictDisplayName(d)}
+          </label>
+        ))}
+      </div>
+      <div className="city-add-row">
+        <button className="city-action-btn" onClick={handleSolve} disabled={targets.length === 0}>
+          Find Best Layouts
+        </button>
+      </div>
+
+      {layouts &&
+        (layouts.length === 0 ? (
+          <p className="city-empty">No valid tiles for these districts.</p>
+        ) : (
+          <ol className="city-layout-list">
+            {layouts.map((layout, index) => (
+              <li key={index} className="city-district-item">
+                <div className="city-district-row">
+                  <span className="city-district-name">
+                    Layout {index + 1}
+                    <span className="city-layout-score">+{layout.score}</span>
+                  </span>
+                  <button className="city-action-btn" onClick={() => handleApply(layout)}>
+                    Apply
+                  </button>
+                </div>
+                <ul className="city-layout-placements">
+                  {layout.placements.map((p) => (
+                    <li
+                      key={p.district}
+                      title={p.adjacency.breakdown
+                        .map((b) => `${b.source}: +${b.totalBonus}`)
+                        .join("\n")}
+                    >
+                      {getDistrictLabel(p.district)} {getDistrictDisplayName(p.district)}
+                      <span className="city-district-coord">
+                        ({p.coord.q}, {p.coord.r})
+                      </span>
+                      <span className="city-layout-bonus">+{p.adjacency.bonus}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        ))}
+    </>
+  );
+};
+
+// ============================================================================
+// CITY DETAILS
+// ============================================================================
+
+/**
+ * Editable details of an existing city.
+ *
+ * @param props - Component props
+ * @param props.city - The city to manage
+ */
+const CityDetails: React.FC<{ city: City }> = ({ city }) => {
+  const {
+    tiles,
+    setup,
+    updateCity,
+    updateTile,
+    addToBuildQueue,
+    removeFromBuildQueue,
+    reorderBuildQueue,
+    lockBuildQueueItem,
+  } = useGameStore();
+
+  // Add district form state
+  const [newDistrict, setNewDistrict] = useState<DistrictType | "">("");
+  const [newDistrictTile, setNewDistrictTile] = useState("");
+
+  // Add queue item form state
+  const [queueType, setQueueType] = useState<BuildQueueItem["type"]>("district");
+  const [queueItemId, setQueueItemId] = useState("");
+  const [queueTargetTile, setQueueTargetTile] = useState("");
+
+  // Drag state for queue reordering
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const tileOptions = useMemo(
+    () =>
+      city.ownedTiles.filter(
+        (c) => !sameCoord(c, city.location) && !city.districts.some((d) => sameCoord(d.tile, c)),
+      ),
+    [city.ownedTiles, city.location, city.districts],
+  );
+
+  const buildingOptions = useMemo(
+    () =>
+      city.districts.flatMap((d) =>
+        getBuildingsForDistrict(d.type).filter((b) => !d.buildings.includes(b.id)),
+      ),
+    [city.districts],
+  );
+
+  const housing = useMemo(
+    () => calculateHousing(city, tiles, setup.playerCiv, setup.map),
+    [city, tiles, setup.playerCiv, setup.map],
+  );
+  const housingStatus = getHousingStatus(city.population, housing.total);
+
+  const parseTile = (key: string): HexCoord | undefined => {
+    if (!key) return undefined;
+    const [q, r] = key.split(",").map(Number);
+    return { q, r };
+  };
+
+  const handleNumberChange = (field: "population" | "housingCap" | "amenities", value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+    updateCity(city.id, { [field]: field === "amenities" ? parsed : Math.max(0, parsed) });
+  };
+
+  const handleGovernorChange = (governorId: string) => {
+    updateCity(city.id, {
+      governor: governorId
+        ? { id: governorId, promotions: city.governor?.promotions ?? [] }
+        : undefined,
+    });
+  };
+
+  const handlePromotionsChange = (value: string) => {
+    if (!city.governor) return;
+    const promotions = value
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean);
+    updateCity(city.id, { governor: { ...city.governor, promotions } });
+  };
+
+  const handleAddDistrict = () => {
+    const target = parseTile(newDistrictTile);
+    if (!newDistrict || !target) return;
+
+    updateCity(city.id, {
+      districts: [
+        ...city.districts,
+        { type: newDistrict, tile: target, buildings: [], isPillaged: false },
+      ],
+    });
+    updateTile(target, { district: newDistrict, improvement: undefined });
+    setNewDistrict("");
+    setNewDistrictTile("");
+  };
+
+  const handleRemoveDistrict = (index: number) => {
+    const district = city.districts[index];
+    updateCity(city.id, { districts: city.districts.filter((_, i) => i !== index) });
+    if (tiles.get(coordKey(district.tile))?.district === district.type) {
+      updateTile(district.tile, { district: undefined });
+    }
+  };
+
+  const handleDistrictChange = (index: number, updates: Partial<City["districts"][number]>) => {
+    updateCity(city.id, {
+      districts: city.districts.map((d, i) => (i === index ? { ...d, ...updates } : d)),
+    });
+  };
+
+  const handleBuildingToggle = (index: number, buildingId: string) => {
+    const buildings = city.districts[index].buildings;
+    handleDistrictChange(index, {
+      buildings: buildings.includes(buildingId)
+        ? buildings.filter((b) => b !== buildingId)
+        : [...buildings, buildingId],
+    });
+  };
+
+  const handleAddToQueue = () => {
+    const itemId = queueItemId.trim();
+    if (!itemId) return;
+
+    addToBuildQueue(city.id, {
+      type: queueType,
+      itemId,
+      targetTile:
+        queueType === "district" || queueType === "wonder" ? parseTile(queueTargetTile) : undefined,
+    });
+    setQueueItemId("");
+    setQueueTargetTile("");
+  };
+
+  const handleDrop = (index: number) => {
+    if (draggedId) {
+      reorderBuildQueue(city.id, draggedId, index);
+    }
+    setDraggedId(null);
+  };
+
+  const formatQueueItem = (item: BuildQueueItem): string => {
+    switch (item.type) {
+      case "district":
+        return getDistrictDisplayName(item.itemId as DistrictType);
+      case "building":
+        return getBuildingName(item.itemId);
+      default:
+        return formatLabel(item.itemId);
+    }
+  };
+
+  return (
+    <>
+      {/* Name and core stats */}
+      <div className="field-group">
+        <label>Name</label>
+        <input
+          type="text"
+          value={city.name}
+          onChange={(e) => updateCity(city.id, { name: e.target.value })}
+        />
+      </div>
+
+      <div className="city-stats">
+        <div className="field-group">
+          <label>Population</label>
+          <input
+            type="number"
+            min={1}
+            value={city.population}
+            onChange={(e) => handleNumberChange("population", e.target.value)}
+          />
+        </div>
+        <div className="field-group">
+          <label>Housing</label>
+          <input
+            type="number"
+            min={0}
+            value={city.housingCap}
+            onChange={(e) => handleNumberChange("housingCap", e.target.value)}
+          />
+          <span
+            className="city-housing-derived"
+            title={housing.breakdown.map((b) => `${b.source}: +${b.housing}`).join("\n")}
+          >
+            Derived: {housing.total}
+          </span>
+        </div>
+        <div className="field-group">
+          <label>Amenities</label>
+          <input
+            type="number"
+            value={city.amenities}
+            onChange={(e) => handleNumberChange("amenities", e.target.value)}
+          />
+        </div>
+      </div>
+
+      {housingStatus !== "ok" && (
+        <p className={`city-housing-warning ${housingStatus}`}>
+          {housingStatus === "capped"
+            ? `Population has reached housing (${housing.total}): growth is cut by 75% or more`
+            : `Population is 1 below housing (${housing.total}): growth is halved`}
+        </p>
+      )}
+
+      <GrowthSummary city={city} />
+
+      <div className="field-group">
+        <label>Specialty</label>
+        <select
+          value={city.specialty || ""}
+          onChange={(e) =>
+            updateCity(city.id, { specialty: (e.target.value as CitySpecialty) || undefined })
+          }
+        >
+          <option value="">None</option>
+          {SPECIALTIES.map((s) => (
+            <option key={s} value={s}>
+              {formatLabel(s)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="field-group">
+        <label>Governor</label>
+        <select
+          value={city.governor?.id || ""}
+          onChange={(e) => handleGovernorChange(e.target.value)}
+        >
+          <option value="">None</option>
+          {GOVERNORS.map((g) => (
+            <option key={g.id} value={g.id}>
+              {g.name}
+            </option>
+          ))}
+        </select>
+        {city.governor && (
+          <input
+            type="text"
+            className="city-promotions-input"
+            placeholder="Promotions (comma-separated)"
+            defaultValue={city.governor.promotions.join(", ")}
+            key={city.governor.id}
+            onBlur={(e) => handlePromotionsChange(e.target.value)}
+          />
+        )}
+      </div>
+
+      {/* Districts */}
+      <h5 className="city-section-title">Districts</h5>
+      <ul className="city-district-list">
+        {city.districts.map((d, index) => (
+          <li key={`${d.type}-${coordKey(d.tile)}`} className="city-district-item">
+            <div className="city-district-row">
+              <span className="city-district-name">
+                {getDistrictLabel(d.type)} {getDistrictDisplayName(d.type)}
+                <span className="city-district-coord">
+                  ({d.tile.q}, {d.tile.r})
+                </span>
+              </span>
+              <label className="city-pillaged-toggle">
+                <input
+                  type="checkbox"
+                  checked={d.isPillaged}
+                  onChange={(e) => handleDistrictChange(index, { isPillaged: e.target.checked })}
+                />
+                Pillaged
+              </label>
+              {d.type !== "city_center" && (
+                <button
+                  className="city-remove-btn"
+                  onClick={() => handleRemoveDistrict(index)}
+                  title="Remove district"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+            {getBuildingsForDistrict(d.type).length > 0 && (
+              <div className="city-building-grid">
+                {getBuildingsForDistrict(d.type).map((b) => (
+                  <label key={b.id} className="city-building-item">
+                    <input
+                      type="checkbox"
+                      checked={d.buildings.includes(b.id)}
+                      onChange={() => handleBuildingToggle(index, b.id)}
+                    />
+                    {b.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="city-add-row">
+        <select
+          value={newDistrict}
+          onChange={(e) => setNewDistrict(e.target.value as DistrictType | "")}
+        >
+          <option value="">Add district...</option>
+          {DISTRICTS.map((d) => (
+            <option key={d} value={d}>
+              {getDistrictDisplayName(d)}
+            </option>
+          ))}
+        </select>
+        <select value={newDistrictTile} onChange={(e) => setNewDistrictTile(e.target.value)}>
+          <option value="">Tile...</option>
+          {tileOptions.map((c) => (
+            <option key={coordKey(c)} value={coordKey(c)}>
+              ({c.q}, {c.r})
+            </option>
+          ))}
+        </select>
+        <button
+          className="city-action-btn"
+          onClick={handleAddDistrict}
+          disabled={!newDistrict || !newDistrictTile}
+        >
+          Add
+        </button>
+      </div>
+
+      <CitizenPlanner city={city} />
+
+      <BorderPlanner city={city} />
+
+      <LayoutPlanner city={city} />
+
+      {/* Build Queue */}
+      <h5 className="city-section-title">Build Queue</h5>
+      {city.buildQueue.length === 0 ? (
+        <p className="city-empty">Nothing queued.</p>
+      ) : (
+        <ol className="city-queue-list">
+          {city.buildQueue.map((item, index) => (
+            <li
+              key={item.id}
+              className={`city-queue-item ${item.isLocked ? "locked" : ""} ${
+                draggedId === item.id ? "dragging" : ""
+              }`}
+              draggable={!item.isLocked}
+              onDragStart={() => setDraggedId(item.id)}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+            >
+              <span className="city-queue-handle">{item.isLocked ? "📌" : "⋮⋮"}</span>
+              <span className="city-queue-name">
+                {formatQueueItem(item)}
+                <span className="city-queue-type">{item.type}</span>
+              </span>
+              <button
+                className="city-lock-btn"
+                onClick={() => lockBuildQueueItem(city.id, item.id, !item.isLocked)}
+                title={item.isLocked ? "Unlock position" : "Lock position"}
+              >
+                {item.isLocked ? "🔒" : "🔓"}
+              </button>
+              <button
+                className="city-remove-btn"
+                onClick={() => removeFromBuildQueue(city.id, item.id)}
+                title="Remove from queue"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="city-add-row">
+        <select
+          value={queueType}
+          onChange={(e) => {
+            setQueueType(e.target.value as BuildQueueItem["type"]);
+            setQueueItemId("");
+            setQueueTargetTile("");
+          }}
+        >
+          {QUEUE_ITEM_TYPES.map((t) => (
+            <option key={t} value={t}>
+              {formatLabel(t)}
+            </option>
+          ))}
+        </select>
+        {queueType === "district" ? (
+          <select value={queueItemId} onChange={(e) => setQueueItemId(e.target.value)}>
+            <option value="">District...</option>
+            {DISTRICTS.map((d) => (
+              <option key={d} value={d}>
+                {getDistrictDisplayName(d)}
+              </option>
+            ))}
+          </select>
+        ) : queueType === "building" ? (
+          <select value={queueItemId} onChange={(e) => setQueueItemId(e.target.value)}>
+            <option value="">Building...</option>
+            {buildingOptions.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            placeholder={queueType === "unit" ? "e.g. settler" : "Item id"}
+            value={queueItemId}
+            onChange={(e) => setQueueItemId(e.target.value)}
+          />
+        )}
+        {(queueType === "district" || queueType === "wonder") && (
+          <select value={queueTargetTile} onChange={(e) => setQueueTargetTile(e.target.value)}>
+            <option value="">Tile...</option>
+            {tileOptions.map((c) => (
+              <option key={coordKey(c)} value={coordKey(c)}>
+                ({c.q}, {c.r})
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          className="city-action-btn"
+          onClick={handleAddToQueue}
+          disabled={!queueItemId.trim()}
+        >
+          Queue
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default CityPanel;
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Notifications for planned tile actions that are due now.
+ *
+ * This component lists the tile plans and planned districts whose triggers
+ * have been met (see `utils/triggerEngine`). Each notification can be applied
+ * to its tile in one click or used to jump to the tile on the map.
+ *
+ * @module renderer/components/DueNotifications
+ */
+
+import React, { useState } from "react";
+import { useGameStore } from "../store";
+import { HexCoord, StateTrigger, TilePlannedState } from "../../types/model";
+import { getCivicName } from "../data/civics";
+import { getTechName } from "../data/techs";
+import "./DueNotifications.css";
+
+/**
+ * Props for the DueNotifications component.
+ */
+interface DueNotificationsProps {
+  /** Callback fired when the user wants to see a notification's tile */
+  onSelectTile: (coord: HexCoord) => void;
+}
+
+const formatLabel = (str: string): string => {
+  return str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+const formatAction = (action: TilePlannedState["action"]): string => {
+  switch (action.type) {
+    case "place_district":
+      return `Build ${formatLabel(action.district)}`;
+    case "improve":
+      return `Build ${formatLabel(action.improvement)}`;
+    case "remove_feature":
+      return "Chop/Clear";
+    case "harvest_resource":
+      return "Harvest";
+    case "place_wonder":
+      return `Build ${formatLabel(action.wonderId)}`;
+    default:
+      return "Unknown";
+  }
+};
+
+const formatTriggerReason = (trigger: StateTrigger): string => {
+  switch (trigger.type) {
+    case "immediate":
+      return "Planned for now";
+    case "tech":
+      return `${getTechName(trigger.techId)} researched`;
+    case "civic":
+      return `${getCivicName(trigger.civicId)} completed`;
+    case "turn":
+      return `Turn ${trigger.turn} reached`;
+    case "population":
+      return `Population ${trigger.pop} reached`;
+    default:
+      return "";
+  }
+};
+
+/**
+ * Floating list of plans that are due now.
+ *
+ * Features:
+ * - One notification per due tile plan or planned district
+ * - Shows the action, tile, and the trigger that fired
+ * - "Apply" updates the tile (district, improvement, features) and removes the plan
+ * - "Show" selects the tile in the inspector
+ * - Hidden when nothing is due
+ *
+ * @param props - Component props
+ * @param props.onSelectTile - Callback to select a tile on the map
+ *
+ * @example
+ * <DueNotifications onSelectTile={handleTileSelect} />
+ */
+const DueNotifications: React.FC<DueNotificationsProps> = ({ onSelectTile }) => {
+  const dueItems = useGameStore((s) => s.dueItems);
+  const applyDueItem = useGameStore((s) => s.applyDueItem);
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  if (dueItems.length === 0) return null;
+
+  return (
+    <div className="due-notifications glass-panel">
+      <button className="due-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="due-title">
+          <span className="due-title-icon">🔔</span>
+          Due now
+          <span className="due-count">{dueItems.length}</span>
+        </span>
+        <span className={`expand-arrow ${isExpanded ? "expanded" : ""}`}>▼</span>
+      </button>
+
+      {isExpanded && (
+        <ul className="due-list">
+          {dueItems.map((item) => (
+            <li key={item.id} className="due-item">
+              <div className="due-info">
+                <span className="due-action">
+                  {formatAction(item.action)}{" "}
+                  <span className="due-coord">
+                    ({item.coord.q}, {item.coord.r})
+                  </span>
+                </span>
+                <span className="due-reason">{formatTriggerReason(item.trigger)}</span>
+                {item.rationale && <span className="due-rationale">{item.rationale}</span>}
+              </div>
+              <div className="due-buttons">
+                <button className="due-show-btn" onClick={() => onSelectTile(item.coord)}>
+                  Show
+                </button>
+                <button className="due-apply-btn" onClick={() => applyDueItem(item.id)}>
+                  Apply
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DueNotifications;
@@ -0,0 +1,288 @@
+/**
+ * @fileoverview Expansion queue panel.
+ *
+ * This component lists the planned settlements in the order they should be
+ * settled. Each site has a target turn, a status, the city producing its
+ * settler and a justification (also edited in the city panel). Confirming a site queues a settler in the chosen
+ * city, and founding it adds the city on the site. Statuses only change
+ * through these actions, so a site's status always matches the build queue.
+ *
+ * @module renderer/components/ExpansionPanel
+ */
+
+import React, { useState } from "react";
+import { useGameStore } from "../store";
+import { City, HexCoord, PlannedSettlement } from "../../types/model";
+import "./ExpansionPanel.css";
+
+/**
+ * Props for the ExpansionPanel component.
+ */
+interface ExpansionPanelProps {
+  /** Callback fired when the close button is clicked */
+  onClose: () => void;
+  /** Callback fired when the user wants to see a site on the map */
+  onSelectTile: (coord: HexCoord) => void;
+}
+
+const formatLabel = (str: string): string => {
+  return str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+// ============================================================================
+// SETTLEMENT ITEM
+// ============================================================================
+
+/**
+ * Props for the SettlementItem subcomponent.
+ */
+interface SettlementItemProps {
+  settlement: PlannedSettlement;
+  cities: City[];
+  currentTurn: number;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+  onSelectTile: (coord: HexCoord) => void;
+}
+
+/**
+ * One planned settlement with its editable fields and actions.
+ */
+const SettlementItem: React.FC<SettlementItemProps> = ({
+  settlement,
+  cities,
+  currentTurn,
+  isDragging,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+  onSelectTile,
+}) => {
+  const {
+    updatePlannedSettlement,
+    removePlannedSettlement,
+    confirmPlannedSettlement,
+    markSettlerBuilt,
+    cancelPlannedSettlement,
+    settlePlannedSettlement,
+  } = useGameStore();
+  const [cityName, setCityName] = useState("");
+
+  const { id, location, status, targetTurn, producingCityId } = settlement;
+  const isSettled = status === "settled";
+  const isLate = !isSettled && targetTurn !== undefined && currentTurn > targetTurn;
+
+  const handleTargetTurnChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    updatePlannedSettlement(id, { targetTurn: isNaN(parsed) ? undefined : Math.max(1, parsed) });
+  };
+
+  const handleSettle = () => {
+    settlePlannedSettlement(id, cityName);
+    setCityName("");
+  };
+
+  return (
+    <li
+      className={`expansion-item ${isSettled ? "settled" : ""} ${isDragging ? "dragging" : ""}`}
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={onDrop}
+    >
+      <div className="expansion-row">
+        <span className="expansion-handle">⋮⋮</span>
+        <button className="expansion-site" onClick={() => onSelectTile(location)}>
+          ⛺ ({location.q}, {location.r})
+        </button>
+        <span className={`expansion-status ${status}`}>{formatLabel(status)}</span>
+        <button
+          className="expansion-remove-btn"
+          onClick={() => removePlannedSettlement(id)}
+          title="Remove from expansion queue"
+        >
+          ×
+        </button>
+      </div>
+
+      {!isSettled && (
+        <div className="expansion-fields">
+          <label>
+            Target turn
+            <input
+              type="number"
+              min={1}
+              value={targetTurn ?? ""}
+              onChange={(e) => handleTargetTurnChange(e.target.value)}
+            />
+          </label>
+          <label>
+            Settler from
+            <select
+              value={producingCityId ?? ""}
+              disabled={status !== "planned"}
+              title={status !== "planned" ? "Cancel the settler to change cities" : undefined}
+              onChange={(e) =>
+                updatePlannedSettlement(id, { producingCityId: e.target.value || undefined })
+              }
+            >
+              <option value="">City...</option>
+              {cities.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {isLate && <p className="expansion-warning">Behind schedule: target was turn {targetTurn}</p>}
+
+      <input
+        type="text"
+        className="expansion-justification"
+        placeholder="Justification (why this site is worth it)"
+        defaultValue={settlement.justification ?? ""}
+        key={`${id}-${settlement.justification ?? ""}`}
+        onBlur={(e) =>
+          updatePlannedSettlement(id, { justification: e.target.value.trim() || undefined })
+        }
+      />
+
+      {status === "planned" && (
+        <div className="expansion-actions">
+          <button
+            className="expansion-action-btn"
+            onClick={() => producingCityId && confirmPlannedSettlement(id, producingCityId)}
+            disabled={!producingCityId}
+            title="Add a settler to the producing city's build queue"
+          >
+            Queue Settler
+          </button>
+        </div>
+      )}
+
+      {(status === "in_production" || status === "en_route") && (
+        <div className="expansion-actions">
+          {status === "in_production" && (
+            <button
+              className="expansion-action-btn"
+              onClick={() => markSettlerBuilt(id)}
+              title="The settler is built and on its way"
+            >
+              Settler Built
+            </button>
+          )}
+          <button
+            className="expansion-action-btn secondary"
+            onClick={() => cancelPlannedSettlement(id)}
+            title={
+              status === "in_production"
+                ? "Remove the settler from the producing city's build queue"
+                : "The settler won't found this site; plan it again"
+            }
+          >
+            Cancel Settler
+          </button>
+        </div>
+      )}
+
+      {!isSettled && (
+        <div className="expansion-actions">
+          <input
+            type="text"
+            placeholder="City name"
+            value={cityName}
+            onChange={(e) => setCityName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSettle()}
+          />
+          <button
+            className="expansion-action-btn"
+            onClick={handleSettle}
+            disabled={!cityName.trim()}
+          >
+            Found City
+          </button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Side panel for the expansion queue.
+ *
+ * Features:
+ * - Planned settlements in settle order, drag to reorder
+ * - Target turn (flagged when it has passed), status, producing city, justification
+ * - Queue a settler in the producing city's build queue, mark it built, or
+ *   cancel it (which removes it from the queue)
+ * - Found the city on the site once the settler arrives
+ *
+ * Sites are added from the City panel of an empty tile.
+ *
+ * @param props - Component props
+ * @param props.onClose - Callback to close the panel
+ * @param props.onSelectTile - Callback to select a site's tile
+ *
+ * @example
+ * {showExpansion && (
+ *   <ExpansionPanel onClose={() => setShowExpansion(false)} onSelectTile={handleTileSelect} />
+ * )}
+ */
+const ExpansionPanel: React.FC<ExpansionPanelProps> = ({ onClose, onSelectTile }) => {
+  const { plannedSettlements, cities, currentTurn, reorderPlannedSettlements } = useGameStore();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (draggedId) {
+      reorderPlannedSettlements(draggedId, index);
+    }
+    setDraggedId(null);
+  };
+
+  return (
+    <div className="expansion-panel">
+      <div className="expansion-panel-header">
+        <h3>Expansion</h3>
+        <button className="close-btn" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div className="expansion-panel-content">
+        {plannedSettlements.length === 0 ? (
+          <p className="expansion-empty">
+            No planned settlements. Select an empty tile and use Plan Settlement in its City panel.
+          </p>
+        ) : (
+          <ol className="expansion-queue">
+            {plannedSettlements.map((settlement, index) => (
+              <SettlementItem
+                key={settlement.id}
+                settlement={settlement}
+                cities={cities}
+                currentTurn={currentTurn}
+                isDragging={draggedId === settlement.id}
+                onDragStart={() => setDraggedId(settlement.id)}
+                onDragEnd={() => setDraggedId(null)}
+                onDrop={() => handleDrop(index)}
+                onSelectTile={onSelectTile}
+              />
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpansionPanel;
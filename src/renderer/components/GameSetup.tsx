@@ -2,15 +2,23 @@
  * @fileoverview Game setup screen component for new game configuration.
  *
  * This component provides the initial game setup form where players select
- * their civilization, leader, victory type, game speed, and enabled DLC/modes.
+ * their civilization, leader, victory type, game speed, map size, and enabled
+ * DLC/modes.
  *
  * @module renderer/components/GameSetup
  */
 
 import React, { useState, useMemo } from "react";
 import { useGameStore } from "../store";
-import { GameSetup as GameSetupType, VictoryType, GameSpeed } from "../../types/model";
+import {
+  GameSetup as GameSetupType,
+  VictoryType,
+  GameSpeed,
+  MapSettings,
+  MapSize,
+} from "../../types/model";
 import { CIVS } from "../data/civs";
+import { MAP_SIZES } from "../data/mapSizes";
 import "./GameSetup.css";
 
 /**
@@ -43,6 +51,13 @@ const GAME_SPEEDS: { value: GameSpeed; label: string }[] = [
   { value: "marathon", label: "Marathon" },
 ];
 
+/** Allowed range for custom map dimensions, in tiles. */
+const MIN_MAP_DIMENSION = 10;
+const MAX_MAP_DIMENSION = 256;
+
+const isValidDimension = (n: number): boolean =>
+  Number.isInteger(n) && n >= MIN_MAP_DIMENSION && n <= MAX_MAP_DIMENSION;
+
 /**
  * Game setup screen for configuring a new planning session.
  *
@@ -51,6 +66,7 @@ const GAME_SPEEDS: { value: GameSpeed; label: string }[] = [
  * - Leader dropdown (filtered by selected civ) with ability preview
  * - Victory type button grid
  * - Game speed radio buttons
+ * - Map size preset or custom width/height, and east–west wrapping
  * - DLC and game mode checkboxes
  *
  * When the user clicks "Start Planning", creates a new game in the store
@@ -74,6 +90,9 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
   const [selectedLeader, setSelectedLeader] = useState<string>("");
   const [victoryType, setVictoryType] = useState<VictoryType>("science");
   const [gameSpeed, setGameSpeed] = useState<GameSpeed>("standard");
+  const [mapSize, setMapSize] = useState<MapSize>("standard");
+  const [customSize, setCustomSize] = useState({ width: 84, height: 54 });
+  const [wrapX, setWrapX] = useState(true);
   const [dlc, setDlc] = useState({
     gatheringStorm: true,
     riseFall: true,
@@ -98,14 +117,22 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
     setDlc((prev) => ({ ...prev, [key]: !prev[key] }));
   };
 
+  const map = useMemo((): MapSettings => {
+    const preset = MAP_SIZES.find((m) => m.value === mapSize);
+    const { width, height } = preset ?? customSize;
+    return { size: mapSize, width, height, wrapX };
+  }, [mapSize, customSize, wrapX]);
+  const mapValid = isValidDimension(map.width) && isValidDimension(map.height);
+
   const handleStart = () => {
-    if (!selectedCiv || !selectedLeader) return;
+    if (!selectedCiv || !selectedLeader || !mapValid) return;
 
     const setup: GameSetupType = {
       playerCiv: selectedCiv,
       playerLeader: selectedLeader,
       victoryType,
       gameSpeed,
+      map,
       dlc,
     };
 
@@ -113,7 +140,7 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
     onStart();
   };
 
-  const canStart = selectedCiv && selectedLeader;
+  const canStart = selectedCiv && selectedLeader && mapValid;
 
   return (
     <div className="game-setup">
@@ -209,6 +236,62 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
             </div>
           </section>
 
+          {/* Map */}
+          <section className="setup-section wide">
+            <h2>Map</h2>
+            <div className="map-options">
+              <select
+                value={mapSize}
+                onChange={(e) => setMapSize(e.target.value as MapSize)}
+                className="setup-select"
+              >
+                {MAP_SIZES.map((size) => (
+                  <option key={size.value} value={size.value}>
+                    {size.label} ({size.width}×{size.height})
+                  </option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+              {mapSize === "custom" && (
+                <div className="map-dimensions">
+                  <input
+                    type="number"
+                    min={MIN_MAP_DIMENSION}
+                    max={MAX_MAP_DIMENSION}
+                    value={customSize.width}
+                    onChange={(e) =>
+                      setCustomSize((prev) => ({ ...prev, width: Number(e.target.value) }))
+                    }
+                    className="setup-input"
+                    title="Width (columns)"
+                  />
+                  <span>×</span>
+                  <input
+                    type="number"
+                    min={MIN_MAP_DIMENSION}
+                    max={MAX_MAP_DIMENSION}
+                    value={customSize.height}
+                    onChange={(e) =>
+                      setCustomSize((prev) => ({ ...prev, height: Number(e.target.value) }))
+                    }
+                    className="setup-input"
+                    title="Height (rows)"
+                  />
+                </div>
+              )}
+              <label className="checkbox-label">
+                <input type="checkbox" checked={wrapX} onChange={() => setWrapX(!wrapX)} />
+                <span>Wraps east–west</span>
+              </label>
+            </div>
+            {!mapValid && (
+              <p className="map-error">
+                Width and height must be whole numbers from {MIN_MAP_DIMENSION} to{" "}
+                {MAX_MAP_DIMENSION}.
+              </p>
+            )}
+          </section>
+
           {/* DLC & Modes */}
           <section className="setup-section wide">
             <h2>DLC & Game Modes</h2>
@@ -7,16 +7,27 @@
  * @module renderer/components/GameView
  */
 
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useGameStore } from "../store";
 import { HexCoord, DistrictType, coordKey, GameSetup } from "../../types/model";
 import HexGrid from "./HexGrid";
 import TileInspector from "./TileInspector";
-import OverlayControls from "./OverlayControls";
+import OverlayControls, { YieldOverlaySettings } from "./OverlayControls";
+import PaintToolbar, { DEFAULT_PAINT_SETTINGS, PaintSettings } from "./PaintToolbar";
+import ResearchPanel from "./ResearchPanel";
+import ExpansionPanel from "./ExpansionPanel";
+import DueNotifications from "./DueNotifications";
+import SaveIntegrityDialog from "./SaveIntegrityDialog";
 import { CIVS } from "../data/civs";
 import { deserialize, serialize } from "../utils/persistence";
+import { migrateSave } from "../utils/migrations";
+import { SaveIssueKind, SaveReport, repairSave, validateSave } from "../utils/saveValidator";
+import { SettleState, findBestSettleLocations } from "../utils/settleScorer";
 import "./GameView.css";
 
+/** Quiet time after a map or city change before settle locations are re-ranked. */
+const SETTLE_RESCORE_DELAY_MS = 500;
+
 /**
  * Props for the GameView component.
  */
@@ -26,6 +37,8 @@ interface GameViewProps {
    * Used to navigate back to the setup screen.
    */
   onNewGame: () => void;
+  /** Problems found in the autosave on startup, shown once the view opens */
+  startupReport?: SaveReport | null;
 }
 
 /**
@@ -34,8 +47,11 @@ interface GameViewProps {
  * Layout structure:
  * - Header bar: Civ/leader info, turn counter, stats, and "New Game" button
  * - Content area: HexGrid map (fills available space)
+ * - Left sidebar: ResearchPanel and ExpansionPanel (toggled from the header)
+ * - Map overlay: DueNotifications (plans whose triggers have fired) and the
+ *   PaintToolbar while paint mode is on
  * - Sidebar: TileInspector (appears when a tile is selected)
- * - Dialog overlay: Turn advancement modal
+ * - Dialog overlay: Turn advancement modal and save integrity report
  *
  * State management:
  * - Selected tile coordinates tracked locally
@@ -44,6 +60,7 @@ interface GameViewProps {
  *
  * @param props - Component props
  * @param props.onNewGame - Callback to return to setup screen
+ * @param props.startupReport - Autosave problems to report on open
  *
  * @example
  * const [showGame, setShowGame] = useState(false);
@@ -53,9 +70,10 @@ interface GameViewProps {
  * }
  * return <GameView onNewGame={() => setShowGame(false)} />;
  */
-const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
+const GameView: React.FC<GameViewProps> = ({ onNewGame, startupReport }) => {
   const gameState = useGameStore();
-  const { setup, currentTurn, cities, tiles, advanceTurn, loadState, newGame } = gameState;
+  const { setup, currentTurn, cities, tiles, advanceTurn, loadState, newGame, refreshConflicts } =
+    gameState;
 
   const [selectedCoord, setSelectedCoord] = useState<HexCoord | null>(null);
   const [showTurnDialog, setShowTurnDialog] = useState(false);
@@ -65,6 +83,15 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
     message: string;
   } | null>(null);
   const [overlayDistrict, setOverlayDistrict] = useState<DistrictType | null>(null);
+  const [yieldOverlay, setYieldOverlay] = useState<YieldOverlaySettings | null>(null);
+  const [showSettleSpots, setShowSettleSpots] = useState(false);
+  const [showResearch, setShowResearch] = useState(false);
+  const [showExpansion, setShowExpansion] = useState(false);
+  const [paint, setPaint] = useState<PaintSettings | null>(null);
+  const [integrityReport, setIntegrityReport] = useState<{
+    report: SaveReport;
+    source: string;
+  } | null>(startupReport?.issues.length ? { report: startupReport, source: "Autosave" } : null);
 
   // Ref for status timeout to enable cleanup on unmount
   const statusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -78,6 +105,36 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
     };
   }, []);
 
+  // Re-check plan and ownership conflicts whenever the map, cities or AI claims change
+  const { aiCivs, completedTechs, completedCivics } = gameState;
+  useEffect(() => {
+    refreshConflicts();
+  }, [tiles, cities, aiCivs, refreshConflicts]);
+
+  // Scoring the whole map takes a while on large maps, so settle locations
+  // are only re-ranked once edits (e.g. a run of paint strokes) pause
+  const [settleState, setSettleState] = useState<SettleState>(() => ({
+    setup,
+    tiles,
+    cities,
+    aiCivs,
+    completedTechs,
+    completedCivics,
+  }));
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setSettleState({ setup, tiles, cities, aiCivs, completedTechs, completedCivics }),
+      SETTLE_RESCORE_DELAY_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [setup, tiles, cities, aiCivs, completedTechs, completedCivics]);
+
+  // Best settle locations, only computed while the settle overlay is on
+  const settleSpots = useMemo(
+    () => (showSettleSpots ? findBestSettleLocations(settleState) : null),
+    [showSettleSpots, settleState],
+  );
+
   // Get civ and leader names
   const civData = CIVS.find((c) => c.id === setup.playerCiv);
   const leaderData = civData?.leaders.find((l) => l.id === setup.playerLeader);
@@ -97,12 +154,15 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
       currentEra: gameState.currentEra,
       tiles: gameState.tiles,
       cities: gameState.cities,
+      plannedSettlements: gameState.plannedSettlements,
       completedTechs: gameState.completedTechs,
       completedCivics: gameState.completedCivics,
       currentTech: gameState.currentTech,
       currentCivic: gameState.currentCivic,
       techQueue: gameState.techQueue,
       civicQueue: gameState.civicQueue,
+      sciencePerTurn: gameState.sciencePerTurn,
+      culturePerTurn: gameState.culturePerTurn,
       policyLoadout: gameState.policyLoadout,
       gold: gameState.gold,
       faith: gameState.faith,
@@ -113,6 +173,46 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
     return JSON.stringify(serialized, null, 2);
   };
 
+  /**
+   * Check the loaded game for broken references. Opens the report when
+   * problems are found and returns whether there were any.
+   */
+  const checkIntegrity = (source: string): boolean => {
+    const report = validateSave(JSON.parse(getSerializedStateJson()));
+    setIntegrityReport(report.issues.length > 0 ? { report, source } : null);
+    return report.issues.length > 0;
+  };
+
+  const handleApplyFixes = (kinds: SaveIssueKind[]) => {
+    try {
+      const data = JSON.parse(getSerializedStateJson());
+      const before = validateSave(data).issues.length;
+      const repaired = repairSave(data, kinds);
+      const after = validateSave(repaired).issues.length;
+      loadState(deserialize(repaired));
+      setIntegrityReport(null);
+      showStatus(`Fixed ${before - after} problem${before - after === 1 ? "" : "s"}`, "success");
+    } catch (error) {
+      showStatus(`Repair failed: ${String(error)}`, "error");
+    }
+  };
+
+  // The menu listener is registered once, so route it through a ref to the latest state
+  const menuCheckRef = useRef<() => void>(() => undefined);
+  menuCheckRef.current = () => {
+    if (!checkIntegrity("the current game")) {
+      showStatus("No save problems found", "success");
+    }
+  };
+
+  useEffect(
+    () =>
+      window.electronAPI.onMenuCommand((command) => {
+        if (command === "check-save-integrity") menuCheckRef.current();
+      }),
+    [],
+  );
+
   const handleTileSelect = useCallback((coord: HexCoord) => {
     setSelectedCoord(coord);
   }, []);
@@ -170,9 +270,13 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
         return;
       }
 
-      const state = deserialize(parsed as Parameters<typeof deserialize>[0]);
-      loadState(state);
-      showStatus(`Loaded ${result.path}`, "success");
+      const { data } = migrateSave(parsed as Parameters<typeof migrateSave>[0]);
+      loadState(deserialize(data));
+      const report = validateSave(data);
+      setIntegrityReport(
+        report.issues.length > 0 ? { report, source: result.path ?? "the loaded file" } : null,
+      );
+      showStatus(`Loaded ${result.path}`, report.issues.length > 0 ? "info" : "success");
     } catch (error) {
       showStatus(`Load failed: ${String(error)}`, "error");
     }
@@ -264,6 +368,27 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
 
         <div className="header-right">
           <div className="header-actions">
+            <button
+              className={`header-action-btn ${showResearch ? "active" : ""}`}
+              onClick={() => setShowResearch(!showResearch)}
+              title="Tech and civic queues"
+            >
+              Research
+            </button>
+            <button
+              className={`header-action-btn ${showExpansion ? "active" : ""}`}
+              onClick={() => setShowExpansion(!showExpansion)}
+              title="Expansion queue"
+            >
+              Expansion
+            </button>
+            <button
+              className={`header-action-btn ${paint ? "active" : ""}`}
+              onClick={() => setPaint(paint ? null : DEFAULT_PAINT_SETTINGS)}
+              title="Paint terrain, features, resources and rivers"
+            >
+              Paint
+            </button>
             <button className="header-action-btn" onClick={handleSaveAs} title="Export to file">
               Save As…
             </button>
@@ -303,16 +428,33 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
 
       {/* Main content */}
       <div className="game-content">
+        {showResearch && <ResearchPanel onClose={() => setShowResearch(false)} />}
+        {showExpansion && (
+          <ExpansionPanel onClose={() => setShowExpansion(false)} onSelectTile={handleTileSelect} />
+        )}
+
         <div className="map-container">
           <HexGrid
             onTileSelect={handleTileSelect}
             selectedTile={selectedCoord}
             overlayDistrict={overlayDistrict}
+            yieldOverlay={yieldOverlay}
+            settleSpots={settleSpots}
+            paint={paint}
           />
+          {paint && (
+            <PaintToolbar settings={paint} onChange={setPaint} onClose={() => setPaint(null)} />
+          )}
           <OverlayControls
             selectedDistrict={overlayDistrict}
             onDistrictChange={setOverlayDistrict}
+            yieldOverlay={yieldOverlay}
+            onYieldOverlayChange={setYieldOverlay}
+            settleSpots={settleSpots}
+            onSettleToggle={setShowSettleSpots}
+            onSettleSelect={handleTileSelect}
           />
+          <DueNotifications onSelectTile={handleTileSelect} />
         </div>
 
         {selectedCoord && (
@@ -320,6 +462,15 @@ const GameView: React.FC<GameViewProps> = ({ onNewGame }) => {
         )}
       </div>
 
+      {integrityReport && (
+        <SaveIntegrityDialog
+          report={integrityReport.report}
+          source={integrityReport.source}
+          onApply={handleApplyFixes}
+          onClose={() => setIntegrityReport(null)}
+        />
+      )}
+
       {/* Turn advancement dialog */}
       {showTurnDialog && (
         <div className="dialog-overlay" onClick={() => setShowTurnDialog(false)}>
@@ -5,12 +5,17 @@
  * pan/zoom navigation. It displays tiles with terrain, features,
  * districts, improvements, and planning indicators.
  *
+ * Only hexes inside the visible area are rendered. Terrain and markers are
+ * memoized per tile, so panning only mounts the tiles that scroll into view,
+ * and each overlay is its own layer. Above {@link CANVAS_TILE_THRESHOLD}
+ * tiles, terrain is drawn on a canvas under the SVG.
+ *
  * @module renderer/components/HexGrid
  */
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { useGameStore } from "../store";
-import { HexCoord, Tile, DistrictType, coordKey } from "../../types/model";
+import { City, HexCoord, MapBounds, Tile, DistrictType, coordKey } from "../../types/model";
 import {
   hexToPixel,
   pixelToHex,
@@ -22,6 +27,12 @@ import {
   getHillsPatternColor,
   getResourceColor,
   getRiverEdgePoints,
+  formatOffset,
+  isOnMap,
+  offsetToAxial,
+  parseOffset,
+  wrapCoord,
+  HEX_HEIGHT,
   HEX_SIZE,
 } from "../utils/hexUtils";
 import {
@@ -29,8 +40,41 @@ import {
   getAdjacencyColor,
   isWaterDistrict,
 } from "../utils/adjacencyCalculator";
+import {
+  calculateAllTileYields,
+  getYieldColor,
+  YieldResult,
+  YIELD_TYPES,
+  YieldType,
+} from "../utils/yieldCalculator";
+import {
+  CANVAS_TILE_THRESHOLD,
+  ViewBox,
+  centerViewBoxOn,
+  ViewportSize,
+  getHexesInRect,
+  getTilesInRect,
+  getUnitsPerPixel,
+  getVisibleRect,
+  mapToScreen,
+  screenToMap,
+  zoomViewBox,
+} from "../utils/mapViewport";
+import { projectPlannedTiles } from "../utils/tilePlans";
+import { SettleCandidate } from "../utils/settleScorer";
+import { analyzeCityOverlap, CityOverlapAnalysis, isFoundableTile } from "../utils/cityOverlap";
+import { floodFill, getStrokeHexes, traceStroke } from "../utils/mapPainter";
+import { YieldOverlaySettings } from "./OverlayControls";
+import { PaintSettings } from "./PaintToolbar";
+import Minimap from "./Minimap";
 import "./HexGrid.css";
 
+/**
+ * Guide hexes are drawn for empty positions on the map, or within this range
+ * of the origin for plans made before maps had a size.
+ */
+const GUIDE_RANGE = 10;
+
 /**
  * Props for the HexGrid component.
  */
@@ -53,6 +97,26 @@ interface HexGridProps {
    * Pass null or undefined to disable overlay.
    */
   overlayDistrict?: DistrictType | null;
+
+  /**
+   * Tile yield overlay settings.
+   * When set, draws each tile's yields and optionally heat-maps one yield type.
+   * Pass null or undefined to disable overlay.
+   */
+  yieldOverlay?: YieldOverlaySettings | null;
+
+  /**
+   * Ranked settle locations to mark on the map.
+   * Pass null or undefined to disable overlay.
+   */
+  settleSpots?: SettleCandidate[] | null;
+
+  /**
+   * Paint mode settings.
+   * When set, left-drag paints the map instead of selecting tiles.
+   * Pass null or undefined to disable paint mode.
+   */
+  paint?: PaintSettings | null;
 }
 
 /** Shape of one entry in the adjacency overlay (coord, bonus, canPlace). */
@@ -68,92 +132,920 @@ interface OverlayDatum {
 interface AdjacencyOverlayProps {
   overlayDistrict: DistrictType;
   tiles: Map<string, Tile>;
+  visibleTiles: Tile[];
   playerCiv: string;
+  map?: MapBounds;
 }
 
 /**
  * Renders adjacency bonus overlay badges on tiles for a given district type.
  * Encapsulates overlay data computation and SVG rendering.
+ *
+ * Bonuses are only calculated for visible tiles and cached until the map,
+ * district or civ changes, so panning reuses earlier results.
  */
-const AdjacencyOverlay: React.FC<AdjacencyOverlayProps> = ({
-  overlayDistrict,
-  tiles,
-  playerCiv,
-}) => {
-  const overlayData = useMemo(() => {
-    const data: OverlayDatum[] = [];
+const AdjacencyOverlay = React.memo<AdjacencyOverlayProps>(
+  ({ overlayDistrict, tiles, visibleTiles, playerCiv, map }) => {
+    const cache = useMemo(
+      () => new Map<string, OverlayDatum>(),
+      // A new cache whenever the district, map or civ changes
+      [overlayDistrict, tiles, playerCiv, map],
+    );
 
-    tiles.forEach((tile) => {
-      const hasDistrict = tile.district !== undefined && tile.district !== "city_center";
-      const isMountain = tile.modifier === "mountain";
-      const isWater = tile.terrain === "coast" || tile.terrain === "ocean";
-      const canPlaceOnWater = isWaterDistrict(overlayDistrict) && isWater;
-      const canPlaceOnLand = !isWater && !isMountain && !hasDistrict;
-
-      const canPlace = canPlaceOnWater || canPlaceOnLand;
-
-      const result = calculateAdjacency(tile.coord, overlayDistrict, tiles, playerCiv);
-      data.push({
-        coord: tile.coord,
-        bonus: result.bonus,
-        canPlace,
-      });
-    });
+    const overlayData = useMemo(
+      () =>
+        visibleTiles.map((tile) => {
+          const key = coordKey(tile.coord);
+          const cached = cache.get(key);
+          if (cached) return cached;
+
+          const hasDistrict = tile.district !== undefined && tile.district !== "city_center";
+          const isMountain = tile.modifier === "mountain";
+          const isWater = tile.terrain === "coast" || tile.terrain === "ocean";
+          const canPlaceOnWater = isWaterDistrict(overlayDistrict) && isWater;
+          const canPlaceOnLand = !isWater && !isMountain && !hasDistrict;
+
+          const canPlace = canPlaceOnWater || canPlaceOnLand;
+
+          const result = calculateAdjacency(tile.coord, overlayDistrict, tiles, playerCiv, map);
+          const datum = { coord: tile.coord, bonus: result.bonus, canPlace };
+          cache.set(key, datum);
+          return datum;
+        }),
+      [cache, visibleTiles, overlayDistrict, tiles, playerCiv, map],
+    );
+
+    if (!overlayData.length) return null;
+
+    return (
+      <g className="adjacency-overlays" pointerEvents="none">
+        {overlayData.map(({ coord, bonus, canPlace }) => {
+          if (!canPlace) return null;
+
+          const { x, y } = hexToPixel(coord);
+          const color = getAdjacencyColor(bonus);
+          const key = coordKey(coord);
+
+          return (
+            <g key={`overlay-${key}`} className="adjacency-overlay" pointerEvents="none">
+              <circle
+                cx={x}
+                cy={y}
+                r={HEX_SIZE * 0.4}
+                fill={color}
+                opacity={0.85}
+                stroke="#fff"
+                strokeWidth={2}
+              />
+              <text
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={HEX_SIZE * 0.4}
+                fontWeight="bold"
+                fill="#fff"
+                style={{ textShadow: "0 1px 2px rgba(0,0,0,0.5)" }}
+              >
+                +{bonus}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+    );
+  },
+);
+
+/**
+ * Renders numbered badges on the ranked settle locations.
+ * Hovering a badge shows the score breakdown.
+ */
+const SettleOverlay: React.FC<{ spots: SettleCandidate[] }> = ({ spots }) => (
+  <g className="settle-overlays">
+    {spots.map((spot, index) => {
+      const { x, y } = hexToPixel(spot.coord);
+      return (
+        <g key={`settle-${coordKey(spot.coord)}`} className="settle-overlay">
+          <title>
+            {`#${index + 1} (${spot.coord.q}, ${spot.coord.r}): ${spot.score.toFixed(1)}\n`}
+            {spot.factors.map((f) => `${f.label} (${f.score > 0 ? "+" : ""}${f.score})`).join("\n")}
+          </title>
+          <polygon
+            points={hexCorners({ x, y })}
+            fill="none"
+            stroke="#38bdf8"
+            strokeWidth={3}
+            strokeDasharray="6 4"
+            pointerEvents="none"
+          />
+          <circle
+            cx={x}
+            cy={y}
+            r={HEX_SIZE * 0.35}
+            fill="#0ea5e9"
+            opacity={0.9}
+            stroke="#fff"
+            strokeWidth={2}
+          />
+          <text
+            x={x}
+            y={y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={HEX_SIZE * 0.4}
+            fontWeight="bold"
+            fill="#fff"
+            pointerEvents="none"
+          >
+            {index + 1}
+          </text>
+        </g>
+      );
+    })}
+  </g>
+);
+
+/**
+ * Highlights the tiles a proposed city site shares with other cities, and
+ * rings the city centers it is too close to.
+ */
+const SiteOverlapOverlay: React.FC<{ analysis: CityOverlapAnalysis }> = ({ analysis }) => (
+  <g className="site-overlap-overlays" pointerEvents="none">
+    {analysis.overlappingTiles.map((t) => (
+      <polygon
+        key={`overlap-${coordKey(t.coord)}`}
+        points={hexCorners(hexToPixel(t.coord))}
+        fill="#f59e0b"
+        fillOpacity={t.isOwned ? 0.35 : 0.18}
+        stroke="#f59e0b"
+        strokeWidth={1.5}
+      />
+    ))}
+    {analysis.spacingViolations.map((v) => {
+      const { x, y } = hexToPixel(v.location);
+      return (
+        <circle
+          key={`spacing-${coordKey(v.location)}`}
+          cx={x}
+          cy={y}
+          r={HEX_SIZE * 0.75}
+          fill="none"
+          stroke="#ef4444"
+          strokeWidth={3}
+          strokeDasharray="5 3"
+        />
+      );
+    })}
+  </g>
+);
+
+// ============================================================================
+// TILE LAYERS
+// ============================================================================
+
+/** Emoji shown in the corner when a district or improvement hides the feature. */
+const FEATURE_ICONS: Record<string, string> = {
+  woods: "🌲",
+  rainforest: "🌴",
+  marsh: "🌿",
+  floodplains: "〰️",
+  reef: "🪸",
+  geothermal: "♨️",
+  volcanic_soil: "🌋",
+  oasis: "🏝️",
+  cliffs: "🧗",
+};
+
+/**
+ * Terrain of one hex: base color, feature graphics, hills, mountains and
+ * rivers. Memoized, so it only re-renders when the tile object changes.
+ */
+const HexTerrain = React.memo<{ tile: Tile; isCityCenter: boolean }>(({ tile, isCityCenter }) => {
+  const { x, y } = hexToPixel(tile.coord);
+  const points = hexCorners({ x, y });
+
+  const terrainColor = getTerrainColor(tile.terrain, tile.modifier);
+  const featureColor = tile.features.length > 0 ? getFeatureColor(tile.features[0]) : null;
+  const isMountain = tile.modifier === "mountain";
+  const isHills = tile.modifier === "hills";
 
-    return data;
-  }, [overlayDistrict, tiles, playerCiv]);
+  // Hills pattern - create triangular indicators
+  const hillsPatternColor = isHills ? getHillsPatternColor(tile.terrain) : null;
 
-  if (!overlayData.length) return null;
+  // Show feature graphics only when no district/improvement to avoid overlap
+  const primaryFeature = tile.features.length > 0 ? tile.features[0] : null;
+  const hasDistrict = !!tile.district || isCityCenter;
+  const showFeatureGraphics = primaryFeature && !hasDistrict && !tile.improvement && !isMountain;
 
   return (
-    <g className="adjacency-overlays" pointerEvents="none">
-      {overlayData.map(({ coord, bonus, canPlace }) => {
-        if (!canPlace) return null;
-
-        const { x, y } = hexToPixel(coord);
-        const color = getAdjacencyColor(bonus);
-        const key = coordKey(coord);
-
-        return (
-          <g key={`overlay-${key}`} className="adjacency-overlay" pointerEvents="none">
-            <circle
-              cx={x}
-              cy={y}
-              r={HEX_SIZE * 0.4}
-              fill={color}
-              opacity={0.85}
-              stroke="#fff"
-              strokeWidth={2}
-            />
+    <g className="hex-tile">
+      {/* Base terrain */}
+      <polygon
+        points={points}
+        fill={terrainColor}
+        stroke="#2d3748"
+        strokeWidth={2}
+        className="hex-polygon"
+      />
+
+      {/* Feature overlay - different patterns for different features */}
+      {showFeatureGraphics && featureColor && (
+        <polygon points={points} fill={featureColor} pointerEvents="none" />
+      )}
+
+      {/* Feature-specific patterns for better differentiation - only show when no district/improvement */}
+      {showFeatureGraphics && primaryFeature === "floodplains" && (
+        <g pointerEvents="none" opacity={0.6}>
+          {/* Wavy lines pattern for floodplains */}
+          <path
+            d={`M ${x - 20} ${y - 5} q 5 -5 10 0 t 10 0 t 10 0`}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+          <path
+            d={`M ${x - 20} ${y + 5} q 5 -5 10 0 t 10 0 t 10 0`}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "marsh" && (
+        <g pointerEvents="none" opacity={0.7}>
+          {/* Reed/grass lines for marsh */}
+          <line
+            x1={x - 8}
+            y1={y + 10}
+            x2={x - 10}
+            y2={y - 5}
+            stroke="#365314"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+          <line
+            x1={x - 3}
+            y1={y + 10}
+            x2={x - 4}
+            y2={y - 8}
+            stroke="#365314"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+          <line
+            x1={x + 3}
+            y1={y + 10}
+            x2={x + 2}
+            y2={y - 6}
+            stroke="#365314"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+          <line
+            x1={x + 8}
+            y1={y + 10}
+            x2={x + 10}
+            y2={y - 4}
+            stroke="#365314"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "woods" && (
+        <g pointerEvents="none">
+          {/* Tree symbols for woods */}
+          <polygon points={`${x - 10},${y + 8} ${x - 5},${y - 6} ${x},${y + 8}`} fill="#166534" />
+          <polygon
+            points={`${x + 2},${y + 8} ${x + 7},${y - 8} ${x + 12},${y + 8}`}
+            fill="#15803d"
+          />
+          <rect x={x - 6} y={y + 8} width={2} height={4} fill="#78350f" />
+          <rect x={x + 6} y={y + 8} width={2} height={4} fill="#78350f" />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "rainforest" && (
+        <g pointerEvents="none">
+          {/* Dense tree symbols for rainforest */}
+          <polygon points={`${x - 12},${y + 8} ${x - 6},${y - 8} ${x},${y + 8}`} fill="#14532d" />
+          <polygon
+            points={`${x - 4},${y + 6} ${x + 2},${y - 10} ${x + 8},${y + 6}`}
+            fill="#166534"
+          />
+          <polygon
+            points={`${x + 4},${y + 8} ${x + 10},${y - 6} ${x + 16},${y + 8}`}
+            fill="#15803d"
+          />
+          {/* Palm frond accent */}
+          <ellipse cx={x + 2} cy={y - 8} rx={4} ry={2} fill="#22c55e" />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "geothermal" && (
+        <g pointerEvents="none">
+          {/* Steam/heat waves */}
+          <path
+            d={`M ${x - 5} ${y + 5} q -2 -8 2 -15`}
+            fill="none"
+            stroke="rgba(255,255,255,0.7)"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+          <path
+            d={`M ${x + 5} ${y + 5} q 2 -8 -2 -15`}
+            fill="none"
+            stroke="rgba(255,255,255,0.7)"
+            strokeWidth={2}
+            strokeLinecap="round"
+          />
+          <circle cx={x} cy={y + 8} r={6} fill="#dc2626" opacity={0.6} />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "oasis" && (
+        <g pointerEvents="none">
+          {/* Water pool with palm */}
+          <ellipse cx={x} cy={y + 4} rx={12} ry={6} fill="#0ea5e9" opacity={0.7} />
+          <polygon
+            points={`${x + 8},${y + 6} ${x + 12},${y - 10} ${x + 16},${y + 6}`}
+            fill="#16a34a"
+          />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "reef" && (
+        <g pointerEvents="none" opacity={0.8}>
+          {/* Coral dots pattern */}
+          <circle cx={x - 8} cy={y - 4} r={4} fill="#f472b6" />
+          <circle cx={x + 6} cy={y - 2} r={3} fill="#fb923c" />
+          <circle cx={x - 2} cy={y + 6} r={4} fill="#a78bfa" />
+          <circle cx={x + 10} cy={y + 4} r={3} fill="#4ade80" />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "volcanic_soil" && (
+        <g pointerEvents="none" opacity={0.6}>
+          {/* Dark soil patches */}
+          <ellipse cx={x - 8} cy={y} rx={6} ry={4} fill="#44403c" />
+          <ellipse cx={x + 6} cy={y + 4} rx={8} ry={4} fill="#292524" />
+          <ellipse cx={x} cy={y - 6} rx={5} ry={3} fill="#44403c" />
+        </g>
+      )}
+
+      {showFeatureGraphics && primaryFeature === "cliffs" && (
+        <g pointerEvents="none">
+          {/* Rocky cliff face */}
+          <polygon
+            points={`${x - 15},${y + 10} ${x - 10},${y - 8} ${x - 5},${y + 10}`}
+            fill="#64748b"
+          />
+          <polygon points={`${x - 8},${y + 10} ${x},${y - 10} ${x + 8},${y + 10}`} fill="#475569" />
+          <polygon
+            points={`${x + 5},${y + 10} ${x + 12},${y - 6} ${x + 18},${y + 10}`}
+            fill="#64748b"
+          />
+        </g>
+      )}
+
+      {/* Hills indicator - triangular pattern at bottom (hide when feature graphics shown to avoid overlap) */}
+      {isHills && !showFeatureGraphics && (
+        <>
+          {/* Three small triangles to indicate elevation */}
+          <polygon
+            points={`${x - 12},${y + 8} ${x - 6},${y - 2} ${x},${y + 8}`}
+            fill={hillsPatternColor!}
+            opacity={0.8}
+            pointerEvents="none"
+          />
+          <polygon
+            points={`${x - 2},${y + 8} ${x + 4},${y - 2} ${x + 10},${y + 8}`}
+            fill={hillsPatternColor!}
+            opacity={0.8}
+            pointerEvents="none"
+          />
+          {/* Subtle highlight on top edge of triangles */}
+          <line
+            x1={x - 12}
+            y1={y + 8}
+            x2={x - 6}
+            y2={y - 2}
+            stroke="rgba(255,255,255,0.3)"
+            strokeWidth={1}
+            pointerEvents="none"
+          />
+          <line
+            x1={x - 2}
+            y1={y + 8}
+            x2={x + 4}
+            y2={y - 2}
+            stroke="rgba(255,255,255,0.3)"
+            strokeWidth={1}
+            pointerEvents="none"
+          />
+        </>
+      )}
+
+      {/* Mountain indicator - larger triangle with snow cap */}
+      {isMountain && (
+        <>
+          <polygon
+            points={`${x - 16},${y + 12} ${x},${y - 14} ${x + 16},${y + 12}`}
+            fill="#4b5563"
+            stroke="#374151"
+            strokeWidth={1}
+            pointerEvents="none"
+          />
+          {/* Snow cap */}
+          <polygon
+            points={`${x - 5},${y - 4} ${x},${y - 14} ${x + 5},${y - 4}`}
+            fill="#e5e7eb"
+            pointerEvents="none"
+          />
+        </>
+      )}
+
+      {/* River edges */}
+      {tile.riverEdges && tile.riverEdges.some((e) => e) && (
+        <g className="river-edges">
+          {tile.riverEdges.map((hasRiver, idx) =>
+            hasRiver ? (
+              <polyline
+                key={`river-${idx}`}
+                points={getRiverEdgePoints({ x, y }, idx)}
+                fill="none"
+                stroke="#22d3ee"
+                strokeWidth={5}
+                strokeLinecap="round"
+                pointerEvents="none"
+              />
+            ) : null,
+          )}
+        </g>
+      )}
+    </g>
+  );
+});
+
+/**
+ * Props for the HexMarkers subcomponent.
+ */
+interface HexMarkersProps {
+  tile: Tile;
+  /** City founded on this tile, if any */
+  city?: City;
+}
+
+/**
+ * Icons and labels on one hex: district, improvement, feature icon, city
+ * name, plan and lock badges, and resource. Memoized like {@link HexTerrain}.
+ */
+const HexMarkers = React.memo<HexMarkersProps>(({ tile, city }) => {
+  const { x, y } = hexToPixel(tile.coord);
+  const isMountain = tile.modifier === "mountain";
+  const isHills = tile.modifier === "hills";
+
+  // Cities render even if the tile has no district set
+  const district = tile.district ?? (city ? "city_center" : undefined);
+  const hasPlans = tile.plannedStates.length > 0;
+
+  // Show the feature emoji only when a district/improvement hides the feature graphics
+  const primaryFeature = tile.features.length > 0 ? tile.features[0] : null;
+  const featureIcon = primaryFeature ? FEATURE_ICONS[primaryFeature] : undefined;
+  const showFeatureIcon = primaryFeature && (!!district || !!tile.improvement) && !isMountain;
+
+  if (!district && !tile.improvement && !hasPlans && !tile.isLocked && !tile.resource) {
+    return null;
+  }
+
+  return (
+    <g className="hex-markers" pointerEvents="none">
+      {/* District indicator with background */}
+      {district && (
+        <g pointerEvents="none">
+          <circle
+            cx={x}
+            cy={y + (isHills ? -6 : 0)}
+            r={HEX_SIZE * 0.38}
+            fill="rgba(0, 0, 0, 0.5)"
+            stroke="rgba(255, 255, 255, 0.3)"
+            strokeWidth={1}
+          />
+          <text
+            x={x}
+            y={y + (isHills ? -6 : 0)}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={HEX_SIZE * 0.55}
+          >
+            {getDistrictLabel(district)}
+          </text>
+        </g>
+      )}
+
+      {/* Improvement indicator with background (only if no district) */}
+      {tile.improvement && !district && (
+        <g pointerEvents="none">
+          <circle
+            cx={x}
+            cy={y + (isHills ? -6 : 0)}
+            r={HEX_SIZE * 0.32}
+            fill="rgba(0, 0, 0, 0.5)"
+            stroke="rgba(255, 255, 255, 0.3)"
+            strokeWidth={1}
+          />
+          <text
+            x={x}
+            y={y + (isHills ? -6 : 0)}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={HEX_SIZE * 0.45}
+          >
+            {getImprovementLabel(tile.improvement)}
+          </text>
+        </g>
+      )}
+
+      {/* Feature icon in corner - shown when district/improvement hides the feature graphics */}
+      {showFeatureIcon && featureIcon && (
+        <g pointerEvents="none">
+          <circle
+            cx={x - HEX_SIZE * 0.35}
+            cy={y + HEX_SIZE * 0.35}
+            r={9}
+            fill="rgba(0, 0, 0, 0.5)"
+            stroke="rgba(255, 255, 255, 0.3)"
+            strokeWidth={1}
+          />
+          <text
+            x={x - HEX_SIZE * 0.35}
+            y={y + HEX_SIZE * 0.38}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={10}
+          >
+            {featureIcon}
+          </text>
+        </g>
+      )}
+
+      {/* City name */}
+      {city && (
+        <g pointerEvents="none">
+          <rect
+            x={x - 30}
+            y={y + HEX_SIZE * 0.65}
+            width={60}
+            height={14}
+            fill="rgba(0,0,0,0.7)"
+            rx={2}
+          />
+          <text
+            x={x}
+            y={y + HEX_SIZE * 0.75 + 5}
+            textAnchor="middle"
+            fontSize={10}
+            fill="#fff"
+            fontWeight="bold"
+          >
+            {city.name} ({city.population})
+          </text>
+        </g>
+      )}
+
+      {/* Planned state indicator - always show when there are plans */}
+      {hasPlans && (
+        <g pointerEvents="none">
+          <circle
+            cx={x + HEX_SIZE * 0.35}
+            cy={y - HEX_SIZE * 0.35}
+            r={8}
+            fill="#C6A664"
+            stroke="#fff"
+            strokeWidth={1.5}
+          />
+          <text
+            x={x + HEX_SIZE * 0.35}
+            y={y - HEX_SIZE * 0.32}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={9}
+            fill="#0f0f1a"
+            fontWeight="bold"
+          >
+            P
+          </text>
+        </g>
+      )}
+
+      {/* Lock indicator with background */}
+      {tile.isLocked && (
+        <g pointerEvents="none">
+          <circle
+            cx={x - HEX_SIZE * 0.35}
+            cy={y - HEX_SIZE * 0.35}
+            r={9}
+            fill="rgba(0, 0, 0, 0.6)"
+            stroke="rgba(255, 255, 255, 0.4)"
+            strokeWidth={1}
+          />
+          <text
+            x={x - HEX_SIZE * 0.35}
+            y={y - HEX_SIZE * 0.32}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={11}
+          >
+            🔒
+          </text>
+        </g>
+      )}
+
+      {/* Resource indicator */}
+      {tile.resource && (
+        <g pointerEvents="none">
+          <circle
+            cx={x + HEX_SIZE * 0.35}
+            cy={y + HEX_SIZE * 0.35}
+            r={7}
+            fill={getResourceColor(tile.resource.type)}
+            stroke="#fff"
+            strokeWidth={1.5}
+          />
+          {/* Small dot if unrevealed */}
+          {!tile.resource.revealed && (
             <text
-              x={x}
-              y={y}
+              x={x + HEX_SIZE * 0.35}
+              y={y + HEX_SIZE * 0.38}
               textAnchor="middle"
-              dominantBaseline="central"
-              fontSize={HEX_SIZE * 0.4}
-              fontWeight="bold"
+              fontSize={8}
               fill="#fff"
-              style={{ textShadow: "0 1px 2px rgba(0,0,0,0.5)" }}
+              fontWeight="bold"
             >
-              +{bonus}
+              ?
             </text>
-          </g>
-        );
-      })}
+          )}
+        </g>
+      )}
+    </g>
+  );
+});
+
+// Render a row of yield pips (one per non-zero yield type) near the bottom of a hex
+const renderYields = (result: YieldResult, x: number, y: number) => {
+  const nonZero = YIELD_TYPES.filter((type) => result.total[type] > 0);
+  if (nonZero.length === 0) return null;
+
+  const spacing = 11;
+  const startX = x - ((nonZero.length - 1) * spacing) / 2;
+  const pipY = y + HEX_SIZE * 0.55;
+
+  return (
+    <g className="yield-pips" pointerEvents="none">
+      {nonZero.map((type, idx) => (
+        <g key={type}>
+          <circle
+            cx={startX + idx * spacing}
+            cy={pipY}
+            r={5}
+            fill={getYieldColor(type)}
+            stroke="rgba(0, 0, 0, 0.6)"
+            strokeWidth={1}
+          />
+          <text
+            x={startX + idx * spacing}
+            y={pipY}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={7}
+            fontWeight="bold"
+            fill="#0f0f1a"
+          >
+            {result.total[type]}
+          </text>
+        </g>
+      ))}
     </g>
   );
 };
 
+/**
+ * Props for the YieldLayer subcomponent.
+ */
+interface YieldLayerProps {
+  tiles: Tile[];
+  yieldData: Map<string, YieldResult>;
+  heatmapType: YieldType | null;
+  heatmapMax: number;
+}
+
+/**
+ * Yield pips and the optional heat-map tint for the visible tiles.
+ */
+const YieldLayer = React.memo<YieldLayerProps>(({ tiles, yieldData, heatmapType, heatmapMax }) => (
+  <g className="yield-layer" pointerEvents="none">
+    {tiles.map((tile) => {
+      const key = coordKey(tile.coord);
+      const yieldResult = yieldData.get(key);
+      if (!yieldResult) return null;
+      const { x, y } = hexToPixel(tile.coord);
+      const points = hexCorners({ x, y });
+      return (
+        <g key={key}>
+          {/* Yield heat-map tint */}
+          {heatmapType && heatmapMax > 0 && yieldResult.total[heatmapType] > 0 && (
+            <polygon
+              points={points}
+              fill={getYieldColor(heatmapType)}
+              fillOpacity={0.15 + 0.6 * (yieldResult.total[heatmapType] / heatmapMax)}
+              pointerEvents="none"
+            />
+          )}
+
+          {/* Yield values */}
+          {renderYields(yieldResult, x, y)}
+        </g>
+      );
+    })}
+  </g>
+));
+
+/**
+ * Props for the TerrainCanvas subcomponent.
+ */
+interface TerrainCanvasProps {
+  tiles: Tile[];
+  viewBox: ViewBox;
+  size: ViewportSize;
+}
+
+/**
+ * Draws terrain for the visible tiles on a canvas under the SVG. Used on
+ * maps too large to keep every hex as SVG elements; features are reduced to
+ * a color tint, and hills and mountains to a single triangle.
+ */
+const TerrainCanvas: React.FC<TerrainCanvasProps> = ({ tiles, viewBox, size }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size.width <= 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size.width * ratio;
+    canvas.height = size.height * ratio;
+
+    // Match the SVG's viewBox transform
+    const visible = getVisibleRect(viewBox, size);
+    const scale = ratio / getUnitsPerPixel(viewBox, size);
+    ctx.setTransform(scale, 0, 0, scale, -visible.x * scale, -visible.y * scale);
+    ctx.clearRect(visible.x, visible.y, visible.w, visible.h);
+
+    const corner = (x: number, y: number, i: number) => {
+      const angle = (Math.PI / 3) * i;
+      return [x + HEX_SIZE * Math.cos(angle), y + HEX_SIZE * Math.sin(angle)] as const;
+    };
+
+    tiles.forEach((tile) => {
+      const { x, y } = hexToPixel(tile.coord);
+      ctx.beginPath();
+      for (let i = 0; i < 6; i++) {
+        const [cx, cy] = corner(x, y, i);
+        if (i === 0) ctx.moveTo(cx, cy);
+        else ctx.lineTo(cx, cy);
+      }
+      ctx.closePath();
+      ctx.fillStyle = getTerrainColor(tile.terrain, tile.modifier);
+      ctx.fill();
+
+      const featureColor = tile.features.length > 0 ? getFeatureColor(tile.features[0]) : null;
+      if (featureColor && !tile.district && !tile.improvement) {
+        ctx.fillStyle = featureColor;
+        ctx.fill();
+      }
+      ctx.strokeStyle = "#2d3748";
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      if (tile.modifier === "hills" || tile.modifier === "mountain") {
+        const isMountain = tile.modifier === "mountain";
+        const half = isMountain ? 16 : 10;
+        ctx.beginPath();
+        ctx.moveTo(x - half, y + 10);
+        ctx.lineTo(x, y - (isMountain ? 14 : 4));
+        ctx.lineTo(x + half, y + 10);
+        ctx.closePath();
+        ctx.fillStyle = isMountain ? "#4b5563" : getHillsPatternColor(tile.terrain);
+        ctx.fill();
+      }
+
+      if (tile.riverEdges?.some((e) => e)) {
+        ctx.strokeStyle = "#22d3ee";
+        ctx.lineWidth = 5;
+        ctx.lineCap = "round";
+        tile.riverEdges.forEach((hasRiver, i) => {
+          if (!hasRiver) return;
+          ctx.beginPath();
+          ctx.moveTo(...corner(x, y, i));
+          ctx.lineTo(...corner(x, y, (i + 1) % 6));
+          ctx.stroke();
+        });
+      }
+    });
+  }, [tiles, viewBox, size]);
+
+  return <canvas ref={canvasRef} className="hex-grid-canvas" />;
+};
+
+// ============================================================================
+// COORDINATE TOOLS
+// ============================================================================
+
+const formatLabel = (str: string): string => {
+  return str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+/**
+ * Tooltip above the hovered hex with its in-game and planner coordinates.
+ */
+const HexTooltip: React.FC<{
+  coord: HexCoord;
+  tile: Tile | null;
+  offMap: boolean;
+  position: { x: number; y: number };
+}> = ({ coord, tile, offMap, position }) => (
+  <div className="hex-tooltip" style={{ left: position.x, top: position.y }}>
+    <strong>In-game {formatOffset(coord)}</strong>
+    <span>
+      ({coord.q}, {coord.r}) ·{" "}
+      {tile
+        ? formatLabel(tile.modifier ? `${tile.terrain} ${tile.modifier}` : tile.terrain)
+        : offMap
+          ? "Off the map"
+          : "No tile"}
+    </span>
+  </div>
+);
+
+/**
+ * Input for jumping to a hex by its in-game coordinates.
+ * Input that isn't a coordinate, or that `onJump` rejects, is flagged.
+ */
+const CoordinateJump: React.FC<{ onJump: (coord: HexCoord) => boolean }> = ({ onJump }) => {
+  const [text, setText] = useState("");
+  const [invalid, setInvalid] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const offset = parseOffset(text);
+    setInvalid(!offset || !onJump(offsetToAxial(offset)));
+  };
+
+  return (
+    <form className="coord-jump" onSubmit={handleSubmit}>
+      <input
+        className={invalid ? "invalid" : undefined}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setInvalid(false);
+        }}
+        placeholder="In-game x, y"
+        title="Jump to (or add) the tile at these in-game coordinates"
+      />
+      <button type="submit">Go</button>
+    </form>
+  );
+};
+
+// ============================================================================
+// HEX GRID
+// ============================================================================
+
 /**
  * Interactive SVG hex grid map with pan/zoom navigation.
  *
  * Features:
- * - Renders all tiles from the game store with terrain, features, and overlays
+ * - Renders the tiles inside the visible area with terrain, features, and overlays
  * - Mouse wheel zoom (centered on cursor position)
  * - Pan via middle-click drag or shift+left-click drag
  * - Click to select tiles (existing or empty grid positions)
  * - Visual indicators for districts, improvements, resources, rivers, and plans
+ * - Optional tile yield overlay with single-yield heat-map
+ * - Optional ranked settle location markers
+ * - Planned settlement markers, and overlap/spacing highlights when a
+ *   possible city site is selected
  * - Grid guide overlay showing empty hex positions
+ * - Canvas terrain on maps with more than {@link CANVAS_TILE_THRESHOLD} tiles
+ * - Hover tooltip with the game's offset coordinates, and a box to jump to them
+ * - Paint mode: left-drag paints with the brush (one store update per stroke),
+ *   or a click flood fills
  *
  * @param props - Component props
  * @param props.onTileSelect - Callback when a tile is clicked
@@ -169,22 +1061,132 @@ const AdjacencyOverlay: React.FC<AdjacencyOverlayProps> = ({
  *
  * return <HexGrid onTileSelect={handleSelect} selectedTile={selected} />;
  */
-const HexGrid: React.FC<HexGridProps> = ({ onTileSelect, selectedTile, overlayDistrict }) => {
-  const { tiles, cities, setup } = useGameStore();
+const HexGrid: React.FC<HexGridProps> = ({
+  onTileSelect,
+  selectedTile,
+  overlayDistrict,
+  yieldOverlay,
+  settleSpots,
+  paint,
+}) => {
+  const {
+    tiles,
+    cities,
+    plannedSettlements,
+    aiCivs,
+    setup,
+    completedTechs,
+    completedCivics,
+    paintStroke,
+  } = useGameStore();
   const svgRef = useRef<SVGSVGElement>(null);
 
+  // Cities keyed by the coordinate of their city center
+  const citiesByLocation = useMemo(
+    () => new Map(cities.map((c) => [coordKey(c.location), c])),
+    [cities],
+  );
+
+  // Overlap with other cities when the selected tile is a possible city site
+  const siteOverlap = useMemo(() => {
+    if (!selectedTile) return null;
+    const key = coordKey(selectedTile);
+    const tile = tiles.get(key);
+    if (!tile || citiesByLocation.has(key) || !isFoundableTile(tile)) return null;
+    return analyzeCityOverlap(selectedTile, { setup, cities, plannedSettlements, aiCivs });
+  }, [selectedTile, tiles, citiesByLocation, setup, cities, plannedSettlements, aiCivs]);
+
+  // Yields per tile for the yield overlay (current or after all plans)
+  const yieldMode = yieldOverlay?.mode;
+  const yieldData = useMemo(() => {
+    if (!yieldMode) return null;
+    const source = yieldMode === "planned" ? projectPlannedTiles(tiles, cities) : tiles;
+    return calculateAllTileYields(source, { completedTechs, completedCivics }, setup.map);
+  }, [yieldMode, tiles, cities, completedTechs, completedCivics, setup.map]);
+
+  // Highest value of the heat-mapped yield, used to scale heat-map intensity
+  const heatmapType = yieldOverlay?.heatmap ?? null;
+  const heatmapMax = useMemo(() => {
+    if (!yieldData || !heatmapType) return 0;
+    let max = 0;
+    yieldData.forEach((result) => {
+      max = Math.max(max, result.total[heatmapType]);
+    });
+    return max;
+  }, [yieldData, heatmapType]);
+
   // Pan and zoom state
-  const [viewBox, setViewBox] = useState({ x: -300, y: -300, w: 800, h: 600 });
+  // Start on the middle of the map, or near the origin without a map size
+  const [viewBox, setViewBox] = useState<ViewBox>(() => {
+    const initial = { x: -300, y: -300, w: 800, h: 600 };
+    if (!setup.map) return initial;
+    const middle = { col: Math.floor(setup.map.width / 2), row: Math.floor(setup.map.height / 2) };
+    return centerViewBoxOn(initial, hexToPixel(offsetToAxial(middle)));
+  });
+  const [size, setSize] = useState<ViewportSize>({ width: 0, height: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
+  const [hoverCoord, setHoverCoord] = useState<HexCoord | null>(null);
+  // Hexes the cursor has passed over during the current paint stroke
+  const [strokePath, setStrokePath] = useState<HexCoord[] | null>(null);
+
+  // Track the element size, which decides how much map is visible
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const measure = () => setSize({ width: svg.clientWidth, height: svg.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
 
-  // Handle mouse down for panning
+  // Only tiles and guide hexes in view are rendered
+  const visibleRect = useMemo(() => getVisibleRect(viewBox, size), [viewBox, size]);
+  const visibleTiles = useMemo(
+    () => getTilesInRect(tiles.values(), visibleRect),
+    [tiles, visibleRect],
+  );
+  const map = setup.map;
+  const guideCoords = useMemo(
+    () =>
+      getHexesInRect(visibleRect).filter(
+        (c) =>
+          (map ? isOnMap(c, map) : Math.abs(c.q) <= GUIDE_RANGE && Math.abs(c.r) <= GUIDE_RANGE) &&
+          !tiles.has(coordKey(c)),
+      ),
+    [visibleRect, tiles, map],
+  );
+  const useCanvas = tiles.size > CANVAS_TILE_THRESHOLD;
+
+  // Convert a mouse position to the (unwrapped) hex under it
+  const clientToHex = useCallback(
+    (clientX: number, clientY: number): HexCoord | null => {
+      const svg = svgRef.current;
+      if (!svg) return null;
+      const rect = svg.getBoundingClientRect();
+      const point = screenToMap({ x: clientX - rect.left, y: clientY - rect.top }, viewBox, size);
+      return pixelToHex(point.x, point.y);
+    },
+    [viewBox, size],
+  );
+
+  // Handle mouse down for panning, or to start painting
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.button === 1 || (e.button === 0 && e.shiftKey)) {
       // Middle click or shift+left click to pan
       setIsPanning(true);
       setPanStart({ x: e.clientX, y: e.clientY });
       e.preventDefault();
+    } else if (e.button === 0 && paint) {
+      const hex = clientToHex(e.clientX, e.clientY);
+      if (!hex) return;
+      e.preventDefault();
+      if (paint.tool === "fill") {
+        paintStroke(floodFill(hex, tiles, map), paint.brush);
+      } else {
+        setStrokePath([hex]);
+      }
     }
   };
 
@@ -197,7 +1199,7 @@ const HexGrid: React.FC<HexGridProps> = ({ onTileSelect, selectedTile, overlayDi
       const dy = e.clientY - panStart.y;
 
       // Scale movement by current zoom level
-      const scale = viewBox.w / (svgRef.current?.clientWidth || 800);
+      const scale = getUnitsPerPixel(viewBox, size);
 
       setViewBox((prev) => ({
         ...prev,
@@ -206,7 +1208,7 @@ const HexGrid: React.FC<HexGridProps> = ({ onTileSelect, selectedTile, overlayDi
       }));
       setPanStart({ x: e.clientX, y: e.clientY });
     },
-    [isPanning, panStart, viewBox.w],
+    [isPanning, panStart, viewBox, size],
   );
 
   // Handle mouse up to stop panning
@@ -226,6 +1228,53 @@ const HexGrid: React.FC<HexGridProps> = ({ onTileSelect, selectedTile, overlayDi
     };
   }, [isPanning, handleMouseMove, handleMouseUp]);
 
+  // Extend the stroke to the hex under the cursor, filling in hexes a fast drag skipped
+  const handlePaintMove = useCallback(
+    (e: MouseEvent) => {
+      const hex = clientToHex(e.clientX, e.clientY);
+      if (!hex) return;
+      setStrokePath((prev) => {
+        if (!prev) return prev;
+        const last = prev[prev.length - 1];
+        if (coordKey(last) === coordKey(hex)) return prev;
+        return [...prev, ...traceStroke(last, hex, map)];
+      });
+    },
+    [clientToHex, map],
+  );
+
+  // Commit the whole stroke as one store update
+  const handlePaintEnd = useCallback(() => {
+    if (strokePath && paint) {
+      paintStroke(getStrokeHexes(strokePath, paint.brush, paint.radius, map), paint.brush);
+    }
+    setStrokePath(null);
+  }, [strokePath, paint, paintStroke, map]);
+
+  // Add/remove global mouse listeners while painting
+  const isPainting = strokePath !== null;
+  useEffect(() => {
+    if (isPainting) {
+      window.addEventListener("mousemove", handlePaintMove);
+      window.addEventListener("mouseup", handlePaintEnd);
+    }
+    return () => {
+      window.removeEventListener("mousemove", handlePaintMove);
+      window.removeEventListener("mouseup", handlePaintEnd);
+    };
+  }, [isPainting, handlePaintMove, handlePaintEnd]);
+
+  // Outline of the hexes the brush would paint: the stroke so far, or the hexes under the cursor
+  const paintPreview = useMemo(() => {
+    if (!paint) return [];
+    const path = strokePath ?? (hoverCoord ? [hoverCoord] : []);
+    const radius = paint.tool === "fill" ? 0 : paint.radius;
+    // Drawn where the cursor is, so hexes past the seam aren't wrapped here
+    return getStrokeHexes(path, paint.brush, radius).filter(
+      (c) => !map || isOnMap(wrapCoord(c, map), map),
+    );
+  }, [paint, strokePath, hoverCoord, map]);
+
   // Handle zoom with native event listener (passive: false to allow preventDefault)
   useEffect(() => {
     const svg = svgRef.current;
@@ -235,578 +1284,164 @@ const HexGrid: React.FC<HexGridProps> = ({ onTileSelect, selectedTile, overlayDi
       e.preventDefault();
 
       const rect = svg.getBoundingClientRect();
-      const mouseX = e.clientX - rect.left;
-      const mouseY = e.clientY - rect.top;
+      const mouse = { x: e.clientX - rect.left, y: e.clientY - rect.top };
 
-      // Convert mouse position to SVG coordinates
-      const svgX = viewBox.x + (mouseX / rect.width) * viewBox.w;
-      const svgY = viewBox.y + (mouseY / rect.height) * viewBox.h;
-
-      // Zoom factor
+      // Zoom toward the mouse
       const zoomFactor = e.deltaY > 0 ? 1.1 : 0.9;
-      const newW = Math.max(200, Math.min(3000, viewBox.w * zoomFactor));
-      const newH = Math.max(150, Math.min(2250, viewBox.h * zoomFactor));
-
-      // Adjust position to zoom toward mouse
-      const newX = svgX - (mouseX / rect.width) * newW;
-      const newY = svgY - (mouseY / rect.height) * newH;
-
-      setViewBox({ x: newX, y: newY, w: newW, h: newH });
+      setViewBox(zoomViewBox(viewBox, size, mouse, zoomFactor));
     };
 
     svg.addEventListener("wheel", handleWheel, { passive: false });
     return () => svg.removeEventListener("wheel", handleWheel);
-  }, [viewBox]);
-
-  // Handle click on SVG (for adding new tiles or selecting)
-  const handleClick = (e: React.MouseEvent) => {
-    if (isPanning) return;
-
-    const svg = svgRef.current;
-    if (!svg) return;
+  }, [viewBox, size]);
 
-    const rect = svg.getBoundingClientRect();
-    const mouseX = e.clientX - rect.left;
-    const mouseY = e.clientY - rect.top;
-
-    // Convert to SVG coordinates
-    const svgX = viewBox.x + (mouseX / rect.width) * viewBox.w;
-    const svgY = viewBox.y + (mouseY / rect.height) * viewBox.h;
-
-    // Convert to hex coordinates
-    const hexCoord = pixelToHex(svgX, svgY);
-    const key = coordKey(hexCoord);
-    const tile = tiles.get(key) || null;
+  // Center the map on the point picked in the minimap
+  const handleMinimapNavigate = useCallback((point: { x: number; y: number }) => {
+    setViewBox((prev) => centerViewBoxOn(prev, point));
+  }, []);
 
-    onTileSelect(hexCoord, tile);
+  // Track the hex under the cursor for the coordinate tooltip
+  const handleHover = (e: React.MouseEvent) => {
+    const coord = clientToHex(e.clientX, e.clientY);
+    if (!coord) return;
+    setHoverCoord((prev) => (prev && coordKey(prev) === coordKey(coord) ? prev : coord));
   };
 
-  // Render a single hex
-  const renderHex = (tile: Tile) => {
-    const { x, y } = hexToPixel(tile.coord);
-    const points = hexCorners({ x, y });
-    const key = coordKey(tile.coord);
-    const isSelected =
-      selectedTile && selectedTile.q === tile.coord.q && selectedTile.r === tile.coord.r;
-
-    const terrainColor = getTerrainColor(tile.terrain, tile.modifier);
-    const featureColor = tile.features.length > 0 ? getFeatureColor(tile.features[0]) : null;
-    const isMountain = tile.modifier === "mountain";
-    const isHills = tile.modifier === "hills";
-
-    // Check if this tile has a city center
-    const city = cities.find((c) => c.location.q === tile.coord.q && c.location.r === tile.coord.r);
-
-    // Check for planned states
-    const hasPlans = tile.plannedStates.length > 0;
-
-    // Hills pattern - create triangular indicators
-    const hillsPatternColor = isHills ? getHillsPatternColor(tile.terrain) : null;
-
-    // Feature icons mapping
-    const featureIcons: Record<string, string> = {
-      woods: "🌲",
-      rainforest: "🌴",
-      marsh: "🌿",
-      floodplains: "〰️",
-      reef: "🪸",
-      geothermal: "♨️",
-      volcanic_soil: "🌋",
-      oasis: "🏝️",
-      cliffs: "🧗",
-    };
-
-    // Determine what icon to show (priority: district > improvement > feature)
-    const hasDistrict = !!tile.district;
-    const hasImprovement = !!tile.improvement;
-    const primaryFeature = tile.features.length > 0 ? tile.features[0] : null;
-
-    const featureIcon = primaryFeature ? featureIcons[primaryFeature] : undefined;
-
-    // Show feature graphics only when no district/improvement to avoid overlap
-    const showFeatureGraphics = primaryFeature && !hasDistrict && !hasImprovement && !isMountain;
-    // Show feature emoji icon only when graphics are hidden (i.e., when district/improvement present)
-    const showFeatureIcon = primaryFeature && (hasDistrict || hasImprovement) && !isMountain;
-
-    return (
-      <g key={key} className="hex-tile">
-        {/* Base terrain */}
-        <polygon
-          points={points}
-          fill={terrainColor}
-          stroke={isSelected ? "#C6A664" : "#2d3748"}
-          strokeWidth={isSelected ? 3 : 2}
-          className="hex-polygon"
-        />
-
-        {/* Feature overlay - different patterns for different features */}
-        {showFeatureGraphics && featureColor && (
-          <polygon points={points} fill={featureColor} pointerEvents="none" />
-        )}
-
-        {/* Feature-specific patterns for better differentiation - only show when no district/improvement */}
-        {showFeatureGraphics && primaryFeature === "floodplains" && (
-          <g pointerEvents="none" opacity={0.6}>
-            {/* Wavy lines pattern for floodplains */}
-            <path
-              d={`M ${x - 20} ${y - 5} q 5 -5 10 0 t 10 0 t 10 0`}
-              fill="none"
-              stroke="#3b82f6"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-            <path
-              d={`M ${x - 20} ${y + 5} q 5 -5 10 0 t 10 0 t 10 0`}
-              fill="none"
-              stroke="#3b82f6"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "marsh" && (
-          <g pointerEvents="none" opacity={0.7}>
-            {/* Reed/grass lines for marsh */}
-            <line
-              x1={x - 8}
-              y1={y + 10}
-              x2={x - 10}
-              y2={y - 5}
-              stroke="#365314"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-            <line
-              x1={x - 3}
-              y1={y + 10}
-              x2={x - 4}
-              y2={y - 8}
-              stroke="#365314"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-            <line
-              x1={x + 3}
-              y1={y + 10}
-              x2={x + 2}
-              y2={y - 6}
-              stroke="#365314"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-            <line
-              x1={x + 8}
-              y1={y + 10}
-              x2={x + 10}
-              y2={y - 4}
-              stroke="#365314"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "woods" && (
-          <g pointerEvents="none">
-            {/* Tree symbols for woods */}
-            <polygon points={`${x - 10},${y + 8} ${x - 5},${y - 6} ${x},${y + 8}`} fill="#166534" />
-            <polygon
-              points={`${x + 2},${y + 8} ${x + 7},${y - 8} ${x + 12},${y + 8}`}
-              fill="#15803d"
-            />
-            <rect x={x - 6} y={y + 8} width={2} height={4} fill="#78350f" />
-            <rect x={x + 6} y={y + 8} width={2} height={4} fill="#78350f" />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "rainforest" && (
-          <g pointerEvents="none">
-            {/* Dense tree symbols for rainforest */}
-            <polygon points={`${x - 12},${y + 8} ${x - 6},${y - 8} ${x},${y + 8}`} fill="#14532d" />
-            <polygon
-              points={`${x - 4},${y + 6} ${x + 2},${y - 10} ${x + 8},${y + 6}`}
-              fill="#166534"
-            />
-            <polygon
-              points={`${x + 4},${y + 8} ${x + 10},${y - 6} ${x + 16},${y + 8}`}
-              fill="#15803d"
-            />
-            {/* Palm frond accent */}
-            <ellipse cx={x + 2} cy={y - 8} rx={4} ry={2} fill="#22c55e" />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "geothermal" && (
-          <g pointerEvents="none">
-            {/* Steam/heat waves */}
-            <path
-              d={`M ${x - 5} ${y + 5} q -2 -8 2 -15`}
-              fill="none"
-              stroke="rgba(255,255,255,0.7)"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-            <path
-              d={`M ${x + 5} ${y + 5} q 2 -8 -2 -15`}
-              fill="none"
-              stroke="rgba(255,255,255,0.7)"
-              strokeWidth={2}
-              strokeLinecap="round"
-            />
-            <circle cx={x} cy={y + 8} r={6} fill="#dc2626" opacity={0.6} />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "oasis" && (
-          <g pointerEvents="none">
-            {/* Water pool with palm */}
-            <ellipse cx={x} cy={y + 4} rx={12} ry={6} fill="#0ea5e9" opacity={0.7} />
-            <polygon
-              points={`${x + 8},${y + 6} ${x + 12},${y - 10} ${x + 16},${y + 6}`}
-              fill="#16a34a"
-            />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "reef" && (
-          <g pointerEvents="none" opacity={0.8}>
-            {/* Coral dots pattern */}
-            <circle cx={x - 8} cy={y - 4} r={4} fill="#f472b6" />
-            <circle cx={x + 6} cy={y - 2} r={3} fill="#fb923c" />
-            <circle cx={x - 2} cy={y + 6} r={4} fill="#a78bfa" />
-            <circle cx={x + 10} cy={y + 4} r={3} fill="#4ade80" />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "volcanic_soil" && (
-          <g pointerEvents="none" opacity={0.6}>
-            {/* Dark soil patches */}
-            <ellipse cx={x - 8} cy={y} rx={6} ry={4} fill="#44403c" />
-            <ellipse cx={x + 6} cy={y + 4} rx={8} ry={4} fill="#292524" />
-            <ellipse cx={x} cy={y - 6} rx={5} ry={3} fill="#44403c" />
-          </g>
-        )}
-
-        {showFeatureGraphics && primaryFeature === "cliffs" && (
-          <g pointerEvents="none">
-            {/* Rocky cliff face */}
-            <polygon
-              points={`${x - 15},${y + 10} ${x - 10},${y - 8} ${x - 5},${y + 10}`}
-              fill="#64748b"
-            />
-            <polygon
-              points={`${x - 8},${y + 10} ${x},${y - 10} ${x + 8},${y + 10}`}
-              fill="#475569"
-            />
-            <polygon
-              points={`${x + 5},${y + 10} ${x + 12},${y - 6} ${x + 18},${y + 10}`}
-              fill="#64748b"
-            />
-          </g>
-        )}
-
-        {/* Hills indicator - triangular pattern at bottom (hide when feature graphics shown to avoid overlap) */}
-        {isHills && !showFeatureGraphics && (
-          <>
-            {/* Three small triangles to indicate elevation */}
-            <polygon
-              points={`${x - 12},${y + 8} ${x - 6},${y - 2} ${x},${y + 8}`}
-              fill={hillsPatternColor!}
-              opacity={0.8}
-              pointerEvents="none"
-            />
-            <polygon
-              points={`${x - 2},${y + 8} ${x + 4},${y - 2} ${x + 10},${y + 8}`}
-              fill={hillsPatternColor!}
-              opacity={0.8}
-              pointerEvents="none"
-            />
-            {/* Subtle highlight on top edge of triangles */}
-            <line
-              x1={x - 12}
-              y1={y + 8}
-              x2={x - 6}
-              y2={y - 2}
-              stroke="rgba(255,255,255,0.3)"
-              strokeWidth={1}
-              pointerEvents="none"
-            />
-            <line
-              x1={x - 2}
-              y1={y + 8}
-              x2={x + 4}
-              y2={y - 2}
-              stroke="rgba(255,255,255,0.3)"
-              strokeWidth={1}
-              pointerEvents="none"
-            />
-          </>
-        )}
-
-        {/* Mountain indicator - larger triangle with snow cap */}
-        {isMountain && (
-          <>
-            <polygon
-              points={`${x - 16},${y + 12} ${x},${y - 14} ${x + 16},${y + 12}`}
-              fill="#4b5563"
-              stroke="#374151"
-              strokeWidth={1}
-              pointerEvents="none"
-            />
-            {/* Snow cap */}
-            <polygon
-              points={`${x - 5},${y - 4} ${x},${y - 14} ${x + 5},${y - 4}`}
-              fill="#e5e7eb"
-              pointerEvents="none"
-            />
-          </>
-        )}
-
-        {/* River edges */}
-        {tile.riverEdges && tile.riverEdges.some((e) => e) && (
-          <g className="river-edges">
-            {tile.riverEdges.map((hasRiver, idx) =>
-              hasRiver ? (
-                <polyline
-                  key={`river-${idx}`}
-                  points={getRiverEdgePoints({ x, y }, idx)}
-                  fill="none"
-                  stroke="#22d3ee"
-                  strokeWidth={5}
-                  strokeLinecap="round"
-                  pointerEvents="none"
-                />
-              ) : null,
-            )}
-          </g>
-        )}
-
-        {/* District indicator with background */}
-        {tile.district && (
-          <g pointerEvents="none">
-            <circle
-              cx={x}
-              cy={y + (isHills ? -6 : 0)}
-              r={HEX_SIZE * 0.38}
-              fill="rgba(0, 0, 0, 0.5)"
-              stroke="rgba(255, 255, 255, 0.3)"
-              strokeWidth={1}
-            />
-            <text
-              x={x}
-              y={y + (isHills ? -6 : 0)}
-              textAnchor="middle"
-              dominantBaseline="central"
-              fontSize={HEX_SIZE * 0.55}
-            >
-              {getDistrictLabel(tile.district)}
-            </text>
-          </g>
-        )}
-
-        {/* Improvement indicator with background (only if no district) */}
-        {tile.improvement && !tile.district && (
-          <g pointerEvents="none">
-            <circle
-              cx={x}
-              cy={y + (isHills ? -6 : 0)}
-              r={HEX_SIZE * 0.32}
-              fill="rgba(0, 0, 0, 0.5)"
-              stroke="rgba(255, 255, 255, 0.3)"
-              strokeWidth={1}
-            />
-            <text
-              x={x}
-              y={y + (isHills ? -6 : 0)}
-              textAnchor="middle"
-              dominantBaseline="central"
-              fontSize={HEX_SIZE * 0.45}
-            >
-              {getImprovementLabel(tile.improvement)}
-            </text>
-          </g>
-        )}
-
-        {/* Feature icon in corner - shown when district/improvement hides the feature graphics */}
-        {showFeatureIcon && featureIcon && (
-          <g pointerEvents="none">
-            <circle
-              cx={x - HEX_SIZE * 0.35}
-              cy={y + HEX_SIZE * 0.35}
-              r={9}
-              fill="rgba(0, 0, 0, 0.5)"
-              stroke="rgba(255, 255, 255, 0.3)"
-              strokeWidth={1}
-            />
-            <text
-              x={x - HEX_SIZE * 0.35}
-              y={y + HEX_SIZE * 0.38}
-              textAnchor="middle"
-              dominantBaseline="central"
-              fontSize={10}
-            >
-              {featureIcon}
-            </text>
-          </g>
-        )}
-
-        {/* City name */}
-        {city && (
-          <g pointerEvents="none">
-            <rect
-              x={x - 30}
-              y={y + HEX_SIZE * 0.65}
-              width={60}
-              height={14}
-              fill="rgba(0,0,0,0.7)"
-              rx={2}
-            />
-            <text
-              x={x}
-              y={y + HEX_SIZE * 0.75 + 5}
-              textAnchor="middle"
-              fontSize={10}
-              fill="#fff"
-              fontWeight="bold"
-            >
-              {city.name}
-            </text>
-          </g>
-        )}
-
-        {/* Planned state indicator - always show when there are plans */}
-        {hasPlans && (
-          <g pointerEvents="none">
-            <circle
-              cx={x + HEX_SIZE * 0.35}
-              cy={y - HEX_SIZE * 0.35}
-              r={8}
-              fill="#C6A664"
-              stroke="#fff"
-              strokeWidth={1.5}
-            />
-            <text
-              x={x + HEX_SIZE * 0.35}
-              y={y - HEX_SIZE * 0.32}
-              textAnchor="middle"
-              dominantBaseline="central"
-              fontSize={9}
-              fill="#0f0f1a"
-              fontWeight="bold"
-            >
-              P
-            </text>
-          </g>
-        )}
-
-        {/* Lock indicator with background */}
-        {tile.isLocked && (
-          <g pointerEvents="none">
-            <circle
-              cx={x - HEX_SIZE * 0.35}
-              cy={y - HEX_SIZE * 0.35}
-              r={9}
-              fill="rgba(0, 0, 0, 0.6)"
-              stroke="rgba(255, 255, 255, 0.4)"
-              strokeWidth={1}
-            />
-            <text
-              x={x - HEX_SIZE * 0.35}
-              y={y - HEX_SIZE * 0.32}
-              textAnchor="middle"
-              dominantBaseline="central"
-              fontSize={11}
-            >
-              🔒
-            </text>
-          </g>
-        )}
-
-        {/* Resource indicator */}
-        {tile.resource && (
-          <g pointerEvents="none">
-            <circle
-              cx={x + HEX_SIZE * 0.35}
-              cy={y + HEX_SIZE * 0.35}
-              r={7}
-              fill={getResourceColor(tile.resource.type)}
-              stroke="#fff"
-              strokeWidth={1.5}
-            />
-            {/* Small dot if unrevealed */}
-            {!tile.resource.revealed && (
-              <text
-                x={x + HEX_SIZE * 0.35}
-                y={y + HEX_SIZE * 0.38}
-                textAnchor="middle"
-                fontSize={8}
-                fill="#fff"
-                fontWeight="bold"
-              >
-                ?
-              </text>
-            )}
-          </g>
-        )}
-      </g>
-    );
+  // Center on a typed in-game coordinate and select it (adding a tile if there is none)
+  const handleJump = (coord: HexCoord): boolean => {
+    const target = wrapCoord(coord, map);
+    if (map && !isOnMap(target, map)) return false;
+    setViewBox((prev) => centerViewBoxOn(prev, hexToPixel(target)));
+    onTileSelect(target, tiles.get(coordKey(target)) || null);
+    return true;
   };
 
-  // Render grid lines for empty area (helps with orientation)
-  const renderGridGuide = () => {
-    const guides: Array<React.JSX.Element> = [];
-    const range = 10; // Show guides for a 20x20 area around origin
+  // Handle click on SVG (for adding new tiles or selecting)
+  const handleClick = (e: React.MouseEvent) => {
+    // Clicks paint in paint mode
+    if (isPanning || paint) return;
 
-    for (let q = -range; q <= range; q++) {
-      for (let r = -range; r <= range; r++) {
-        const key = coordKey({ q, r });
-        if (tiles.has(key)) continue; // Skip tiles that exist
+    const hex = clientToHex(e.clientX, e.clientY);
+    if (!hex) return;
 
-        const { x, y } = hexToPixel({ q, r });
-        const points = hexCorners({ x, y });
+    // Wrap across the seam; clicks off the map are ignored
+    const hexCoord = wrapCoord(hex, map);
+    if (map && !isOnMap(hexCoord, map)) return;
+    const key = coordKey(hexCoord);
+    const tile = tiles.get(key) || null;
 
-        guides.push(
-          <polygon
-            key={`guide-${key}`}
-            points={points}
-            fill="none"
-            stroke="#374151"
-            strokeWidth={0.5}
-            strokeDasharray="2,4"
-            opacity={0.3}
-            className="hex-guide"
-          />,
-        );
-      }
-    }
-    return guides;
+    onTileSelect(hexCoord, tile);
   };
 
   return (
-    <div className="hex-grid-container">
+    <div className={`hex-grid-container ${paint ? "painting" : ""}`}>
+      {useCanvas && <TerrainCanvas tiles={visibleTiles} viewBox={viewBox} size={size} />}
       <svg
         ref={svgRef}
         className="hex-grid-svg"
         viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.w} ${viewBox.h}`}
         onMouseDown={handleMouseDown}
+        onMouseMove={handleHover}
+        onMouseLeave={() => setHoverCoord(null)}
         onClick={handleClick}
       >
-        {/* Grid guides */}
-        <g className="grid-guides">{renderGridGuide()}</g>
+        {/* Grid guides for empty positions (helps with orientation) */}
+        <g className="grid-guides">
+          {guideCoords.map((coord) => (
+            <polygon
+              key={`guide-${coordKey(coord)}`}
+              points={hexCorners(hexToPixel(coord))}
+              fill="none"
+              stroke="#374151"
+              strokeWidth={0.5}
+              strokeDasharray="2,4"
+              opacity={0.3}
+              className="hex-guide"
+            />
+          ))}
+        </g>
+
+        {/* Terrain (drawn on the canvas on large maps) */}
+        {!useCanvas && (
+          <g className="tiles">
+            {visibleTiles.map((tile) => {
+              const key = coordKey(tile.coord);
+              return <HexTerrain key={key} tile={tile} isCityCenter={citiesByLocation.has(key)} />;
+            })}
+          </g>
+        )}
 
-        {/* Actual tiles */}
-        <g className="tiles">{Array.from(tiles.values()).map((tile) => renderHex(tile))}</g>
+        {/* Districts, improvements, cities and badges */}
+        <g className="tile-markers">
+          {visibleTiles.map((tile) => {
+            const key = coordKey(tile.coord);
+            return <HexMarkers key={key} tile={tile} city={citiesByLocation.get(key)} />;
+          })}
+        </g>
+
+        {/* Yield overlay */}
+        {yieldData && (
+          <YieldLayer
+            tiles={visibleTiles}
+            yieldData={yieldData}
+            heatmapType={heatmapType}
+            heatmapMax={heatmapMax}
+          />
+        )}
 
         {/* Adjacency overlay */}
         {overlayDistrict && (
           <AdjacencyOverlay
             overlayDistrict={overlayDistrict}
             tiles={tiles}
+            visibleTiles={visibleTiles}
             playerCiv={setup.playerCiv}
+            map={map}
           />
         )}
 
+        {/* Planned settlements */}
+        <g className="planned-settlements" pointerEvents="none">
+          {plannedSettlements.map((p) => {
+            if (p.status === "settled") return null;
+            const { x, y } = hexToPixel(p.location);
+            return (
+              <text
+                key={`settlement-${p.id}`}
+                x={x}
+                y={y - HEX_SIZE * 0.45}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={HEX_SIZE * 0.45}
+              >
+                ⛺
+              </text>
+            );
+          })}
+        </g>
+
+        {/* City site overlap */}
+        {siteOverlap && <SiteOverlapOverlay analysis={siteOverlap} />}
+
+        {/* Settle location overlay */}
+        {settleSpots && settleSpots.length > 0 && <SettleOverlay spots={settleSpots} />}
+
+        {/* Paint brush preview */}
+        {paintPreview.length > 0 && (
+          <g className="paint-preview" pointerEvents="none">
+            {paintPreview.map((coord) => (
+              <polygon
+                key={`paint-${coordKey(coord)}`}
+                points={hexCorners(hexToPixel(coord))}
+                fill="rgba(198, 166, 100, 0.15)"
+                stroke="#C6A664"
+                strokeWidth={1.5}
+                strokeDasharray="4,3"
+              />
+            ))}
+          </g>
+        )}
+
         {/* Selected tile highlight */}
         {selectedTile && (
           <g className="selection">
@@ -821,12 +1456,36 @@ const HexGrid: React.FC<HexGridProps> = ({ onTileSelect, selectedTile, overlayDi
         )}
       </svg>
 
+      {hoverCoord && !isPanning && !isPainting && (
+        <HexTooltip
+          coord={wrapCoord(hoverCoord, map)}
+          tile={tiles.get(coordKey(wrapCoord(hoverCoord, map))) || null}
+          offMap={!!map && !isOnMap(wrapCoord(hoverCoord, map), map)}
+          position={mapToScreen(
+            { x: hexToPixel(hoverCoord).x, y: hexToPixel(hoverCoord).y - HEX_HEIGHT / 2 },
+            viewBox,
+            size,
+          )}
+        />
+      )}
+
       {/* Controls hint */}
       <div className="grid-controls-hint glass-panel">
         <span>Scroll to zoom</span>
         <span>Shift+drag or middle-click to pan</span>
-        <span>Click to select/add tile</span>
+        <span>{paint ? "Drag to paint" : "Click to select/add tile"}</span>
+        <CoordinateJump onJump={handleJump} />
       </div>
+
+      {tiles.size > 0 && (
+        <Minimap
+          tiles={tiles}
+          cities={cities}
+          aiCivs={aiCivs}
+          visibleRect={visibleRect}
+          onNavigate={handleMinimapNavigate}
+        />
+      )}
     </div>
   );
 };
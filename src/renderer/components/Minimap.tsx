@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Minimap for the hex map.
+ *
+ * This component draws every tile as a dot in its terrain color, with city
+ * centers and AI-claimed tiles tinted, and outlines the part of the map
+ * currently on screen. Clicking jumps the main map to that spot; dragging the
+ * outline pans it.
+ *
+ * @module renderer/components/Minimap
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AICiv, City, Tile, coordKey } from "../../types/model";
+import { HEX_SIZE, getTerrainColor, hexToPixel } from "../utils/hexUtils";
+import { ViewBox, getMapBounds } from "../utils/mapViewport";
+import "./Minimap.css";
+
+/**
+ * Props for the Minimap component.
+ */
+interface MinimapProps {
+  /** All tiles on the map */
+  tiles: Map<string, Tile>;
+  /** Player cities, drawn as city center markers */
+  cities: City[];
+  /** AI civs, whose claimed tiles are tinted */
+  aiCivs: AICiv[];
+  /** Area of the main map on screen, in map coordinates */
+  visibleRect: ViewBox;
+  /** Callback fired with the map point to center the main map on */
+  onNavigate: (point: { x: number; y: number }) => void;
+}
+
+/** Minimap size in CSS pixels. */
+const WIDTH = 200;
+const HEIGHT = 140;
+
+const CITY_COLOR = "#C6A664";
+const AI_CLAIM_COLOR = "rgba(239, 68, 68, 0.6)";
+
+/**
+ * Minimap with a draggable viewport outline.
+ *
+ * @example
+ * <Minimap
+ *   tiles={tiles}
+ *   cities={cities}
+ *   aiCivs={aiCivs}
+ *   visibleRect={visibleRect}
+ *   onNavigate={(point) => setViewBox((prev) => centerViewBoxOn(prev, point))}
+ * />
+ */
+const Minimap: React.FC<MinimapProps> = ({ tiles, cities, aiCivs, visibleRect, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  // Offset from the outline's center to the cursor while dragging
+  const [dragOffset, setDragOffset] = useState<{ x: number; y: number } | null>(null);
+
+  // Fit the whole map into the minimap, centered
+  const projection = useMemo(() => {
+    const bounds = getMapBounds(tiles.values());
+    if (!bounds) return null;
+    const scale = Math.min(WIDTH / bounds.w, HEIGHT / bounds.h);
+    return {
+      scale,
+      offsetX: (WIDTH - bounds.w * scale) / 2 - bounds.x * scale,
+      offsetY: (HEIGHT - bounds.h * scale) / 2 - bounds.y * scale,
+    };
+  }, [tiles]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !projection) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = WIDTH * ratio;
+    canvas.height = HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+    const { scale, offsetX, offsetY } = projection;
+    const radius = Math.max(1, HEX_SIZE * scale * 0.9);
+    const dot = (tile: { coord: Tile["coord"] }, color: string, size = radius) => {
+      const { x, y } = hexToPixel(tile.coord);
+      ctx.fillStyle = color;
+      ctx.fillRect(x * scale + offsetX - size, y * scale + offsetY - size, size * 2, size * 2);
+    };
+
+    tiles.forEach((tile) => dot(tile, getTerrainColor(tile.terrain, tile.modifier)));
+    aiCivs.forEach((civ) =>
+      civ.claimedTiles.forEach((coord) => {
+        if (tiles.has(coordKey(coord))) dot({ coord }, AI_CLAIM_COLOR);
+      }),
+    );
+    cities.forEach((city) => dot({ coord: city.location }, CITY_COLOR, Math.max(2, radius * 1.5)));
+  }, [tiles, cities, aiCivs, projection]);
+
+  // Minimap position of the cursor
+  const getPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const navigateTo = useCallback(
+    (point: { x: number; y: number }) => {
+      if (!projection) return;
+      const { scale, offsetX, offsetY } = projection;
+      onNavigate({ x: (point.x - offsetX) / scale, y: (point.y - offsetY) / scale });
+    },
+    [projection, onNavigate],
+  );
+
+  if (!projection) return null;
+
+  const { scale, offsetX, offsetY } = projection;
+  const outline = {
+    left: visibleRect.x * scale + offsetX,
+    top: visibleRect.y * scale + offsetY,
+    width: visibleRect.w * scale,
+    height: visibleRect.h * scale,
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const point = getPoint(e);
+    const centerX = outline.left + outline.width / 2;
+    const centerY = outline.top + outline.height / 2;
+    const insideOutline =
+      point.x >= outline.left &&
+      point.x <= outline.left + outline.width &&
+      point.y >= outline.top &&
+      point.y <= outline.top + outline.height;
+
+    // Grabbing the outline keeps it under the cursor; elsewhere jumps there
+    if (insideOutline) {
+      setDragOffset({ x: point.x - centerX, y: point.y - centerY });
+    } else {
+      setDragOffset({ x: 0, y: 0 });
+      navigateTo(point);
+    }
+  };
+
+  return (
+    <div
+      ref={frameRef}
+      className="minimap glass-panel"
+      style={{ width: WIDTH, height: HEIGHT }}
+      onMouseDown={handleMouseDown}
+      title="Click to jump, drag the outline to pan"
+    >
+      <canvas ref={canvasRef} style={{ width: WIDTH, height: HEIGHT }} />
+      <div className="minimap-viewport" style={outline} />
+      {dragOffset && (
+        <MinimapDrag
+          onMove={(e) => {
+            const point = getPoint(e);
+            navigateTo({ x: point.x - dragOffset.x, y: point.y - dragOffset.y });
+          }}
+          onEnd={() => setDragOffset(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Listens for window mouse moves while the outline is dragged, so the drag
+ * continues when the cursor leaves the minimap.
+ */
+const MinimapDrag: React.FC<{
+  onMove: (e: MouseEvent) => void;
+  onEnd: () => void;
+}> = ({ onMove, onEnd }) => {
+  // The listeners are added once, so route them through a ref to the latest callbacks
+  const handlers = useRef({ onMove, onEnd });
+  handlers.current = { onMove, onEnd };
+
+  useEffect(() => {
+    const move = (e: MouseEvent) => handlers.current.onMove(e);
+    const end = () => handlers.current.onEnd();
+    window.addEventListener("mousemove", move);
+    window.addEventListener("mouseup", end);
+    return () => {
+      window.removeEventListener("mousemove", move);
+      window.removeEventListener("mouseup", end);
+    };
+  }, []);
+
+  return null;
+};
+
+export default Minimap;
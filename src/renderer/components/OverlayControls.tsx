@@ -1,16 +1,25 @@
 /**
- * @fileoverview Overlay controls for district adjacency visualization.
+ * @fileoverview Overlay controls for district adjacency and tile yield visualization.
  *
  * This component provides controls to toggle and select which district
- * adjacency heatmap to display on the hex grid.
+ * adjacency heatmap to display on the hex grid, to toggle the tile
+ * yield overlay with an optional single-yield heat-map, and to toggle the
+ * ranked settle location overlay.
  *
  * @module renderer/components/OverlayControls
  */
 
 import React from "react";
-import { DistrictType } from "../../types/model";
+import { DistrictType, HexCoord } from "../../types/model";
 import { getDistrictDisplayName } from "../utils/adjacencyCalculator";
 import { getDistrictLabel } from "../utils/hexUtils";
+import {
+  YieldType,
+  YIELD_TYPES,
+  getYieldDisplayName,
+  getYieldIcon,
+} from "../utils/yieldCalculator";
+import { SettleCandidate } from "../utils/settleScorer";
 import "./OverlayControls.css";
 
 /**
@@ -29,6 +38,16 @@ const OVERLAY_DISTRICTS: DistrictType[] = [
   "preserve",
 ];
 
+/**
+ * Settings for the tile yield overlay.
+ */
+export interface YieldOverlaySettings {
+  /** Yield type to heat-map across the map, or null to show yield values only */
+  heatmap: YieldType | null;
+  /** Whether to show current yields or yields after all tile plans and planned districts */
+  mode: "current" | "planned";
+}
+
 /**
  * Props for the OverlayControls component.
  */
@@ -44,28 +63,62 @@ interface OverlayControlsProps {
    * Called with null to disable overlay.
    */
   onDistrictChange: (district: DistrictType | null) => void;
+
+  /**
+   * Current yield overlay settings.
+   * Pass null when the yield overlay is disabled.
+   */
+  yieldOverlay: YieldOverlaySettings | null;
+
+  /**
+   * Callback when the yield overlay settings change.
+   * Called with null to disable the yield overlay.
+   */
+  onYieldOverlayChange: (settings: YieldOverlaySettings | null) => void;
+
+  /**
+   * Ranked settle locations, or null when the settle overlay is disabled.
+   */
+  settleSpots: SettleCandidate[] | null;
+
+  /**
+   * Callback when the settle overlay is toggled.
+   */
+  onSettleToggle: (enabled: boolean) => void;
+
+  /**
+   * Callback when a settle location is clicked in the list.
+   */
+  onSettleSelect: (coord: HexCoord) => void;
 }
 
 /**
- * Floating control panel for district adjacency overlay.
+ * Floating control panel for map overlays.
  *
  * Features:
- * - Toggle button to enable/disable overlay
+ * - Toggle button to enable/disable the adjacency overlay
  * - Dropdown to select district type when enabled
  * - Color legend showing bonus ratings
+ * - Toggle button to enable/disable the yield overlay
+ * - Yield heat-map selector and current/after-plans switch
+ * - Toggle button for the settle overlay, with the ranked locations and
+ *   the reasons behind each score
  * - Compact design for map corner placement
  *
  * @param props - Component props
  *
  * @example
  * const [overlay, setOverlay] = useState<DistrictType | null>(null);
+ * const [yieldOverlay, setYieldOverlay] = useState<YieldOverlaySettings | null>(null);
  *
  * return (
  *   <>
- *     <HexGrid overlayDistrict={overlay} ... />
+ *     <HexGrid overlayDistrict={overlay} yieldOverlay={yieldOverlay} ... />
  *     <OverlayControls
  *       selectedDistrict={overlay}
  *       onDistrictChange={setOverlay}
+ *       yieldOverlay={yieldOverlay}
+ *       onYieldOverlayChange={setYieldOverlay}
  *     />
  *   </>
  * );
@@ -73,8 +126,15 @@ interface OverlayControlsProps {
 const OverlayControls: React.FC<OverlayControlsProps> = ({
   selectedDistrict,
   onDistrictChange,
+  yieldOverlay,
+  onYieldOverlayChange,
+  settleSpots,
+  onSettleToggle,
+  onSettleSelect,
 }) => {
   const isEnabled = selectedDistrict !== null;
+  const isYieldEnabled = yieldOverlay !== null;
+  const isSettleEnabled = settleSpots !== null;
 
   const handleToggle = () => {
     if (isEnabled) {
@@ -90,8 +150,31 @@ const OverlayControls: React.FC<OverlayControlsProps> = ({
     onDistrictChange(district);
   };
 
+  const handleYieldToggle = () => {
+    if (isYieldEnabled) {
+      onYieldOverlayChange(null);
+    } else {
+      onYieldOverlayChange({ heatmap: null, mode: "current" });
+    }
+  };
+
+  const handleHeatmapSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!yieldOverlay) return;
+    const heatmap = e.target.value ? (e.target.value as YieldType) : null;
+    onYieldOverlayChange({ ...yieldOverlay, heatmap });
+  };
+
+  const handleModeChange = (mode: YieldOverlaySettings["mode"]) => {
+    if (!yieldOverlay) return;
+    onYieldOverlayChange({ ...yieldOverlay, mode });
+  };
+
   return (
-    <div className={`overlay-controls glass-panel ${isEnabled ? "enabled" : ""}`}>
+    <div
+      className={`overlay-controls glass-panel ${
+        isEnabled || isYieldEnabled || isSettleEnabled ? "enabled" : ""
+      }`}
+    >
       <div className="overlay-header">
         <button
           className={`overlay-toggle ${isEnabled ? "active" : ""}`}
@@ -145,6 +228,98 @@ const OverlayControls: React.FC<OverlayControlsProps> = ({
           </div>
         </div>
       )}
+
+      <div className="overlay-header overlay-section">
+        <button
+          className={`overlay-toggle ${isYieldEnabled ? "active" : ""}`}
+          onClick={handleYieldToggle}
+          title={isYieldEnabled ? "Hide yield overlay" : "Show yield overlay"}
+        >
+          <span className="toggle-icon">🌾</span>
+          <span className="toggle-label">Yields</span>
+          <span className={`toggle-indicator ${isYieldEnabled ? "on" : "off"}`}>
+            {isYieldEnabled ? "ON" : "OFF"}
+          </span>
+        </button>
+      </div>
+
+      {yieldOverlay && (
+        <div className="overlay-body">
+          <div className="district-selector">
+            <label htmlFor="overlay-yield">Heat-map:</label>
+            <select
+              id="overlay-yield"
+              value={yieldOverlay.heatmap || ""}
+              onChange={handleHeatmapSelect}
+            >
+              <option value="">None</option>
+              {YIELD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {getYieldIcon(type)} {getYieldDisplayName(type)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="yield-mode-switch">
+            <button
+              className={`yield-mode-btn ${yieldOverlay.mode === "current" ? "active" : ""}`}
+              onClick={() => handleModeChange("current")}
+            >
+              Current
+            </button>
+            <button
+              className={`yield-mode-btn ${yieldOverlay.mode === "planned" ? "active" : ""}`}
+              onClick={() => handleModeChange("planned")}
+            >
+              After all plans
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="overlay-header overlay-section">
+        <button
+          className={`overlay-toggle ${isSettleEnabled ? "active" : ""}`}
+          onClick={() => onSettleToggle(!isSettleEnabled)}
+          title={isSettleEnabled ? "Hide settle locations" : "Show best settle locations"}
+        >
+          <span className="toggle-icon">🏕️</span>
+          <span className="toggle-label">Settle</span>
+          <span className={`toggle-indicator ${isSettleEnabled ? "on" : "off"}`}>
+            {isSettleEnabled ? "ON" : "OFF"}
+          </span>
+        </button>
+      </div>
+
+      {settleSpots && (
+        <div className="overlay-body">
+          {settleSpots.length === 0 ? (
+            <p className="settle-empty">No valid settle locations on the mapped tiles.</p>
+          ) : (
+            <ol className="settle-list">
+              {settleSpots.map((spot, index) => (
+                <li key={`${spot.coord.q},${spot.coord.r}`} className="settle-item">
+                  <button className="settle-spot-btn" onClick={() => onSettleSelect(spot.coord)}>
+                    <span className="settle-rank">{index + 1}</span>
+                    <span className="settle-coord">
+                      ({spot.coord.q}, {spot.coord.r})
+                    </span>
+                    <span className="settle-score">{spot.score.toFixed(1)}</span>
+                  </button>
+                  <ul className="settle-factors">
+                    {spot.factors.map((f) => (
+                      <li key={f.label} className={f.score < 0 ? "negative" : ""}>
+                        {f.label}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Toolbar for the map paint mode.
+ *
+ * This component picks the paint tool (brush or flood fill), the brush
+ * (terrain, modifier, feature, resource or river edges) and the brush radius
+ * used by HexGrid while paint mode is on.
+ *
+ * @module renderer/components/PaintToolbar
+ */
+
+import React from "react";
+import { Feature, ResourceType, Terrain, TerrainModifier } from "../../types/model";
+import { MAX_BRUSH_RADIUS, PaintBrush, PaintTool } from "../utils/mapPainter";
+import "./PaintToolbar.css";
+
+/**
+ * Settings for paint mode.
+ */
+export interface PaintSettings {
+  /** Paint along the cursor path, or flood fill contiguous terrain */
+  tool: PaintTool;
+  /** What strokes change */
+  brush: PaintBrush;
+  /** Hexes around the cursor the brush covers (0 = one hex) */
+  radius: number;
+}
+
+/** Settings paint mode starts with. */
+export const DEFAULT_PAINT_SETTINGS: PaintSettings = {
+  tool: "brush",
+  brush: { kind: "terrain", terrain: "grassland" },
+  radius: 0,
+};
+
+/**
+ * Props for the PaintToolbar component.
+ */
+interface PaintToolbarProps {
+  /** Current paint settings */
+  settings: PaintSettings;
+  /** Callback when any setting changes */
+  onChange: (settings: PaintSettings) => void;
+  /** Callback to leave paint mode */
+  onClose: () => void;
+}
+
+const TERRAINS: Terrain[] = ["grassland", "plains", "desert", "tundra", "snow", "coast", "ocean"];
+
+const MODIFIERS: TerrainModifier[] = ["hills", "mountain"];
+
+const FEATURES: Feature[] = [
+  "woods",
+  "rainforest",
+  "marsh",
+  "floodplains",
+  "reef",
+  "geothermal",
+  "volcanic_soil",
+  "oasis",
+  "cliffs",
+];
+
+const RESOURCE_TYPES: ResourceType[] = ["luxury", "strategic", "bonus"];
+
+/** Brush kinds in toolbar order, with the brush each starts with. */
+const BRUSHES: { kind: PaintBrush["kind"]; label: string; initial: PaintBrush }[] = [
+  { kind: "terrain", label: "Terrain", initial: { kind: "terrain", terrain: "grassland" } },
+  { kind: "modifier", label: "Modifier", initial: { kind: "modifier", modifier: "hills" } },
+  {
+    kind: "feature",
+    label: "Feature",
+    initial: { kind: "feature", feature: "woods", erase: false },
+  },
+  { kind: "resource", label: "Resource", initial: { kind: "resource", resource: null } },
+  { kind: "river", label: "River", initial: { kind: "river", erase: false } },
+];
+
+const formatLabel = (str: string): string => {
+  return str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+/**
+ * Floating toolbar for paint mode.
+ *
+ * Features:
+ * - Brush / Fill tool switch (rivers are drawn with the brush only)
+ * - Brush selector with the value to paint, and an erase option for
+ *   features and rivers
+ * - Radius slider for the brush tool
+ *
+ * @param props - Component props
+ *
+ * @example
+ * const [paint, setPaint] = useState<PaintSettings | null>(null);
+ *
+ * {paint && (
+ *   <PaintToolbar settings={paint} onChange={setPaint} onClose={() => setPaint(null)} />
+ * )}
+ */
+const PaintToolbar: React.FC<PaintToolbarProps> = ({ settings, onChange, onClose }) => {
+  const { tool, brush, radius } = settings;
+  const setBrush = (next: PaintBrush) =>
+    // Flood fill has no path to draw rivers along
+    onChange({ ...settings, brush: next, tool: next.kind === "river" ? "brush" : tool });
+
+  const handleKindChange = (kind: PaintBrush["kind"]) => {
+    const entry = BRUSHES.find((b) => b.kind === kind);
+    if (entry) setBrush(entry.initial);
+  };
+
+  const renderBrushValue = () => {
+    switch (brush.kind) {
+      case "terrain":
+        return (
+          <select
+            value={brush.terrain}
+            onChange={(e) => setBrush({ ...brush, terrain: e.target.value as Terrain })}
+          >
+            {TERRAINS.map((t) => (
+              <option key={t} value={t}>
+                {formatLabel(t)}
+              </option>
+            ))}
+          </select>
+        );
+      case "modifier":
+        return (
+          <select
+            value={brush.modifier ?? ""}
+            onChange={(e) =>
+              setBrush({ ...brush, modifier: (e.target.value as TerrainModifier) || null })
+            }
+          >
+            <option value="">None (flat)</option>
+            {MODIFIERS.map((m) => (
+              <option key={m} value={m}>
+                {formatLabel(m)}
+              </option>
+            ))}
+          </select>
+        );
+      case "feature":
+        return (
+          <>
+            <select
+              value={brush.feature}
+              onChange={(e) => setBrush({ ...brush, feature: e.target.value as Feature })}
+            >
+              {FEATURES.map((f) => (
+                <option key={f} value={f}>
+                  {formatLabel(f)}
+                </option>
+              ))}
+            </select>
+            <label className="paint-erase">
+              <input
+                type="checkbox"
+                checked={brush.erase}
+                onChange={() => setBrush({ ...brush, erase: !brush.erase })}
+              />
+              Erase
+            </label>
+          </>
+        );
+      case "resource":
+        return (
+          <>
+            <input
+              type="text"
+              value={brush.resource?.name ?? ""}
+              placeholder="Name (empty clears)"
+              onChange={(e) =>
+                setBrush({
+                  ...brush,
+                  resource: e.target.value
+                    ? {
+                        name: e.target.value,
+                        type: brush.resource?.type ?? "luxury",
+                        revealed: true,
+                      }
+                    : null,
+                })
+              }
+            />
+            <select
+              value={brush.resource?.type ?? "luxury"}
+              disabled={!brush.resource}
+              onChange={(e) =>
+                brush.resource &&
+                setBrush({
+                  ...brush,
+                  resource: { ...brush.resource, type: e.target.value as ResourceType },
+                })
+              }
+            >
+              {RESOURCE_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {formatLabel(t)}
+                </option>
+              ))}
+            </select>
+          </>
+        );
+      case "river":
+        return (
+          <label className="paint-erase">
+            <input
+              type="checkbox"
+              checked={brush.erase}
+              onChange={() => setBrush({ ...brush, erase: !brush.erase })}
+            />
+            Erase
+          </label>
+        );
+    }
+  };
+
+  return (
+    <div className="paint-toolbar glass-panel">
+      <div className="paint-tools">
+        {(["brush", "fill"] as PaintTool[]).map((t) => (
+          <button
+            key={t}
+            className={`paint-tool-btn ${tool === t ? "active" : ""}`}
+            onClick={() => onChange({ ...settings, tool: t })}
+            disabled={t === "fill" && brush.kind === "river"}
+            title={t === "fill" ? "Paint contiguous tiles of the same terrain" : "Drag to paint"}
+          >
+            {t === "brush" ? "🖌 Brush" : "🪣 Fill"}
+          </button>
+        ))}
+      </div>
+
+      <select
+        value={brush.kind}
+        onChange={(e) => handleKindChange(e.target.value as PaintBrush["kind"])}
+      >
+        {BRUSHES.map((b) => (
+          <option key={b.kind} value={b.kind}>
+            {b.label}
+          </option>
+        ))}
+      </select>
+
+      {renderBrushValue()}
+
+      {tool === "brush" && brush.kind !== "river" && (
+        <label className="paint-radius">
+          Radius {radius}
+          <input
+            type="range"
+            min={0}
+            max={MAX_BRUSH_RADIUS}
+            value={radius}
+            onChange={(e) => onChange({ ...settings, radius: Number(e.target.value) })}
+          />
+        </label>
+      )}
+
+      <button className="paint-close" onClick={onClose} title="Leave paint mode">
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default PaintToolbar;
@@ -0,0 +1,575 @@
+/**
+ * @fileoverview Research and civics queue panel.
+ *
+ * This component shows the technology and civic currently being researched,
+ * the planned research queues, and Eureka/Inspiration progress. Queues can be
+ * reordered by dragging, and items can be locked, boosted, and completed.
+ *
+ * @module renderer/components/ResearchPanel
+ */
+
+import React, { useState, useMemo } from "react";
+import { useGameStore } from "../store";
+import { GameSpeed } from "../../types/model";
+import { CIVICS, getCivic } from "../data/civics";
+import { Era, TECHS, getTech } from "../data/techs";
+import { getCivicQueueIssues, getTechQueueIssues, QueueOrderIssue } from "../utils/researchQueue";
+import { EUREKA_BOOST, INSPIRATION_BOOST, getResearchCost } from "../utils/researchEstimator";
+import "./ResearchPanel.css";
+
+/**
+ * Props for the ResearchPanel component.
+ */
+interface ResearchPanelProps {
+  /** Callback fired when the close button is clicked */
+  onClose: () => void;
+}
+
+/**
+ * A tech or civic as shown in the panel.
+ */
+interface ResearchItem {
+  id: string;
+  name: string;
+  era: Era;
+  cost: number;
+  prerequisites: string[];
+}
+
+/**
+ * Eureka or Inspiration progress.
+ */
+interface Boost {
+  current: number;
+  required: number;
+  description: string;
+}
+
+/**
+ * A queue entry normalized across the tech and civic queues.
+ */
+interface QueueEntry {
+  id: string;
+  researchId: string;
+  boost?: Boost;
+  isLocked: boolean;
+  turnsRemaining?: number;
+  projectedTurn?: number;
+}
+
+/**
+ * Everything a {@link ResearchSection} needs to render one research tree.
+ */
+interface ResearchSectionProps {
+  /** Label for the boost type ("Eureka" or "Inspiration") */
+  boostLabel: string;
+  /** Unit of research progress ("science" or "culture") */
+  yieldLabel: string;
+  /** Fraction of the cost granted by a triggered boost */
+  boostFraction: number;
+  /** Game speed, used to scale costs */
+  gameSpeed: GameSpeed;
+  /** Science or culture per turn */
+  perTurn: number;
+  /** All items in the tree */
+  items: ResearchItem[];
+  /** Looks up an item by ID */
+  getItem: (id: string) => ResearchItem | undefined;
+  /** Completed item IDs */
+  completed: Set<string>;
+  /** Item currently being researched, with its boost if it isn't queued */
+  current?: { id: string; progress: number; turnsRemaining: number; boost?: Boost };
+  /** Queue entries in order */
+  queue: QueueEntry[];
+  /** Queue entries placed before their prerequisites */
+  issues: QueueOrderIssue[];
+  onAdd: (id: string) => void;
+  onRemove: (itemId: string) => void;
+  onReorder: (itemId: string, newIndex: number) => void;
+  onLock: (itemId: string, locked: boolean) => void;
+  onBoostChange: (itemId: string, current: number) => void;
+  onStart: (id: string | undefined) => void;
+  onCurrentChange: (updates: {
+    progress?: number;
+    turnsRemaining?: number;
+    boost?: number;
+  }) => void;
+  onComplete: (id: string) => void;
+  onPerTurnChange: (value: number) => void;
+}
+
+const ERAS: Era[] = [
+  "ancient",
+  "classical",
+  "medieval",
+  "renaissance",
+  "industrial",
+  "modern",
+  "atomic",
+  "information",
+  "future",
+];
+
+const formatLabel = (str: string): string => {
+  return str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Sidebar panel for managing the tech and civic queues.
+ *
+ * Features:
+ * - Current tech/civic with progress bar and turns remaining
+ * - Turn estimates from science/culture per turn, game speed, and boosts
+ * - Queue with drag-to-reorder (locked items stay in place)
+ * - Eureka/Inspiration progress counters
+ * - Flags items queued before their prerequisites
+ * - Completing an item moves it to completedTechs/completedCivics
+ *
+ * @param props - Component props
+ * @param props.onClose - Callback to close the panel
+ *
+ * @example
+ * {showResearch && <ResearchPanel onClose={() => setShowResearch(false)} />}
+ */
+const ResearchPanel: React.FC<ResearchPanelProps> = ({ onClose }) => {
+  const store = useGameStore();
+  const [tab, setTab] = useState<"tech" | "civic">("tech");
+
+  const techIssues = useMemo(
+    () => getTechQueueIssues(store.techQueue, store.completedTechs),
+    [store.techQueue, store.completedTechs],
+  );
+  const civicIssues = useMemo(
+    () => getCivicQueueIssues(store.civicQueue, store.completedCivics),
+    [store.civicQueue, store.completedCivics],
+  );
+
+  const techQueue = useMemo(
+    () =>
+      store.techQueue.map((t) => ({
+        id: t.id,
+        researchId: t.techId,
+        boost: t.eurekaProgress,
+        isLocked: t.isLocked,
+        turnsRemaining: t.turnsRemaining,
+        projectedTurn: t.projectedTurn,
+      })),
+    [store.techQueue],
+  );
+  const civicQueue = useMemo(
+    () =>
+      store.civicQueue.map((c) => ({
+        id: c.id,
+        researchId: c.civicId,
+        boost: c.inspirationProgress,
+        isLocked: c.isLocked,
+        turnsRemaining: c.turnsRemaining,
+        projectedTurn: c.projectedTurn,
+      })),
+    [store.civicQueue],
+  );
+
+  return (
+    <div className="research-panel">
+      <div className="research-panel-header">
+        <h3>Research</h3>
+        <button className="close-btn" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div className="research-tabs">
+        <button
+          className={`research-tab ${tab === "tech" ? "active" : ""}`}
+          onClick={() => setTab("tech")}
+        >
+          🔬 Technologies
+        </button>
+        <button
+          className={`research-tab ${tab === "civic" ? "active" : ""}`}
+          onClick={() => setTab("civic")}
+        >
+          🎭 Civics
+        </button>
+      </div>
+
+      <div className="research-panel-content">
+        {tab === "tech" ? (
+          <ResearchSection
+            boostLabel="Eureka"
+            yieldLabel="science"
+            boostFraction={EUREKA_BOOST}
+            gameSpeed={store.setup.gameSpeed}
+            perTurn={store.sciencePerTurn}
+            items={TECHS}
+            getItem={getTech}
+            completed={store.completedTechs}
+            current={
+              store.currentTech && {
+                id: store.currentTech.techId,
+                progress: store.currentTech.progress,
+                turnsRemaining: store.currentTech.turnsRemaining,
+                boost: store.currentTech.eurekaProgress,
+              }
+            }
+            queue={techQueue}
+            issues={techIssues}
+            onAdd={store.addToTechQueue}
+            onRemove={store.removeFromTechQueue}
+            onReorder={store.reorderTechQueue}
+            onLock={store.lockTechQueueItem}
+            onBoostChange={store.updateEurekaProgress}
+            onStart={store.setCurrentTech}
+            onCurrentChange={store.updateCurrentTech}
+            onComplete={store.completeTech}
+            onPerTurnChange={(science) => store.setYieldsPerTurn({ science })}
+          />
+        ) : (
+          <ResearchSection
+            boostLabel="Inspiration"
+            yieldLabel="culture"
+            boostFraction={INSPIRATION_BOOST}
+            gameSpeed={store.setup.gameSpeed}
+            perTurn={store.culturePerTurn}
+            items={CIVICS}
+            getItem={getCivic}
+            completed={store.completedCivics}
+            current={
+              store.currentCivic && {
+                id: store.currentCivic.civicId,
+                progress: store.currentCivic.progress,
+                turnsRemaining: store.currentCivic.turnsRemaining,
+                boost: store.currentCivic.inspirationProgress,
+              }
+            }
+            queue={civicQueue}
+            issues={civicIssues}
+            onAdd={store.addToCivicQueue}
+            onRemove={store.removeFromCivicQueue}
+            onReorder={store.reorderCivicQueue}
+            onLock={store.lockCivicQueueItem}
+            onBoostChange={store.updateInspirationProgress}
+            onStart={store.setCurrentCivic}
+            onCurrentChange={store.updateCurrentCivic}
+            onComplete={store.completeCivic}
+            onPerTurnChange={(culture) => store.setYieldsPerTurn({ culture })}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// RESEARCH SECTION
+// ============================================================================
+
+/**
+ * Current research, queue, and add form for one research tree.
+ *
+ * @param props - Component props
+ */
+const ResearchSection: React.FC<ResearchSectionProps> = ({
+  boostLabel,
+  yieldLabel,
+  boostFraction,
+  gameSpeed,
+  perTurn,
+  items,
+  getItem,
+  completed,
+  current,
+  queue,
+  issues,
+  onAdd,
+  onRemove,
+  onReorder,
+  onLock,
+  onBoostChange,
+  onStart,
+  onCurrentChange,
+  onComplete,
+  onPerTurnChange,
+}) => {
+  const [selectedId, setSelectedId] = useState("");
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const currentItem = current ? getItem(current.id) : undefined;
+  const currentEntry = queue.find((q) => q.researchId === current?.id);
+  // A queued current item tracks its boost on the queue entry
+  const currentBoost = currentEntry ? currentEntry.boost : current?.boost;
+  const currentCost =
+    currentItem &&
+    getResearchCost(
+      currentItem.cost,
+      gameSpeed,
+      currentBoost && currentBoost.current >= currentBoost.required ? boostFraction : 0,
+    );
+  const queuedIds = useMemo(() => new Set(queue.map((q) => q.researchId)), [queue]);
+  const issuesById = useMemo(() => new Map(issues.map((i) => [i.itemId, i])), [issues]);
+
+  // Items that can still be queued, grouped by era
+  const addOptions = useMemo(
+    () =>
+      ERAS.map((era) => ({
+        era,
+        items: items.filter((i) => i.era === era && !completed.has(i.id) && !queuedIds.has(i.id)),
+      })).filter((group) => group.items.length > 0),
+    [items, completed, queuedIds],
+  );
+
+  const isAvailable = (id: string) =>
+    (getItem(id)?.prerequisites ?? []).every((p) => completed.has(p));
+
+  const getName = (id: string) => getItem(id)?.name ?? formatLabel(id);
+
+  const handleAdd = () => {
+    if (!selectedId) return;
+    onAdd(selectedId);
+    setSelectedId("");
+  };
+
+  const handleDrop = (index: number) => {
+    if (draggedId) {
+      onReorder(draggedId, index);
+    }
+    setDraggedId(null);
+  };
+
+  return (
+    <>
+      <label className="research-yield">
+        {formatLabel(yieldLabel)} per turn
+        <input
+          type="number"
+          min={0}
+          value={perTurn}
+          onChange={(e) => onPerTurnChange(Math.max(0, Number(e.target.value)))}
+        />
+      </label>
+
+      {/* Current research */}
+      <h4>Researching</h4>
+      {current ? (
+        <div className="research-current">
+          <div className="research-current-row">
+            <span className="research-current-name">{getName(current.id)}</span>
+            <button
+              className="research-complete-btn"
+              onClick={() => onComplete(current.id)}
+              title="Mark complete"
+            >
+              ✓
+            </button>
+            <button
+              className="research-remove-btn"
+              onClick={() => onStart(undefined)}
+              title="Stop researching"
+            >
+              ×
+            </button>
+          </div>
+          {currentCost !== undefined && (
+            <div className="research-progress-bar">
+              <div
+                className="research-progress-fill"
+                style={{
+                  width: `${Math.min(100, (current.progress / currentCost) * 100)}%`,
+                }}
+              />
+            </div>
+          )}
+          <div className="research-current-fields">
+            <label>
+              Progress
+              <input
+                type="number"
+                min={0}
+                value={current.progress}
+                onChange={(e) => onCurrentChange({ progress: Math.max(0, Number(e.target.value)) })}
+              />
+              <span className="research-unit">
+                / {currentCost ?? "?"} {yieldLabel}
+              </span>
+            </label>
+            <label>
+              Turns left
+              {/* Estimated from yields when known; entered by hand otherwise */}
+              <input
+                type="number"
+                min={0}
+                value={current.turnsRemaining}
+                readOnly={perTurn > 0}
+                onChange={(e) =>
+                  onCurrentChange({ turnsRemaining: Math.max(0, Number(e.target.value)) })
+                }
+              />
+            </label>
+          </div>
+          {!currentEntry && currentBoost && (
+            <BoostCounter
+              label={boostLabel}
+              boost={currentBoost}
+              onChange={(value) => onCurrentChange({ boost: value })}
+            />
+          )}
+        </div>
+      ) : (
+        <p className="research-empty">Nothing is being researched.</p>
+      )}
+
+      {/* Queue */}
+      <h4>Queue</h4>
+      {queue.length === 0 ? (
+        <p className="research-empty">The queue is empty.</p>
+      ) : (
+        <ol className="research-queue">
+          {queue.map((entry, index) => {
+            const issue = issuesById.get(entry.id);
+            const isCurrent = current?.id === entry.researchId;
+            return (
+              <li
+                key={entry.id}
+                className={`research-queue-item ${entry.isLocked ? "locked" : ""} ${
+                  isCurrent ? "current" : ""
+                } ${draggedId === entry.id ? "dragging" : ""}`}
+                draggable={!entry.isLocked}
+                onDragStart={() => setDraggedId(entry.id)}
+                onDragEnd={() => setDraggedId(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+              >
+                <div className="research-queue-row">
+                  <span className="research-queue-handle">{entry.isLocked ? "📌" : "⋮⋮"}</span>
+                  <span className="research-queue-name">{getName(entry.researchId)}</span>
+                  {entry.turnsRemaining !== undefined && (
+                    <span
+                      className="research-queue-eta"
+                      title={`Completes on turn ${entry.projectedTurn}`}
+                    >
+                      {entry.turnsRemaining}t · T{entry.projectedTurn}
+                    </span>
+                  )}
+                  {!isCurrent && isAvailable(entry.researchId) && (
+                    <button
+                      className="research-start-btn"
+                      onClick={() => onStart(entry.researchId)}
+                      title="Research now"
+                    >
+                      ▶
+                    </button>
+                  )}
+                  <button
+                    className="research-complete-btn"
+                    onClick={() => onComplete(entry.researchId)}
+                    title="Mark complete"
+                  >
+                    ✓
+                  </button>
+                  <button
+                    className="research-lock-btn"
+                    onClick={() => onLock(entry.id, !entry.isLocked)}
+                    title={entry.isLocked ? "Unlock position" : "Lock position"}
+                  >
+                    {entry.isLocked ? "🔒" : "🔓"}
+                  </button>
+                  <button
+                    className="research-remove-btn"
+                    onClick={() => onRemove(entry.id)}
+                    title="Remove from queue"
+                  >
+                    ×
+                  </button>
+                </div>
+
+                {entry.boost && (
+                  <BoostCounter
+                    label={boostLabel}
+                    boost={entry.boost}
+                    onChange={(value) => onBoostChange(entry.id, value)}
+                  />
+                )}
+
+                {issue && (
+                  <div className="research-issue">
+                    ⚠ Queued before {issue.missingPrerequisites.map(getName).join(", ")}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {/* Add to queue */}
+      <div className="research-add-row">
+        <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)}>
+          <option value="">Add to queue...</option>
+          {addOptions.map((group) => (
+            <optgroup key={group.era} label={formatLabel(group.era)}>
+              {group.items.map((i) => (
+                <option key={i.id} value={i.id}>
+                  {i.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button className="research-add-btn" onClick={handleAdd} disabled={!selectedId}>
+          Add
+        </button>
+        <button
+          className="research-done-btn"
+          onClick={() => {
+            onComplete(selectedId);
+            setSelectedId("");
+          }}
+          disabled={!selectedId}
+          title="Mark as already completed"
+        >
+          Done
+        </button>
+      </div>
+      <p className="research-hint">Missing prerequisites are queued automatically.</p>
+
+      <p className="research-completed-count">
+        {completed.size} of {items.length} completed
+      </p>
+    </>
+  );
+};
+
+/**
+ * Eureka/Inspiration description with a −/+ progress counter.
+ *
+ * @param props - Component props
+ */
+const BoostCounter: React.FC<{
+  label: string;
+  boost: Boost;
+  onChange: (current: number) => void;
+}> = ({ label, boost, onChange }) => (
+  <div className={`research-boost ${boost.current >= boost.required ? "complete" : ""}`}>
+    <span className="research-boost-label" title={boost.description}>
+      {label}: {boost.description}
+    </span>
+    <span className="research-boost-counter">
+      <button onClick={() => onChange(boost.current - 1)} disabled={boost.current <= 0}>
+        −
+      </button>
+      {boost.current}/{boost.required}
+      <button
+        onClick={() => onChange(boost.current + 1)}
+        disabled={boost.current >= boost.required}
+      >
+        +
+      </button>
+    </span>
+  </div>
+);
+
+export default ResearchPanel;
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Save integrity report dialog.
+ *
+ * This component shows the problems found in a save file, grouped by kind,
+ * and lets the user pick which fixes to apply. It's opened after loading a
+ * save that has problems and from the Tools > Check Save Integrity menu.
+ *
+ * @module renderer/components/SaveIntegrityDialog
+ */
+
+import React, { useState } from "react";
+import { SAVE_ISSUE_FIXES, SaveIssueKind, SaveReport } from "../utils/saveValidator";
+import "./SaveIntegrityDialog.css";
+
+/**
+ * Props for the SaveIntegrityDialog component.
+ */
+interface SaveIntegrityDialogProps {
+  /** Problems found in the save */
+  report: SaveReport;
+  /** Where the save came from (file path or "Autosave") */
+  source: string;
+  /** Callback fired with the kinds of problems to fix */
+  onApply: (kinds: SaveIssueKind[]) => void;
+  /** Callback fired when the user keeps the save as it is */
+  onClose: () => void;
+}
+
+/** Messages listed per kind before the rest are summarized. */
+const MESSAGES_SHOWN = 5;
+
+const formatLabel = (str: string): string => {
+  return str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+};
+
+/**
+ * Modal listing save problems with a checkbox per fix.
+ */
+const SaveIntegrityDialog: React.FC<SaveIntegrityDialogProps> = ({
+  report,
+  source,
+  onApply,
+  onClose,
+}) => {
+  const kinds = Object.keys(report.counts) as SaveIssueKind[];
+  const [selected, setSelected] = useState<Set<SaveIssueKind>>(() => new Set(kinds));
+
+  const toggle = (kind: SaveIssueKind) => {
+    const next = new Set(selected);
+    if (next.has(kind)) {
+      next.delete(kind);
+    } else {
+      next.add(kind);
+    }
+    setSelected(next);
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div className="dialog save-integrity-dialog" onClick={(e) => e.stopPropagation()}>
+        <h3>Save Integrity</h3>
+        <p>
+          {report.issues.length} problem{report.issues.length === 1 ? "" : "s"} found in {source}.
+        </p>
+
+        <div className="save-integrity-list">
+          {kinds.map((kind) => {
+            const messages = report.issues.filter((i) => i.kind === kind).map((i) => i.message);
+            return (
+              <div key={kind} className="save-integrity-kind">
+                <label className="save-integrity-fix">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(kind)}
+                    onChange={() => toggle(kind)}
+                  />
+                  <span>
+                    {formatLabel(kind)} ({report.counts[kind]})
+                  </span>
+                </label>
+                <div className="save-integrity-fix-desc">{SAVE_ISSUE_FIXES[kind]}</div>
+                <ul>
+                  {messages.slice(0, MESSAGES_SHOWN).map((message, i) => (
+                    <li key={i}>{message}</li>
+                  ))}
+                  {messages.length > MESSAGES_SHOWN && (
+                    <li className="save-integrity-more">
+                      …and {messages.length - MESSAGES_SHOWN} more
+                    </li>
+                  )}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="dialog-actions">
+          <button className="dialog-cancel" onClick={onClose}>
+            Keep As Is
+          </button>
+          <button
+            className="dialog-confirm"
+            onClick={() => onApply(kinds.filter((k) => selected.has(k)))}
+            disabled={selected.size === 0}
+          >
+            Apply Fixes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveIntegrityDialog;
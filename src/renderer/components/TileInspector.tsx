@@ -8,7 +8,7 @@
  * @module renderer/components/TileInspector
  */
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useGameStore } from "../store";
 import {
   HexCoord,
@@ -21,8 +21,18 @@ import {
   ResourceType,
   StateTrigger,
   TilePlannedState,
+  coordKey,
 } from "../../types/model";
 import AdjacencyPanel from "./AdjacencyPanel";
+import CityPanel from "./CityPanel";
+import YieldPanel from "./YieldPanel";
+import {
+  DistrictRuleViolation,
+  findOwningCity,
+  validateDistrictPlacement,
+} from "../utils/districtRules";
+import { estimatePopulationTurn } from "../utils/growthCalculator";
+import { formatOffset, isOnMap } from "../utils/hexUtils";
 import "./TileInspector.css";
 
 /**
@@ -181,6 +191,20 @@ const ACTION_TYPES = [
 /** River edge direction labels for the hex diagram (flat-top, clockwise from E). */
 const RIVER_EDGE_LABELS = ["E", "SE", "SW", "W", "NW", "NE"];
 
+/**
+ * Warning list for broken district placement rules.
+ */
+const RuleViolationList: React.FC<{ violations: DistrictRuleViolation[] }> = ({ violations }) =>
+  violations.length === 0 ? null : (
+    <ul className="rule-violations">
+      {violations.map((v) => (
+        <li key={v.message} className="rule-violation">
+          ⚠ {v.message}
+        </li>
+      ))}
+    </ul>
+  );
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -202,6 +226,8 @@ const RIVER_EDGE_LABELS = ["E", "SE", "SW", "W", "NW", "NE"];
  * 5. **Resources**: Type, name, and revealed status (optional)
  * 6. **Current State**: District and improvement (edit mode only)
  * 7. **Planned States**: Timeline of future actions (edit mode only)
+ * 8. **Tile Yields**: Calculated yields with per-source breakdown (edit mode only)
+ * 9. **City**: Found or manage the city centered on this tile (edit mode only)
  *
  * The form state resets when the selected tile changes. All changes are
  * applied via the "Save Changes" / "Add Tile" button.
@@ -222,8 +248,38 @@ const RIVER_EDGE_LABELS = ["E", "SE", "SW", "W", "NW", "NE"];
  * )}
  */
 const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) => {
-  const { addTile, updateTile, lockTile, addTilePlan, removeTilePlan, tiles, setup } =
-    useGameStore();
+  const {
+    addTile,
+    updateTile,
+    lockTile,
+    addTilePlan,
+    removeTilePlan,
+    tiles,
+    cities,
+    setup,
+    currentTurn,
+    completedTechs,
+    completedCivics,
+    recommendations,
+    dismissRecommendation,
+  } = useGameStore();
+
+  const progress = useMemo(
+    () => ({ completedTechs, completedCivics }),
+    [completedTechs, completedCivics],
+  );
+
+  const conflicts = useMemo(
+    () =>
+      recommendations.filter(
+        (r) =>
+          r.type === "conflict" &&
+          !r.dismissed &&
+          r.relatedCoord &&
+          coordKey(r.relatedCoord) === coordKey(coord),
+      ),
+    [recommendations, coord],
+  );
 
   // Form state for tile properties
   const [terrain, setTerrain] = useState<Terrain>(tile?.terrain || "grassland");
@@ -296,6 +352,9 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
     });
   };
 
+  // New tiles must be inside the map chosen at setup
+  const offMap = isNewTile && !!setup.map && !isOnMap(coord, setup.map);
+
   const handleSave = () => {
     const resource =
       hasResource && resourceName
@@ -324,6 +383,24 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
     }
   };
 
+  // District placement rule checks for the current district and the plan form
+  const districtViolations = useMemo(
+    () =>
+      district ? validateDistrictPlacement(district, coord, { tiles, cities, map: setup.map }) : [],
+    [district, coord, tiles, cities, setup.map],
+  );
+  const planDistrictViolations = useMemo(
+    () =>
+      planActionType === "place_district" && planActionValue
+        ? validateDistrictPlacement(planActionValue as DistrictType, coord, {
+            tiles,
+            cities,
+            map: setup.map,
+          })
+        : [],
+    [planActionType, planActionValue, coord, tiles, cities, setup.map],
+  );
+
   const handleLockToggle = () => {
     if (tile) {
       lockTile(coord, !tile.isLocked);
@@ -406,8 +483,22 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
         return `At ${formatLabel(trigger.civicId)}`;
       case "turn":
         return `Turn ${trigger.turn}`;
-      case "population":
-        return `Pop ${trigger.pop}`;
+      case "population": {
+        // Estimated from the city's current food surplus
+        const city = trigger.cityId
+          ? cities.find((c) => c.id === trigger.cityId)
+          : findOwningCity(coord, { tiles, cities });
+        const turn =
+          city &&
+          estimatePopulationTurn(city, trigger.pop, {
+            tiles,
+            setup,
+            currentTurn,
+            completedTechs,
+            completedCivics,
+          });
+        return turn ? `Pop ${trigger.pop} (~turn ${turn})` : `Pop ${trigger.pop}`;
+      }
       case "manual":
         return "Manual";
       default:
@@ -435,9 +526,17 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
   return (
     <div className="tile-inspector">
       <div className="inspector-header">
-        <h3>
-          {isNewTile ? "Add Tile" : "Edit Tile"} ({coord.q}, {coord.r})
-        </h3>
+        <div>
+          <h3>
+            {isNewTile ? "Add Tile" : "Edit Tile"} ({coord.q}, {coord.r})
+          </h3>
+          <span className="inspector-game-coord">In-game: {formatOffset(coord)}</span>
+          {offMap && setup.map && (
+            <span className="inspector-off-map">
+              Outside the {setup.map.width}×{setup.map.height} map
+            </span>
+          )}
+        </div>
         <button className="close-btn" onClick={onClose}>
           ×
         </button>
@@ -612,6 +711,7 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
                   </option>
                 ))}
               </select>
+              <RuleViolationList violations={districtViolations} />
             </div>
 
             {/* Improvement */}
@@ -637,6 +737,24 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
           <>
             <hr />
             <h4>Planned States</h4>
+            {conflicts.length > 0 && (
+              <ul className="plan-conflicts">
+                {conflicts.map((c) => (
+                  <li key={c.id} className="plan-conflict">
+                    <span className="plan-conflict-text">
+                      <strong>⚠ {c.title}:</strong> {c.shortReason}
+                    </span>
+                    <button
+                      className="remove-plan-btn"
+                      onClick={() => dismissRecommendation(c.id)}
+                      title="Dismiss"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
             {tile.plannedStates.length === 0 ? (
               <p className="no-plans">No plans for this tile.</p>
             ) : (
@@ -647,6 +765,15 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
                       <span className="plan-trigger">{formatTrigger(plan.trigger)}</span>
                       <span className="plan-action">{formatAction(plan.action)}</span>
                       {plan.rationale && <span className="plan-rationale">{plan.rationale}</span>}
+                      {plan.action.type === "place_district" && (
+                        <RuleViolationList
+                          violations={validateDistrictPlacement(plan.action.district, coord, {
+                            tiles,
+                            cities,
+                            map: setup.map,
+                          })}
+                        />
+                      )}
                     </div>
                     <button
                       className="remove-plan-btn"
@@ -736,6 +863,7 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
                       ))}
                     </select>
                   )}
+                  <RuleViolationList violations={planDistrictViolations} />
                   {planActionType === "improve" && (
                     <select
                       value={planActionValue}
@@ -787,9 +915,24 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
           </>
         )}
 
+        {/* Tile Yields (only for existing tiles) */}
+        {!isNewTile && (
+          <>
+            <hr />
+            <YieldPanel coord={coord} tiles={tiles} progress={progress} map={setup.map} />
+            {tile && <CityPanel coord={coord} tile={tile} />}
+          </>
+        )}
+
         {/* Adjacency Bonuses */}
         <hr />
-        <AdjacencyPanel coord={coord} tiles={tiles} tile={tile} playerCiv={setup.playerCiv} />
+        <AdjacencyPanel
+          coord={coord}
+          tiles={tiles}
+          tile={tile}
+          playerCiv={setup.playerCiv}
+          map={setup.map}
+        />
       </div>
 
       <div className="inspector-footer">
@@ -801,7 +944,7 @@ const TileInspector: React.FC<TileInspectorProps> = ({ coord, tile, onClose }) =
             {tile.isLocked ? "🔒 Locked" : "🔓 Unlocked"}
           </button>
         )}
-        <button className="save-btn" onClick={handleSave}>
+        <button className="save-btn" onClick={handleSave} disabled={offMap}>
           {isNewTile ? "Add Tile" : "Save Changes"}
         </button>
       </div>
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Tile yield panel for the TileInspector.
+ *
+ * This component displays the calculated yields of a tile along with a
+ * per-source breakdown (terrain, features, resource, improvement, upgrades).
+ *
+ * @module renderer/components/YieldPanel
+ */
+
+import React, { useState, useMemo } from "react";
+import { HexCoord, MapBounds, Tile } from "../../types/model";
+import {
+  calculateTileYields,
+  getYieldColor,
+  getYieldDisplayName,
+  getYieldIcon,
+  ResearchProgress,
+  YIELD_TYPES,
+} from "../utils/yieldCalculator";
+import "./YieldPanel.css";
+
+/**
+ * Props for the YieldPanel component.
+ */
+interface YieldPanelProps {
+  /** The coordinate to calculate yields for */
+  coord: HexCoord;
+  /** Map of all tiles in the game */
+  tiles: Map<string, Tile>;
+  /** Completed techs and civics for improvement upgrades */
+  progress: ResearchProgress;
+  /** Map extent, so farm adjacency wraps across the seam */
+  map?: MapBounds;
+}
+
+/**
+ * Collapsible panel showing the yields of a tile.
+ *
+ * Features:
+ * - Totals for all six yield types
+ * - Breakdown listing each yield source and its contribution
+ * - Reflects tech/civic-gated improvement upgrades
+ *
+ * @param props - Component props
+ *
+ * @example
+ * <YieldPanel
+ *   coord={{ q: 3, r: -1 }}
+ *   tiles={gameStore.tiles}
+ *   progress={{ completedTechs, completedCivics }}
+ * />
+ */
+const YieldPanel: React.FC<YieldPanelProps> = ({ coord, tiles, progress, map }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const result = useMemo(
+    () => calculateTileYields(coord, tiles, progress, map),
+    [coord, tiles, progress, map],
+  );
+
+  return (
+    <div className="yield-panel">
+      <button className="yield-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="yield-title">
+          <span className="yield-title-icon">🌾</span>
+          Tile Yields
+        </span>
+        <span className={`expand-arrow ${isExpanded ? "expanded" : ""}`}>▼</span>
+      </button>
+
+      {isExpanded && (
+        <div className="yield-content">
+          <div className="yield-totals">
+            {YIELD_TYPES.map((type) => (
+              <span
+                key={type}
+                className={`yield-total ${result.total[type] === 0 ? "zero" : ""}`}
+                style={{ color: getYieldColor(type) }}
+                title={getYieldDisplayName(type)}
+              >
+                <span className="yield-icon">{getYieldIcon(type)}</span>
+                {result.total[type]}
+              </span>
+            ))}
+          </div>
+
+          {result.breakdown.length === 0 ? (
+            <p className="yield-empty">This tile produces no yields.</p>
+          ) : (
+            <ul className="yield-breakdown">
+              {result.breakdown.map((source, idx) => (
+                <li key={idx} className="yield-breakdown-item">
+                  <span className="yield-source">{source.source}</span>
+                  <span className="yield-detail">
+                    {YIELD_TYPES.filter((type) => source.yields[type]).map((type) => (
+                      <span key={type} style={{ color: getYieldColor(type) }}>
+                        {source.yields[type]! > 0 ? "+" : ""}
+                        {source.yields[type]} {getYieldIcon(type)}
+                      </span>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default YieldPanel;
@@ -0,0 +1,128 @@
+// Civ 6 buildings grouped by the district they are built in
+// Base-game and expansion buildings; unique buildings can be added later
+
+import { DistrictType } from "../../types/model";
+
+export interface BuildingData {
+  id: string;
+  name: string;
+  district: DistrictType;
+  /** Buildings that must exist in the same district first */
+  requires?: string[];
+}
+
+export const BUILDINGS: BuildingData[] = [
+  // City Center
+  { id: "palace", name: "Palace", district: "city_center" },
+  { id: "monument", name: "Monument", district: "city_center" },
+  { id: "granary", name: "Granary", district: "city_center" },
+  { id: "water_mill", name: "Water Mill", district: "city_center" },
+  { id: "ancient_walls", name: "Ancient Walls", district: "city_center" },
+  {
+    id: "medieval_walls",
+    name: "Medieval Walls",
+    district: "city_center",
+    requires: ["ancient_walls"],
+  },
+  {
+    id: "renaissance_walls",
+    name: "Renaissance Walls",
+    district: "city_center",
+    requires: ["medieval_walls"],
+  },
+  { id: "sewer", name: "Sewer", district: "city_center" },
+
+  // Campus
+  { id: "library", name: "Library", district: "campus" },
+  { id: "university", name: "University", district: "campus", requires: ["library"] },
+  { id: "research_lab", name: "Research Lab", district: "campus", requires: ["university"] },
+
+  // Holy Site
+  { id: "shrine", name: "Shrine", district: "holy_site" },
+  { id: "temple", name: "Temple", district: "holy_site", requires: ["shrine"] },
+
+  // Theater Square
+  { id: "amphitheater", name: "Amphitheater", district: "theater_square" },
+  { id: "art_museum", name: "Art Museum", district: "theater_square", requires: ["amphitheater"] },
+  {
+    id: "archaeological_museum",
+    name: "Archaeological Museum",
+    district: "theater_square",
+    requires: ["amphitheater"],
+  },
+  {
+    id: "broadcast_center",
+    name: "Broadcast Center",
+    district: "theater_square",
+    requires: ["amphitheater"],
+  },
+
+  // Commercial Hub
+  { id: "market", name: "Market", district: "commercial_hub" },
+  { id: "bank", name: "Bank", district: "commercial_hub", requires: ["market"] },
+  { id: "stock_exchange", name: "Stock Exchange", district: "commercial_hub", requires: ["bank"] },
+
+  // Harbor
+  { id: "lighthouse", name: "Lighthouse", district: "harbor" },
+  { id: "shipyard", name: "Shipyard", district: "harbor", requires: ["lighthouse"] },
+  { id: "seaport", name: "Seaport", district: "harbor", requires: ["shipyard"] },
+
+  // Industrial Zone
+  { id: "workshop", name: "Workshop", district: "industrial_zone" },
+  { id: "factory", name: "Factory", district: "industrial_zone", requires: ["workshop"] },
+  { id: "power_plant", name: "Power Plant", district: "industrial_zone", requires: ["factory"] },
+
+  // Encampment
+  { id: "barracks", name: "Barracks", district: "encampment" },
+  { id: "stable", name: "Stable", district: "encampment" },
+  { id: "armory", name: "Armory", district: "encampment" },
+  {
+    id: "military_academy",
+    name: "Military Academy",
+    district: "encampment",
+    requires: ["armory"],
+  },
+
+  // Entertainment Complex
+  { id: "arena", name: "Arena", district: "entertainment_complex" },
+  { id: "zoo", name: "Zoo", district: "entertainment_complex", requires: ["arena"] },
+  { id: "stadium", name: "Stadium", district: "entertainment_complex", requires: ["zoo"] },
+
+  // Water Park
+  { id: "ferris_wheel", name: "Ferris Wheel", district: "water_park" },
+  { id: "aquarium", name: "Aquarium", district: "water_park", requires: ["ferris_wheel"] },
+  {
+    id: "aquatics_center",
+    name: "Aquatics Center",
+    district: "water_park",
+    requires: ["aquarium"],
+  },
+
+  // Aerodrome
+  { id: "hangar", name: "Hangar", district: "aerodrome" },
+  { id: "airport", name: "Airport", district: "aerodrome", requires: ["hangar"] },
+
+  // Government Plaza
+  { id: "ancestral_hall", name: "Ancestral Hall", district: "government_plaza" },
+  { id: "audience_chamber", name: "Audience Chamber", district: "government_plaza" },
+  { id: "warlords_throne", name: "Warlord's Throne", district: "government_plaza" },
+
+  // Diplomatic Quarter
+  { id: "consulate", name: "Consulate", district: "diplomatic_quarter" },
+  { id: "chancery", name: "Chancery", district: "diplomatic_quarter", requires: ["consulate"] },
+
+  // Neighborhood
+  { id: "food_market", name: "Food Market", district: "neighborhood" },
+  { id: "shopping_mall", name: "Shopping Mall", district: "neighborhood" },
+
+  // Dam
+  { id: "hydroelectric_dam", name: "Hydroelectric Dam", district: "dam" },
+];
+
+export function getBuildingsForDistrict(district: DistrictType): BuildingData[] {
+  return BUILDINGS.filter((b) => b.district === district);
+}
+
+export function getBuildingName(buildingId: string): string {
+  return BUILDINGS.find((b) => b.id === buildingId)?.name ?? buildingId;
+}
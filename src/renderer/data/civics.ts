@@ -0,0 +1,707 @@
+// Civ 6 civics tree (Gathering Storm)
+// Costs are base culture costs on Standard speed
+
+import { BoostData, Era } from "./techs";
+
+export interface CivicData {
+  id: string;
+  name: string;
+  era: Era;
+  cost: number;
+  prerequisites: string[];
+  inspiration?: BoostData;
+  /** Policy cards unlocked by this civic */
+  policies: string[];
+  /** Governments unlocked by this civic */
+  governments: string[];
+  /** Governor titles granted by this civic */
+  governorTitles: number;
+}
+
+export const CIVICS: CivicData[] = [
+  // Ancient Era
+  {
+    id: "code_of_laws",
+    name: "Code of Laws",
+    era: "ancient",
+    cost: 20,
+    prerequisites: [],
+    policies: ["Discipline", "Urban Planning"],
+    governments: ["Chiefdom"],
+    governorTitles: 0,
+  },
+  {
+    id: "craftsmanship",
+    name: "Craftsmanship",
+    era: "ancient",
+    cost: 40,
+    prerequisites: ["code_of_laws"],
+    inspiration: { description: "Improve 3 tiles", required: 3 },
+    policies: ["Ilkum", "Agoge"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "foreign_trade",
+    name: "Foreign Trade",
+    era: "ancient",
+    cost: 40,
+    prerequisites: ["code_of_laws"],
+    inspiration: { description: "Discover a second continent", required: 1 },
+    policies: ["Maritime Industries"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "military_tradition",
+    name: "Military Tradition",
+    era: "ancient",
+    cost: 50,
+    prerequisites: ["craftsmanship"],
+    inspiration: { description: "Clear a Barbarian Outpost", required: 1 },
+    policies: ["Maneuver"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "state_workforce",
+    name: "State Workforce",
+    era: "ancient",
+    cost: 70,
+    prerequisites: ["craftsmanship"],
+    inspiration: { description: "Build any district", required: 1 },
+    policies: ["Corvée"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "early_empire",
+    name: "Early Empire",
+    era: "ancient",
+    cost: 70,
+    prerequisites: ["foreign_trade"],
+    inspiration: { description: "Grow your civilization to 6 population", required: 6 },
+    policies: ["Colonization"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "mysticism",
+    name: "Mysticism",
+    era: "ancient",
+    cost: 50,
+    prerequisites: ["foreign_trade"],
+    inspiration: { description: "Found a Pantheon", required: 1 },
+    policies: ["Revelation"],
+    governments: [],
+    governorTitles: 0,
+  },
+
+  // Classical Era
+  {
+    id: "games_and_recreation",
+    name: "Games and Recreation",
+    era: "classical",
+    cost: 110,
+    prerequisites: ["state_workforce"],
+    inspiration: { description: "Research the Construction technology", required: 1 },
+    policies: ["Insulae"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "political_philosophy",
+    name: "Political Philosophy",
+    era: "classical",
+    cost: 110,
+    prerequisites: ["state_workforce", "early_empire"],
+    inspiration: { description: "Meet 3 City-States", required: 3 },
+    policies: [],
+    governments: ["Autocracy", "Oligarchy", "Classical Republic"],
+    governorTitles: 0,
+  },
+  {
+    id: "drama_and_poetry",
+    name: "Drama and Poetry",
+    era: "classical",
+    cost: 110,
+    prerequisites: ["early_empire"],
+    inspiration: { description: "Build a Wonder", required: 1 },
+    policies: [],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "military_training",
+    name: "Military Training",
+    era: "classical",
+    cost: 120,
+    prerequisites: ["military_tradition", "games_and_recreation"],
+    inspiration: { description: "Build an Encampment", required: 1 },
+    policies: ["Raid", "Veterancy"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "defensive_tactics",
+    name: "Defensive Tactics",
+    era: "classical",
+    cost: 175,
+    prerequisites: ["games_and_recreation", "political_philosophy"],
+    inspiration: { description: "Be the target of a Declaration of War", required: 1 },
+    policies: ["Limes", "Bastions"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "recorded_history",
+    name: "Recorded History",
+    era: "classical",
+    cost: 175,
+    prerequisites: ["political_philosophy", "drama_and_poetry"],
+    inspiration: { description: "Build 2 Campus districts", required: 2 },
+    policies: ["Natural Philosophy"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "theology",
+    name: "Theology",
+    era: "classical",
+    cost: 120,
+    prerequisites: ["drama_and_poetry", "mysticism"],
+    inspiration: { description: "Found a Religion", required: 1 },
+    policies: ["Scripture"],
+    governments: [],
+    governorTitles: 0,
+  },
+
+  // Medieval Era
+  {
+    id: "naval_tradition",
+    name: "Naval Tradition",
+    era: "medieval",
+    cost: 200,
+    prerequisites: ["defensive_tactics"],
+    inspiration: { description: "Kill a unit with a Quadrireme", required: 1 },
+    policies: ["Naval Infrastructure"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "feudalism",
+    name: "Feudalism",
+    era: "medieval",
+    cost: 275,
+    prerequisites: ["defensive_tactics"],
+    inspiration: { description: "Build 6 Farms", required: 6 },
+    policies: ["Serfdom", "Meritocracy"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "civil_service",
+    name: "Civil Service",
+    era: "medieval",
+    cost: 275,
+    prerequisites: ["defensive_tactics", "recorded_history"],
+    inspiration: { description: "Grow a city to 10 population", required: 10 },
+    policies: ["Charismatic Leader"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "mercenaries",
+    name: "Mercenaries",
+    era: "medieval",
+    cost: 290,
+    prerequisites: ["military_training", "feudalism"],
+    inspiration: { description: "Have 8 land combat units", required: 8 },
+    policies: ["Professional Army", "Retainers"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "medieval_faires",
+    name: "Medieval Faires",
+    era: "medieval",
+    cost: 385,
+    prerequisites: ["feudalism"],
+    inspiration: { description: "Maintain 4 Trade Routes", required: 4 },
+    policies: ["Aesthetics", "Medina Quarter", "Trade Confederation"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "guilds",
+    name: "Guilds",
+    era: "medieval",
+    cost: 385,
+    prerequisites: ["feudalism", "civil_service"],
+    inspiration: { description: "Build 2 Markets", required: 2 },
+    policies: ["Town Charters", "Travelling Merchants"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "divine_right",
+    name: "Divine Right",
+    era: "medieval",
+    cost: 290,
+    prerequisites: ["civil_service", "theology"],
+    inspiration: { description: "Build 2 Temples", required: 2 },
+    policies: ["Chivalry"],
+    governments: ["Monarchy"],
+    governorTitles: 0,
+  },
+
+  // Renaissance Era
+  {
+    id: "exploration",
+    name: "Exploration",
+    era: "renaissance",
+    cost: 400,
+    prerequisites: ["mercenaries", "medieval_faires"],
+    inspiration: { description: "Build 2 Caravels", required: 2 },
+    policies: ["Press Gangs"],
+    governments: ["Merchant Republic"],
+    governorTitles: 0,
+  },
+  {
+    id: "humanism",
+    name: "Humanism",
+    era: "renaissance",
+    cost: 540,
+    prerequisites: ["medieval_faires", "guilds"],
+    inspiration: { description: "Earn a Great Artist", required: 1 },
+    policies: ["Grand Opera"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "diplomatic_service",
+    name: "Diplomatic Service",
+    era: "renaissance",
+    cost: 540,
+    prerequisites: ["guilds"],
+    inspiration: { description: "Have an alliance with another civilization", required: 1 },
+    policies: ["Raj", "Machiavellianism"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "reformed_church",
+    name: "Reformed Church",
+    era: "renaissance",
+    cost: 400,
+    prerequisites: ["guilds", "divine_right"],
+    inspiration: { description: "Have 6 cities following your Religion", required: 6 },
+    policies: ["Simultaneum"],
+    governments: ["Theocracy"],
+    governorTitles: 0,
+  },
+  {
+    id: "mercantilism",
+    name: "Mercantilism",
+    era: "renaissance",
+    cost: 655,
+    prerequisites: ["humanism"],
+    inspiration: { description: "Earn a Great Merchant", required: 1 },
+    policies: ["Triangular Trade"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "the_enlightenment",
+    name: "The Enlightenment",
+    era: "renaissance",
+    cost: 655,
+    prerequisites: ["diplomatic_service"],
+    inspiration: { description: "Earn 3 Great People", required: 3 },
+    policies: ["Rationalism", "Free Market", "Liberalism"],
+    governments: [],
+    governorTitles: 0,
+  },
+
+  // Industrial Era
+  {
+    id: "colonialism",
+    name: "Colonialism",
+    era: "industrial",
+    cost: 725,
+    prerequisites: ["mercantilism"],
+    inspiration: { description: "Research the Astronomy technology", required: 1 },
+    policies: ["Colonial Offices", "Colonial Taxes"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "civil_engineering",
+    name: "Civil Engineering",
+    era: "industrial",
+    cost: 920,
+    prerequisites: ["mercantilism"],
+    inspiration: { description: "Build 7 different specialty districts", required: 7 },
+    policies: ["Public Works"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "nationalism",
+    name: "Nationalism",
+    era: "industrial",
+    cost: 920,
+    prerequisites: ["the_enlightenment"],
+    inspiration: { description: "Declare war using a Casus Belli", required: 1 },
+    policies: ["Native Conquest", "Grande Armée"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "opera_and_ballet",
+    name: "Opera and Ballet",
+    era: "industrial",
+    cost: 725,
+    prerequisites: ["the_enlightenment"],
+    inspiration: { description: "Build an Art Museum", required: 1 },
+    policies: ["Heritage Tourism"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "natural_history",
+    name: "Natural History",
+    era: "industrial",
+    cost: 870,
+    prerequisites: ["colonialism"],
+    inspiration: { description: "Build an Archaeological Museum", required: 1 },
+    policies: ["Public Transport"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "urbanization",
+    name: "Urbanization",
+    era: "industrial",
+    cost: 1060,
+    prerequisites: ["civil_engineering", "nationalism"],
+    inspiration: { description: "Grow a city to 15 population", required: 15 },
+    policies: ["New Deal"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "scorched_earth",
+    name: "Scorched Earth",
+    era: "industrial",
+    cost: 1060,
+    prerequisites: ["nationalism"],
+    inspiration: { description: "Build 2 Field Cannons", required: 2 },
+    policies: ["Total War"],
+    governments: [],
+    governorTitles: 0,
+  },
+
+  // Modern Era
+  {
+    id: "conservation",
+    name: "Conservation",
+    era: "modern",
+    cost: 1255,
+    prerequisites: ["natural_history", "urbanization"],
+    inspiration: { description: "Have a Neighborhood with Breathtaking Appeal", required: 1 },
+    policies: ["Wisselbanken"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "capitalism",
+    name: "Capitalism",
+    era: "modern",
+    cost: 1560,
+    prerequisites: ["urbanization"],
+    inspiration: { description: "Build 3 Stock Exchanges", required: 3 },
+    policies: ["Economic Union", "Market Economy"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "mass_media",
+    name: "Mass Media",
+    era: "modern",
+    cost: 1410,
+    prerequisites: ["urbanization"],
+    inspiration: { description: "Research the Radio technology", required: 1 },
+    policies: ["Propaganda"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "mobilization",
+    name: "Mobilization",
+    era: "modern",
+    cost: 1410,
+    prerequisites: ["urbanization"],
+    inspiration: { description: "Have 3 Corps in your military", required: 3 },
+    policies: ["Military Organization", "Levée en Masse"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "ideology",
+    name: "Ideology",
+    era: "modern",
+    cost: 660,
+    prerequisites: ["mass_media", "mobilization"],
+    policies: [],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "suffrage",
+    name: "Suffrage",
+    era: "modern",
+    cost: 1715,
+    prerequisites: ["ideology"],
+    inspiration: { description: "Build 4 Sewers", required: 4 },
+    policies: ["Police State"],
+    governments: ["Democracy"],
+    governorTitles: 0,
+  },
+  {
+    id: "totalitarianism",
+    name: "Totalitarianism",
+    era: "modern",
+    cost: 1715,
+    prerequisites: ["ideology"],
+    inspiration: { description: "Build 3 Military Academies", required: 3 },
+    policies: ["Lightning Warfare"],
+    governments: ["Fascism"],
+    governorTitles: 0,
+  },
+  {
+    id: "class_struggle",
+    name: "Class Struggle",
+    era: "modern",
+    cost: 1715,
+    prerequisites: ["ideology"],
+    inspiration: { description: "Build 3 Factories", required: 3 },
+    policies: ["Five-Year Plan"],
+    governments: ["Communism"],
+    governorTitles: 0,
+  },
+  {
+    id: "nuclear_program",
+    name: "Nuclear Program",
+    era: "modern",
+    cost: 1715,
+    prerequisites: ["ideology"],
+    inspiration: { description: "Build a Research Lab", required: 1 },
+    policies: ["Nuclear Espionage"],
+    governments: [],
+    governorTitles: 0,
+  },
+
+  // Atomic Era
+  {
+    id: "cultural_heritage",
+    name: "Cultural Heritage",
+    era: "atomic",
+    cost: 1955,
+    prerequisites: ["conservation"],
+    inspiration: { description: "Have a themed building", required: 1 },
+    policies: ["Cultural Heritage"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "cold_war",
+    name: "Cold War",
+    era: "atomic",
+    cost: 2185,
+    prerequisites: ["ideology"],
+    inspiration: { description: "Research the Nuclear Fission technology", required: 1 },
+    policies: ["Containment", "Arsenal of Democracy"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "professional_sports",
+    name: "Professional Sports",
+    era: "atomic",
+    cost: 2185,
+    prerequisites: ["ideology"],
+    inspiration: { description: "Build 4 Entertainment Complexes", required: 4 },
+    policies: ["Sports Media"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "rapid_deployment",
+    name: "Rapid Deployment",
+    era: "atomic",
+    cost: 2415,
+    prerequisites: ["cold_war"],
+    inspiration: { description: "Build an Aerodrome on a foreign continent", required: 1 },
+    policies: ["International Waters"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "space_race",
+    name: "Space Race",
+    era: "atomic",
+    cost: 2415,
+    prerequisites: ["cold_war"],
+    inspiration: { description: "Build a Spaceport", required: 1 },
+    policies: ["Integrated Space Cell"],
+    governments: [],
+    governorTitles: 0,
+  },
+
+  // Information Era
+  {
+    id: "globalization",
+    name: "Globalization",
+    era: "information",
+    cost: 2880,
+    prerequisites: ["rapid_deployment", "space_race"],
+    inspiration: { description: "Build 3 Airports", required: 3 },
+    policies: ["Collective Activism", "Ecommerce"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "social_media",
+    name: "Social Media",
+    era: "information",
+    cost: 2880,
+    prerequisites: ["professional_sports", "space_race"],
+    inspiration: { description: "Grow a Tourism economy to 2 Great Works", required: 2 },
+    policies: ["Online Communities"],
+    governments: [],
+    governorTitles: 1,
+  },
+  {
+    id: "environmentalism",
+    name: "Environmentalism",
+    era: "information",
+    cost: 2880,
+    prerequisites: ["cultural_heritage", "rapid_deployment"],
+    inspiration: { description: "Build 2 Solar Farms", required: 2 },
+    policies: ["Resource Management"],
+    governments: [],
+    governorTitles: 0,
+  },
+
+  // Future Era
+  {
+    id: "near_future_governance",
+    name: "Near Future Governance",
+    era: "future",
+    cost: 3000,
+    prerequisites: ["globalization", "social_media"],
+    policies: ["Global Coalition"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "venture_politics",
+    name: "Venture Politics",
+    era: "future",
+    cost: 3000,
+    prerequisites: ["near_future_governance"],
+    policies: [],
+    governments: ["Corporate Libertarianism"],
+    governorTitles: 0,
+  },
+  {
+    id: "distributed_sovereignty",
+    name: "Distributed Sovereignty",
+    era: "future",
+    cost: 3000,
+    prerequisites: ["near_future_governance"],
+    policies: [],
+    governments: ["Digital Democracy"],
+    governorTitles: 0,
+  },
+  {
+    id: "optimization_imperative",
+    name: "Optimization Imperative",
+    era: "future",
+    cost: 3000,
+    prerequisites: ["near_future_governance"],
+    policies: [],
+    governments: ["Synthetic Technocracy"],
+    governorTitles: 0,
+  },
+  {
+    id: "information_warfare",
+    name: "Information Warfare",
+    era: "future",
+    cost: 3200,
+    prerequisites: ["venture_politics", "distributed_sovereignty", "optimization_imperative"],
+    policies: ["Disinformation Campaign"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "exodus_imperative",
+    name: "Exodus Imperative",
+    era: "future",
+    cost: 3200,
+    prerequisites: ["venture_politics", "distributed_sovereignty", "optimization_imperative"],
+    policies: ["Space Race Projects"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "cultural_hegemony",
+    name: "Cultural Hegemony",
+    era: "future",
+    cost: 3200,
+    prerequisites: ["venture_politics", "distributed_sovereignty", "optimization_imperative"],
+    policies: ["Cultural Hegemony"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "smart_power_doctrine",
+    name: "Smart Power Doctrine",
+    era: "future",
+    cost: 3200,
+    prerequisites: ["venture_politics", "distributed_sovereignty", "optimization_imperative"],
+    policies: ["Smart Power Doctrine"],
+    governments: [],
+    governorTitles: 0,
+  },
+  {
+    id: "future_civic",
+    name: "Future Civic",
+    era: "future",
+    cost: 3500,
+    prerequisites: [
+      "information_warfare",
+      "exodus_imperative",
+      "cultural_hegemony",
+      "smart_power_doctrine",
+    ],
+    policies: [],
+    governments: [],
+    governorTitles: 0,
+  },
+];
+
+const CIVICS_BY_ID = new Map(CIVICS.map((c) => [c.id, c]));
+
+export function getCivic(civicId: string): CivicData | undefined {
+  return CIVICS_BY_ID.get(civicId);
+}
+
+export function getCivicName(civicId: string): string {
+  return CIVICS_BY_ID.get(civicId)?.name ?? civicId;
+}
+
+export function getCivicPrerequisites(civicId: string): string[] {
+  return CIVICS_BY_ID.get(civicId)?.prerequisites ?? [];
+}
@@ -0,0 +1,133 @@
+// Tech- and civic-gated improvement yield upgrades (Gathering Storm)
+// The yield calculator applies these, and the tech tree lists them as unlocks
+// Farm adjacency (Feudalism, Replaceable Parts) is handled by the yield calculator
+
+import { Improvement } from "../../types/model";
+import type { Yields } from "../utils/yieldCalculator";
+
+export interface ImprovementUpgrade {
+  /** Improvement that receives the upgrade */
+  improvement: Improvement;
+  /** Tech or civic that unlocks the upgrade */
+  requires: { type: "tech"; techId: string } | { type: "civic"; civicId: string };
+  /** Display name for the breakdown */
+  source: string;
+  /** Yields added once unlocked */
+  yields: Partial<Yields>;
+}
+
+export const IMPROVEMENT_UPGRADES: ImprovementUpgrade[] = [
+  {
+    improvement: "mine",
+    requires: { type: "tech", techId: "apprenticeship" },
+    source: "Apprenticeship",
+    yields: { production: 1 },
+  },
+  {
+    improvement: "mine",
+    requires: { type: "tech", techId: "industrialization" },
+    source: "Industrialization",
+    yields: { production: 1 },
+  },
+  {
+    improvement: "mine",
+    requires: { type: "tech", techId: "smart_materials" },
+    source: "Smart Materials",
+    yields: { production: 2 },
+  },
+  {
+    improvement: "quarry",
+    requires: { type: "tech", techId: "gunpowder" },
+    source: "Gunpowder",
+    yields: { production: 1 },
+  },
+  {
+    improvement: "quarry",
+    requires: { type: "tech", techId: "rocketry" },
+    source: "Rocketry",
+    yields: { production: 1 },
+  },
+  {
+    improvement: "camp",
+    requires: { type: "civic", civicId: "mercantilism" },
+    source: "Mercantilism",
+    yields: { gold: 1 },
+  },
+  {
+    improvement: "camp",
+    requires: { type: "tech", techId: "synthetic_materials" },
+    source: "Synthetic Materials",
+    yields: { gold: 1 },
+  },
+  {
+    improvement: "pasture",
+    requires: { type: "tech", techId: "stirrups" },
+    source: "Stirrups",
+    yields: { food: 1 },
+  },
+  {
+    improvement: "pasture",
+    requires: { type: "tech", techId: "robotics" },
+    source: "Robotics",
+    yields: { production: 1 },
+  },
+  {
+    improvement: "plantation",
+    requires: { type: "civic", civicId: "globalization" },
+    source: "Globalization",
+    yields: { gold: 2 },
+  },
+  {
+    improvement: "fishing_boats",
+    requires: { type: "tech", techId: "cartography" },
+    source: "Cartography",
+    yields: { gold: 1 },
+  },
+  {
+    improvement: "fishing_boats",
+    requires: { type: "tech", techId: "plastics" },
+    source: "Plastics",
+    yields: { food: 1 },
+  },
+  {
+    improvement: "lumber_mill",
+    requires: { type: "tech", techId: "steel" },
+    source: "Steel",
+    yields: { production: 1 },
+  },
+  {
+    improvement: "lumber_mill",
+    requires: { type: "tech", techId: "cybernetics" },
+    source: "Cybernetics",
+    yields: { production: 1 },
+  },
+];
+
+const IMPROVEMENT_PLURALS: Partial<Record<Improvement, string>> = {
+  mine: "Mines",
+  quarry: "Quarries",
+  camp: "Camps",
+  pasture: "Pastures",
+  plantation: "Plantations",
+  fishing_boats: "Fishing Boats",
+  lumber_mill: "Lumber Mills",
+};
+
+const formatLabel = (str: string): string =>
+  str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+/** Unlock text for an upgrade, e.g. "+1 Production from Mines". */
+export function describeUpgrade(upgrade: ImprovementUpgrade): string {
+  const yields = Object.entries(upgrade.yields)
+    .map(([type, amount]) => `+${amount} ${formatLabel(type)}`)
+    .join(", ");
+  const improvements = IMPROVEMENT_PLURALS[upgrade.improvement] ?? formatLabel(upgrade.improvement);
+  return `${yields} from ${improvements}`;
+}
+
+/** Unlock text for the improvement upgrades a tech unlocks. */
+export function getTechUpgradeUnlocks(techId: string): string[] {
+  return IMPROVEMENT_UPGRADES.filter(
+    (u) => u.requires.type === "tech" && u.requires.techId === techId,
+  ).map(describeUpgrade);
+}
@@ -0,0 +1,19 @@
+// Civ 6 map size presets, in tiles (columns × rows)
+
+import { MapSize } from "../../types/model";
+
+export interface MapSizeData {
+  value: Exclude<MapSize, "custom">;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const MAP_SIZES: MapSizeData[] = [
+  { value: "duel", label: "Duel", width: 44, height: 26 },
+  { value: "tiny", label: "Tiny", width: 60, height: 38 },
+  { value: "small", label: "Small", width: 74, height: 46 },
+  { value: "standard", label: "Standard", width: 84, height: 54 },
+  { value: "large", label: "Large", width: 96, height: 60 },
+  { value: "huge", label: "Huge", width: 106, height: 66 },
+];
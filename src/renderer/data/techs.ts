@@ -0,0 +1,754 @@
+// Civ 6 technology tree (Gathering Storm)
+// Costs are base science costs on Standard speed
+
+import { getTechUpgradeUnlocks } from "./improvementUpgrades";
+
+export type Era =
+  | "ancient"
+  | "classical"
+  | "medieval"
+  | "renaissance"
+  | "industrial"
+  | "modern"
+  | "atomic"
+  | "information"
+  | "future";
+
+export interface BoostData {
+  /** What the player has to do to trigger the boost */
+  description: string;
+  /** How many times it has to be done (e.g. 3 for "Build 3 mines") */
+  required: number;
+}
+
+export interface TechData {
+  id: string;
+  name: string;
+  era: Era;
+  cost: number;
+  prerequisites: string[];
+  eureka?: BoostData;
+  unlocks: string[];
+}
+
+// Improvement yield upgrades are appended from IMPROVEMENT_UPGRADES below
+const TECH_TREE: TechData[] = [
+  // Ancient Era
+  {
+    id: "pottery",
+    name: "Pottery",
+    era: "ancient",
+    cost: 25,
+    prerequisites: [],
+    unlocks: ["Granary"],
+  },
+  {
+    id: "animal_husbandry",
+    name: "Animal Husbandry",
+    era: "ancient",
+    cost: 25,
+    prerequisites: [],
+    unlocks: ["Pasture", "Reveals Horses"],
+  },
+  {
+    id: "mining",
+    name: "Mining",
+    era: "ancient",
+    cost: 25,
+    prerequisites: [],
+    unlocks: ["Mine", "Remove Woods"],
+  },
+  {
+    id: "sailing",
+    name: "Sailing",
+    era: "ancient",
+    cost: 50,
+    prerequisites: [],
+    eureka: { description: "Found a city on the Coast", required: 1 },
+    unlocks: ["Galley", "Fishing Boats"],
+  },
+  {
+    id: "astrology",
+    name: "Astrology",
+    era: "ancient",
+    cost: 50,
+    prerequisites: [],
+    eureka: { description: "Find a Natural Wonder", required: 1 },
+    unlocks: ["Holy Site", "Shrine", "Stonehenge"],
+  },
+  {
+    id: "irrigation",
+    name: "Irrigation",
+    era: "ancient",
+    cost: 50,
+    prerequisites: ["pottery"],
+    eureka: { description: "Farm a resource", required: 1 },
+    unlocks: ["Plantation", "Hanging Gardens"],
+  },
+  {
+    id: "writing",
+    name: "Writing",
+    era: "ancient",
+    cost: 50,
+    prerequisites: ["pottery"],
+    eureka: { description: "Meet another civilization", required: 1 },
+    unlocks: ["Campus", "Library"],
+  },
+  {
+    id: "archery",
+    name: "Archery",
+    era: "ancient",
+    cost: 50,
+    prerequisites: ["animal_husbandry"],
+    eureka: { description: "Kill a unit with a Slinger", required: 1 },
+    unlocks: ["Archer"],
+  },
+  {
+    id: "masonry",
+    name: "Masonry",
+    era: "ancient",
+    cost: 80,
+    prerequisites: ["mining"],
+    eureka: { description: "Build a Quarry", required: 1 },
+    unlocks: ["Ancient Walls", "Quarry", "Pyramids", "Remove Rainforest"],
+  },
+  {
+    id: "bronze_working",
+    name: "Bronze Working",
+    era: "ancient",
+    cost: 80,
+    prerequisites: ["mining"],
+    eureka: { description: "Kill 3 Barbarians", required: 3 },
+    unlocks: ["Encampment", "Spearman", "Barracks", "Colossus", "Reveals Iron"],
+  },
+  {
+    id: "the_wheel",
+    name: "The Wheel",
+    era: "ancient",
+    cost: 80,
+    prerequisites: ["mining"],
+    eureka: { description: "Mine a resource", required: 1 },
+    unlocks: ["Heavy Chariot", "Water Mill"],
+  },
+
+  // Classical Era
+  {
+    id: "celestial_navigation",
+    name: "Celestial Navigation",
+    era: "classical",
+    cost: 120,
+    prerequisites: ["sailing", "astrology"],
+    eureka: { description: "Improve 2 Sea resources", required: 2 },
+    unlocks: ["Harbor", "Lighthouse", "Great Lighthouse"],
+  },
+  {
+    id: "currency",
+    name: "Currency",
+    era: "classical",
+    cost: 120,
+    prerequisites: ["writing"],
+    eureka: { description: "Make a Trade Route", required: 1 },
+    unlocks: ["Commercial Hub", "Market", "Zoroastrian Temple"],
+  },
+  {
+    id: "horseback_riding",
+    name: "Horseback Riding",
+    era: "classical",
+    cost: 120,
+    prerequisites: ["animal_husbandry"],
+    eureka: { description: "Build a Pasture", required: 1 },
+    unlocks: ["Horseman", "Stable"],
+  },
+  {
+    id: "iron_working",
+    name: "Iron Working",
+    era: "classical",
+    cost: 120,
+    prerequisites: ["bronze_working"],
+    eureka: { description: "Build an Iron Mine", required: 1 },
+    unlocks: ["Swordsman"],
+  },
+  {
+    id: "shipbuilding",
+    name: "Shipbuilding",
+    era: "classical",
+    cost: 200,
+    prerequisites: ["sailing"],
+    eureka: { description: "Own 2 Galleys", required: 2 },
+    unlocks: ["Quadrireme", "Embark on Coast"],
+  },
+  {
+    id: "mathematics",
+    name: "Mathematics",
+    era: "classical",
+    cost: 200,
+    prerequisites: ["currency"],
+    eureka: { description: "Build 3 specialty districts", required: 3 },
+    unlocks: ["Mausoleum at Halicarnassus", "+1 Naval Movement"],
+  },
+  {
+    id: "construction",
+    name: "Construction",
+    era: "classical",
+    cost: 200,
+    prerequisites: ["masonry", "horseback_riding"],
+    eureka: { description: "Build a Water Mill", required: 1 },
+    unlocks: ["Siege Tower", "Lumber Mill", "Colosseum", "Terracotta Army"],
+  },
+  {
+    id: "engineering",
+    name: "Engineering",
+    era: "classical",
+    cost: 200,
+    prerequisites: ["the_wheel"],
+    eureka: { description: "Build Ancient Walls", required: 1 },
+    unlocks: ["Aqueduct", "Catapult", "Great Library"],
+  },
+
+  // Medieval Era
+  {
+    id: "military_tactics",
+    name: "Military Tactics",
+    era: "medieval",
+    cost: 275,
+    prerequisites: ["mathematics"],
+    eureka: { description: "Kill a unit with a Spearman", required: 1 },
+    unlocks: ["Pikeman", "Chichen Itza"],
+  },
+  {
+    id: "apprenticeship",
+    name: "Apprenticeship",
+    era: "medieval",
+    cost: 275,
+    prerequisites: ["currency", "horseback_riding"],
+    eureka: { description: "Build 3 Mines", required: 3 },
+    unlocks: ["Industrial Zone", "Workshop"],
+  },
+  {
+    id: "machinery",
+    name: "Machinery",
+    era: "medieval",
+    cost: 275,
+    prerequisites: ["iron_working", "engineering"],
+    eureka: { description: "Own 3 Archers", required: 3 },
+    unlocks: ["Crossbowman"],
+  },
+  {
+    id: "buttress",
+    name: "Buttress",
+    era: "medieval",
+    cost: 300,
+    prerequisites: ["shipbuilding", "mathematics"],
+    eureka: { description: "Build a Classical era or later wonder", required: 1 },
+    unlocks: ["Dam", "Hagia Sophia"],
+  },
+  {
+    id: "education",
+    name: "Education",
+    era: "medieval",
+    cost: 335,
+    prerequisites: ["apprenticeship", "mathematics"],
+    eureka: { description: "Earn a Great Scientist", required: 1 },
+    unlocks: ["University"],
+  },
+  {
+    id: "stirrups",
+    name: "Stirrups",
+    era: "medieval",
+    cost: 335,
+    prerequisites: ["horseback_riding"],
+    eureka: { description: "Have the Feudalism civic", required: 1 },
+    unlocks: ["Knight"],
+  },
+  {
+    id: "military_engineering",
+    name: "Military Engineering",
+    era: "medieval",
+    cost: 335,
+    prerequisites: ["construction"],
+    eureka: { description: "Build an Aqueduct", required: 1 },
+    unlocks: ["Military Engineer", "Armory"],
+  },
+  {
+    id: "castles",
+    name: "Castles",
+    era: "medieval",
+    cost: 390,
+    prerequisites: ["construction"],
+    eureka: { description: "Have a government with 6 policy slots", required: 1 },
+    unlocks: ["Medieval Walls", "Alhambra"],
+  },
+
+  // Renaissance Era
+  {
+    id: "cartography",
+    name: "Cartography",
+    era: "renaissance",
+    cost: 490,
+    prerequisites: ["shipbuilding"],
+    eureka: { description: "Build 2 Harbors", required: 2 },
+    unlocks: ["Caravel", "Embark on Ocean"],
+  },
+  {
+    id: "mass_production",
+    name: "Mass Production",
+    era: "renaissance",
+    cost: 490,
+    prerequisites: ["education", "shipbuilding"],
+    eureka: { description: "Build a Lumber Mill", required: 1 },
+    unlocks: ["Shipyard", "Venetian Arsenal"],
+  },
+  {
+    id: "banking",
+    name: "Banking",
+    era: "renaissance",
+    cost: 490,
+    prerequisites: ["education", "apprenticeship", "stirrups"],
+    eureka: { description: "Have the Guilds civic", required: 1 },
+    unlocks: ["Bank"],
+  },
+  {
+    id: "gunpowder",
+    name: "Gunpowder",
+    era: "renaissance",
+    cost: 490,
+    prerequisites: ["apprenticeship", "stirrups", "military_engineering"],
+    eureka: { description: "Build an Armory", required: 1 },
+    unlocks: ["Musketman", "Reveals Niter"],
+  },
+  {
+    id: "printing",
+    name: "Printing",
+    era: "renaissance",
+    cost: 490,
+    prerequisites: ["machinery"],
+    eureka: { description: "Build 2 Universities", required: 2 },
+    unlocks: ["Great Zimbabwe"],
+  },
+  {
+    id: "square_rigging",
+    name: "Square Rigging",
+    era: "renaissance",
+    cost: 600,
+    prerequisites: ["cartography"],
+    eureka: { description: "Kill a unit with a Musketman", required: 1 },
+    unlocks: ["Frigate"],
+  },
+  {
+    id: "astronomy",
+    name: "Astronomy",
+    era: "renaissance",
+    cost: 600,
+    prerequisites: ["education"],
+    eureka: { description: "Build a University next to a Mountain", required: 1 },
+    unlocks: ["Observatory"],
+  },
+  {
+    id: "metal_casting",
+    name: "Metal Casting",
+    era: "renaissance",
+    cost: 600,
+    prerequisites: ["gunpowder"],
+    eureka: { description: "Own 2 Crossbowmen", required: 2 },
+    unlocks: ["Bombard"],
+  },
+  {
+    id: "siege_tactics",
+    name: "Siege Tactics",
+    era: "renaissance",
+    cost: 600,
+    prerequisites: ["castles", "metal_casting"],
+    eureka: { description: "Own 2 Bombards", required: 2 },
+    unlocks: ["Renaissance Walls"],
+  },
+
+  // Industrial Era
+  {
+    id: "industrialization",
+    name: "Industrialization",
+    era: "industrial",
+    cost: 700,
+    prerequisites: ["mass_production", "square_rigging"],
+    eureka: { description: "Build 3 Workshops", required: 3 },
+    unlocks: ["Factory", "Coal Power Plant"],
+  },
+  {
+    id: "scientific_theory",
+    name: "Scientific Theory",
+    era: "industrial",
+    cost: 700,
+    prerequisites: ["astronomy", "banking"],
+    eureka: { description: "Have The Enlightenment civic", required: 1 },
+    unlocks: ["Oxford University"],
+  },
+  {
+    id: "ballistics",
+    name: "Ballistics",
+    era: "industrial",
+    cost: 700,
+    prerequisites: ["metal_casting"],
+    eureka: { description: "Have 2 Renaissance Walls", required: 2 },
+    unlocks: ["Field Cannon", "Ruhr Valley"],
+  },
+  {
+    id: "military_science",
+    name: "Military Science",
+    era: "industrial",
+    cost: 700,
+    prerequisites: ["printing", "siege_tactics"],
+    eureka: { description: "Kill a unit with a Knight", required: 1 },
+    unlocks: ["Cavalry", "Military Academy"],
+  },
+  {
+    id: "steam_power",
+    name: "Steam Power",
+    era: "industrial",
+    cost: 805,
+    prerequisites: ["industrialization"],
+    eureka: { description: "Build 2 Shipyards", required: 2 },
+    unlocks: ["Ironclad", "Canal", "+1 Naval Movement"],
+  },
+  {
+    id: "sanitation",
+    name: "Sanitation",
+    era: "industrial",
+    cost: 805,
+    prerequisites: ["scientific_theory"],
+    eureka: { description: "Build 2 Neighborhoods", required: 2 },
+    unlocks: ["Sewer"],
+  },
+  {
+    id: "economics",
+    name: "Economics",
+    era: "industrial",
+    cost: 805,
+    prerequisites: ["metal_casting", "scientific_theory"],
+    eureka: { description: "Build 2 Banks", required: 2 },
+    unlocks: ["Stock Exchange", "Big Ben"],
+  },
+  {
+    id: "rifling",
+    name: "Rifling",
+    era: "industrial",
+    cost: 805,
+    prerequisites: ["ballistics", "industrialization"],
+    eureka: { description: "Build a Niter Mine", required: 1 },
+    unlocks: ["Line Infantry"],
+  },
+
+  // Modern Era
+  {
+    id: "flight",
+    name: "Flight",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["industrialization", "scientific_theory"],
+    eureka: { description: "Build an Industrial era or later Wonder", required: 1 },
+    unlocks: ["Aerodrome", "Biplane"],
+  },
+  {
+    id: "replaceable_parts",
+    name: "Replaceable Parts",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["economics"],
+    eureka: { description: "Own 3 Musketmen", required: 3 },
+    unlocks: ["Infantry", "+1 Food from Farms next to Farms"],
+  },
+  {
+    id: "steel",
+    name: "Steel",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["rifling"],
+    eureka: { description: "Build a Coal Mine", required: 1 },
+    unlocks: ["Artillery", "Eiffel Tower"],
+  },
+  {
+    id: "electricity",
+    name: "Electricity",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["steam_power"],
+    eureka: { description: "Own 3 Privateers", required: 3 },
+    unlocks: ["Submarine", "Seaport"],
+  },
+  {
+    id: "radio",
+    name: "Radio",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["flight", "steam_power"],
+    eureka: { description: "Build a National Park", required: 1 },
+    unlocks: ["Broadcast Center", "Seaside Resort"],
+  },
+  {
+    id: "chemistry",
+    name: "Chemistry",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["sanitation"],
+    eureka: { description: "Complete a Research Agreement", required: 1 },
+    unlocks: ["Research Lab"],
+  },
+  {
+    id: "refining",
+    name: "Refining",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["rifling"],
+    eureka: { description: "Build 2 Coal Power Plants", required: 2 },
+    unlocks: ["Reveals Oil"],
+  },
+  {
+    id: "combustion",
+    name: "Combustion",
+    era: "modern",
+    cost: 1065,
+    prerequisites: ["steel", "refining"],
+    eureka: { description: "Extract an Artifact", required: 1 },
+    unlocks: ["Oil Well", "Oil Power Plant", "Destroyer"],
+  },
+
+  // Atomic Era
+  {
+    id: "advanced_flight",
+    name: "Advanced Flight",
+    era: "atomic",
+    cost: 1250,
+    prerequisites: ["radio"],
+    eureka: { description: "Build 3 Biplanes", required: 3 },
+    unlocks: ["Fighter", "Bomber", "Airport"],
+  },
+  {
+    id: "rocketry",
+    name: "Rocketry",
+    era: "atomic",
+    cost: 1250,
+    prerequisites: ["radio", "chemistry"],
+    eureka: { description: "Boost through a Great Scientist or Spy", required: 1 },
+    unlocks: ["Spaceport"],
+  },
+  {
+    id: "advanced_ballistics",
+    name: "Advanced Ballistics",
+    era: "atomic",
+    cost: 1250,
+    prerequisites: ["replaceable_parts", "steel"],
+    eureka: { description: "Build 2 Power Plants", required: 2 },
+    unlocks: ["Anti-Air Gun", "Machine Gun"],
+  },
+  {
+    id: "combined_arms",
+    name: "Combined Arms",
+    era: "atomic",
+    cost: 1250,
+    prerequisites: ["steel", "combustion"],
+    eureka: { description: "Build an Airstrip", required: 1 },
+    unlocks: ["Tank", "Airstrip"],
+  },
+  {
+    id: "plastics",
+    name: "Plastics",
+    era: "atomic",
+    cost: 1250,
+    prerequisites: ["combustion"],
+    eureka: { description: "Build an Oil Well", required: 1 },
+    unlocks: ["Offshore Oil Rig"],
+  },
+  {
+    id: "computers",
+    name: "Computers",
+    era: "atomic",
+    cost: 1340,
+    prerequisites: ["electricity", "radio"],
+    eureka: { description: "Have a government with 8 policy slots", required: 1 },
+    unlocks: ["Amundsen-Scott Research Station"],
+  },
+  {
+    id: "nuclear_fission",
+    name: "Nuclear Fission",
+    era: "atomic",
+    cost: 1340,
+    prerequisites: ["advanced_ballistics", "combined_arms"],
+    eureka: { description: "Boost through a Great Scientist or Spy", required: 1 },
+    unlocks: ["Manhattan Project", "Nuclear Power Plant", "Reveals Uranium"],
+  },
+  {
+    id: "synthetic_materials",
+    name: "Synthetic Materials",
+    era: "atomic",
+    cost: 1340,
+    prerequisites: ["plastics"],
+    eureka: { description: "Build 2 Aerodromes", required: 2 },
+    unlocks: ["Helicopter"],
+  },
+
+  // Information Era
+  {
+    id: "telecommunications",
+    name: "Telecommunications",
+    era: "information",
+    cost: 1480,
+    prerequisites: ["computers"],
+    eureka: { description: "Build 2 Broadcast Centers", required: 2 },
+    unlocks: ["Nuclear Submarine"],
+  },
+  {
+    id: "satellites",
+    name: "Satellites",
+    era: "information",
+    cost: 1480,
+    prerequisites: ["advanced_flight", "rocketry"],
+    eureka: { description: "Boost through a Great Scientist or Spy", required: 1 },
+    unlocks: ["Launch Earth Satellite"],
+  },
+  {
+    id: "guidance_systems",
+    name: "Guidance Systems",
+    era: "information",
+    cost: 1480,
+    prerequisites: ["rocketry", "advanced_ballistics"],
+    eureka: { description: "Kill a Fighter", required: 1 },
+    unlocks: ["Missile Cruiser", "Missile Silo"],
+  },
+  {
+    id: "lasers",
+    name: "Lasers",
+    era: "information",
+    cost: 1480,
+    prerequisites: ["nuclear_fission"],
+    eureka: { description: "Boost through a Great Scientist or Spy", required: 1 },
+    unlocks: ["Launch Moon Landing"],
+  },
+  {
+    id: "composites",
+    name: "Composites",
+    era: "information",
+    cost: 1480,
+    prerequisites: ["synthetic_materials"],
+    eureka: { description: "Own 3 Tanks", required: 3 },
+    unlocks: ["Modern Armor"],
+  },
+  {
+    id: "stealth_technology",
+    name: "Stealth Technology",
+    era: "information",
+    cost: 1480,
+    prerequisites: ["synthetic_materials"],
+    eureka: { description: "Boost through a Great Scientist or Spy", required: 1 },
+    unlocks: ["Jet Fighter", "Jet Bomber"],
+  },
+  {
+    id: "robotics",
+    name: "Robotics",
+    era: "information",
+    cost: 1850,
+    prerequisites: ["computers"],
+    eureka: { description: "Have the Globalization civic", required: 1 },
+    unlocks: ["Giant Death Robot"],
+  },
+  {
+    id: "nanotechnology",
+    name: "Nanotechnology",
+    era: "information",
+    cost: 1850,
+    prerequisites: ["composites"],
+    eureka: { description: "Build an Aluminum Mine", required: 1 },
+    unlocks: ["Launch Mars Colony"],
+  },
+  {
+    id: "nuclear_fusion",
+    name: "Nuclear Fusion",
+    era: "information",
+    cost: 1850,
+    prerequisites: ["lasers"],
+    eureka: { description: "Boost through a Great Scientist or Spy", required: 1 },
+    unlocks: ["Launch Exoplanet Expedition"],
+  },
+
+  // Future Era
+  {
+    id: "seasteads",
+    name: "Seasteads",
+    era: "future",
+    cost: 2155,
+    prerequisites: ["robotics", "nanotechnology"],
+    unlocks: ["Seastead"],
+  },
+  {
+    id: "advanced_ai",
+    name: "Advanced AI",
+    era: "future",
+    cost: 2155,
+    prerequisites: ["robotics", "nuclear_fusion"],
+    unlocks: ["Autonomous Vehicles"],
+  },
+  {
+    id: "advanced_power_cells",
+    name: "Advanced Power Cells",
+    era: "future",
+    cost: 2155,
+    prerequisites: ["nanotechnology", "nuclear_fusion"],
+    unlocks: ["Electric Vehicles"],
+  },
+  {
+    id: "cybernetics",
+    name: "Cybernetics",
+    era: "future",
+    cost: 2155,
+    prerequisites: ["robotics", "nanotechnology"],
+    unlocks: [],
+  },
+  {
+    id: "smart_materials",
+    name: "Smart Materials",
+    era: "future",
+    cost: 2155,
+    prerequisites: ["nanotechnology", "nuclear_fusion"],
+    unlocks: [],
+  },
+  {
+    id: "predictive_systems",
+    name: "Predictive Systems",
+    era: "future",
+    cost: 2500,
+    prerequisites: ["advanced_ai", "cybernetics"],
+    unlocks: ["Launch Lagrange Laser Station"],
+  },
+  {
+    id: "offworld_mission",
+    name: "Offworld Mission",
+    era: "future",
+    cost: 2500,
+    prerequisites: ["advanced_power_cells", "smart_materials", "predictive_systems"],
+    unlocks: ["Terrestrial Laser Station"],
+  },
+  {
+    id: "future_tech",
+    name: "Future Tech",
+    era: "future",
+    cost: 2500,
+    prerequisites: ["offworld_mission"],
+    unlocks: ["Repeatable: +Era Score and Science Victory progress"],
+  },
+];
+
+export const TECHS: TechData[] = TECH_TREE.map((t) => ({
+  ...t,
+  unlocks: [...t.unlocks, ...getTechUpgradeUnlocks(t.id)],
+}));
+
+const TECHS_BY_ID = new Map(TECHS.map((t) => [t.id, t]));
+
+export function getTech(techId: string): TechData | undefined {
+  return TECHS_BY_ID.get(techId);
+}
+
+export function getTechName(techId: string): string {
+  return TECHS_BY_ID.get(techId)?.name ?? techId;
+}
+
+export function getTechPrerequisites(techId: string): string[] {
+  return TECHS_BY_ID.get(techId)?.prerequisites ?? [];
+}
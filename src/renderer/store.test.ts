@@ -94,11 +94,695 @@ describe("useGameStore actions", () => {
     expect(afterMissing).toBe(beforeMissing);
   });
 
+  it("addTile wraps tiles across the seam and rejects tiles off the map", () => {
+    useGameStore
+      .getState()
+      .newGame({ ...defaultSetup, map: { size: "custom", width: 10, height: 6, wrapX: true } });
+    const tile = {
+      terrain: "grassland" as const,
+      features: [],
+      riverEdges: [false, false, false, false, false, false],
+    };
+
+    // Column -1 is column 9 on the other side of the seam
+    useGameStore.getState().addTile({ ...tile, coord: { q: -1, r: 0 } });
+    expect(useGameStore.getState().tiles.has("9,0")).toBe(true);
+    expect(useGameStore.getState().tiles.get("9,0")?.coord).toEqual({ q: 9, r: 0 });
+
+    // Rows don't wrap
+    const before = useGameStore.getState().tiles;
+    useGameStore.getState().addTile({ ...tile, coord: { q: 0, r: 6 } });
+    useGameStore.getState().addTile({ ...tile, coord: { q: 0, r: -1 } });
+    expect(useGameStore.getState().tiles).toBe(before);
+  });
+
+  it("updateTile and claimTile wrap across the seam and ignore coordinates off the map", () => {
+    useGameStore
+      .getState()
+      .newGame({ ...defaultSetup, map: { size: "custom", width: 10, height: 6, wrapX: true } });
+    useGameStore.getState().addTile({
+      coord: { q: 9, r: 0 },
+      terrain: "grassland",
+      features: [],
+      riverEdges: [false, false, false, false, false, false],
+    });
+    useGameStore.setState({
+      cities: [
+        {
+          id: "seoul",
+          name: "Seoul",
+          location: { q: 0, r: 0 },
+          population: 1,
+          housingCap: 4,
+          amenities: 0,
+          ownedTiles: [],
+          workedTiles: [],
+          districts: [],
+          buildQueue: [],
+          plannedDistricts: [],
+        },
+      ],
+    });
+
+    useGameStore.getState().updateTile({ q: -1, r: 0 }, { terrain: "plains" });
+    useGameStore.getState().claimTile("seoul", { q: -1, r: 0 });
+    const state = useGameStore.getState();
+    expect(state.tiles.get("9,0")).toMatchObject({ terrain: "plains", owningCityId: "seoul" });
+    expect(state.cities[0].ownedTiles).toEqual([{ q: 9, r: 0 }]);
+
+    // Rows don't wrap
+    state.updateTile({ q: 0, r: 6 }, { terrain: "plains" });
+    state.claimTile("seoul", { q: 0, r: -1 });
+    expect(useGameStore.getState()).toBe(state);
+  });
+
+  it("paintStroke applies a whole stroke in a single update", () => {
+    const updates = vi.fn();
+    const unsubscribe = useGameStore.subscribe(updates);
+    const stroke = [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+      { q: 2, r: 0 },
+    ];
+
+    useGameStore.getState().paintStroke(stroke, { kind: "terrain", terrain: "desert" });
+    expect(updates).toHaveBeenCalledTimes(1);
+    expect(useGameStore.getState().tiles.size).toBe(3);
+    expect(useGameStore.getState().tiles.get("1,0")?.terrain).toBe("desert");
+
+    // Painting the same terrain again changes nothing
+    const before = useGameStore.getState().tiles;
+    useGameStore.getState().paintStroke(stroke, { kind: "terrain", terrain: "desert" });
+    expect(useGameStore.getState().tiles).toBe(before);
+    unsubscribe();
+  });
+
+  it("reorderBuildQueue keeps locked items in place", () => {
+    const store = useGameStore.getState();
+    store.addCity({
+      name: "Seoul",
+      location: { q: 0, r: 0 },
+      population: 1,
+      housingCap: 2,
+      amenities: 0,
+      ownedTiles: [{ q: 0, r: 0 }],
+      workedTiles: [],
+      districts: [],
+    });
+    const cityId = useGameStore.getState().cities[0].id;
+    store.updateCity(cityId, {
+      buildQueue: [
+        { id: "a", type: "unit", itemId: "settler", isLocked: false },
+        { id: "b", type: "district", itemId: "campus", isLocked: false },
+        { id: "c", type: "building", itemId: "monument", isLocked: false },
+      ],
+    });
+
+    store.lockBuildQueueItem(cityId, "b", true);
+    store.reorderBuildQueue(cityId, "c", 0);
+    store.reorderBuildQueue(cityId, "b", 2);
+
+    const { buildQueue } = useGameStore.getState().cities[0];
+    expect(buildQueue.map((i) => i.id)).toEqual(["c", "b", "a"]);
+    expect(buildQueue[1].isLocked).toBe(true);
+  });
+
   it("addToTechQueue generates deterministic ids via uuid mock", () => {
-    useGameStore.getState().addToTechQueue("apprenticeship");
+    useGameStore.getState().addToTechQueue("pottery");
 
     const { techQueue } = useGameStore.getState();
     expect(techQueue).toHaveLength(1);
-    expect(techQueue[0]).toEqual({ id: "uuid-1", techId: "apprenticeship", isLocked: false });
+    expect(techQueue[0]).toEqual({ id: "uuid-1", techId: "pottery", isLocked: false });
+  });
+
+  it("addToTechQueue queues missing prerequisites and skips completed techs", () => {
+    useGameStore.getState().completeTech("pottery");
+    useGameStore.getState().addToTechQueue("apprenticeship");
+    useGameStore.getState().addToTechQueue("writing");
+
+    const { techQueue } = useGameStore.getState();
+    expect(techQueue.map((t) => t.techId)).toEqual([
+      "writing",
+      "currency",
+      "animal_husbandry",
+      "horseback_riding",
+      "apprenticeship",
+    ]);
+    expect(techQueue[4].eurekaProgress).toEqual({
+      current: 0,
+      required: 3,
+      description: "Build 3 Mines",
+    });
+  });
+
+  it("addToCivicQueue queues prerequisites and fills in inspiration progress", () => {
+    useGameStore.getState().completeCivic("code_of_laws");
+    useGameStore.getState().addToCivicQueue("political_philosophy");
+
+    const { civicQueue } = useGameStore.getState();
+    expect(civicQueue.map((c) => c.civicId)).toEqual([
+      "craftsmanship",
+      "state_workforce",
+      "foreign_trade",
+      "early_empire",
+      "political_philosophy",
+    ]);
+    expect(civicQueue[4].inspirationProgress?.description).toBe("Meet 3 City-States");
+  });
+
+  it("setCurrentTech requires prerequisites and completeTech clears it", () => {
+    const store = useGameStore.getState();
+
+    store.setCurrentTech("writing");
+    expect(useGameStore.getState().currentTech).toBeUndefined();
+
+    store.setCurrentTech("pottery");
+    expect(useGameStore.getState().currentTech).toEqual({
+      techId: "pottery",
+      progress: 0,
+      turnsRemaining: 0,
+    });
+
+    store.completeTech("mining");
+    expect(useGameStore.getState().currentTech?.techId).toBe("pottery");
+
+    store.completeTech("pottery");
+    expect(useGameStore.getState().currentTech).toBeUndefined();
+    expect(useGameStore.getState().completedTechs.has("pottery")).toBe(true);
+  });
+
+  it("updateEurekaProgress clamps progress to the required amount", () => {
+    useGameStore.getState().addToTechQueue("sailing");
+    const [entry] = useGameStore.getState().techQueue;
+
+    useGameStore.getState().updateEurekaProgress(entry.id, 5);
+    expect(useGameStore.getState().techQueue[0].eurekaProgress?.current).toBe(1);
+
+    useGameStore.getState().updateEurekaProgress(entry.id, -1);
+    expect(useGameStore.getState().techQueue[0].eurekaProgress?.current).toBe(0);
+  });
+
+  it("tracks the Eureka of a current tech that isn't queued", () => {
+    const store = useGameStore.getState();
+    store.setYieldsPerTurn({ science: 10 });
+    store.setCurrentTech("sailing");
+    expect(useGameStore.getState().currentTech).toMatchObject({
+      turnsRemaining: 5,
+      eurekaProgress: { current: 0, required: 1 },
+    });
+
+    store.updateCurrentTech({ boost: 5 });
+    expect(useGameStore.getState().currentTech).toMatchObject({
+      turnsRemaining: 3,
+      eurekaProgress: { current: 1, required: 1 },
+    });
+  });
+
+  it("recomputes tech estimates when yields or Eureka progress change", () => {
+    const store = useGameStore.getState();
+    store.addToTechQueue("sailing");
+    expect(useGameStore.getState().techQueue[0].turnsRemaining).toBeUndefined();
+
+    store.setYieldsPerTurn({ science: 10 });
+    expect(useGameStore.getState().techQueue[0]).toMatchObject({
+      turnsRemaining: 5,
+      projectedTurn: 6,
+    });
+
+    // Eureka cuts Sailing from 50 to 30 science
+    const [entry] = useGameStore.getState().techQueue;
+    store.updateEurekaProgress(entry.id, 1);
+    expect(useGameStore.getState().techQueue[0].turnsRemaining).toBe(3);
+
+    store.advanceTurn(4);
+    expect(useGameStore.getState().techQueue[0].projectedTurn).toBe(7);
+  });
+
+  it("completeTech surfaces due tile plans and applyDueItem applies them", () => {
+    const coord = { q: 0, r: 0 };
+    const store = useGameStore.getState();
+    store.addTile({
+      coord,
+      terrain: "grassland",
+      features: ["woods"],
+      riverEdges: [false, false, false, false, false, false],
+    });
+    store.addTilePlan(coord, {
+      trigger: { type: "tech", techId: "bronze_working" },
+      action: { type: "remove_feature" },
+    });
+    expect(useGameStore.getState().dueItems).toEqual([]);
+
+    store.completeTech("bronze_working");
+    const [due] = useGameStore.getState().dueItems;
+    expect(due).toMatchObject({ id: "plan:uuid-1", source: "tile_plan", coord });
+
+    store.applyDueItem(due.id);
+    const tile = useGameStore.getState().tiles.get(coordKey(coord));
+    expect(tile?.features).toEqual([]);
+    expect(tile?.plannedStates).toEqual([]);
+    expect(useGameStore.getState().dueItems).toEqual([]);
+  });
+
+  it("updateTile refreshes the due plans for the tile", () => {
+    const coord = { q: 0, r: 0 };
+    const store = useGameStore.getState();
+    store.addTile({
+      coord,
+      terrain: "grassland",
+      features: ["woods"],
+      riverEdges: [false, false, false, false, false, false],
+    });
+    store.updateTile(coord, {
+      plannedStates: [
+        { id: "clear", trigger: { type: "immediate" }, action: { type: "remove_feature" } },
+      ],
+    });
+    expect(useGameStore.getState().dueItems).toMatchObject([{ id: "plan:clear", coord }]);
+
+    store.updateTile(coord, { plannedStates: [] });
+    expect(useGameStore.getState().dueItems).toEqual([]);
+  });
+
+  it("refreshConflicts keeps dismissed conflicts and drops resolved ones", () => {
+    const coord = { q: 0, r: 0 };
+    const store = useGameStore.getState();
+    store.addTile({
+      coord,
+      terrain: "grassland",
+      features: [],
+      riverEdges: [false, false, false, false, false, false],
+    });
+    store.lockTile(coord, true);
+    store.addTilePlan(coord, { trigger: { type: "manual" }, action: { type: "remove_feature" } });
+
+    store.refreshConflicts();
+    const [conflict] = useGameStore.getState().recommendations;
+    expect(conflict).toMatchObject({ type: "conflict", relatedCoord: coord });
+
+    store.dismissRecommendation(conflict.id);
+    store.refreshConflicts();
+    expect(useGameStore.getState().recommendations).toEqual([{ ...conflict, dismissed: true }]);
+
+    store.lockTile(coord, false);
+    store.refreshConflicts();
+    expect(useGameStore.getState().recommendations).toEqual([]);
+  });
+
+  it("addTilePlan returns district placement violations", () => {
+    const coord = { q: 0, r: 0 };
+    const store = useGameStore.getState();
+    store.addTile({
+      coord,
+      terrain: "grassland",
+      modifier: "mountain",
+      features: [],
+      riverEdges: [false, false, false, false, false, false],
+    });
+
+    const violations = store.addTilePlan(coord, {
+      trigger: { type: "manual" },
+      action: { type: "place_district", district: "campus" },
+    });
+
+    expect(violations.map((v) => v.rule)).toEqual(["mountain"]);
+    expect(useGameStore.getState().tiles.get(coordKey(coord))?.plannedStates).toHaveLength(1);
+    expect(
+      store.addTilePlan(coord, { trigger: { type: "manual" }, action: { type: "remove_feature" } }),
+    ).toEqual([]);
+  });
+
+  it("records, updates and removes planned settlements", () => {
+    const store = useGameStore.getState();
+    store.addPlannedSettlement({ q: 4, r: 0 }, "Only river site left");
+
+    expect(useGameStore.getState().plannedSettlements).toEqual([
+      {
+        id: "uuid-1",
+        location: { q: 4, r: 0 },
+        status: "planned",
+        justification: "Only river site left",
+      },
+    ]);
+
+    store.updatePlannedSettlement("uuid-1", { justification: undefined });
+    expect(useGameStore.getState().plannedSettlements[0].justification).toBeUndefined();
+
+    store.removePlannedSettlement("uuid-1");
+    expect(useGameStore.getState().plannedSettlements).toEqual([]);
+  });
+
+  it("expansion queue reorders, queues a settler and founds the city", () => {
+    const site = { q: 5, r: 0 };
+    const store = useGameStore.getState();
+    [site, { q: 6, r: 0 }, { q: 9, r: 0 }].forEach((coord) =>
+      store.addTile({
+        coord,
+        terrain: "plains",
+        features: [],
+        riverEdges: [false, false, false, false, false, false],
+      }),
+    );
+    store.addCity({
+      name: "Seoul",
+      location: { q: 0, r: 0 },
+      population: 3,
+      housingCap: 5,
+      amenities: 0,
+      ownedTiles: [{ q: 0, r: 0 }],
+      workedTiles: [],
+      districts: [],
+    });
+    // The uuid mock gives every entity the same id, so seed distinct ones
+    const seoulId = "seoul";
+    useGameStore.setState((s) => ({
+      cities: s.cities.map((c) => ({ ...c, id: seoulId })),
+      plannedSettlements: [
+        { id: "later", location: { q: 12, r: 0 }, status: "planned" },
+        { id: "next", location: site, status: "planned" },
+      ],
+    }));
+    // Seoul's border reaches the new site's ring
+    store.updateCity(seoulId, {
+      ownedTiles: [
+        { q: 0, r: 0 },
+        { q: 6, r: 0 },
+      ],
+    });
+
+    store.reorderPlannedSettlements("next", 0);
+    expect(useGameStore.getState().plannedSettlements.map((p) => p.id)).toEqual(["next", "later"]);
+
+    store.confirmPlannedSettlement("next", seoulId);
+    let state = useGameStore.getState();
+    expect(state.cities[0].buildQueue).toEqual([
+      {
+        id: expect.any(String),
+        type: "unit",
+        itemId: "settler",
+        targetTile: site,
+        isLocked: false,
+      },
+    ]);
+    expect(state.plannedSettlements[0]).toMatchObject({
+      status: "in_production",
+      producingCityId: seoulId,
+    });
+
+    store.settlePlannedSettlement("next", "Busan");
+    state = useGameStore.getState();
+    const busan = state.cities[1];
+    expect(busan).toMatchObject({ name: "Busan", location: site });
+    // Tiles other cities own are left alone
+    expect(busan.ownedTiles.map(coordKey)).not.toContain("6,0");
+    expect(busan.ownedTiles).toHaveLength(6);
+    expect(state.tiles.get(coordKey(site))).toMatchObject({
+      district: "city_center",
+      owningCityId: busan.id,
+    });
+    expect(state.cities[0].buildQueue).toEqual([]);
+    expect(state.plannedSettlements[0].status).toBe("settled");
+  });
+
+  describe("settlePlannedSettlement rejects taken sites", () => {
+    const seoul = {
+      id: "seoul",
+      name: "Seoul",
+      location: { q: 0, r: 0 },
+      population: 3,
+      housingCap: 5,
+      amenities: 0,
+      ownedTiles: [
+        { q: 0, r: 0 },
+        { q: 1, r: 0 },
+      ],
+      workedTiles: [],
+      districts: [],
+      buildQueue: [],
+      plannedDistricts: [],
+    };
+
+    it("when a city already stands on the site", () => {
+      useGameStore.setState({
+        cities: [{ ...seoul, ownedTiles: [] }],
+        plannedSettlements: [{ id: "next", location: { q: 0, r: 0 }, status: "en_route" }],
+      });
+      const before = useGameStore.getState();
+
+      before.settlePlannedSettlement("next", "Busan");
+      expect(useGameStore.getState()).toBe(before);
+    });
+
+    it("when another city owns the site", () => {
+      useGameStore.setState({
+        cities: [seoul],
+        plannedSettlements: [{ id: "next", location: { q: 1, r: 0 }, status: "en_route" }],
+      });
+      const before = useGameStore.getState();
+
+      before.settlePlannedSettlement("next", "Busan");
+      expect(useGameStore.getState()).toBe(before);
+      expect(before.foundCity("Busan", { q: 1, r: 0 })).toBeNull();
+    });
+  });
+
+  it("cancelPlannedSettlement takes the settler back out of the build queue", () => {
+    const site = { q: 5, r: 0 };
+    useGameStore.setState({
+      cities: [
+        {
+          id: "seoul",
+          name: "Seoul",
+          location: { q: 0, r: 0 },
+          population: 3,
+          housingCap: 5,
+          amenities: 0,
+          ownedTiles: [],
+          workedTiles: [],
+          districts: [],
+          buildQueue: [],
+          plannedDistricts: [],
+        },
+      ],
+      plannedSettlements: [{ id: "next", location: site, status: "planned" }],
+    });
+    const store = useGameStore.getState();
+
+    // Nothing to cancel before a settler is queued
+    const before = useGameStore.getState();
+    store.cancelPlannedSettlement("next");
+    expect(useGameStore.getState()).toBe(before);
+
+    store.confirmPlannedSettlement("next", "seoul");
+    expect(useGameStore.getState().cities[0].buildQueue).toHaveLength(1);
+
+    store.cancelPlannedSettlement("next");
+    const state = useGameStore.getState();
+    expect(state.cities[0].buildQueue).toEqual([]);
+    expect(state.plannedSettlements[0].status).toBe("planned");
+
+    // Queueing again gives one settler, not two
+    store.confirmPlannedSettlement("next", "seoul");
+    expect(useGameStore.getState().cities[0].buildQueue).toHaveLength(1);
+  });
+
+  describe("settler lifecycle", () => {
+    const site = { q: 5, r: 0 };
+    beforeEach(() => {
+      useGameStore.setState({
+        cities: [
+          {
+            id: "seoul",
+            name: "Seoul",
+            location: { q: 0, r: 0 },
+            population: 3,
+            housingCap: 5,
+            amenities: 0,
+            ownedTiles: [],
+            workedTiles: [],
+            districts: [],
+            buildQueue: [],
+            plannedDistricts: [],
+          },
+        ],
+        plannedSettlements: [{ id: "next", location: site, status: "planned" }],
+      });
+    });
+
+    it("markSettlerBuilt takes the settler out of the queue and sends it en route", () => {
+      const store = useGameStore.getState();
+
+      // Nothing is built before a settler is queued
+      store.markSettlerBuilt("next");
+      expect(useGameStore.getState()).toBe(store);
+
+      store.confirmPlannedSettlement("next", "seoul");
+      store.markSettlerBuilt("next");
+      let state = useGameStore.getState();
+      expect(state.cities[0].buildQueue).toEqual([]);
+      expect(state.plannedSettlements[0].status).toBe("en_route");
+
+      // Only once
+      state.markSettlerBuilt("next");
+      expect(useGameStore.getState()).toBe(state);
+
+      // A settler out in the field can still be called off
+      store.cancelPlannedSettlement("next");
+      state = useGameStore.getState();
+      expect(state.plannedSettlements[0].status).toBe("planned");
+      expect(state.cities[0].buildQueue).toEqual([]);
+    });
+
+    it("removePlannedSettlement takes the queued settler with it", () => {
+      const store = useGameStore.getState();
+      store.confirmPlannedSettlement("next", "seoul");
+      expect(useGameStore.getState().cities[0].buildQueue).toHaveLength(1);
+
+      store.removePlannedSettlement("next");
+      const state = useGameStore.getState();
+      expect(state.plannedSettlements).toEqual([]);
+      expect(state.cities[0].buildQueue).toEqual([]);
+    });
+  });
+
+  it("foundCity claims the unowned tiles around the city and records their owner", () => {
+    const store = useGameStore.getState();
+    [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+      { q: -1, r: 0 },
+    ].forEach((coord) =>
+      store.addTile({
+        coord,
+        terrain: "plains",
+        features: [],
+        riverEdges: [false, false, false, false, false, false],
+      }),
+    );
+    useGameStore.setState((s) => ({
+      cities: [
+        {
+          id: "seoul",
+          name: "Seoul",
+          location: { q: -2, r: 0 },
+          population: 1,
+          housingCap: 2,
+          amenities: 0,
+          ownedTiles: [{ q: -1, r: 0 }],
+          workedTiles: [],
+          districts: [],
+          buildQueue: [],
+          plannedDistricts: [],
+        },
+      ],
+      tiles: new Map(
+        [...s.tiles].map(([key, tile]) =>
+          key === "-1,0" ? [key, { ...tile, owningCityId: "seoul" }] : [key, tile],
+        ),
+      ),
+    }));
+
+    expect(store.foundCity("  ", { q: 0, r: 0 })).toBeNull();
+    expect(store.foundCity("Busan", { q: 0, r: 0 })).toBe("uuid-1");
+
+    const state = useGameStore.getState();
+    const busan = state.cities[1];
+    expect(busan.ownedTiles).toHaveLength(6);
+    expect(busan.ownedTiles.map(coordKey)).not.toContain("-1,0");
+    expect(state.tiles.get("0,0")).toMatchObject({
+      district: "city_center",
+      owningCityId: busan.id,
+    });
+    expect(state.tiles.get("1,0")?.owningCityId).toBe(busan.id);
+    expect(state.tiles.get("-1,0")?.owningCityId).toBe("seoul");
+  });
+
+  it("foundCity wraps its location across the seam and rejects tiles off the map", () => {
+    useGameStore
+      .getState()
+      .newGame({ ...defaultSetup, map: { size: "custom", width: 10, height: 6, wrapX: true } });
+    useGameStore.getState().addTile({
+      coord: { q: 9, r: 0 },
+      terrain: "plains",
+      features: [],
+      riverEdges: [false, false, false, false, false, false],
+    });
+
+    const store = useGameStore.getState();
+    expect(store.foundCity("Busan", { q: 0, r: -1 })).toBeNull();
+    expect(store.foundCity("Busan", { q: 0, r: 6 })).toBeNull();
+    expect(useGameStore.getState().cities).toEqual([]);
+
+    expect(store.foundCity("Busan", { q: -1, r: 0 })).toBe("uuid-1");
+    const [busan] = useGameStore.getState().cities;
+    expect(busan.location).toEqual({ q: 9, r: 0 });
+    expect(busan.districts[0].tile).toEqual({ q: 9, r: 0 });
+    expect(useGameStore.getState().tiles.get("9,0")).toMatchObject({
+      district: "city_center",
+      owningCityId: "uuid-1",
+    });
+  });
+
+  it("claimTile moves a tile between cities and reconcileOwnership repairs drift", () => {
+    const tile = { q: 2, r: 0 };
+    const store = useGameStore.getState();
+    store.addTile({
+      coord: tile,
+      terrain: "plains",
+      features: [],
+      riverEdges: [false, false, false, false, false, false],
+    });
+    const city = {
+      population: 1,
+      housingCap: 4,
+      amenities: 0,
+      workedTiles: [],
+      districts: [],
+      buildQueue: [],
+      plannedDistricts: [],
+    };
+    useGameStore.setState({
+      cities: [
+        { ...city, id: "seoul", name: "Seoul", location: { q: 0, r: 0 }, ownedTiles: [tile] },
+        { ...city, id: "busan", name: "Busan", location: { q: 4, r: 0 }, ownedTiles: [] },
+      ],
+    });
+
+    store.claimTile("busan", tile);
+    let state = useGameStore.getState();
+    expect(state.tiles.get("2,0")?.owningCityId).toBe("busan");
+    expect(state.cities.map((c) => c.ownedTiles)).toEqual([[], [tile]]);
+
+    // Unknown cities are ignored
+    store.claimTile("gone", tile);
+    expect(useGameStore.getState()).toBe(state);
+
+    // Seoul lists the tile again behind the store's back
+    useGameStore.setState((s) => ({
+      cities: s.cities.map((c) => (c.id === "seoul" ? { ...c, ownedTiles: [tile] } : c)),
+    }));
+    expect(useGameStore.getState().reconcileOwnership()).toEqual([
+      "(2, 0): removed from other cities' borders",
+    ]);
+    state = useGameStore.getState();
+    expect(state.cities.map((c) => c.ownedTiles)).toEqual([[], [tile]]);
+    expect(state.reconcileOwnership()).toEqual([]);
+  });
+
+  it("reorderTechQueue rejects moving a tech before its prerequisites", () => {
+    useGameStore.setState({
+      techQueue: [
+        { id: "a", techId: "pottery", isLocked: false },
+        { id: "b", techId: "writing", isLocked: false },
+        { id: "c", techId: "mining", isLocked: false },
+      ],
+    });
+    const store = useGameStore.getState();
+
+    store.reorderTechQueue("b", 0);
+    expect(useGameStore.getState().techQueue.map((t) => t.id)).toEqual(["a", "b", "c"]);
+
+    store.reorderTechQueue("c", 0);
+    expect(useGameStore.getState().techQueue.map((t) => t.id)).toEqual(["c", "a", "b"]);
   });
 });
@@ -31,7 +31,25 @@ import {
   AICiv,
   ThreatLevel,
   PolicyLoadout,
+  PlannedSettlement,
 } from "../types/model";
+import { getCivic, getCivicPrerequisites } from "./data/civics";
+import { getTech, getTechPrerequisites } from "./data/techs";
+import { reorderRespectingLocks, setQueueItemLocked } from "./utils/queueUtils";
+import {
+  buildCivicQueueAdditions,
+  buildTechQueueAdditions,
+  getCivicQueueIssues,
+  getTechQueueIssues,
+} from "./utils/researchQueue";
+import { estimateCivics, estimateTechs } from "./utils/researchEstimator";
+import { getPlanActionUpdates } from "./utils/tilePlans";
+import { detectPlanConflicts, isSameConflict } from "./utils/conflictDetector";
+import { DistrictRuleViolation, validateDistrictPlacement } from "./utils/districtRules";
+import { DueItem, findDueItems } from "./utils/triggerEngine";
+import { hexesInRange, isOnMap, wrapCoord } from "./utils/hexUtils";
+import { PaintBrush, applyBrush } from "./utils/mapPainter";
+import { detectOwnershipConflicts, reconcileOwnership } from "./utils/tileOwnership";
 
 /**
  * Combined game state and actions interface.
@@ -61,6 +79,13 @@ interface GameStore extends GameState {
    */
   recommendations: Recommendation[];
 
+  /**
+   * Tile plans and planned districts whose triggers have been met.
+   * Recomputed when turns advance, research completes, population changes,
+   * or plans are added or removed.
+   */
+  dueItems: DueItem[];
+
   // ============================================================================
   // GAME LIFECYCLE ACTIONS
   // ============================================================================
@@ -108,6 +133,8 @@ interface GameStore extends GameState {
   /**
    * Add a new tile to the map.
    * Automatically initializes plannedStates, isLocked, and isPillaged.
+   * Coordinates past the seam of a wrapping map are wrapped, and tiles
+   * outside the map chosen at setup are rejected.
    *
    * @param tile - Tile data without auto-generated fields
    *
@@ -124,6 +151,7 @@ interface GameStore extends GameState {
 
   /**
    * Update properties of an existing tile.
+   * Coordinates past the seam are wrapped; off-map coordinates are ignored.
    *
    * @param coord - Coordinates of the tile to update
    * @param updates - Partial tile object with fields to update
@@ -135,9 +163,12 @@ interface GameStore extends GameState {
 
   /**
    * Add a planned future state to a tile's timeline.
+   * District plans are added even if they break placement rules; the broken
+   * rules are returned so the caller can warn the player.
    *
    * @param coord - Coordinates of the tile
    * @param plan - Plan data (id is auto-generated)
+   * @returns Placement rule violations for district plans (empty otherwise)
    *
    * @example
    * addTilePlan({ q: 3, r: -1 }, {
@@ -146,7 +177,7 @@ interface GameStore extends GameState {
    *   rationale: "+4 adjacency from mines"
    * });
    */
-  addTilePlan: (coord: HexCoord, plan: Omit<TilePlannedState, "id">) => void;
+  addTilePlan: (coord: HexCoord, plan: Omit<TilePlannedState, "id">) => DistrictRuleViolation[];
 
   /**
    * Remove a planned state from a tile.
@@ -164,6 +195,25 @@ interface GameStore extends GameState {
    */
   lockTile: (coord: HexCoord, locked: boolean) => void;
 
+  /**
+   * Apply one paint stroke as a single update.
+   *
+   * @param stroke - Hexes the stroke covers (see `getStrokeHexes` and `floodFill`)
+   * @param brush - What the stroke changes
+   *
+   * @example
+   * paintStroke(getStrokeHexes(path, brush, radius, setup.map), brush);
+   */
+  paintStroke: (stroke: HexCoord[], brush: PaintBrush) => void;
+
+  /**
+   * Apply a due plan to its tile and remove it from the plan list.
+   * Planned districts are also added to the owning city's districts.
+   *
+   * @param dueItemId - ID of an entry in dueItems
+   */
+  applyDueItem: (dueItemId: string) => void;
+
   // ============================================================================
   // CITY ACTIONS
   // ============================================================================
@@ -188,6 +238,21 @@ interface GameStore extends GameState {
    */
   addCity: (city: Omit<City, "id" | "buildQueue" | "plannedDistricts">) => void;
 
+  /**
+   * Found a new city on a tile.
+   * Adds a population 1 city that owns the tiles around it no other city
+   * owns, sets their `owningCityId`, and places the City Center.
+   *
+   * @param name - Name of the new city
+   * @param location - City center tile (wrapped across the seam on a wrapping map)
+   * @returns ID of the new city, or null if the name is blank, the tile is off
+   *   the map, a city already stands on the tile, or another city owns it
+   *
+   * @example
+   * foundCity("Busan", { q: 5, r: 0 });
+   */
+  foundCity: (name: string, location: HexCoord) => string | null;
+
   /**
    * Update properties of an existing city.
    *
@@ -214,6 +279,7 @@ interface GameStore extends GameState {
 
   /**
    * Reorder an item in a city's build queue.
+   * Locked items keep their positions; moving a locked item is a no-op.
    *
    * @param cityId - ID of the city
    * @param itemId - ID of the queue item to move
@@ -221,12 +287,121 @@ interface GameStore extends GameState {
    */
   reorderBuildQueue: (cityId: string, itemId: string, newIndex: number) => void;
 
+  /**
+   * Lock or unlock a build queue item to pin/unpin its position.
+   *
+   * @param cityId - ID of the city
+   * @param itemId - ID of the queue item
+   * @param locked - Whether the item should be locked
+   */
+  lockBuildQueueItem: (cityId: string, itemId: string, locked: boolean) => void;
+
+  /**
+   * Give a tile to a city (culture growth or purchase).
+   * Sets the tile's `owningCityId`, adds it to the city's `ownedTiles`, and
+   * removes it from any other city's `ownedTiles`. Coordinates past the seam
+   * are wrapped; off-map coordinates are ignored.
+   *
+   * @param cityId - ID of the city claiming the tile
+   * @param coord - Tile to claim
+   */
+  claimTile: (cityId: string, coord: HexCoord) => void;
+
+  /**
+   * Bring `Tile.owningCityId` and `City.ownedTiles` back in sync.
+   * Double claims without a recorded owner are left for the player to resolve.
+   *
+   * @returns One line per repair (empty if nothing drifted)
+   */
+  reconcileOwnership: () => string[];
+
+  // ============================================================================
+  // EXPANSION ACTIONS
+  // ============================================================================
+
+  /**
+   * Record a planned city site at the end of the expansion queue.
+   *
+   * @param location - Tile the city will be founded on
+   * @param justification - Why the site is worth its overlap or spacing problems
+   */
+  addPlannedSettlement: (location: HexCoord, justification?: string) => void;
+
+  /**
+   * Update a planned city site.
+   *
+   * @param settlementId - ID of the planned settlement
+   * @param updates - Fields to update
+   */
+  updatePlannedSettlement: (
+    settlementId: string,
+    updates: Partial<Omit<PlannedSettlement, "id">>,
+  ) => void;
+
+  /**
+   * Remove a planned city site, along with the settler queued for it.
+   *
+   * @param settlementId - ID of the planned settlement
+   */
+  removePlannedSettlement: (settlementId: string) => void;
+
+  /**
+   * Move a planned city site to a new position in the expansion queue.
+   *
+   * @param settlementId - ID of the planned settlement
+   * @param newIndex - Target position in the queue
+   */
+  reorderPlannedSettlements: (settlementId: string, newIndex: number) => void;
+
+  /**
+   * Assign a city to build the settler for a planned site.
+   * Pushes a settler targeting the site into the city's build queue and
+   * marks the settlement as in production. No-op unless the settlement is
+   * still only planned.
+   *
+   * @param settlementId - ID of the planned settlement
+   * @param cityId - City that will build the settler
+   */
+  confirmPlannedSettlement: (settlementId: string, cityId: string) => void;
+
+  /**
+   * Record that the settler for a site has been built and is on its way.
+   * Removes the settler from the producing city's build queue and marks the
+   * settlement as en route. No-op unless the settler is in production.
+   *
+   * @param settlementId - ID of the planned settlement
+   */
+  markSettlerBuilt: (settlementId: string) => void;
+
+  /**
+   * Take a site back to planned.
+   * Removes the settler queued for it from the producing city's build queue,
+   * if it hasn't been built yet. No-op unless the settler is in production or
+   * en route.
+   *
+   * @param settlementId - ID of the planned settlement
+   */
+  cancelPlannedSettlement: (settlementId: string) => void;
+
+  /**
+   * Found the city for a planned site.
+   * Founds the city via `foundCity()`, drops the settler from the producing
+   * city's queue, and marks the settlement as settled. No-op if a city already
+   * stands on the site or another city owns it.
+   *
+   * @param settlementId - ID of the planned settlement
+   * @param name - Name of the new city
+   */
+  settlePlannedSettlement: (settlementId: string, name: string) => void;
+
   // ============================================================================
   // RESEARCH & CIVICS ACTIONS
   // ============================================================================
 
   /**
    * Add a technology to the research queue.
+   * Missing prerequisites are queued first; completed or already queued
+   * technologies are skipped. Eureka progress is filled in from the tech data.
    *
    * @param techId - ID of the technology to queue
    */
@@ -241,15 +416,56 @@ interface GameStore extends GameState {
 
   /**
    * Reorder a technology in the research queue.
+   * Rejected if it would place a technology before its prerequisites
+   * or move a locked entry.
    *
    * @param itemId - ID of the queue entry to move
    * @param newIndex - Target position in the queue
    */
   reorderTechQueue: (itemId: string, newIndex: number) => void;
 
+  /**
+   * Lock or unlock a tech queue entry to pin/unpin its position.
+   *
+   * @param itemId - ID of the queue entry
+   * @param locked - Whether the entry should be locked
+   */
+  lockTechQueueItem: (itemId: string, locked: boolean) => void;
+
+  /**
+   * Set the Eureka progress of a tech queue entry.
+   * The value is clamped between 0 and the required amount.
+   *
+   * @param itemId - ID of the queue entry
+   * @param current - New progress toward the Eureka
+   */
+  updateEurekaProgress: (itemId: string, current: number) => void;
+
+  /**
+   * Start researching a technology, or clear the current research.
+   * Ignored if any of the technology's prerequisites aren't completed.
+   * Eureka progress is copied from the tech's queue entry, if it has one.
+   *
+   * @param techId - ID of the technology to research, or undefined to clear
+   */
+  setCurrentTech: (techId: string | undefined) => void;
+
+  /**
+   * Update progress of the technology currently being researched.
+   *
+   * @param updates - New science progress, turns remaining and/or Eureka
+   *   progress (`boost`, clamped between 0 and the required amount)
+   */
+  updateCurrentTech: (updates: {
+    progress?: number;
+    turnsRemaining?: number;
+    boost?: number;
+  }) => void;
+
   /**
    * Mark a technology as completed.
-   * Moves it to completedTechs and removes from queue.
+   * Moves it to completedTechs, removes it from the queue, and clears
+   * currentTech if it was being researched.
    *
    * @param techId - ID of the completed technology
    */
@@ -257,6 +473,8 @@ interface GameStore extends GameState {
 
   /**
    * Add a civic to the civics queue.
+   * Missing prerequisites are queued first; completed or already queued
+   * civics are skipped. Inspiration progress is filled in from the civic data.
    *
    * @param civicId - ID of the civic to queue
    */
@@ -271,20 +489,69 @@ interface GameStore extends GameState {
 
   /**
    * Reorder a civic in the civics queue.
+   * Rejected if it would place a civic before its prerequisites
+   * or move a locked entry.
    *
    * @param itemId - ID of the queue entry to move
    * @param newIndex - Target position in the queue
    */
   reorderCivicQueue: (itemId: string, newIndex: number) => void;
 
+  /**
+   * Lock or unlock a civics queue entry to pin/unpin its position.
+   *
+   * @param itemId - ID of the queue entry
+   * @param locked - Whether the entry should be locked
+   */
+  lockCivicQueueItem: (itemId: string, locked: boolean) => void;
+
+  /**
+   * Set the Inspiration progress of a civics queue entry.
+   * The value is clamped between 0 and the required amount.
+   *
+   * @param itemId - ID of the queue entry
+   * @param current - New progress toward the Inspiration
+   */
+  updateInspirationProgress: (itemId: string, current: number) => void;
+
+  /**
+   * Start researching a civic, or clear the current civic.
+   * Ignored if any of the civic's prerequisites aren't completed.
+   * Inspiration progress is copied from the civic's queue entry, if it has one.
+   *
+   * @param civicId - ID of the civic to research, or undefined to clear
+   */
+  setCurrentCivic: (civicId: string | undefined) => void;
+
+  /**
+   * Update progress of the civic currently being researched.
+   *
+   * @param updates - New culture progress, turns remaining and/or Inspiration
+   *   progress (`boost`, clamped between 0 and the required amount)
+   */
+  updateCurrentCivic: (updates: {
+    progress?: number;
+    turnsRemaining?: number;
+    boost?: number;
+  }) => void;
+
   /**
    * Mark a civic as completed.
-   * Moves it to completedCivics and removes from queue.
+   * Moves it to completedCivics, removes it from the queue, and clears
+   * currentCivic if it was being researched.
    *
    * @param civicId - ID of the completed civic
    */
   completeCivic: (civicId: string) => void;
 
+  /**
+   * Set the empire's science and/or culture per turn.
+   * Turn estimates for both queues are recomputed from the new yields.
+   *
+   * @param yields - Science and/or culture per turn (omitted values are kept)
+   */
+  setYieldsPerTurn: (yields: { science?: number; culture?: number }) => void;
+
   // ============================================================================
   // POLICY ACTIONS
   // ============================================================================
@@ -346,8 +613,18 @@ interface GameStore extends GameState {
    * Clear all recommendations (e.g., before regenerating).
    */
   clearRecommendations: () => void;
+
+  /**
+   * Re-run plan and tile ownership conflict detection and replace the
+   * "conflict" recommendations.
+   * Conflicts that still exist keep their ID and dismissed state.
+   */
+  refreshConflicts: () => void;
 }
 
+/** Build queue item ID of the settler unit pushed by the expansion queue. */
+const SETTLER_UNIT_ID = "settler";
+
 /**
  * Create an empty game state with default values.
  * Used when starting a new game or resetting state.
@@ -360,6 +637,7 @@ const createEmptyState = (): Omit<GameState, "setup"> => ({
   currentEra: "ancient",
   tiles: new Map(),
   cities: [],
+  plannedSettlements: [],
   completedTechs: new Set(),
   completedCivics: new Set(),
   currentTech: undefined,
@@ -372,11 +650,78 @@ const createEmptyState = (): Omit<GameState, "setup"> => ({
   },
   gold: 0,
   faith: 0,
+  sciencePerTurn: 0,
+  culturePerTurn: 0,
   strategicResources: new Map(),
   aiCivs: [],
   lastUpdated: new Date(),
 });
 
+/**
+ * Apply state updates and refresh the tech queue's turn estimates.
+ *
+ * @param state - Current store state
+ * @param updates - Updates being applied by an action
+ * @returns The updates with estimated currentTech and techQueue added
+ * @internal
+ */
+const withTechEstimates = <T extends Partial<GameState>>(state: GameState, updates: T) => ({
+  ...updates,
+  ...estimateTechs({ ...state, ...updates }),
+});
+
+/**
+ * Apply state updates and refresh the civics queue's turn estimates.
+ *
+ * @param state - Current store state
+ * @param updates - Updates being applied by an action
+ * @returns The updates with estimated currentCivic and civicQueue added
+ * @internal
+ */
+const withCivicEstimates = <T extends Partial<GameState>>(state: GameState, updates: T) => ({
+  ...updates,
+  ...estimateCivics({ ...state, ...updates }),
+});
+
+/**
+ * Apply state updates and refresh the list of due plans.
+ *
+ * @param state - Current store state
+ * @param updates - Updates being applied by an action
+ * @returns The updates with recomputed dueItems added
+ * @internal
+ */
+const withDueItems = <T extends Partial<GameState>>(state: GameState, updates: T) => ({
+  ...updates,
+  dueItems: findDueItems({ ...state, ...updates }),
+});
+
+/**
+ * Remove the settler queued for a site from a city's build queue.
+ *
+ * @param cities - All cities
+ * @param cityId - City producing the settler
+ * @param site - Site the settler targets
+ * @returns Cities with the settler removed
+ * @internal
+ */
+const withoutSettler = (cities: City[], cityId: string | undefined, site: HexCoord): City[] =>
+  cities.map((c) =>
+    c.id === cityId
+      ? {
+          ...c,
+          buildQueue: c.buildQueue.filter(
+            (i) =>
+              !(
+                i.itemId === SETTLER_UNIT_ID &&
+                i.targetTile &&
+                coordKey(i.targetTile) === coordKey(site)
+              ),
+          ),
+        }
+      : c,
+  );
+
 /**
  * Zustand store hook for accessing and updating game state.
  *
@@ -401,7 +746,7 @@ const createEmptyState = (): Omit<GameState, "setup"> => ({
  *   riverEdges: [false, false, false, false, false, false]
  * });
  */
-export const useGameStore = create<GameStore>((set) => ({
+export const useGameStore = create<GameStore>((set, get) => ({
   // Initial state
   setup: {
     playerCiv: "",
@@ -418,6 +763,7 @@ export const useGameStore = create<GameStore>((set) => ({
   },
   ...createEmptyState(),
   recommendations: [],
+  dueItems: [],
 
   // Game lifecycle
   newGame: (setup) =>
@@ -425,26 +771,35 @@ export const useGameStore = create<GameStore>((set) => ({
       setup,
       ...createEmptyState(),
       recommendations: [],
+      dueItems: [],
     }),
 
   loadState: (state) =>
     set({
       ...state,
+      ...estimateTechs(state),
+      ...estimateCivics(state),
       recommendations: [],
+      dueItems: findDueItems(state),
     }),
 
   advanceTurn: (newTurn) =>
-    set(() => ({
-      currentTurn: newTurn,
-      lastUpdated: new Date(),
-    })),
+    set((s) => {
+      const updates = { currentTurn: newTurn, lastUpdated: new Date() };
+      return withDueItems(s, withCivicEstimates(s, withTechEstimates(s, updates)));
+    }),
 
   // Tiles
   addTile: (tile) =>
     set((s) => {
+      // Past the seam of a wrapping map is the same tile on the other side
+      const coord = wrapCoord(tile.coord, s.setup.map);
+      if (s.setup.map && !isOnMap(coord, s.setup.map)) return s;
+
       const newTiles = new Map(s.tiles);
-      newTiles.set(coordKey(tile.coord), {
+      newTiles.set(coordKey(coord), {
         ...tile,
+        coord,
         plannedStates: [],
         isLocked: false,
         isPillaged: false,
@@ -454,16 +809,18 @@ export const useGameStore = create<GameStore>((set) => ({
 
   updateTile: (coord, updates) =>
     set((s) => {
-      const key = coordKey(coord);
+      const wrapped = wrapCoord(coord, s.setup.map);
+      if (s.setup.map && !isOnMap(wrapped, s.setup.map)) return s;
+      const key = coordKey(wrapped);
       const existing = s.tiles.get(key);
       if (!existing) return s;
 
       const newTiles = new Map(s.tiles);
       newTiles.set(key, { ...existing, ...updates });
-      return { tiles: newTiles, lastUpdated: new Date() };
+      return withDueItems(s, { tiles: newTiles, lastUpdated: new Date() });
     }),
 
-  addTilePlan: (coord, plan) =>
+  addTilePlan: (coord, plan) => {
     set((s) => {
       const key = coordKey(coord);
       const existing = s.tiles.get(key);
@@ -474,8 +831,14 @@ export const useGameStore = create<GameStore>((set) => ({
         ...existing,
         plannedStates: [...existing.plannedStates, { ...plan, id: uuidv4() }],
       });
-      return { tiles: newTiles, lastUpdated: new Date() };
-    }),
+      return withDueItems(s, { tiles: newTiles, lastUpdated: new Date() });
+    });
+
+    const { tiles, cities, setup } = get();
+    return plan.action.type === "place_district"
+      ? validateDistrictPlacement(plan.action.district, coord, { tiles, cities, map: setup.map })
+      : [];
+  },
 
   removeTilePlan: (coord, planId) =>
     set((s) => {
@@ -488,7 +851,7 @@ export const useGameStore = create<GameStore>((set) => ({
         ...existing,
         plannedStates: existing.plannedStates.filter((p) => p.id !== planId),
       });
-      return { tiles: newTiles, lastUpdated: new Date() };
+      return withDueItems(s, { tiles: newTiles, lastUpdated: new Date() });
     }),
 
   lockTile: (coord, locked) =>
@@ -502,6 +865,58 @@ export const useGameStore = create<GameStore>((set) => ({
       return { tiles: newTiles, lastUpdated: new Date() };
     }),
 
+  paintStroke: (stroke, brush) =>
+    set((s) => {
+      const painted = applyBrush(s.tiles, stroke, brush, s.setup.map);
+      if (painted.size === 0) return s;
+
+      const newTiles = new Map(s.tiles);
+      painted.forEach((tile, key) => newTiles.set(key, tile));
+      return { tiles: newTiles, lastUpdated: new Date() };
+    }),
+
+  applyDueItem: (dueItemId) =>
+    set((s) => {
+      const item = s.dueItems.find((d) => d.id === dueItemId);
+      if (!item) return s;
+
+      const key = coordKey(item.coord);
+      const tile = s.tiles.get(key);
+      const newTiles = new Map(s.tiles);
+      if (tile) {
+        newTiles.set(key, {
+          ...tile,
+          ...getPlanActionUpdates(tile, item.action),
+          plannedStates: tile.plannedStates.filter((p) => p.id !== item.planId),
+        });
+      }
+
+      // A planned district becomes a built district of its city
+      const district = item.action.type === "place_district" ? item.action.district : undefined;
+      const cities =
+        item.source === "planned_district" && district
+          ? s.cities.map((c) =>
+              c.id === item.cityId
+                ? {
+                    ...c,
+                    districts: [
+                      ...c.districts,
+                      {
+                        type: district,
+                        tile: item.coord,
+                        buildings: [],
+                        isPillaged: false,
+                      },
+                    ],
+                    plannedDistricts: c.plannedDistricts.filter((d) => coordKey(d.tile) !== key),
+                  }
+                : c,
+            )
+          : s.cities;
+
+      return withDueItems(s, { tiles: newTiles, cities, lastUpdated: new Date() });
+    }),
+
   // Cities
   addCity: (city) =>
     set((s) => ({
@@ -509,11 +924,93 @@ export const useGameStore = create<GameStore>((set) => ({
       lastUpdated: new Date(),
     })),
 
+  foundCity: (name, coord) => {
+    if (!name.trim()) return null;
+    const { cities, setup } = get();
+    const location = wrapCoord(coord, setup.map);
+    if (setup.map && !isOnMap(location, setup.map)) return null;
+    const locationKey = coordKey(location);
+    if (
+      cities.some(
+        (c) =>
+          coordKey(c.location) === locationKey ||
+          c.ownedTiles.some((t) => coordKey(t) === locationKey),
+      )
+    ) {
+      return null;
+    }
+    const id = uuidv4();
+
+    set((s) => {
+      // Claim the surrounding tiles no other city owns
+      const owned = new Set(s.cities.flatMap((c) => c.ownedTiles.map(coordKey)));
+      const claimed = hexesInRange(location, 1, s.setup.map).filter((c) => !owned.has(coordKey(c)));
+
+      const tiles = new Map(s.tiles);
+      claimed.forEach((c) => {
+        const key = coordKey(c);
+        const tile = tiles.get(key);
+        if (!tile) return;
+        tiles.set(
+          key,
+          key === locationKey
+            ? { ...tile, owningCityId: id, district: "city_center", improvement: undefined }
+            : { ...tile, owningCityId: id },
+        );
+      });
+
+      const city: City = {
+        id,
+        name: name.trim(),
+        location,
+        population: 1,
+        housingCap: 2,
+        amenities: 0,
+        ownedTiles: claimed,
+        workedTiles: [],
+        districts: [{ type: "city_center", tile: location, buildings: [], isPillaged: false }],
+        buildQueue: [],
+        plannedDistricts: [],
+      };
+      return withDueItems(s, { tiles, cities: [...s.cities, city], lastUpdated: new Date() });
+    });
+    return id;
+  },
+
   updateCity: (cityId, updates) =>
-    set((s) => ({
-      cities: s.cities.map((c) => (c.id === cityId ? { ...c, ...updates } : c)),
-      lastUpdated: new Date(),
-    })),
+    set((s) =>
+      withDueItems(s, {
+        cities: s.cities.map((c) => (c.id === cityId ? { ...c, ...updates } : c)),
+        lastUpdated: new Date(),
+      }),
+    ),
+
+  claimTile: (cityId, coord) =>
+    set((s) => {
+      if (!s.cities.some((c) => c.id === cityId)) return s;
+      const claimed = wrapCoord(coord, s.setup.map);
+      if (s.setup.map && !isOnMap(claimed, s.setup.map)) return s;
+      const key = coordKey(claimed);
+      const tiles = new Map(s.tiles);
+      const tile = tiles.get(key);
+      if (tile) tiles.set(key, { ...tile, owningCityId: cityId });
+
+      const cities = s.cities.map((c) => {
+        const others = c.ownedTiles.filter((t) => coordKey(t) !== key);
+        if (c.id === cityId) return { ...c, ownedTiles: [...others, claimed] };
+        return others.length === c.ownedTiles.length ? c : { ...c, ownedTiles: others };
+      });
+
+      return withDueItems(s, { tiles, cities, lastUpdated: new Date() });
+    }),
+
+  reconcileOwnership: () => {
+    const { tiles, cities, repairs } = reconcileOwnership(get());
+    if (repairs.length > 0) {
+      set((s) => withDueItems(s, { tiles, cities, lastUpdated: new Date() }));
+    }
+    return repairs;
+  },
 
   addToBuildQueue: (cityId, item) =>
     set((s) => ({
@@ -540,84 +1037,359 @@ export const useGameStore = create<GameStore>((set) => ({
     set((s) => ({
       cities: s.cities.map((c) => {
         if (c.id !== cityId) return c;
-        const queue = [...c.buildQueue];
-        const oldIndex = queue.findIndex((i) => i.id === itemId);
-        if (oldIndex === -1) return c;
-        const [item] = queue.splice(oldIndex, 1);
-        queue.splice(newIndex, 0, item);
-        return { ...c, buildQueue: queue };
+        const queue = reorderRespectingLocks(c.buildQueue, itemId, newIndex);
+        return queue === c.buildQueue ? c : { ...c, buildQueue: queue };
       }),
       lastUpdated: new Date(),
     })),
 
-  // Research
-  addToTechQueue: (techId) =>
+  lockBuildQueueItem: (cityId, itemId, locked) =>
     set((s) => ({
-      techQueue: [...s.techQueue, { id: uuidv4(), techId, isLocked: false }],
+      cities: s.cities.map((c) =>
+        c.id === cityId
+          ? { ...c, buildQueue: setQueueItemLocked(c.buildQueue, itemId, locked) }
+          : c,
+      ),
       lastUpdated: new Date(),
     })),
 
-  removeFromTechQueue: (queueItemId) =>
+  // Expansion
+  addPlannedSettlement: (location, justification) =>
     set((s) => ({
-      techQueue: s.techQueue.filter((t) => t.id !== queueItemId),
+      plannedSettlements: [
+        ...s.plannedSettlements,
+        { id: uuidv4(), location, status: "planned", ...(justification && { justification }) },
+      ],
       lastUpdated: new Date(),
     })),
 
+  updatePlannedSettlement: (settlementId, updates) =>
+    set((s) => ({
+      plannedSettlements: s.plannedSettlements.map((p) =>
+        p.id === settlementId ? { ...p, ...updates } : p,
+      ),
+      lastUpdated: new Date(),
+    })),
+
+  removePlannedSettlement: (settlementId) =>
+    set((s) => {
+      const settlement = s.plannedSettlements.find((p) => p.id === settlementId);
+      if (!settlement) return s;
+
+      return withDueItems(s, {
+        cities: withoutSettler(s.cities, settlement.producingCityId, settlement.location),
+        plannedSettlements: s.plannedSettlements.filter((p) => p.id !== settlementId),
+        lastUpdated: new Date(),
+      });
+    }),
+
+  reorderPlannedSettlements: (settlementId, newIndex) =>
+    set((s) => {
+      const oldIndex = s.plannedSettlements.findIndex((p) => p.id === settlementId);
+      const target = Math.max(0, Math.min(s.plannedSettlements.length - 1, newIndex));
+      if (oldIndex === -1 || target === oldIndex) return s;
+
+      const plannedSettlements = [...s.plannedSettlements];
+      const [moved] = plannedSettlements.splice(oldIndex, 1);
+      plannedSettlements.splice(target, 0, moved);
+      return { plannedSettlements, lastUpdated: new Date() };
+    }),
+
+  confirmPlannedSettlement: (settlementId, cityId) =>
+    set((s) => {
+      const settlement = s.plannedSettlements.find((p) => p.id === settlementId);
+      if (!settlement || settlement.status !== "planned") return s;
+      if (!s.cities.some((c) => c.id === cityId)) return s;
+
+      const settler: BuildQueueItem = {
+        id: uuidv4(),
+        type: "unit",
+        itemId: SETTLER_UNIT_ID,
+        targetTile: settlement.location,
+        isLocked: false,
+      };
+      return {
+        cities: s.cities.map((c) =>
+          c.id === cityId ? { ...c, buildQueue: [...c.buildQueue, settler] } : c,
+        ),
+        plannedSettlements: s.plannedSettlements.map((p) =>
+          p.id === settlementId
+            ? { ...p, status: "in_production" as const, producingCityId: cityId }
+            : p,
+        ),
+        lastUpdated: new Date(),
+      };
+    }),
+
+  markSettlerBuilt: (settlementId) =>
+    set((s) => {
+      const settlement = s.plannedSettlements.find((p) => p.id === settlementId);
+      if (!settlement || settlement.status !== "in_production") return s;
+
+      return withDueItems(s, {
+        cities: withoutSettler(s.cities, settlement.producingCityId, settlement.location),
+        plannedSettlements: s.plannedSettlements.map((p) =>
+          p.id === settlementId ? { ...p, status: "en_route" as const } : p,
+        ),
+        lastUpdated: new Date(),
+      });
+    }),
+
+  cancelPlannedSettlement: (settlementId) =>
+    set((s) => {
+      const settlement = s.plannedSettlements.find((p) => p.id === settlementId);
+      if (settlement?.status !== "in_production" && settlement?.status !== "en_route") return s;
+
+      return withDueItems(s, {
+        cities: withoutSettler(s.cities, settlement.producingCityId, settlement.location),
+        plannedSettlements: s.plannedSettlements.map((p) =>
+          p.id === settlementId ? { ...p, status: "planned" as const } : p,
+        ),
+        lastUpdated: new Date(),
+      });
+    }),
+
+  settlePlannedSettlement: (settlementId, name) => {
+    const settlement = get().plannedSettlements.find((p) => p.id === settlementId);
+    if (!settlement || settlement.status === "settled") return;
+    if (!get().foundCity(name, settlement.location)) return;
+
+    // The settler has done its job; drop it from the producing city's queue
+    set((s) =>
+      withDueItems(s, {
+        cities: withoutSettler(s.cities, settlement.producingCityId, settlement.location),
+        plannedSettlements: s.plannedSettlements.map((p) =>
+          p.id === settlementId ? { ...p, status: "settled" as const } : p,
+        ),
+        lastUpdated: new Date(),
+      }),
+    );
+  },
+
+  // Research
+  addToTechQueue: (techId) =>
+    set((s) => {
+      const additions = buildTechQueueAdditions(techId, s.techQueue, s.completedTechs, uuidv4);
+      if (additions.length === 0) return s;
+      return withTechEstimates(s, {
+        techQueue: [...s.techQueue, ...additions],
+        lastUpdated: new Date(),
+      });
+    }),
+
+  removeFromTechQueue: (queueItemId) =>
+    set((s) =>
+      withTechEstimates(s, {
+        techQueue: s.techQueue.filter((t) => t.id !== queueItemId),
+        lastUpdated: new Date(),
+      }),
+    ),
+
   reorderTechQueue: (itemId, newIndex) =>
     set((s) => {
-      const queue = [...s.techQueue];
-      const oldIndex = queue.findIndex((t) => t.id === itemId);
-      if (oldIndex === -1) return s;
-      const [item] = queue.splice(oldIndex, 1);
-      queue.splice(newIndex, 0, item);
-      return { techQueue: queue, lastUpdated: new Date() };
+      const queue = reorderRespectingLocks(s.techQueue, itemId, newIndex);
+      if (queue === s.techQueue) return s;
+      // Reject orderings that add new prerequisite violations
+      const before = getTechQueueIssues(s.techQueue, s.completedTechs).length;
+      if (getTechQueueIssues(queue, s.completedTechs).length > before) return s;
+      return withTechEstimates(s, { techQueue: queue, lastUpdated: new Date() });
+    }),
+
+  lockTechQueueItem: (itemId, locked) =>
+    set((s) => ({
+      techQueue: setQueueItemLocked(s.techQueue, itemId, locked),
+      lastUpdated: new Date(),
+    })),
+
+  updateEurekaProgress: (itemId, current) =>
+    set((s) =>
+      withTechEstimates(s, {
+        techQueue: s.techQueue.map((t) =>
+          t.id === itemId && t.eurekaProgress
+            ? {
+                ...t,
+                eurekaProgress: {
+                  ...t.eurekaProgress,
+                  current: Math.max(0, Math.min(t.eurekaProgress.required, current)),
+                },
+              }
+            : t,
+        ),
+        lastUpdated: new Date(),
+      }),
+    ),
+
+  setCurrentTech: (techId) =>
+    set((s) => {
+      if (techId === undefined) {
+        return withTechEstimates(s, { currentTech: undefined, lastUpdated: new Date() });
+      }
+      if (s.currentTech?.techId === techId || s.completedTechs.has(techId)) return s;
+      if (!getTechPrerequisites(techId).every((p) => s.completedTechs.has(p))) return s;
+      const eureka = getTech(techId)?.eureka;
+      const eurekaProgress =
+        s.techQueue.find((t) => t.techId === techId)?.eurekaProgress ??
+        (eureka && { current: 0, ...eureka });
+      return withTechEstimates(s, {
+        currentTech: {
+          techId,
+          progress: 0,
+          turnsRemaining: 0,
+          ...(eurekaProgress && { eurekaProgress }),
+        },
+        lastUpdated: new Date(),
+      });
+    }),
+
+  updateCurrentTech: ({ boost, ...updates }) =>
+    set((s) => {
+      if (!s.currentTech) return s;
+      const { eurekaProgress } = s.currentTech;
+      return withTechEstimates(s, {
+        currentTech: {
+          ...s.currentTech,
+          ...updates,
+          ...(eurekaProgress &&
+            boost !== undefined && {
+              eurekaProgress: {
+                ...eurekaProgress,
+                current: Math.max(0, Math.min(eurekaProgress.required, boost)),
+              },
+            }),
+        },
+        lastUpdated: new Date(),
+      });
     }),
 
   completeTech: (techId) =>
     set((s) => {
       const newCompleted = new Set(s.completedTechs);
       newCompleted.add(techId);
-      return {
+      const updates = withTechEstimates(s, {
         completedTechs: newCompleted,
         techQueue: s.techQueue.filter((t) => t.techId !== techId),
-        currentTech: undefined,
+        currentTech: s.currentTech?.techId === techId ? undefined : s.currentTech,
         lastUpdated: new Date(),
-      };
+      });
+      return withDueItems(s, updates);
     }),
 
   // Civics
   addToCivicQueue: (civicId) =>
-    set((s) => ({
-      civicQueue: [...s.civicQueue, { id: uuidv4(), civicId, isLocked: false }],
-      lastUpdated: new Date(),
-    })),
+    set((s) => {
+      const additions = buildCivicQueueAdditions(civicId, s.civicQueue, s.completedCivics, uuidv4);
+      if (additions.length === 0) return s;
+      return withCivicEstimates(s, {
+        civicQueue: [...s.civicQueue, ...additions],
+        lastUpdated: new Date(),
+      });
+    }),
 
   removeFromCivicQueue: (queueItemId) =>
+    set((s) =>
+      withCivicEstimates(s, {
+        civicQueue: s.civicQueue.filter((c) => c.id !== queueItemId),
+        lastUpdated: new Date(),
+      }),
+    ),
+
+  reorderCivicQueue: (itemId, newIndex) =>
+    set((s) => {
+      const queue = reorderRespectingLocks(s.civicQueue, itemId, newIndex);
+      if (queue === s.civicQueue) return s;
+      // Reject orderings that add new prerequisite violations
+      const before = getCivicQueueIssues(s.civicQueue, s.completedCivics).length;
+      if (getCivicQueueIssues(queue, s.completedCivics).length > before) return s;
+      return withCivicEstimates(s, { civicQueue: queue, lastUpdated: new Date() });
+    }),
+
+  lockCivicQueueItem: (itemId, locked) =>
     set((s) => ({
-      civicQueue: s.civicQueue.filter((c) => c.id !== queueItemId),
+      civicQueue: setQueueItemLocked(s.civicQueue, itemId, locked),
       lastUpdated: new Date(),
     })),
 
-  reorderCivicQueue: (itemId, newIndex) =>
+  updateInspirationProgress: (itemId, current) =>
+    set((s) =>
+      withCivicEstimates(s, {
+        civicQueue: s.civicQueue.map((c) =>
+          c.id === itemId && c.inspirationProgress
+            ? {
+                ...c,
+                inspirationProgress: {
+                  ...c.inspirationProgress,
+                  current: Math.max(0, Math.min(c.inspirationProgress.required, current)),
+                },
+              }
+            : c,
+        ),
+        lastUpdated: new Date(),
+      }),
+    ),
+
+  setCurrentCivic: (civicId) =>
     set((s) => {
-      const queue = [...s.civicQueue];
-      const oldIndex = queue.findIndex((c) => c.id === itemId);
-      if (oldIndex === -1) return s;
-      const [item] = queue.splice(oldIndex, 1);
-      queue.splice(newIndex, 0, item);
-      return { civicQueue: queue, lastUpdated: new Date() };
+      if (civicId === undefined) {
+        return withCivicEstimates(s, { currentCivic: undefined, lastUpdated: new Date() });
+      }
+      if (s.currentCivic?.civicId === civicId || s.completedCivics.has(civicId)) return s;
+      if (!getCivicPrerequisites(civicId).every((p) => s.completedCivics.has(p))) return s;
+      const inspiration = getCivic(civicId)?.inspiration;
+      const inspirationProgress =
+        s.civicQueue.find((c) => c.civicId === civicId)?.inspirationProgress ??
+        (inspiration && { current: 0, ...inspiration });
+      return withCivicEstimates(s, {
+        currentCivic: {
+          civicId,
+          progress: 0,
+          turnsRemaining: 0,
+          ...(inspirationProgress && { inspirationProgress }),
+        },
+        lastUpdated: new Date(),
+      });
+    }),
+
+  updateCurrentCivic: ({ boost, ...updates }) =>
+    set((s) => {
+      if (!s.currentCivic) return s;
+      const { inspirationProgress } = s.currentCivic;
+      return withCivicEstimates(s, {
+        currentCivic: {
+          ...s.currentCivic,
+          ...updates,
+          ...(inspirationProgress &&
+            boost !== undefined && {
+              inspirationProgress: {
+                ...inspirationProgress,
+                current: Math.max(0, Math.min(inspirationProgress.required, boost)),
+              },
+            }),
+        },
+        lastUpdated: new Date(),
+      });
     }),
 
   completeCivic: (civicId) =>
     set((s) => {
       const newCompleted = new Set(s.completedCivics);
       newCompleted.add(civicId);
-      return {
+      const updates = withCivicEstimates(s, {
         completedCivics: newCompleted,
         civicQueue: s.civicQueue.filter((c) => c.civicId !== civicId),
-        currentCivic: undefined,
+        currentCivic: s.currentCivic?.civicId === civicId ? undefined : s.currentCivic,
+        lastUpdated: new Date(),
+      });
+      return withDueItems(s, updates);
+    }),
+
+  setYieldsPerTurn: ({ science, culture }) =>
+    set((s) => {
+      const updates = {
+        sciencePerTurn: Math.max(0, science ?? s.sciencePerTurn),
+        culturePerTurn: Math.max(0, culture ?? s.culturePerTurn),
         lastUpdated: new Date(),
       };
+      return withCivicEstimates(s, withTechEstimates(s, updates));
     }),
 
   // Policies
@@ -659,4 +1431,21 @@ export const useGameStore = create<GameStore>((set) => ({
     })),
 
   clearRecommendations: () => set({ recommendations: [] }),
+
+  refreshConflicts: () =>
+    set((s) => {
+      const previous = s.recommendations.filter((r) => r.type === "conflict");
+      const conflicts = [...detectPlanConflicts(s), ...detectOwnershipConflicts(s)].map(
+        (c) =>
+          previous.find((p) => isSameConflict(p, c)) ?? {
+            ...c,
+            id: uuidv4(),
+            dismissed: false,
+            createdAt: new Date(),
+          },
+      );
+      return {
+        recommendations: [...s.recommendations.filter((r) => r.type !== "conflict"), ...conflicts],
+      };
+    }),
 }));
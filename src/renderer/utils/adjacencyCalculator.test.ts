@@ -64,4 +64,20 @@ describe("adjacencyCalculator", () => {
     expect(bySource.get("Rainforest")?.totalBonus).toBe(1);
     expect(bySource.get("District")?.totalBonus).toBe(1);
   });
+
+  it("calculateAdjacency counts neighbors across the seam of a wrapping map", () => {
+    const map = { width: 10, height: 6, wrapX: true };
+    const center = { q: 0, r: 0 };
+    // Column 9 is west of column 0 when the map wraps
+    const west = { q: 9, r: 0 };
+    const tiles = new Map<string, Tile>([
+      [coordKey(center), makeTile({ coord: center })],
+      [coordKey(west), makeTile({ coord: west, modifier: "mountain" })],
+    ]);
+
+    expect(calculateAdjacency(center, "campus", tiles, undefined, map).bonus).toBe(1);
+    expect(
+      calculateAdjacency(center, "campus", tiles, undefined, { ...map, wrapX: false }).bonus,
+    ).toBe(0);
+  });
 });
@@ -7,7 +7,7 @@
  * @module renderer/utils/adjacencyCalculator
  */
 
-import { HexCoord, Tile, DistrictType, coordKey } from "../../types/model";
+import { HexCoord, MapBounds, Tile, DistrictType, coordKey } from "../../types/model";
 import { hexNeighbors } from "./hexUtils";
 
 // ============================================================================
@@ -317,10 +317,11 @@ export const getCivModifiers = (civId?: string): CivAdjacencyModifiers => {
  *
  * @param coord - Center tile coordinates
  * @param tiles - Map of all tiles
+ * @param map - Map extent, to wrap across the seam (optional)
  * @returns Array of neighboring tiles (only tiles that exist in the map)
  */
-const getNeighborTiles = (coord: HexCoord, tiles: Map<string, Tile>): Tile[] => {
-  const neighbors = hexNeighbors(coord);
+const getNeighborTiles = (coord: HexCoord, tiles: Map<string, Tile>, map?: MapBounds): Tile[] => {
+  const neighbors = hexNeighbors(coord, map);
   return neighbors.map((n) => tiles.get(coordKey(n))).filter((t): t is Tile => t !== undefined);
 };
 
@@ -597,6 +598,7 @@ const calculateGovernmentPlazaBonus = (neighbors: Tile[]): AdjacencySource | nul
  * @param district - The district type to calculate
  * @param tiles - Map of all tiles in the game
  * @param playerCiv - Optional player civilization for civ-specific bonuses
+ * @param map - Optional map extent, so neighbors wrap across the east–west seam
  * @returns Complete adjacency result with breakdown
  *
  * @example
@@ -613,8 +615,9 @@ export const calculateAdjacency = (
   district: DistrictType,
   tiles: Map<string, Tile>,
   playerCiv?: string,
+  map?: MapBounds,
 ): AdjacencyResult => {
-  const neighbors = getNeighborTiles(coord, tiles);
+  const neighbors = getNeighborTiles(coord, tiles, map);
   const centerTile = tiles.get(coordKey(coord));
   const sources: AdjacencySource[] = [];
 
@@ -736,6 +739,7 @@ export const calculateAdjacency = (
  * @param coord - The hex coordinate to calculate adjacencies for
  * @param tiles - Map of all tiles in the game
  * @param playerCiv - Optional player civilization for civ-specific bonuses
+ * @param map - Optional map extent, so neighbors wrap across the east–west seam
  * @returns Array of adjacency results for all district types, sorted by bonus descending
  *
  * @example
@@ -746,6 +750,7 @@ export const calculateAllAdjacencies = (
   coord: HexCoord,
   tiles: Map<string, Tile>,
   playerCiv?: string,
+  map?: MapBounds,
 ): AdjacencyResult[] => {
   // Districts to calculate adjacency for
   const districtsToCalculate: DistrictType[] = [
@@ -761,7 +766,7 @@ export const calculateAllAdjacencies = (
   ];
 
   const results = districtsToCalculate.map((district) =>
-    calculateAdjacency(coord, district, tiles, playerCiv),
+    calculateAdjacency(coord, district, tiles, playerCiv, map),
   );
 
   // Sort by bonus descending
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, GameSetup, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import {
+  BorderState,
+  getBorderGrowthCost,
+  getTilePurchaseCost,
+  predictBorderGrowth,
+} from "./borderGrowth";
+import { hexesInRange } from "./hexUtils";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "plains",
+    features: [],
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    resource: partial.resource,
+    owningCityId: partial.owningCityId,
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeCity(ownedTiles: City["ownedTiles"]): City {
+  return {
+    id: "c1",
+    name: "Seoul",
+    location: { q: 0, r: 0 },
+    population: 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles,
+    workedTiles: [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+function makeState(city: City, tiles: Tile[], culturePerTurn = 4): BorderState {
+  return {
+    tiles: new Map(tiles.map((t) => [coordKey(t.coord), t])),
+    cities: [city],
+    aiCivs: [],
+    setup: { gameSpeed: "standard" } as GameSetup,
+    culturePerTurn,
+    completedTechs: new Set(),
+    completedCivics: new Set(),
+  };
+}
+
+describe("border costs", () => {
+  it("grows the culture cost with tiles acquired and game speed", () => {
+    expect(getBorderGrowthCost(0, "standard")).toBe(10);
+    expect(getBorderGrowthCost(3, "standard")).toBe(52);
+    expect(getBorderGrowthCost(0, "marathon")).toBe(30);
+  });
+
+  it("prices farther tiles higher", () => {
+    const city = makeCity(hexesInRange({ q: 0, r: 0 }, 1));
+    expect(getTilePurchaseCost(city, { q: 2, r: 0 }, "standard")).toBe(60);
+    expect(getTilePurchaseCost(city, { q: 3, r: 0 }, "standard")).toBe(70);
+  });
+});
+
+describe("predictBorderGrowth", () => {
+  it("ranks resources and rivers next to the borders first", () => {
+    const city = makeCity(hexesInRange({ q: 0, r: 0 }, 1));
+    const tiles = [
+      ...hexesInRange({ q: 0, r: 0 }, 2).map((coord) => makeTile({ coord })),
+      makeTile({
+        coord: { q: 2, r: -1 },
+        resource: { name: "Silk", type: "luxury", revealed: true },
+      }),
+      makeTile({
+        coord: { q: -2, r: 0 },
+        riverEdges: [true, false, false, false, false, false],
+      }),
+      // Not next to the borders
+      makeTile({
+        coord: { q: 3, r: 0 },
+        resource: { name: "Iron", type: "strategic", revealed: true },
+      }),
+    ];
+
+    const prediction = predictBorderGrowth(city, makeState(city, tiles));
+
+    expect(prediction).toMatchObject({ culturePerTurn: 4, cost: 10, turnsToNext: 3 });
+    expect(prediction.candidates).toHaveLength(12);
+    expect(prediction.candidates[0]).toMatchObject({
+      coord: { q: 2, r: -1 },
+      goldCost: 60,
+      reasons: ["2 from center", "Silk (luxury)", "3 yields"],
+    });
+    expect(prediction.candidates[1].coord).toEqual({ q: -2, r: 0 });
+  });
+
+  it("skips tiles owned by other cities", () => {
+    const city = makeCity([{ q: 0, r: 0 }]);
+    const tiles = [
+      makeTile({ coord: { q: 1, r: 0 }, owningCityId: "other" }),
+      makeTile({ coord: { q: -1, r: 0 } }),
+    ];
+
+    const { candidates } = predictBorderGrowth(city, makeState(city, tiles));
+
+    expect(candidates.map((c) => c.coord)).toEqual([{ q: -1, r: 0 }]);
+  });
+
+  it("grows across the seam of a wrapping map", () => {
+    const map = { size: "custom", width: 10, height: 6, wrapX: true } as const;
+    const city = makeCity([{ q: 0, r: 0 }]);
+    const state = makeState(city, [makeTile({ coord: { q: 9, r: 0 } })]);
+
+    expect(predictBorderGrowth(city, state).candidates).toEqual([]);
+    const { candidates } = predictBorderGrowth(city, {
+      ...state,
+      setup: { gameSpeed: "standard", map } as GameSetup,
+    });
+    expect(candidates.map((c) => c.coord)).toEqual([{ q: 9, r: 0 }]);
+    expect(candidates[0].reasons[0]).toBe("1 from center");
+    expect(candidates[0].goldCost).toBe(getTilePurchaseCost(city, { q: 1, r: 0 }, "standard"));
+  });
+});
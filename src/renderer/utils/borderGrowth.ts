@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Border growth predictor and tile purchase costs.
+ *
+ * A city claims a new tile each time its accumulated culture reaches the
+ * border growth cost, `10 + (6n)^1.3` culture (n = tiles acquired since
+ * founding, scaled by game speed). The tile it picks is one of the unowned
+ * tiles next to its borders, within 5 of the center, preferring:
+ *
+ * - Closer tiles
+ * - Luxury, strategic and bonus resources
+ * - Rivers and higher yields
+ *
+ * Per-city culture isn't tracked, so the city's share of the empire's
+ * `culturePerTurn` is used unless a value is given. Purchase costs are an
+ * approximation that grows with distance and tiles already acquired.
+ *
+ * @module renderer/utils/borderGrowth
+ */
+
+import { City, GameSpeed, GameState, HexCoord, MapBounds, coordKey } from "../../types/model";
+import { hexDistance, hexNeighbors } from "./hexUtils";
+import { GAME_SPEED_COST_MULTIPLIERS } from "./researchEstimator";
+import { calculateTileYields, getTotalYield } from "./yieldCalculator";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Game state needed to predict border growth.
+ */
+export type BorderState = Pick<
+  GameState,
+  "tiles" | "cities" | "aiCivs" | "setup" | "culturePerTurn" | "completedTechs" | "completedCivics"
+>;
+
+/**
+ * A tile the city could claim next.
+ */
+export interface BorderCandidate {
+  /** Tile to claim */
+  coord: HexCoord;
+  /** Priority (higher is claimed first) */
+  score: number;
+  /** Why the tile ranks where it does */
+  reasons: string[];
+  /** Estimated gold cost to buy the tile now */
+  goldCost: number;
+}
+
+/**
+ * Border growth outlook for a city.
+ */
+export interface BorderGrowthPrediction {
+  /** Culture per turn used for the estimate */
+  culturePerTurn: number;
+  /** Culture needed for the next tile */
+  cost: number;
+  /** Turns until the next tile (from an empty culture pool), or null without culture */
+  turnsToNext: number | null;
+  /** Claimable tiles, most likely first */
+  candidates: BorderCandidate[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Farthest tile a city can claim or buy. */
+export const MAX_BORDER_RADIUS = 5;
+
+/** Tiles a city owns when founded (center and first ring). */
+const FOUNDING_TILES = 7;
+
+const TILE_BUY_BASE_COST = 50;
+const TILE_BUY_COST_PER_RING = 10;
+const TILE_BUY_COST_PER_ACQUIRED = 5;
+
+const DISTANCE_PENALTY = 3;
+const RESOURCE_PRIORITY = { luxury: 4, strategic: 3, bonus: 2 } as const;
+const RIVER_PRIORITY = 1;
+const YIELD_PRIORITY = 0.5;
+
+const getAcquiredTiles = (city: City): number =>
+  Math.max(0, city.ownedTiles.length - FOUNDING_TILES);
+
+// ============================================================================
+// COSTS
+// ============================================================================
+
+/**
+ * Culture needed for a city's next tile.
+ *
+ * @param tilesAcquired - Tiles acquired since founding
+ * @param gameSpeed - Game speed setting
+ * @returns Culture cost of the next tile
+ *
+ * @example
+ * getBorderGrowthCost(0, "standard"); // 10
+ * getBorderGrowthCost(3, "standard"); // 52
+ */
+export const getBorderGrowthCost = (tilesAcquired: number, gameSpeed: GameSpeed): number =>
+  Math.floor(
+    (10 + Math.pow(6 * Math.max(0, tilesAcquired), 1.3)) * GAME_SPEED_COST_MULTIPLIERS[gameSpeed],
+  );
+
+/**
+ * Estimate the gold cost of buying a tile for a city.
+ *
+ * @param city - Buying city
+ * @param coord - Tile to buy
+ * @param gameSpeed - Game speed setting
+ * @param map - Map extent, for tiles across the seam (optional)
+ * @returns Estimated gold cost
+ *
+ * @example
+ * getTilePurchaseCost(city, { q: 2, r: 0 }, "standard"); // 60 for a new city
+ */
+export const getTilePurchaseCost = (
+  city: City,
+  coord: HexCoord,
+  gameSpeed: GameSpeed,
+  map?: MapBounds,
+): number => {
+  const rings = Math.max(0, hexDistance(city.location, coord, map) - 1);
+  const base =
+    TILE_BUY_BASE_COST +
+    TILE_BUY_COST_PER_RING * rings +
+    TILE_BUY_COST_PER_ACQUIRED * getAcquiredTiles(city);
+  return Math.round(base * GAME_SPEED_COST_MULTIPLIERS[gameSpeed]);
+};
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+/**
+ * Rank the tiles a city is likely to claim next and estimate when.
+ *
+ * @param city - City to predict
+ * @param state - Map, cities, AI civs, setup and culture per turn
+ * @param cityCulture - Culture per turn of this city (default: an even share
+ *   of the empire's culture, at least 1)
+ * @returns Cost, turns to the next tile, and ranked candidates
+ *
+ * @example
+ * const { turnsToNext, candidates } = predictBorderGrowth(city, useGameStore.getState());
+ * console.log(`Next tile in ${turnsToNext} turns:`, candidates[0]?.coord);
+ */
+export const predictBorderGrowth = (
+  city: City,
+  state: BorderState,
+  cityCulture?: number,
+): BorderGrowthPrediction => {
+  const culturePerTurn =
+    cityCulture ?? Math.max(1, state.culturePerTurn / Math.max(1, state.cities.length));
+  const cost = getBorderGrowthCost(getAcquiredTiles(city), state.setup.gameSpeed);
+  const map = state.setup.map;
+
+  const taken = new Set<string>();
+  state.cities.forEach((c) => c.ownedTiles.forEach((t) => taken.add(coordKey(t))));
+  state.tiles.forEach((t, key) => {
+    if (t.owningCityId) taken.add(key);
+  });
+  state.aiCivs.forEach((civ) => civ.claimedTiles.forEach((t) => taken.add(coordKey(t))));
+
+  const frontier = new Map<string, HexCoord>();
+  city.ownedTiles.forEach((owned) =>
+    hexNeighbors(owned, map).forEach((n) => {
+      const key = coordKey(n);
+      if (!taken.has(key) && hexDistance(n, city.location, map) <= MAX_BORDER_RADIUS) {
+        frontier.set(key, n);
+      }
+    }),
+  );
+
+  const candidates: BorderCandidate[] = [];
+  frontier.forEach((coord, key) => {
+    const tile = state.tiles.get(key);
+    if (!tile) return;
+
+    const distance = hexDistance(coord, city.location, map);
+    const reasons = [`${distance} from center`];
+    let score = -distance * DISTANCE_PENALTY;
+
+    if (tile.resource?.revealed) {
+      score += RESOURCE_PRIORITY[tile.resource.type];
+      reasons.push(`${tile.resource.name} (${tile.resource.type})`);
+    }
+    if (tile.riverEdges?.some((e) => e)) {
+      score += RIVER_PRIORITY;
+      reasons.push("River");
+    }
+    const yields = getTotalYield(calculateTileYields(coord, state.tiles, state, map).total);
+    if (yields > 0) {
+      score += yields * YIELD_PRIORITY;
+      reasons.push(`${yields} yields`);
+    }
+
+    candidates.push({
+      coord,
+      score,
+      reasons,
+      goldCost: getTilePurchaseCost(city, coord, state.setup.gameSpeed, map),
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || a.goldCost - b.goldCost);
+
+  return {
+    culturePerTurn,
+    cost,
+    turnsToNext: culturePerTurn > 0 ? Math.ceil(cost / culturePerTurn) : null,
+    candidates,
+  };
+};
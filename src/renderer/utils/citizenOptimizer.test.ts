@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, GameSetup, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import {
+  CitizenState,
+  diffSpecialists,
+  diffWorkedTiles,
+  getSpecialistSlots,
+  optimizeCitizens,
+} from "./citizenOptimizer";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "grassland",
+    modifier: partial.modifier,
+    features: partial.features ?? [],
+    riverEdges: [false, false, false, false, false, false],
+    district: partial.district,
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: partial.isLocked ?? false,
+  };
+}
+
+function makeCity(partial: Partial<City> = {}): City {
+  return {
+    id: "c1",
+    name: "Seoul",
+    location: { q: 0, r: 0 },
+    population: partial.population ?? 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+      { q: 0, r: 1 },
+      { q: -1, r: 1 },
+    ],
+    workedTiles: partial.workedTiles ?? [],
+    districts: partial.districts ?? [],
+    specialty: partial.specialty,
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+// Grassland center (2 food); grassland (2 food) and two desert hills (1 production)
+function makeState(): CitizenState {
+  const tiles = [
+    makeTile({ coord: { q: 0, r: 0 }, district: "city_center" }),
+    makeTile({ coord: { q: 1, r: 0 } }),
+    makeTile({ coord: { q: 0, r: 1 }, terrain: "desert", modifier: "hills" }),
+    makeTile({ coord: { q: -1, r: 1 }, terrain: "desert", modifier: "hills" }),
+  ];
+  return {
+    setup: { playerCiv: "korea" } as GameSetup,
+    tiles: new Map(tiles.map((t) => [coordKey(t.coord), t])),
+    completedTechs: new Set(),
+    completedCivics: new Set(),
+  };
+}
+
+describe("optimizeCitizens", () => {
+  it("weights tiles by the city's specialty", () => {
+    expect(optimizeCitizens(makeCity(), makeState()).workedTiles).toEqual([{ q: 1, r: 0 }]);
+    expect(
+      optimizeCitizens(makeCity({ specialty: "production" }), makeState()).workedTiles,
+    ).toEqual([{ q: 0, r: 1 }]);
+  });
+
+  it("works food tiles when the best picks would starve the city", () => {
+    const assignment = optimizeCitizens(
+      makeCity({ population: 2, specialty: "production" }),
+      makeState(),
+    );
+
+    // Two desert hills would leave 2 food for 4 upkeep
+    expect(assignment.workedTiles).toEqual([
+      { q: 1, r: 0 },
+      { q: -1, r: 1 },
+    ]);
+    expect(assignment.yields).toMatchObject({ food: 2, production: 1 });
+  });
+
+  it("keeps locked worked tiles and skips locked unworked tiles", () => {
+    const locked = makeState();
+    locked.tiles.set("-1,1", { ...locked.tiles.get("-1,1")!, isLocked: true });
+    locked.tiles.set("0,1", { ...locked.tiles.get("0,1")!, isLocked: true });
+
+    const assignment = optimizeCitizens(
+      makeCity({ population: 2, workedTiles: [{ q: -1, r: 1 }] }),
+      locked,
+    );
+
+    expect(assignment.workedTiles).toEqual([
+      { q: -1, r: 1 },
+      { q: 1, r: 0 },
+    ]);
+  });
+
+  it("uses specialist slots when they beat the remaining tiles", () => {
+    const city = makeCity({
+      population: 3,
+      specialty: "science",
+      districts: [
+        { type: "campus", tile: { q: 2, r: 0 }, buildings: ["library"], isPillaged: false },
+      ],
+    });
+
+    const assignment = optimizeCitizens(city, makeState());
+
+    expect(assignment.specialists).toEqual({ campus: 1 });
+    expect(assignment.workedTiles).toHaveLength(2);
+    expect(assignment.yields.science).toBe(2);
+  });
+
+  it("works tiles across the seam of a wrapping map", () => {
+    const map = { size: "custom", width: 10, height: 6, wrapX: true } as const;
+    const state = makeState();
+    state.tiles.set(
+      "9,0",
+      makeTile({ coord: { q: 9, r: 0 }, terrain: "plains", modifier: "hills" }),
+    );
+    const city = makeCity({
+      specialty: "production",
+      ownedTiles: [
+        { q: 0, r: 0 },
+        { q: 9, r: 0 },
+      ],
+    });
+
+    expect(optimizeCitizens(city, state).workedTiles).toEqual([]);
+    const wrapping = { ...state, setup: { playerCiv: "korea", map } as GameSetup };
+    expect(optimizeCitizens(city, wrapping).workedTiles).toEqual([{ q: 9, r: 0 }]);
+  });
+});
+
+describe("getSpecialistSlots", () => {
+  it("gives one slot per building in unpillaged specialty districts", () => {
+    const city = makeCity({
+      districts: [
+        {
+          type: "campus",
+          tile: { q: 1, r: 0 },
+          buildings: ["library", "university"],
+          isPillaged: false,
+        },
+        { type: "holy_site", tile: { q: 0, r: 1 }, buildings: ["shrine"], isPillaged: true },
+        { type: "aqueduct", tile: { q: -1, r: 1 }, buildings: [], isPillaged: false },
+      ],
+    });
+
+    expect(getSpecialistSlots(city)).toEqual({ campus: 2 });
+  });
+});
+
+describe("diffWorkedTiles", () => {
+  it("splits tiles into added, removed and kept", () => {
+    expect(
+      diffWorkedTiles(
+        [
+          { q: 1, r: 0 },
+          { q: 0, r: 1 },
+        ],
+        [
+          { q: 0, r: 1 },
+          { q: -1, r: 1 },
+        ],
+      ),
+    ).toEqual({
+      added: [{ q: -1, r: 1 }],
+      removed: [{ q: 1, r: 0 }],
+      kept: [{ q: 0, r: 1 }],
+    });
+  });
+});
+
+describe("diffSpecialists", () => {
+  it("lists districts whose specialist count changes", () => {
+    expect(diffSpecialists({ campus: 1, holy_site: 1 }, { campus: 2, holy_site: 1 })).toEqual([
+      { district: "campus", from: 1, to: 2 },
+    ]);
+    expect(diffSpecialists(undefined, { theater_square: 1 })).toEqual([
+      { district: "theater_square", from: 0, to: 1 },
+    ]);
+    expect(diffSpecialists({ campus: 1 }, {})).toEqual([{ district: "campus", from: 1, to: 0 }]);
+    expect(diffSpecialists({ campus: 1 }, { campus: 1 })).toEqual([]);
+  });
+});
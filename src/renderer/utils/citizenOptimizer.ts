@@ -0,0 +1,291 @@
+/**
+ * @fileoverview Citizen tile assignment optimizer.
+ *
+ * Picks which owned tiles a city's citizens should work, and which citizens
+ * should be specialists, for a given population:
+ *
+ * - Tiles and specialist slots are scored by their yields, weighted by the
+ *   city's `CitySpecialty` (e.g., production counts triple for `production`)
+ * - The best options are taken greedily, then low-food picks are swapped for
+ *   food until the city is no longer starving (if possible)
+ * - Locked tiles keep their current state: worked locked tiles stay worked,
+ *   unworked locked tiles are never picked
+ * - Each building in a specialty district provides one specialist slot
+ *
+ * @module renderer/utils/citizenOptimizer
+ */
+
+import {
+  City,
+  CitySpecialty,
+  DistrictType,
+  GameState,
+  HexCoord,
+  coordKey,
+} from "../../types/model";
+import { hexDistance } from "./hexUtils";
+import { FOOD_PER_CITIZEN } from "./growthCalculator";
+import { SETTLE_RADIUS } from "./settleScorer";
+import { YIELD_TYPES, Yields, calculateTileYields, emptyYields } from "./yieldCalculator";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Game state needed to assign citizens.
+ */
+export type CitizenState = Pick<
+  GameState,
+  "setup" | "tiles" | "completedTechs" | "completedCivics"
+>;
+
+/**
+ * Citizens' jobs chosen by the optimizer.
+ */
+export interface CitizenAssignment {
+  /** Tiles to work */
+  workedTiles: HexCoord[];
+  /** Specialists by district */
+  specialists: Partial<Record<DistrictType, number>>;
+  /** Yields from the worked tiles and specialists (city center excluded) */
+  yields: Yields;
+}
+
+/**
+ * Difference between two sets of worked tiles.
+ */
+export interface WorkedTilesDiff {
+  /** Tiles worked only in the new assignment */
+  added: HexCoord[];
+  /** Tiles worked only in the current assignment */
+  removed: HexCoord[];
+  /** Tiles worked in both */
+  kept: HexCoord[];
+}
+
+/**
+ * A change in the number of specialists in one district.
+ */
+export interface SpecialistChange {
+  /** District the specialists work in */
+  district: DistrictType;
+  /** Specialists there now */
+  from: number;
+  /** Specialists there in the new assignment */
+  to: number;
+}
+
+/**
+ * A tile or specialist slot a citizen could take.
+ */
+interface CitizenOption {
+  coord?: HexCoord;
+  district?: DistrictType;
+  yields: Yields;
+  score: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Yield weights for a city without a focus. */
+const BASE_WEIGHTS: Yields = {
+  food: 1,
+  production: 1,
+  gold: 0.5,
+  science: 1,
+  culture: 1,
+  faith: 0.5,
+};
+
+const focus = (weights: Partial<Yields>): Yields => ({ ...BASE_WEIGHTS, ...weights });
+
+/**
+ * Yield weights by city specialty.
+ */
+export const SPECIALTY_WEIGHTS: Record<CitySpecialty, Yields> = {
+  science: focus({ science: 3 }),
+  production: focus({ production: 3 }),
+  culture: focus({ culture: 3 }),
+  faith: focus({ faith: 3 }),
+  gold: focus({ gold: 3 }),
+  military: focus({ production: 2.5, gold: 1 }),
+  wonder: focus({ production: 3 }),
+  generalist: BASE_WEIGHTS,
+};
+
+/** Yields of one specialist in each specialty district. */
+const SPECIALIST_YIELDS: Partial<Record<DistrictType, Partial<Yields>>> = {
+  campus: { science: 2 },
+  holy_site: { faith: 2 },
+  theater_square: { culture: 2 },
+  commercial_hub: { gold: 4 },
+  harbor: { food: 1, gold: 2 },
+  industrial_zone: { production: 2 },
+  encampment: { production: 1, gold: 2 },
+};
+
+const addYields = (a: Yields, b: Partial<Yields>): Yields => {
+  const sum = { ...a };
+  YIELD_TYPES.forEach((type) => (sum[type] += b[type] ?? 0));
+  return sum;
+};
+
+const scoreYields = (yields: Yields, weights: Yields): number =>
+  YIELD_TYPES.reduce((sum, type) => sum + yields[type] * weights[type], 0);
+
+// ============================================================================
+// OPTIMIZER
+// ============================================================================
+
+/**
+ * Count the specialist slots in a city's districts.
+ *
+ * Each building in an unpillaged specialty district provides one slot.
+ *
+ * @param city - City to check
+ * @returns Slots by district (districts without slots are omitted)
+ *
+ * @example
+ * getSpecialistSlots(city); // { campus: 2, commercial_hub: 1 }
+ */
+export const getSpecialistSlots = (city: City): Partial<Record<DistrictType, number>> => {
+  const slots: Partial<Record<DistrictType, number>> = {};
+  city.districts.forEach((d) => {
+    if (d.isPillaged || !SPECIALIST_YIELDS[d.type] || d.buildings.length === 0) return;
+    slots[d.type] = (slots[d.type] ?? 0) + d.buildings.length;
+  });
+  return slots;
+};
+
+/**
+ * Choose the tiles and specialists for a city's citizens.
+ *
+ * Only owned tiles within 3 of the city center without a district or wonder
+ * can be worked.
+ *
+ * @param city - City to optimize
+ * @param state - Tiles and research progress (for tile yields)
+ * @param population - Number of citizens to place (default: the city's population)
+ * @returns Worked tiles, specialists and their yields
+ *
+ * @example
+ * const assignment = optimizeCitizens(city, useGameStore.getState());
+ * updateCity(city.id, {
+ *   workedTiles: assignment.workedTiles,
+ *   specialists: assignment.specialists,
+ * });
+ */
+export const optimizeCitizens = (
+  city: City,
+  state: CitizenState,
+  population = city.population,
+): CitizenAssignment => {
+  const weights = SPECIALTY_WEIGHTS[city.specialty ?? "generalist"];
+  const map = state.setup.map;
+  const centerKey = coordKey(city.location);
+  const workedKeys = new Set(city.workedTiles.map(coordKey));
+  const toOption = (yields: Yields, extra: Partial<CitizenOption>): CitizenOption => ({
+    ...extra,
+    yields,
+    score: scoreYields(yields, weights),
+  });
+
+  const forced: CitizenOption[] = [];
+  const options: CitizenOption[] = [];
+  city.ownedTiles.forEach((coord) => {
+    const key = coordKey(coord);
+    const tile = state.tiles.get(key);
+    if (!tile || key === centerKey || tile.district || tile.wonder) return;
+    if (tile.modifier === "mountain" || hexDistance(coord, city.location, map) > SETTLE_RADIUS)
+      return;
+
+    const option = toOption(calculateTileYields(coord, state.tiles, state, map).total, { coord });
+    if (tile.isLocked) {
+      if (workedKeys.has(key)) forced.push(option);
+    } else {
+      options.push(option);
+    }
+  });
+  Object.entries(getSpecialistSlots(city)).forEach(([district, count]) => {
+    const yields = addYields(emptyYields(), SPECIALIST_YIELDS[district as DistrictType]!);
+    for (let i = 0; i < count!; i++) {
+      options.push(toOption(yields, { district: district as DistrictType }));
+    }
+  });
+
+  const citizens = Math.max(0, population);
+  const chosen = forced.slice(0, citizens);
+  options.sort((a, b) => b.score - a.score || b.yields.food - a.yields.food);
+  const open = citizens - chosen.length;
+  const picked = options.slice(0, open);
+  const spare = options.slice(open);
+
+  // Trade low-food picks for food until the city isn't starving
+  const centerFood = calculateTileYields(city.location, state.tiles, state, map).total.food;
+  const foodOf = (list: CitizenOption[]) => list.reduce((sum, o) => sum + o.yields.food, 0);
+  let surplus = centerFood + foodOf(chosen) + foodOf(picked) - citizens * FOOD_PER_CITIZEN;
+  while (surplus < 0 && picked.length > 0 && spare.length > 0) {
+    const out = picked.reduce((min, o) => (o.yields.food < min.yields.food ? o : min));
+    const into = spare.reduce((max, o) => (o.yields.food > max.yields.food ? o : max));
+    const gain = into.yields.food - out.yields.food;
+    if (gain <= 0) break;
+    picked.splice(picked.indexOf(out), 1, into);
+    spare.splice(spare.indexOf(into), 1, out);
+    surplus += gain;
+  }
+
+  const all = [...chosen, ...picked];
+  const specialists: Partial<Record<DistrictType, number>> = {};
+  all.forEach((o) => {
+    if (o.district) specialists[o.district] = (specialists[o.district] ?? 0) + 1;
+  });
+
+  return {
+    workedTiles: all.filter((o) => o.coord).map((o) => o.coord!),
+    specialists,
+    yields: all.reduce((sum, o) => addYields(sum, o.yields), emptyYields()),
+  };
+};
+
+/**
+ * Compare the current worked tiles with a new assignment.
+ *
+ * @param current - Currently worked tiles
+ * @param next - Proposed worked tiles
+ * @returns Added, removed and kept tiles
+ *
+ * @example
+ * const { added, removed } = diffWorkedTiles(city.workedTiles, assignment.workedTiles);
+ */
+export const diffWorkedTiles = (current: HexCoord[], next: HexCoord[]): WorkedTilesDiff => {
+  const currentKeys = new Set(current.map(coordKey));
+  const nextKeys = new Set(next.map(coordKey));
+  return {
+    added: next.filter((c) => !currentKeys.has(coordKey(c))),
+    removed: current.filter((c) => !nextKeys.has(coordKey(c))),
+    kept: next.filter((c) => currentKeys.has(coordKey(c))),
+  };
+};
+
+/**
+ * Compare the current specialists with a new assignment.
+ *
+ * @param current - Current specialists by district
+ * @param next - Proposed specialists by district
+ * @returns One entry per district whose count changes (empty if none do)
+ *
+ * @example
+ * diffSpecialists({ campus: 1 }, { campus: 2 }); // [{ district: "campus", from: 1, to: 2 }]
+ */
+export const diffSpecialists = (
+  current: Partial<Record<DistrictType, number>> = {},
+  next: Partial<Record<DistrictType, number>>,
+): SpecialistChange[] => {
+  const districts = new Set([...Object.keys(current), ...Object.keys(next)] as DistrictType[]);
+  return [...districts]
+    .map((district) => ({ district, from: current[district] ?? 0, to: next[district] ?? 0 }))
+    .filter((c) => c.from !== c.to);
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import type { AICiv, City, GameSetup } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { analyzeCityOverlap, OverlapState } from "./cityOverlap";
+
+function makeCity(partial: Partial<City> & Pick<City, "id" | "name" | "location">): City {
+  return {
+    id: partial.id,
+    name: partial.name,
+    location: partial.location,
+    population: 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [partial.location],
+    workedTiles: [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+function makeState(overrides: Partial<OverlapState> = {}): OverlapState {
+  return {
+    setup: { playerCiv: "korea" } as GameSetup,
+    cities: [],
+    plannedSettlements: [],
+    aiCivs: [],
+    ...overrides,
+  };
+}
+
+describe("cityOverlap", () => {
+  it("reports no problems for an isolated site", () => {
+    const state = makeState({
+      cities: [makeCity({ id: "c1", name: "Seoul", location: { q: 0, r: 0 } })],
+    });
+
+    expect(analyzeCityOverlap({ q: 7, r: 0 }, state)).toEqual({
+      overlappingTiles: [],
+      spacingViolations: [],
+    });
+  });
+
+  it("lists tiles shared with city workable areas, owned tiles and planned sites", () => {
+    const seoul = makeCity({
+      id: "c1",
+      name: "Seoul",
+      location: { q: 0, r: 0 },
+      ownedTiles: [
+        { q: 0, r: 0 },
+        { q: 4, r: 0 },
+      ],
+    });
+    const state = makeState({
+      cities: [seoul],
+      plannedSettlements: [{ id: "s1", location: { q: 12, r: 0 }, status: "planned" }],
+    });
+
+    const { overlappingTiles, spacingViolations } = analyzeCityOverlap({ q: 6, r: 0 }, state);
+
+    expect(spacingViolations).toEqual([]);
+    // Seoul's ring 3 at q=3 reaches the new site's ring 3; q=4 is owned outright
+    const byKey = new Map(overlappingTiles.map((t) => [coordKey(t.coord), t]));
+    expect(byKey.get("4,0")).toEqual({
+      coord: { q: 4, r: 0 },
+      sharedWith: ["Seoul"],
+      isOwned: true,
+    });
+    expect(byKey.get("3,0")).toEqual({
+      coord: { q: 3, r: 0 },
+      sharedWith: ["Seoul"],
+      isOwned: false,
+    });
+    expect(byKey.get("9,0")?.sharedWith).toEqual(["Planned site (12, 0)"]);
+    // Nearest tiles first
+    expect(coordKey(overlappingTiles[0].coord)).toBe("4,0");
+  });
+
+  it("flags city centers closer than the minimum distance, nearest first", () => {
+    const aztec: AICiv = {
+      id: "ai-1",
+      leader: "montezuma",
+      civName: "Aztec",
+      status: "neutral",
+      threatLevel: "low",
+      knownCities: [{ name: "Tenochtitlan", location: { q: 2, r: 3 } }],
+      claimedTiles: [],
+    };
+    const state = makeState({
+      cities: [makeCity({ id: "c1", name: "Seoul", location: { q: 0, r: 0 } })],
+      aiCivs: [aztec],
+    });
+
+    const { spacingViolations } = analyzeCityOverlap({ q: 2, r: 0 }, state);
+
+    expect(spacingViolations.map((v) => [v.name, v.distance])).toEqual([
+      ["Seoul", 2],
+      ["Tenochtitlan (Aztec)", 3],
+    ]);
+    // The site itself is never compared with a city on the same tile
+    expect(analyzeCityOverlap({ q: 0, r: 0 }, state).spacingViolations).toHaveLength(0);
+  });
+  it("measures across the seam of a wrapping map", () => {
+    const map = { size: "custom", width: 10, height: 6, wrapX: true } as const;
+    const state = makeState({
+      setup: { playerCiv: "korea", map } as GameSetup,
+      cities: [makeCity({ id: "c1", name: "Seoul", location: { q: 8, r: 0 } })],
+    });
+
+    const { overlappingTiles, spacingViolations } = analyzeCityOverlap({ q: 1, r: 0 }, state);
+
+    expect(spacingViolations).toEqual([{ name: "Seoul", location: { q: 8, r: 0 }, distance: 3 }]);
+    expect(overlappingTiles.map((t) => coordKey(t.coord))).toContain("9,0");
+    expect(analyzeCityOverlap({ q: 1, r: 0 }, makeState({ cities: state.cities }))).toEqual({
+      overlappingTiles: [],
+      spacingViolations: [],
+    });
+  });
+});
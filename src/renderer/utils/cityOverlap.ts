@@ -0,0 +1,151 @@
+/**
+ * @fileoverview City overlap and spacing checks for new city sites.
+ *
+ * A new city shares tiles with its neighbors when its 3-ring workable area
+ * covers tiles they already own or could work. Civ 6 also requires at least
+ * three tiles between city centers. This module reports both problems for a
+ * proposed city location so they can be shown before the city is planned or
+ * founded.
+ *
+ * @module renderer/utils/cityOverlap
+ */
+
+import { GameState, HexCoord, Tile, coordKey } from "../../types/model";
+import { hexDistance, hexesInRange } from "./hexUtils";
+import { MIN_CITY_DISTANCE, SETTLE_RADIUS } from "./settleScorer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Game state needed to check a city site.
+ */
+export type OverlapState = Pick<GameState, "setup" | "cities" | "plannedSettlements" | "aiCivs">;
+
+/**
+ * A tile the new city would share with other cities.
+ */
+export interface OverlapTile {
+  /** The shared tile */
+  coord: HexCoord;
+  /** Names of the cities and planned sites that share it */
+  sharedWith: string[];
+  /** True if an existing city already owns the tile */
+  isOwned: boolean;
+}
+
+/**
+ * A city center closer than {@link MIN_CITY_DISTANCE} to the new site.
+ */
+export interface SpacingViolation {
+  /** Name of the city or planned site */
+  name: string;
+  /** Its city center */
+  location: HexCoord;
+  /** Distance from the new site */
+  distance: number;
+}
+
+/**
+ * Overlap and spacing problems for a city site.
+ */
+export interface CityOverlapAnalysis {
+  /** Tiles shared with other cities, nearest first */
+  overlappingTiles: OverlapTile[];
+  /** City centers that are too close */
+  spacingViolations: SpacingViolation[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a city can be founded on a tile (land that isn't a mountain
+ * and has no district).
+ *
+ * @param tile - Tile to check
+ * @returns True if a city center can be placed there
+ */
+export const isFoundableTile = (tile: Tile): boolean =>
+  tile.terrain !== "coast" &&
+  tile.terrain !== "ocean" &&
+  tile.modifier !== "mountain" &&
+  !tile.district;
+
+const formatCoord = (coord: HexCoord): string => `(${coord.q}, ${coord.r})`;
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Find the tiles a city at `location` would share with existing cities and
+ * planned sites, and the city centers it would be too close to.
+ *
+ * Existing cities count both their `ownedTiles` and their 3-ring workable
+ * area; unsettled planned sites count their workable area. AI cities only count toward
+ * spacing. A city or planned site at `location` itself is ignored.
+ *
+ * @param location - Proposed city center
+ * @param state - Map extent, cities, planned settlements and AI civs
+ * @returns Overlapping tiles and spacing violations
+ *
+ * @example
+ * const { overlappingTiles, spacingViolations } = analyzeCityOverlap({ q: 4, r: -1 }, state);
+ * if (spacingViolations.length > 0) console.warn("Too close to", spacingViolations[0].name);
+ */
+export const analyzeCityOverlap = (
+  location: HexCoord,
+  state: OverlapState,
+): CityOverlapAnalysis => {
+  const key = coordKey(location);
+  const map = state.setup.map;
+  const area = new Set(hexesInRange(location, SETTLE_RADIUS, map).map(coordKey));
+  const shared = new Map<string, OverlapTile>();
+
+  const addShared = (coord: HexCoord, name: string, isOwned: boolean) => {
+    const tileKey = coordKey(coord);
+    if (!area.has(tileKey)) return;
+    const entry = shared.get(tileKey) ?? { coord, sharedWith: [], isOwned: false };
+    if (!entry.sharedWith.includes(name)) entry.sharedWith.push(name);
+    entry.isOwned = entry.isOwned || isOwned;
+    shared.set(tileKey, entry);
+  };
+
+  const centers: Array<{ name: string; location: HexCoord }> = [];
+
+  for (const city of state.cities) {
+    if (coordKey(city.location) === key) continue;
+    city.ownedTiles.forEach((t) => addShared(t, city.name, true));
+    hexesInRange(city.location, SETTLE_RADIUS, map).forEach((t) => addShared(t, city.name, false));
+    centers.push({ name: city.name, location: city.location });
+  }
+
+  for (const site of state.plannedSettlements) {
+    // Settled sites are cities now
+    if (site.status === "settled" || coordKey(site.location) === key) continue;
+    const name = `Planned site ${formatCoord(site.location)}`;
+    hexesInRange(site.location, SETTLE_RADIUS, map).forEach((t) => addShared(t, name, false));
+    centers.push({ name, location: site.location });
+  }
+
+  for (const civ of state.aiCivs) {
+    for (const city of civ.knownCities) {
+      if (coordKey(city.location) === key) continue;
+      centers.push({ name: `${city.name} (${civ.civName})`, location: city.location });
+    }
+  }
+
+  const spacingViolations = centers
+    .map((c) => ({ ...c, distance: hexDistance(location, c.location, map) }))
+    .filter((c) => c.distance < MIN_CITY_DISTANCE)
+    .sort((a, b) => a.distance - b.distance);
+
+  const overlappingTiles = [...shared.values()].sort(
+    (a, b) => hexDistance(location, a.coord, map) - hexDistance(location, b.coord, map),
+  );
+
+  return { overlappingTiles, spacingViolations };
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { detectPlanConflicts } from "./conflictDetector";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: "grassland",
+    features: [],
+    riverEdges: [false, false, false, false, false, false],
+    owningCityId: partial.owningCityId,
+    isPillaged: false,
+    plannedStates: partial.plannedStates ?? [],
+    isLocked: partial.isLocked ?? false,
+  };
+}
+
+function makeCity(partial: Partial<City> & Pick<City, "id" | "name">): City {
+  return {
+    id: partial.id,
+    name: partial.name,
+    location: { q: 0, r: 0 },
+    population: 3,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [],
+    workedTiles: [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: partial.plannedDistricts ?? [],
+  };
+}
+
+const toMap = (tiles: Tile[]) => new Map(tiles.map((t) => [coordKey(t.coord), t]));
+
+describe("conflictDetector", () => {
+  it("flags locked tiles, double placements, and chops after placement", () => {
+    const tile = makeTile({
+      coord: { q: 1, r: 0 },
+      isLocked: true,
+      plannedStates: [
+        {
+          id: "p1",
+          trigger: { type: "immediate" },
+          action: { type: "place_district", district: "campus" },
+        },
+        { id: "p2", trigger: { type: "manual" }, action: { type: "remove_feature" } },
+        {
+          id: "p3",
+          trigger: { type: "manual" },
+          action: { type: "place_wonder", wonderId: "great_library" },
+        },
+      ],
+    });
+
+    const conflicts = detectPlanConflicts({ tiles: toMap([tile]), cities: [] });
+
+    expect(conflicts.map((c) => c.title)).toEqual([
+      "Plans on a locked tile",
+      "Conflicting placements",
+      "Chop planned after placement",
+    ]);
+    expect(conflicts.every((c) => c.type === "conflict")).toBe(true);
+    expect(conflicts[1].shortReason).toBe("(1, 0) has plans for both Campus and Great Library.");
+  });
+
+  it("flags city plans that disagree with the tile, fall outside borders, or overlap", () => {
+    const coord = { q: 2, r: 0 };
+    const tile = makeTile({
+      coord,
+      owningCityId: "c2",
+      plannedStates: [
+        {
+          id: "p1",
+          trigger: { type: "immediate" },
+          action: { type: "place_district", district: "holy_site" },
+        },
+      ],
+    });
+    const seoul = makeCity({
+      id: "c1",
+      name: "Seoul",
+      ownedTiles: [coord],
+      plannedDistricts: [{ type: "campus", tile: coord, trigger: { type: "immediate" } }],
+    });
+    const busan = makeCity({
+      id: "c2",
+      name: "Busan",
+      ownedTiles: [coord],
+      plannedDistricts: [{ type: "holy_site", tile: coord, trigger: { type: "immediate" } }],
+    });
+
+    const conflicts = detectPlanConflicts({ tiles: toMap([tile]), cities: [seoul, busan] });
+
+    expect(conflicts.map((c) => [c.title, c.relatedCityId])).toEqual([
+      ["District planned outside city", "c1"],
+      ["City and tile plans disagree", "c1"],
+      ["Conflicting placements", undefined],
+    ]);
+    expect(conflicts.every((c) => c.relatedCoord === coord)).toBe(true);
+  });
+});
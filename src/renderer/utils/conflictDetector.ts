@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Detects conflicting tile plans and city district plans.
+ *
+ * Tile timelines and city `plannedDistricts` are edited independently, so they
+ * can drift out of sync or contradict each other. This module scans both and
+ * reports each problem as a "conflict" recommendation:
+ *
+ * - Two different districts or wonders planned on the same tile
+ * - Plans on a locked tile
+ * - A chop/clear planned after a district or wonder on the same tile
+ * - A city's planned district that disagrees with the tile's timeline
+ * - A city planning a district on a tile it doesn't own
+ *
+ * @module renderer/utils/conflictDetector
+ */
+
+import {
+  City,
+  GameState,
+  HexCoord,
+  Recommendation,
+  Tile,
+  TilePlannedState,
+  coordKey,
+} from "../../types/model";
+import { getDistrictDisplayName } from "./adjacencyCalculator";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A conflict recommendation before the store assigns id, dismissed, and createdAt.
+ */
+export type ConflictRecommendation = Omit<Recommendation, "id" | "dismissed" | "createdAt">;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const formatCoord = (coord: HexCoord): string => `(${coord.q}, ${coord.r})`;
+
+const formatLabel = (str: string): string =>
+  str.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+/**
+ * Get the district or wonder a plan places, as a display name.
+ * Returns undefined for actions that don't occupy the tile.
+ */
+const getPlacedName = (action: TilePlannedState["action"]): string | undefined => {
+  switch (action.type) {
+    case "place_district":
+      return getDistrictDisplayName(action.district);
+    case "place_wonder":
+      return formatLabel(action.wonderId);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Check whether a city owns a tile, preferring the tile's recorded owner.
+ */
+const cityOwnsTile = (city: City, coord: HexCoord, tile?: Tile): boolean => {
+  if (tile?.owningCityId) return tile.owningCityId === city.id;
+  const key = coordKey(coord);
+  return city.ownedTiles.some((t) => coordKey(t) === key);
+};
+
+const conflict = (
+  title: string,
+  shortReason: string,
+  relatedCoord: HexCoord,
+  relatedCityId?: string,
+): ConflictRecommendation => ({
+  type: "conflict",
+  confidence: "high",
+  title,
+  shortReason,
+  relatedCoord,
+  ...(relatedCityId && { relatedCityId }),
+});
+
+// ============================================================================
+// TILE CHECKS
+// ============================================================================
+
+/**
+ * Find conflicts within a single tile's timeline.
+ *
+ * @param tile - Tile to check
+ * @returns Conflicts for this tile
+ */
+const detectTileConflicts = (tile: Tile): ConflictRecommendation[] => {
+  const conflicts: ConflictRecommendation[] = [];
+  const where = formatCoord(tile.coord);
+  if (tile.plannedStates.length === 0) return conflicts;
+
+  if (tile.isLocked) {
+    conflicts.push(
+      conflict(
+        "Plans on a locked tile",
+        `${where} is locked but has ${tile.plannedStates.length} planned change(s).`,
+        tile.coord,
+      ),
+    );
+  }
+
+  const placed = [
+    ...new Set(tile.plannedStates.map((p) => getPlacedName(p.action)).filter(Boolean)),
+  ];
+  if (placed.length > 1) {
+    conflicts.push(
+      conflict(
+        "Conflicting placements",
+        `${where} has plans for both ${placed.join(" and ")}.`,
+        tile.coord,
+      ),
+    );
+  }
+
+  const firstPlacement = tile.plannedStates.findIndex((p) => getPlacedName(p.action));
+  if (
+    firstPlacement >= 0 &&
+    tile.plannedStates.slice(firstPlacement + 1).some((p) => p.action.type === "remove_feature")
+  ) {
+    conflicts.push(
+      conflict(
+        "Chop planned after placement",
+        `${where} clears its feature after ${getPlacedName(
+          tile.plannedStates[firstPlacement].action,
+        )} is placed; placing it removes the feature first.`,
+        tile.coord,
+      ),
+    );
+  }
+
+  return conflicts;
+};
+
+// ============================================================================
+// CITY CHECKS
+// ============================================================================
+
+/**
+ * Find conflicts between a city's planned districts and the map.
+ *
+ * @param city - City to check
+ * @param tiles - Map of all tiles
+ * @returns Conflicts for this city
+ */
+const detectCityConflicts = (city: City, tiles: Map<string, Tile>): ConflictRecommendation[] => {
+  const conflicts: ConflictRecommendation[] = [];
+
+  for (const planned of city.plannedDistricts) {
+    const tile = tiles.get(coordKey(planned.tile));
+    const where = formatCoord(planned.tile);
+    const districtName = getDistrictDisplayName(planned.type);
+
+    if (!cityOwnsTile(city, planned.tile, tile)) {
+      conflicts.push(
+        conflict(
+          "District planned outside city",
+          `${city.name} plans a ${districtName} on ${where}, which it doesn't own.`,
+          planned.tile,
+          city.id,
+        ),
+      );
+    }
+
+    const tilePlacements = (tile?.plannedStates ?? [])
+      .map((p) => p.action)
+      .filter((a) => a.type === "place_district" || a.type === "place_wonder");
+    const agrees = tilePlacements.some(
+      (a) => a.type === "place_district" && a.district === planned.type,
+    );
+    if (tilePlacements.length > 0 && !agrees) {
+      conflicts.push(
+        conflict(
+          "City and tile plans disagree",
+          `${city.name} plans a ${districtName} on ${where}, but the tile's timeline plans ${tilePlacements
+            .map(getPlacedName)
+            .join(", ")}.`,
+          planned.tile,
+          city.id,
+        ),
+      );
+    }
+  }
+
+  return conflicts;
+};
+
+/**
+ * Find tiles where more than one city plans a district.
+ *
+ * @param cities - All cities
+ * @returns One conflict per contested tile
+ */
+const detectContestedTiles = (cities: City[]): ConflictRecommendation[] => {
+  const plannersByTile = new Map<string, { coord: HexCoord; labels: string[] }>();
+  for (const city of cities) {
+    for (const planned of city.plannedDistricts) {
+      const key = coordKey(planned.tile);
+      const entry = plannersByTile.get(key) ?? { coord: planned.tile, labels: [] };
+      entry.labels.push(`${city.name}'s ${getDistrictDisplayName(planned.type)}`);
+      plannersByTile.set(key, entry);
+    }
+  }
+
+  const conflicts: ConflictRecommendation[] = [];
+  plannersByTile.forEach(({ coord, labels }) => {
+    if (labels.length > 1) {
+      conflicts.push(
+        conflict(
+          "Conflicting placements",
+          `${formatCoord(coord)} is planned for ${labels.join(" and ")}.`,
+          coord,
+        ),
+      );
+    }
+  });
+  return conflicts;
+};
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Find every plan conflict on the map.
+ *
+ * @param state - Tiles and cities to analyze
+ * @returns Conflict recommendations (empty if all plans are consistent)
+ *
+ * @example
+ * const conflicts = detectPlanConflicts({ tiles, cities });
+ * conflicts.forEach((c) => addRecommendation(c));
+ */
+export const detectPlanConflicts = (
+  state: Pick<GameState, "tiles" | "cities">,
+): ConflictRecommendation[] => {
+  const conflicts: ConflictRecommendation[] = [];
+  state.tiles.forEach((tile) => {
+    conflicts.push(...detectTileConflicts(tile));
+  });
+  for (const city of state.cities) {
+    conflicts.push(...detectCityConflicts(city, state.tiles));
+  }
+  conflicts.push(...detectContestedTiles(state.cities));
+  return conflicts;
+};
+
+/**
+ * Check whether two recommendations describe the same conflict.
+ * Used to keep a conflict's ID and dismissed state across re-analysis.
+ *
+ * @param a - First recommendation
+ * @param b - Second recommendation
+ * @returns True if both describe the same problem
+ */
+export const isSameConflict = (a: ConflictRecommendation, b: ConflictRecommendation): boolean =>
+  a.type === b.type &&
+  a.title === b.title &&
+  a.shortReason === b.shortReason &&
+  a.relatedCityId === b.relatedCityId &&
+  (a.relatedCoord && coordKey(a.relatedCoord)) === (b.relatedCoord && coordKey(b.relatedCoord));
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, HexCoord, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { getDistrictCap, validateDistrictPlacement } from "./districtRules";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "grassland",
+    modifier: partial.modifier,
+    features: partial.features ?? [],
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    district: partial.district,
+    owningCityId: partial.owningCityId,
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeCity(partial: Partial<City> & Pick<City, "id">): City {
+  return {
+    id: partial.id,
+    name: partial.name ?? "Seoul",
+    location: partial.location ?? { q: 0, r: 0 },
+    population: partial.population ?? 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [],
+    workedTiles: [],
+    districts: partial.districts ?? [],
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+const toMap = (tiles: Tile[]) => new Map(tiles.map((t) => [coordKey(t.coord), t]));
+const rulesOf = (
+  district: Parameters<typeof validateDistrictPlacement>[0],
+  coord: HexCoord,
+  tiles: Tile[],
+  cities: City[] = [],
+) => validateDistrictPlacement(district, coord, { tiles: toMap(tiles), cities }).map((v) => v.rule);
+
+describe("districtRules", () => {
+  const center = makeTile({ coord: { q: 0, r: 0 }, district: "city_center" });
+
+  it("enforces terrain limits for land and water districts", () => {
+    const mountain = makeTile({ coord: { q: 1, r: 0 }, modifier: "mountain" });
+    const coast = makeTile({ coord: { q: 2, r: 0 }, terrain: "coast" });
+    const land = makeTile({ coord: { q: 2, r: -1 } });
+
+    expect(rulesOf("campus", mountain.coord, [mountain])).toEqual(["mountain"]);
+    expect(rulesOf("campus", coast.coord, [coast])).toEqual(["land"]);
+    expect(rulesOf("harbor", land.coord, [land])).toEqual(["water"]);
+    expect(rulesOf("harbor", coast.coord, [coast])).toEqual(["water"]); // no adjacent land
+    expect(rulesOf("harbor", coast.coord, [coast, land])).toEqual([]);
+  });
+
+  it("checks aqueduct, dam, canal, encampment, and spaceport requirements", () => {
+    const river = [true, false, false, false, false, false];
+    const nextToCenter = makeTile({ coord: { q: 1, r: 0 }, riverEdges: river });
+    const dry = makeTile({ coord: { q: 1, r: -1 } });
+    const floodplains = makeTile({ coord: { q: 3, r: 0 }, features: ["floodplains"] });
+    const hills = makeTile({ coord: { q: 3, r: -1 }, modifier: "hills" });
+
+    expect(rulesOf("aqueduct", nextToCenter.coord, [center, nextToCenter])).toEqual([]);
+    expect(rulesOf("aqueduct", dry.coord, [center, dry])).toEqual(["aqueduct"]);
+    expect(rulesOf("dam", floodplains.coord, [floodplains])).toEqual(["dam"]);
+    expect(rulesOf("dam", floodplains.coord, [{ ...floodplains, riverEdges: river }])).toEqual([]);
+    expect(rulesOf("canal", dry.coord, [center, dry])).toEqual(["canal"]);
+    expect(rulesOf("encampment", dry.coord, [center, dry])).toEqual(["encampment"]);
+    expect(rulesOf("spaceport", hills.coord, [hills])).toEqual(["spaceport"]);
+  });
+
+  it("enforces one per city, population caps, and unique districts", () => {
+    const target = makeTile({ coord: { q: 2, r: 0 }, owningCityId: "c1" });
+    const city = makeCity({
+      id: "c1",
+      population: 7,
+      districts: [
+        { type: "campus", tile: { q: 1, r: 0 }, buildings: [], isPillaged: false },
+        { type: "government_plaza", tile: { q: 1, r: -1 }, buildings: [], isPillaged: false },
+      ],
+    });
+
+    expect(getDistrictCap(1)).toBe(1);
+    expect(getDistrictCap(4)).toBe(2);
+    expect(rulesOf("campus", target.coord, [target], [city])).toEqual(["one_per_city"]);
+    expect(rulesOf("holy_site", target.coord, [target], [city])).toEqual([]);
+    expect(rulesOf("holy_site", target.coord, [target], [{ ...city, population: 4 }])).toEqual([
+      "population_cap",
+    ]);
+    expect(rulesOf("government_plaza", target.coord, [target], [city])).toEqual(["unique"]);
+  });
+
+  it("counts Government Plaza and Diplomatic Quarter toward the population cap", () => {
+    const target = makeTile({ coord: { q: 2, r: 0 }, owningCityId: "c1" });
+    const city = makeCity({
+      id: "c1",
+      population: 1,
+      districts: [
+        { type: "diplomatic_quarter", tile: { q: 1, r: 0 }, buildings: [], isPillaged: false },
+      ],
+    });
+
+    expect(rulesOf("campus", target.coord, [target], [city])).toEqual(["population_cap"]);
+    expect(rulesOf("government_plaza", target.coord, [target], [city])).toEqual(["population_cap"]);
+    expect(
+      rulesOf("government_plaza", target.coord, [target], [{ ...city, districts: [] }]),
+    ).toEqual([]);
+  });
+});
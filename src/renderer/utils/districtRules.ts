@@ -0,0 +1,331 @@
+/**
+ * @fileoverview District placement rules for Civilization 6.
+ *
+ * This module checks whether a district may be placed on a tile:
+ * terrain limits (water districts on coast, nothing on mountains), special
+ * placement requirements (aqueduct, dam, canal, encampment, spaceport),
+ * per-city limits (one of each specialty district, population-based caps),
+ * and empire-wide unique districts.
+ *
+ * Rules are checked against the map as recorded; unknown neighbors are
+ * treated as not satisfying a requirement.
+ *
+ * @module renderer/utils/districtRules
+ */
+
+import { City, DistrictType, HexCoord, MapBounds, Tile, coordKey } from "../../types/model";
+import { getDistrictDisplayName, isWaterDistrict } from "./adjacencyCalculator";
+import { hexNeighbors } from "./hexUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Identifies which placement rule was broken.
+ */
+export type DistrictRule =
+  | "mountain"
+  | "water"
+  | "land"
+  | "aqueduct"
+  | "dam"
+  | "canal"
+  | "encampment"
+  | "spaceport"
+  | "one_per_city"
+  | "population_cap"
+  | "unique";
+
+/**
+ * A broken placement rule.
+ */
+export interface DistrictRuleViolation {
+  /** The rule that was broken */
+  rule: DistrictRule;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Map and city data needed to check placement rules.
+ */
+export interface PlacementContext {
+  /** Map of all tiles */
+  tiles: Map<string, Tile>;
+  /** All cities */
+  cities: City[];
+  /** Map extent, so adjacency wraps across the seam (optional) */
+  map?: MapBounds;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Specialty districts: limited to one per city and counted toward the
+ * population-based district cap.
+ */
+const SPECIALTY_DISTRICTS: DistrictType[] = [
+  "campus",
+  "holy_site",
+  "theater_square",
+  "commercial_hub",
+  "harbor",
+  "industrial_zone",
+  "encampment",
+  "entertainment_complex",
+  "water_park",
+  "aerodrome",
+  "preserve",
+];
+
+/**
+ * Districts limited to one per civilization. These are specialty districts
+ * too, so they count toward the population-based district cap.
+ */
+const UNIQUE_DISTRICTS: DistrictType[] = ["government_plaza", "diplomatic_quarter"];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const isWaterTile = (tile?: Tile): boolean =>
+  tile?.terrain === "coast" || tile?.terrain === "ocean";
+
+const isLandTile = (tile?: Tile): boolean => !!tile && !isWaterTile(tile);
+
+const hasRiver = (tile: Tile): boolean => tile.riverEdges?.some((e) => e) ?? false;
+
+/**
+ * Check whether a specialty district counts against a city's district cap.
+ *
+ * @param district - District type
+ * @returns True for specialty districts, including Government Plaza and
+ *   Diplomatic Quarter
+ */
+export const isSpecialtyDistrict = (district: DistrictType): boolean =>
+  SPECIALTY_DISTRICTS.includes(district) || UNIQUE_DISTRICTS.includes(district);
+
+/**
+ * Get the maximum number of specialty districts a city can have.
+ * One at population 1, plus one more for every 3 population after that.
+ *
+ * @param population - City population
+ * @returns Specialty district cap
+ *
+ * @example
+ * getDistrictCap(4); // 2
+ */
+export const getDistrictCap = (population: number): number =>
+  1 + Math.floor(Math.max(0, population - 1) / 3);
+
+/**
+ * Find the city a tile belongs to: the tile's recorded owner, or else the
+ * first city with the tile in its borders.
+ *
+ * @param coord - Tile coordinate
+ * @param context - Tiles and cities
+ * @returns The owning city, if any
+ */
+export const findOwningCity = (coord: HexCoord, context: PlacementContext): City | undefined => {
+  const key = coordKey(coord);
+  const owningCityId = context.tiles.get(key)?.owningCityId;
+  if (owningCityId) return context.cities.find((c) => c.id === owningCityId);
+  return context.cities.find((c) => c.ownedTiles.some((t) => coordKey(t) === key));
+};
+
+const isCityCenter = (coord: HexCoord, context: PlacementContext): boolean => {
+  const key = coordKey(coord);
+  return (
+    context.tiles.get(key)?.district === "city_center" ||
+    context.cities.some((c) => coordKey(c.location) === key)
+  );
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check terrain and neighbor requirements for a district on a tile.
+ *
+ * @param district - District to place
+ * @param coord - Target tile
+ * @param context - Tiles and cities
+ * @returns Broken terrain rules
+ */
+const checkTerrainRules = (
+  district: DistrictType,
+  coord: HexCoord,
+  context: PlacementContext,
+): DistrictRuleViolation[] => {
+  const violations: DistrictRuleViolation[] = [];
+  const tile = context.tiles.get(coordKey(coord));
+  if (!tile) return violations;
+
+  const name = getDistrictDisplayName(district);
+  const neighborCoords = hexNeighbors(coord, context.map);
+  const neighbors = neighborCoords
+    .map((c) => context.tiles.get(coordKey(c)))
+    .filter((t): t is Tile => !!t);
+  const nextToCityCenter = neighborCoords.some((c) => isCityCenter(c, context));
+
+  if (tile.modifier === "mountain") {
+    violations.push({ rule: "mountain", message: "Districts cannot be placed on mountains." });
+  }
+
+  if (isWaterDistrict(district)) {
+    if (tile.terrain !== "coast") {
+      violations.push({ rule: "water", message: `${name} must be placed on a coast tile.` });
+    } else if (!neighbors.some(isLandTile)) {
+      violations.push({ rule: "water", message: `${name} must be adjacent to land.` });
+    }
+  } else if (isWaterTile(tile)) {
+    violations.push({ rule: "land", message: `${name} must be placed on land.` });
+  }
+
+  switch (district) {
+    case "aqueduct": {
+      if (!nextToCityCenter) {
+        violations.push({
+          rule: "aqueduct",
+          message: "Aqueduct must be adjacent to the city center.",
+        });
+      }
+      const freshWater =
+        hasRiver(tile) ||
+        neighbors.some((n) => n.modifier === "mountain" || n.features.includes("oasis"));
+      if (!freshWater) {
+        violations.push({
+          rule: "aqueduct",
+          message: "Aqueduct must be next to fresh water (river, mountain, or oasis).",
+        });
+      }
+      break;
+    }
+    case "dam":
+      if (!tile.features.includes("floodplains") || !hasRiver(tile)) {
+        violations.push({ rule: "dam", message: "Dam must be placed on river floodplains." });
+      }
+      break;
+    case "canal": {
+      const waterNeighbors = neighbors.filter(isWaterTile).length;
+      if (waterNeighbors < 2 && !(waterNeighbors === 1 && nextToCityCenter)) {
+        violations.push({
+          rule: "canal",
+          message: "Canal must connect two bodies of water, or water and the city center.",
+        });
+      }
+      break;
+    }
+    case "encampment":
+      if (nextToCityCenter) {
+        violations.push({
+          rule: "encampment",
+          message: "Encampment cannot be adjacent to the city center.",
+        });
+      }
+      break;
+    case "spaceport":
+      if (tile.modifier === "hills") {
+        violations.push({ rule: "spaceport", message: "Spaceport must be placed on flat land." });
+      }
+      break;
+    default:
+      break;
+  }
+
+  return violations;
+};
+
+/**
+ * Check per-city and empire-wide district limits.
+ *
+ * Districts already on the target tile are ignored so that re-validating an
+ * existing placement doesn't count it twice.
+ *
+ * @param district - District to place
+ * @param coord - Target tile
+ * @param context - Tiles and cities
+ * @param city - City the district belongs to, if known
+ * @returns Broken limit rules
+ */
+const checkLimitRules = (
+  district: DistrictType,
+  coord: HexCoord,
+  context: PlacementContext,
+  city?: City,
+): DistrictRuleViolation[] => {
+  const violations: DistrictRuleViolation[] = [];
+  const key = coordKey(coord);
+  const name = getDistrictDisplayName(district);
+
+  if (UNIQUE_DISTRICTS.includes(district)) {
+    const elsewhere =
+      context.cities.some((c) =>
+        c.districts.some((d) => d.type === district && coordKey(d.tile) !== key),
+      ) ||
+      [...context.tiles.values()].some((t) => t.district === district && coordKey(t.coord) !== key);
+    if (elsewhere) {
+      violations.push({
+        rule: "unique",
+        message: `Only one ${name} can be built per civilization.`,
+      });
+    }
+  }
+
+  if (city && isSpecialtyDistrict(district)) {
+    const others = city.districts.filter((d) => coordKey(d.tile) !== key);
+    // One-per-civ districts are already covered by the unique rule
+    if (!UNIQUE_DISTRICTS.includes(district) && others.some((d) => d.type === district)) {
+      violations.push({
+        rule: "one_per_city",
+        message: `${city.name} already has a ${name}.`,
+      });
+    }
+
+    const specialtyCount = others.filter((d) => isSpecialtyDistrict(d.type)).length;
+    const cap = getDistrictCap(city.population);
+    if (specialtyCount >= cap) {
+      violations.push({
+        rule: "population_cap",
+        message: `${city.name} (pop ${city.population}) can only have ${cap} specialty district(s).`,
+      });
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * Check every placement rule for a district on a tile.
+ *
+ * @param district - District to place
+ * @param coord - Target tile
+ * @param context - Tiles and cities
+ * @param cityId - City the district belongs to (defaults to the tile's owning city)
+ * @returns Broken rules (empty if the placement is valid)
+ *
+ * @example
+ * const violations = validateDistrictPlacement("harbor", coord, { tiles, cities });
+ * if (violations.length > 0) console.warn(violations.map((v) => v.message));
+ */
+export const validateDistrictPlacement = (
+  district: DistrictType,
+  coord: HexCoord,
+  context: PlacementContext,
+  cityId?: string,
+): DistrictRuleViolation[] => {
+  if (district === "city_center") return [];
+
+  const city = cityId
+    ? context.cities.find((c) => c.id === cityId)
+    : findOwningCity(coord, context);
+
+  return [
+    ...checkTerrainRules(district, coord, context),
+    ...checkLimitRules(district, coord, context, city),
+  ];
+};
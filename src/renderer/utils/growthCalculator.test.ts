@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, GameSetup, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import {
+  calculateGrowth,
+  estimatePopulationTurn,
+  getAmenityGrowthModifier,
+  getGrowthThreshold,
+  getHousingGrowthMultiplier,
+  getNextDistrictCapPopulation,
+  GrowthState,
+} from "./growthCalculator";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "grassland",
+    features: partial.features ?? [],
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    district: partial.district,
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeCity(partial: Partial<City> = {}): City {
+  return {
+    id: "c1",
+    name: "Seoul",
+    location: { q: 0, r: 0 },
+    population: partial.population ?? 2,
+    housingCap: 4,
+    amenities: partial.amenities ?? 0,
+    ownedTiles: [],
+    workedTiles: partial.workedTiles ?? [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+const setup = { playerCiv: "korea", gameSpeed: "standard" } as GameSetup;
+
+// River city center (5 housing) with three grassland neighbors (2 food each)
+function makeState(overrides: Partial<GrowthState> = {}): GrowthState {
+  const tiles = [
+    makeTile({
+      coord: { q: 0, r: 0 },
+      district: "city_center",
+      riverEdges: [true, false, false, false, false, false],
+    }),
+    makeTile({ coord: { q: 1, r: 0 } }),
+    makeTile({ coord: { q: 0, r: 1 } }),
+    makeTile({ coord: { q: -1, r: 1 } }),
+  ];
+  return {
+    tiles: new Map(tiles.map((t) => [coordKey(t.coord), t])),
+    setup,
+    currentTurn: 10,
+    completedTechs: new Set(),
+    completedCivics: new Set(),
+    ...overrides,
+  };
+}
+
+describe("growth rules", () => {
+  it("scales growth thresholds with game speed", () => {
+    expect(getGrowthThreshold(1, "standard")).toBe(15);
+    expect(getGrowthThreshold(3, "standard")).toBe(33);
+    expect(getGrowthThreshold(1, "marathon")).toBe(45);
+  });
+
+  it("slows growth near the housing cap", () => {
+    expect(getHousingGrowthMultiplier(3, 5)).toBe(1);
+    expect(getHousingGrowthMultiplier(4, 5)).toBe(0.5);
+    expect(getHousingGrowthMultiplier(5, 5)).toBe(0.25);
+    expect(getHousingGrowthMultiplier(10, 5)).toBe(0);
+  });
+
+  it("maps amenities to growth modifiers", () => {
+    expect(getAmenityGrowthModifier(6)).toBe(0.2);
+    expect(getAmenityGrowthModifier(1)).toBe(0);
+    expect(getAmenityGrowthModifier(-1)).toBe(-0.15);
+    expect(getAmenityGrowthModifier(-7)).toBe(-1);
+  });
+
+  it("finds the population of the next district slot", () => {
+    expect(getNextDistrictCapPopulation(1)).toBe(4);
+    expect(getNextDistrictCapPopulation(4)).toBe(7);
+    expect(getNextDistrictCapPopulation(6)).toBe(7);
+  });
+});
+
+describe("calculateGrowth", () => {
+  it("subtracts citizen upkeep from worked tile food", () => {
+    const city = makeCity({
+      population: 2,
+      workedTiles: [
+        { q: 1, r: 0 },
+        { q: 0, r: 1 },
+      ],
+    });
+
+    const growth = calculateGrowth(city, makeState());
+
+    // Center 2 + two grassland 2 each
+    expect(growth).toMatchObject({ food: 6, upkeep: 4, surplus: 2, housing: 5 });
+    expect(growth.growthPerTurn).toBe(2);
+    expect(growth.threshold).toBe(24);
+    expect(growth.turnsToGrow).toBe(12);
+  });
+
+  it("applies amenity penalties and reports starving cities", () => {
+    const worked = [
+      { q: 1, r: 0 },
+      { q: 0, r: 1 },
+    ];
+    expect(
+      calculateGrowth(makeCity({ workedTiles: worked, amenities: -3 }), makeState()).growthPerTurn,
+    ).toBeCloseTo(1.4);
+
+    const starving = calculateGrowth(makeCity({ population: 4, workedTiles: worked }), makeState());
+    expect(starving.surplus).toBe(-2);
+    expect(starving.turnsToGrow).toBeNull();
+  });
+});
+
+describe("estimatePopulationTurn", () => {
+  it("adds up turns for each citizen and re-checks housing", () => {
+    const city = makeCity({
+      population: 2,
+      workedTiles: [
+        { q: 1, r: 0 },
+        { q: 0, r: 1 },
+      ],
+    });
+
+    expect(estimatePopulationTurn(city, 2, makeState())).toBe(10);
+    // 2 -> 3: 24 food at 2/turn; 3 -> 4: 33 food at 2/turn
+    expect(estimatePopulationTurn(city, 4, makeState())).toBe(10 + 12 + 17);
+    // 4 -> 5 with 1 housing left: 44 food at 1/turn
+    expect(estimatePopulationTurn(city, 5, makeState())).toBe(10 + 12 + 17 + 44);
+  });
+
+  it("returns null when the city stops growing", () => {
+    expect(estimatePopulationTurn(makeCity({ population: 4 }), 6, makeState())).toBeNull();
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Population growth and food surplus projector.
+ *
+ * Projects how fast a city grows:
+ *
+ * - Food from the city center and `workedTiles` (tile yields)
+ * - Minus 2 food upkeep per citizen
+ * - Positive surplus is modified by amenities, then by housing (halved with
+ *   1 housing left, cut by 75% at the cap, stopped 5 over the cap)
+ * - Food needed for the next citizen: `15 + 8n + n^1.5` (n = population - 1),
+ *   scaled by game speed
+ *
+ * The city's stored food isn't tracked, so projections start from an empty
+ * food box. When projecting several citizens ahead, each new citizen is
+ * assumed to work a tile that covers their own upkeep.
+ *
+ * @module renderer/utils/growthCalculator
+ */
+
+import { City, GameSpeed, GameState, coordKey } from "../../types/model";
+import { getDistrictCap } from "./districtRules";
+import { calculateHousing } from "./housingCalculator";
+import { GAME_SPEED_COST_MULTIPLIERS } from "./researchEstimator";
+import { calculateTileYields } from "./yieldCalculator";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Game state needed to project growth.
+ */
+export type GrowthState = Pick<
+  GameState,
+  "tiles" | "setup" | "currentTurn" | "completedTechs" | "completedCivics"
+>;
+
+/**
+ * Growth of a city at its current population.
+ *
+ * @example
+ * const growth: GrowthProjection = {
+ *   food: 9,
+ *   upkeep: 6,
+ *   surplus: 3,
+ *   housing: 5,
+ *   amenityModifier: 0,
+ *   housingMultiplier: 1,
+ *   growthPerTurn: 3,
+ *   threshold: 33,
+ *   turnsToGrow: 11
+ * };
+ */
+export interface GrowthProjection {
+  /** Food from the city center and worked tiles */
+  food: number;
+  /** Food eaten by citizens (2 per citizen) */
+  upkeep: number;
+  /** Food minus upkeep (negative means starving) */
+  surplus: number;
+  /** Derived housing used for the housing penalty */
+  housing: number;
+  /** Growth modifier from amenities (e.g., -0.15) */
+  amenityModifier: number;
+  /** Growth multiplier from housing (1, 0.5, 0.25 or 0) */
+  housingMultiplier: number;
+  /** Food added to the food box each turn after penalties */
+  growthPerTurn: number;
+  /** Food needed for the next citizen at this game speed */
+  threshold: number;
+  /** Turns until the next citizen, or null if the city isn't growing */
+  turnsToGrow: number | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Food eaten by each citizen per turn. */
+export const FOOD_PER_CITIZEN = 2;
+
+/**
+ * Growth modifiers by net amenities, checked top to bottom
+ * (Ecstatic, Happy, Content, Displeased, Unhappy, Unrest/Revolt).
+ */
+const AMENITY_GROWTH_MODIFIERS: Array<{ min: number; modifier: number }> = [
+  { min: 5, modifier: 0.2 },
+  { min: 3, modifier: 0.1 },
+  { min: 0, modifier: 0 },
+  { min: -2, modifier: -0.15 },
+  { min: -4, modifier: -0.3 },
+  { min: -Infinity, modifier: -1 },
+];
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Food needed to grow from `population` to `population + 1`.
+ *
+ * Growth thresholds scale with game speed like research costs.
+ *
+ * @param population - Current population
+ * @param gameSpeed - Game speed setting
+ * @returns Food needed for the next citizen
+ *
+ * @example
+ * getGrowthThreshold(1, "standard"); // 15
+ * getGrowthThreshold(3, "standard"); // 33
+ */
+export const getGrowthThreshold = (population: number, gameSpeed: GameSpeed): number => {
+  const n = Math.max(0, population - 1);
+  return Math.floor((15 + 8 * n + Math.pow(n, 1.5)) * GAME_SPEED_COST_MULTIPLIERS[gameSpeed]);
+};
+
+/**
+ * Growth multiplier from housing.
+ *
+ * @param population - Current population
+ * @param housing - Housing capacity
+ * @returns 1 with 2+ housing left, 0.5 with 1 left, 0.25 at or over the cap, 0 at 5 over
+ */
+export const getHousingGrowthMultiplier = (population: number, housing: number): number => {
+  const free = housing - population;
+  if (free >= 2) return 1;
+  if (free >= 1) return 0.5;
+  if (free > -5) return 0.25;
+  return 0;
+};
+
+/**
+ * Growth modifier from net amenities.
+ *
+ * @param amenities - Net amenities of the city
+ * @returns Modifier added to 100% growth (e.g., 0.1 for Happy, -1 for Unrest)
+ */
+export const getAmenityGrowthModifier = (amenities: number): number =>
+  AMENITY_GROWTH_MODIFIERS.find((m) => amenities >= m.min)!.modifier;
+
+const getGrowthPerTurn = (surplus: number, amenityModifier: number, housingMultiplier: number) =>
+  surplus > 0 ? Math.max(0, surplus * (1 + amenityModifier) * housingMultiplier) : 0;
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Calculate a city's food surplus and turns to its next citizen.
+ *
+ * @param city - City to project
+ * @param state - Tiles, setup and research progress
+ * @returns Growth at the city's current population
+ *
+ * @example
+ * const { growthPerTurn, turnsToGrow } = calculateGrowth(city, useGameStore.getState());
+ */
+export const calculateGrowth = (city: City, state: GrowthState): GrowthProjection => {
+  const workedKeys = new Set([coordKey(city.location), ...city.workedTiles.map(coordKey)]);
+  const food = [...workedKeys].reduce((sum, key) => {
+    const tile = state.tiles.get(key);
+    return tile
+      ? sum + calculateTileYields(tile.coord, state.tiles, state, state.setup.map).total.food
+      : sum;
+  }, 0);
+  const upkeep = city.population * FOOD_PER_CITIZEN;
+  const surplus = food - upkeep;
+
+  const housing = calculateHousing(city, state.tiles, state.setup.playerCiv, state.setup.map).total;
+  const amenityModifier = getAmenityGrowthModifier(city.amenities);
+  const housingMultiplier = getHousingGrowthMultiplier(city.population, housing);
+  const growthPerTurn = getGrowthPerTurn(surplus, amenityModifier, housingMultiplier);
+  const threshold = getGrowthThreshold(city.population, state.setup.gameSpeed);
+
+  return {
+    food,
+    upkeep,
+    surplus,
+    housing,
+    amenityModifier,
+    housingMultiplier,
+    growthPerTurn,
+    threshold,
+    turnsToGrow: growthPerTurn > 0 ? Math.ceil(threshold / growthPerTurn) : null,
+  };
+};
+
+/**
+ * Estimate the turn a city reaches a population.
+ *
+ * The current surplus is kept for every later citizen, but the housing
+ * penalty is re-checked at each population.
+ *
+ * @param city - City to project
+ * @param population - Population to reach
+ * @param state - Tiles, setup, current turn and research progress
+ * @returns Estimated turn, the current turn if already reached, or null if the
+ *   city stops growing first
+ *
+ * @example
+ * estimatePopulationTurn(city, 7, state); // 64
+ */
+export const estimatePopulationTurn = (
+  city: City,
+  population: number,
+  state: GrowthState,
+): number | null => {
+  if (city.population >= population) return state.currentTurn;
+
+  const { surplus, housing, amenityModifier } = calculateGrowth(city, state);
+  let turns = 0;
+  for (let pop = city.population; pop < population; pop++) {
+    const perTurn = getGrowthPerTurn(
+      surplus,
+      amenityModifier,
+      getHousingGrowthMultiplier(pop, housing),
+    );
+    if (perTurn <= 0) return null;
+    turns += Math.ceil(getGrowthThreshold(pop, state.setup.gameSpeed) / perTurn);
+  }
+  return state.currentTurn + turns;
+};
+
+/**
+ * Find the population at which a city can build one more specialty district.
+ *
+ * @param population - Current population
+ * @returns Smallest larger population with a higher district cap
+ *
+ * @example
+ * getNextDistrictCapPopulation(2); // 4
+ */
+export const getNextDistrictCapPopulation = (population: number): number => {
+  const cap = getDistrictCap(population);
+  let pop = Math.max(1, population + 1);
+  while (getDistrictCap(pop) <= cap) pop++;
+  return pop;
+};
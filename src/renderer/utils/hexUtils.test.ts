@@ -1,6 +1,23 @@
 import { describe, expect, it } from "vitest";
 
-import { hexDistance, hexNeighbors, hexRound } from "./hexUtils";
+import { coordKey } from "../../types/model";
+
+import {
+  axialToOffset,
+  formatOffset,
+  hexDistance,
+  hexNeighbors,
+  hexRound,
+  hexesInRange,
+  isOnMap,
+  offsetToAxial,
+  parseOffset,
+  wrapCoord,
+} from "./hexUtils";
+
+// In-game columns 0–9 and rows 0–5
+const flat = { width: 10, height: 6, wrapX: false };
+const wrapping = { ...flat, wrapX: true };
 
 describe("hexUtils", () => {
   it("hexRound rounds to the nearest hex", () => {
@@ -23,4 +40,61 @@ describe("hexUtils", () => {
     expect(hexDistance({ q: 0, r: 0 }, { q: 2, r: -1 })).toBe(2);
     expect(hexDistance({ q: 0, r: 0 }, { q: 3, r: 0 })).toBe(3);
   });
+
+  it("converts between axial and the game's odd-row offset coordinates", () => {
+    expect(axialToOffset({ q: 0, r: 0 })).toEqual({ col: 0, row: 0 });
+    // Odd rows are shifted right, so the same column sits at a different q
+    expect(axialToOffset({ q: 2, r: 3 })).toEqual({ col: 3, row: 3 });
+    expect(axialToOffset({ q: 2, r: 4 })).toEqual({ col: 4, row: 4 });
+    expect(axialToOffset({ q: 1, r: -1 })).toEqual({ col: 0, row: -1 });
+    expect(formatOffset({ q: 2, r: 3 })).toBe("3, 3");
+
+    for (let q = -4; q <= 4; q++) {
+      for (let r = -4; r <= 4; r++) {
+        expect(offsetToAxial(axialToOffset({ q, r }))).toEqual({ q, r });
+      }
+    }
+  });
+
+  it("parseOffset reads typed coordinates", () => {
+    expect(parseOffset("12, 7")).toEqual({ col: 12, row: 7 });
+    expect(parseOffset(" 12 7 ")).toEqual({ col: 12, row: 7 });
+    expect(parseOffset("(12,7)")).toEqual({ col: 12, row: 7 });
+    expect(parseOffset("12")).toBeNull();
+    expect(parseOffset("a, b")).toBeNull();
+  });
+
+  it("isOnMap checks the in-game rectangle", () => {
+    expect(isOnMap({ q: 0, r: 0 }, flat)).toBe(true);
+    expect(isOnMap(offsetToAxial({ col: 9, row: 5 }), flat)).toBe(true);
+    expect(isOnMap(offsetToAxial({ col: 10, row: 0 }), flat)).toBe(false);
+    expect(isOnMap(offsetToAxial({ col: 0, row: 6 }), flat)).toBe(false);
+    expect(isOnMap({ q: -1, r: 0 }, flat)).toBe(false);
+  });
+
+  it("wrapCoord moves hexes across the seam on wrapping maps only", () => {
+    expect(wrapCoord(offsetToAxial({ col: -1, row: 3 }), wrapping)).toEqual(
+      offsetToAxial({ col: 9, row: 3 }),
+    );
+    expect(wrapCoord(offsetToAxial({ col: 12, row: 2 }), wrapping)).toEqual(
+      offsetToAxial({ col: 2, row: 2 }),
+    );
+    expect(wrapCoord({ q: -1, r: 0 }, flat)).toEqual({ q: -1, r: 0 });
+    expect(wrapCoord({ q: -1, r: 0 })).toEqual({ q: -1, r: 0 });
+  });
+
+  it("neighbors, distance and ranges cross the seam on wrapping maps", () => {
+    const west = offsetToAxial({ col: 0, row: 2 });
+    const east = offsetToAxial({ col: 9, row: 2 });
+
+    expect(hexNeighbors(west, wrapping)).toContainEqual(east);
+    expect(hexNeighbors(west, flat)).not.toContainEqual(east);
+    expect(hexDistance(west, east, wrapping)).toBe(1);
+    expect(hexDistance(west, east, flat)).toBe(9);
+    expect(hexesInRange(west, 1, wrapping)).toContainEqual(east);
+
+    // A range wider than the map doesn't list hexes twice
+    const all = hexesInRange(west, 6, wrapping).map(coordKey);
+    expect(new Set(all).size).toBe(all.length);
+  });
 });
@@ -9,7 +9,7 @@
  * @see https://www.redblobgames.com/grids/hexagons/ - Reference implementation guide
  */
 
-import { HexCoord } from "../../types/model";
+import { HexCoord, MapBounds, coordKey } from "../../types/model";
 
 // ============================================================================
 // CONSTANTS
@@ -131,6 +131,125 @@ export const hexRound = (coord: { q: number; r: number }): HexCoord => {
   return { q: rq, r: rr };
 };
 
+// ============================================================================
+// GAME COORDINATES
+// ============================================================================
+
+/**
+ * Tile position as shown by the game's coordinate readout and WorldBuilder.
+ *
+ * The game lays tiles out in rows with every odd row shifted half a tile
+ * right ("odd-r" offset layout), so the column of a hex depends on its row.
+ */
+export interface OffsetCoord {
+  col: number;
+  row: number;
+}
+
+/**
+ * Convert axial coordinates to the game's odd-row offset coordinates.
+ *
+ * @param coord - Axial coordinates
+ * @returns In-game column and row
+ *
+ * @example
+ * axialToOffset({ q: 2, r: 3 }); // Returns { col: 3, row: 3 }
+ * axialToOffset({ q: 2, r: 4 }); // Returns { col: 4, row: 4 }
+ */
+export const axialToOffset = (coord: HexCoord): OffsetCoord => ({
+  col: coord.q + (coord.r - (coord.r & 1)) / 2,
+  row: coord.r,
+});
+
+/**
+ * Convert the game's odd-row offset coordinates to axial coordinates.
+ * Inverse of {@link axialToOffset}.
+ *
+ * @param offset - In-game column and row
+ * @returns Axial coordinates
+ *
+ * @example
+ * offsetToAxial({ col: 3, row: 3 }); // Returns { q: 2, r: 3 }
+ */
+export const offsetToAxial = (offset: OffsetCoord): HexCoord => ({
+  q: offset.col - (offset.row - (offset.row & 1)) / 2,
+  r: offset.row,
+});
+
+/**
+ * Format a hex as the game shows it.
+ *
+ * @param coord - Axial coordinates
+ * @returns In-game coordinates as "col, row"
+ *
+ * @example
+ * formatOffset({ q: 2, r: 3 }); // Returns "3, 3"
+ */
+export const formatOffset = (coord: HexCoord): string => {
+  const { col, row } = axialToOffset(coord);
+  return `${col}, ${row}`;
+};
+
+/**
+ * Parse typed in-game coordinates.
+ *
+ * Accepts two integers separated by a comma and/or spaces, optionally in
+ * parentheses, e.g. "12, 7", "12 7" or "(12,7)".
+ *
+ * @param text - User input
+ * @returns The offset coordinates, or null if the text isn't a coordinate pair
+ *
+ * @example
+ * const offset = parseOffset(input);
+ * if (offset) selectTile(offsetToAxial(offset));
+ */
+export const parseOffset = (text: string): OffsetCoord | null => {
+  const match = text.match(/^\s*\(?\s*(-?\d+)\s*[,\s]\s*(-?\d+)\s*\)?\s*$/);
+  if (!match) return null;
+  return { col: Number(match[1]), row: Number(match[2]) };
+};
+
+// ============================================================================
+// MAP BOUNDS
+// ============================================================================
+
+/**
+ * Check whether a hex is inside the map rectangle.
+ *
+ * This doesn't wrap: on a wrapping map, pass the hex through
+ * {@link wrapCoord} first to accept positions past the seam.
+ *
+ * @param coord - Axial coordinates
+ * @param map - Map extent
+ * @returns True if the in-game column and row are within the map
+ *
+ * @example
+ * const map = { width: 44, height: 26, wrapX: true };
+ * isOnMap({ q: 0, r: 0 }, map);                      // true
+ * isOnMap({ q: -1, r: 0 }, map);                     // false
+ * isOnMap(wrapCoord({ q: -1, r: 0 }, map), map);     // true (column 43)
+ */
+export const isOnMap = (coord: HexCoord, map: MapBounds): boolean => {
+  const { col, row } = axialToOffset(coord);
+  return col >= 0 && col < map.width && row >= 0 && row < map.height;
+};
+
+/**
+ * Move a hex across the east–west seam so its column is within the map.
+ *
+ * @param coord - Axial coordinates
+ * @param map - Map extent (hexes are returned as is without one, or if it doesn't wrap)
+ * @returns The same position with a column from 0 to `width - 1`
+ *
+ * @example
+ * wrapCoord({ q: 44, r: 0 }, { width: 44, height: 26, wrapX: true }); // { q: 0, r: 0 }
+ */
+export const wrapCoord = (coord: HexCoord, map?: MapBounds): HexCoord => {
+  if (!map?.wrapX) return coord;
+  const shift = Math.floor(axialToOffset(coord).col / map.width) * map.width;
+  return shift === 0 ? coord : { q: coord.q - shift, r: coord.r };
+};
+
 // ============================================================================
 // GEOMETRY
 // ============================================================================
@@ -171,7 +290,10 @@ export const hexCorners = (center: { x: number; y: number }): string => {
  * Returns neighbors in clockwise order starting from East:
  * E, NE, NW, W, SW, SE
  *
+ * On a wrapping map, neighbors across the seam are wrapped to the other side.
+ *
  * @param coord - Center hex coordinates
+ * @param map - Map extent, to wrap neighbors (optional)
  * @returns Array of 6 neighboring hex coordinates
  *
  * @example
@@ -184,7 +306,7 @@ export const hexCorners = (center: { x: number; y: number }): string => {
  *   .map(c => tiles.get(coordKey(c)))
  *   .some(t => t?.modifier === "mountain");
  */
-export const hexNeighbors = (coord: HexCoord): HexCoord[] => {
+export const hexNeighbors = (coord: HexCoord, map?: MapBounds): HexCoord[] => {
   const directions: HexCoord[] = [
     { q: 1, r: 0 }, // East
     { q: 1, r: -1 }, // Northeast
@@ -193,7 +315,7 @@ export const hexNeighbors = (coord: HexCoord): HexCoord[] => {
     { q: -1, r: 1 }, // Southwest
     { q: 0, r: 1 }, // Southeast
   ];
-  return directions.map((d) => ({ q: coord.q + d.q, r: coord.r + d.r }));
+  return directions.map((d) => wrapCoord({ q: coord.q + d.q, r: coord.r + d.r }, map));
 };
 
 /**
@@ -202,16 +324,27 @@ export const hexNeighbors = (coord: HexCoord): HexCoord[] => {
  * Uses the Manhattan distance formula for hex grids:
  * distance = (|Δq| + |Δq + Δr| + |Δr|) / 2
  *
+ * On a wrapping map, the shorter way around (across the seam or not) is used.
+ *
  * @param a - First hex coordinates
  * @param b - Second hex coordinates
+ * @param map - Map extent, to measure across the seam (optional)
  * @returns Number of hex steps between the two hexes
  *
  * @example
  * hexDistance({ q: 0, r: 0 }, { q: 2, r: -1 }); // Returns 2
  * hexDistance({ q: 0, r: 0 }, { q: 3, r: 0 });  // Returns 3
  */
-export const hexDistance = (a: HexCoord, b: HexCoord): number => {
-  return (Math.abs(a.q - b.q) + Math.abs(a.q + a.r - b.q - b.r) + Math.abs(a.r - b.r)) / 2;
+export const hexDistance = (a: HexCoord, b: HexCoord, map?: MapBounds): number => {
+  const distance = (b: HexCoord) =>
+    (Math.abs(a.q - b.q) + Math.abs(a.q + a.r - b.q - b.r) + Math.abs(a.r - b.r)) / 2;
+  if (!map?.wrapX) return distance(b);
+  // Moving a hex a full map width east or west keeps its row
+  return Math.min(
+    distance(b),
+    distance({ q: b.q + map.width, r: b.r }),
+    distance({ q: b.q - map.width, r: b.r }),
+  );
 };
 
 /**
@@ -222,6 +355,7 @@ export const hexDistance = (a: HexCoord, b: HexCoord): number => {
  *
  * @param center - Center hex coordinates
  * @param range - Maximum distance from center (0 = just center, 1 = center + 6 neighbors, etc.)
+ * @param map - Map extent, to wrap hexes across the seam (optional)
  * @returns Array of all hex coordinates within range
  *
  * @example
@@ -233,14 +367,17 @@ export const hexDistance = (a: HexCoord, b: HexCoord): number => {
  * // Get a city's workable tiles (3-tile radius)
  * const workable = hexesInRange(city.location, 3);
  */
-export const hexesInRange = (center: HexCoord, range: number): HexCoord[] => {
+export const hexesInRange = (center: HexCoord, range: number, map?: MapBounds): HexCoord[] => {
   const results: HexCoord[] = [];
   for (let q = -range; q <= range; q++) {
     for (let r = Math.max(-range, -q - range); r <= Math.min(range, -q + range); r++) {
-      results.push({ q: center.q + q, r: center.r + r });
+      results.push(wrapCoord({ q: center.q + q, r: center.r + r }, map));
     }
   }
-  return results;
+  if (!map?.wrapX) return results;
+  // A range wider than the map would reach the same hexes from both sides
+  const seen = new Set<string>();
+  return results.filter((c) => !seen.has(coordKey(c)) && !!seen.add(coordKey(c)));
 };
 
 // ============================================================================
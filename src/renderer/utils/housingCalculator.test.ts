@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { calculateHousing, getCenterWater, getHousingStatus } from "./housingCalculator";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "plains",
+    modifier: partial.modifier,
+    features: partial.features ?? [],
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    improvement: partial.improvement,
+    isPillaged: partial.isPillaged ?? false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeCity(partial: Partial<City> = {}): City {
+  return {
+    id: "c1",
+    name: "Seoul",
+    location: { q: 0, r: 0 },
+    population: 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [{ q: 0, r: 0 }],
+    workedTiles: [],
+    districts: partial.districts ?? [],
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+function tileMap(...tiles: Tile[]): Map<string, Tile> {
+  return new Map(tiles.map((t) => [coordKey(t.coord), t]));
+}
+
+describe("getCenterWater", () => {
+  it("prefers fresh water over coast", () => {
+    const coast = makeTile({ coord: { q: 1, r: 0 }, terrain: "coast" });
+    const oasis = makeTile({ coord: { q: -1, r: 0 }, terrain: "desert", features: ["oasis"] });
+    const river = makeTile({
+      coord: { q: 0, r: 0 },
+      riverEdges: [false, true, false, false, false, false],
+    });
+
+    expect(getCenterWater(makeCity(), tileMap(makeTile({ coord: { q: 0, r: 0 } })))).toBe("none");
+    expect(getCenterWater(makeCity(), tileMap(makeTile({ coord: { q: 0, r: 0 } }), coast))).toBe(
+      "coast",
+    );
+    expect(
+      getCenterWater(makeCity(), tileMap(makeTile({ coord: { q: 0, r: 0 } }), coast, oasis)),
+    ).toBe("oasis");
+    expect(getCenterWater(makeCity(), tileMap(river, coast))).toBe("river");
+  });
+
+  it("finds water across the seam of a wrapping map", () => {
+    const tiles = tileMap(
+      makeTile({ coord: { q: 0, r: 0 } }),
+      makeTile({ coord: { q: 9, r: 0 }, terrain: "coast" }),
+    );
+    const map = { width: 10, height: 6, wrapX: true };
+
+    expect(getCenterWater(makeCity(), tiles)).toBe("none");
+    expect(getCenterWater(makeCity(), tiles, map)).toBe("coast");
+  });
+});
+
+describe("calculateHousing", () => {
+  it("adds improvements, districts and buildings", () => {
+    const city = makeCity({
+      ownedTiles: [
+        { q: 0, r: 0 },
+        { q: 1, r: 0 },
+        { q: 2, r: 0 },
+        { q: 0, r: 1 },
+        { q: 0, r: 2 },
+      ],
+      districts: [
+        { type: "city_center", tile: { q: 0, r: 0 }, buildings: ["granary"], isPillaged: false },
+        { type: "aqueduct", tile: { q: 0, r: 1 }, buildings: [], isPillaged: false },
+        { type: "encampment", tile: { q: 0, r: 2 }, buildings: ["barracks"], isPillaged: true },
+      ],
+    });
+    const tiles = tileMap(
+      makeTile({ coord: { q: 0, r: 0 } }),
+      makeTile({ coord: { q: 1, r: 0 }, improvement: "farm" }),
+      makeTile({ coord: { q: 2, r: 0 }, improvement: "farm" }),
+      makeTile({ coord: { q: 3, r: 0 }, improvement: "farm" }), // not owned
+    );
+
+    const result = calculateHousing(city, tiles);
+
+    expect(result.water).toBe("none");
+    expect(result.breakdown).toEqual([
+      { source: "No water", housing: 2 },
+      { source: "Farm ×2", housing: 1 },
+      { source: "Granary", housing: 2 },
+      { source: "Aqueduct", housing: 6 },
+    ]);
+    expect(result.total).toBe(11);
+  });
+
+  it("gives a smaller aqueduct bonus with fresh water and skips pillaged farms", () => {
+    const city = makeCity({
+      ownedTiles: [
+        { q: 0, r: 0 },
+        { q: 1, r: 0 },
+      ],
+      districts: [{ type: "aqueduct", tile: { q: 0, r: 1 }, buildings: [], isPillaged: false }],
+    });
+    const tiles = tileMap(
+      makeTile({ coord: { q: 0, r: 0 }, riverEdges: [true, false, false, false, false, false] }),
+      makeTile({ coord: { q: 1, r: 0 }, improvement: "farm", isPillaged: true }),
+    );
+
+    expect(calculateHousing(city, tiles).total).toBe(5 + 2);
+  });
+
+  it("applies civ abilities", () => {
+    const city = makeCity({
+      ownedTiles: [
+        { q: 0, r: 0 },
+        { q: 0, r: 1 },
+      ],
+    });
+    const tiles = tileMap(
+      makeTile({ coord: { q: 0, r: 0 } }),
+      makeTile({ coord: { q: 1, r: 0 }, terrain: "coast" }),
+      makeTile({ coord: { q: 0, r: 1 }, improvement: "farm" }),
+    );
+
+    expect(calculateHousing(city, tiles).total).toBe(3 + 0.5);
+    // Mayab: no water housing, farms give +1
+    expect(calculateHousing(city, tiles, "maya").total).toBe(2 + 1);
+    // Land Down Under: +3 in coastal cities
+    expect(calculateHousing(city, tiles, "australia").total).toBe(3 + 0.5 + 3);
+  });
+});
+
+describe("getHousingStatus", () => {
+  it("flags cities close to their housing", () => {
+    expect(getHousingStatus(4, 7)).toBe("ok");
+    expect(getHousingStatus(6, 7)).toBe("approaching");
+    expect(getHousingStatus(7, 7)).toBe("capped");
+    expect(getHousingStatus(9, 7)).toBe("capped");
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Housing calculator for cities.
+ *
+ * Derives a city's housing from its map and infrastructure instead of the
+ * hand-entered `City.housingCap`:
+ *
+ * - City center water: fresh water (river on the center, adjacent oasis) 5,
+ *   coastal 3, none 2
+ * - Farms, pastures, plantations, camps and fishing boats: +0.5 each
+ * - Aqueduct (+2 with fresh water, +6 without) and Neighborhood districts
+ * - Housing buildings (Granary, Sewer, Palace, Lighthouse, Barracks, Stable)
+ * - Civ abilities (Maya, Australia, Rome)
+ *
+ * Lakes are not a separate terrain in the map model, so a lake next to the
+ * city center counts as coast. Pillaged districts and improvements give no
+ * housing.
+ *
+ * @module renderer/utils/housingCalculator
+ */
+
+import { City, DistrictType, Improvement, MapBounds, Tile, coordKey } from "../../types/model";
+import { getBuildingName } from "../data/buildings";
+import { getDistrictDisplayName } from "./adjacencyCalculator";
+import { hexNeighbors } from "./hexUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Water available to the city center.
+ *
+ * - `river` - A river runs along the center tile (fresh water)
+ * - `oasis` - An oasis is adjacent to the center (fresh water)
+ * - `coast` - The center is next to coast or ocean
+ * - `none` - No water
+ */
+export type WaterSource = "river" | "oasis" | "coast" | "none";
+
+/**
+ * A single source of housing.
+ */
+export interface HousingSource {
+  /** Display name (e.g., "Fresh water (river)", "Farm ×3", "Granary") */
+  source: string;
+  /** Housing provided */
+  housing: number;
+}
+
+/**
+ * Derived housing for a city.
+ *
+ * @example
+ * const result: HousingResult = {
+ *   water: "river",
+ *   total: 8,
+ *   breakdown: [
+ *     { source: "Fresh water (river)", housing: 5 },
+ *     { source: "Granary", housing: 2 },
+ *     { source: "Farm ×2", housing: 1 }
+ *   ]
+ * };
+ */
+export interface HousingResult {
+  /** Water available to the city center */
+  water: WaterSource;
+  /** Total housing (sum of the breakdown) */
+  total: number;
+  /** Where the housing comes from */
+  breakdown: HousingSource[];
+}
+
+/**
+ * How close a city's population is to its housing.
+ *
+ * - `ok` - Room to grow
+ * - `approaching` - One housing left; growth is halved
+ * - `capped` - Population has reached housing; growth is cut by 75% or more
+ */
+export type HousingStatus = "ok" | "approaching" | "capped";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Base housing by city center water. */
+const WATER_HOUSING: Record<WaterSource, number> = {
+  river: 5,
+  oasis: 5,
+  coast: 3,
+  none: 2,
+};
+
+/** Base housing for a city without water bonuses (Maya). */
+const DRY_HOUSING = 2;
+
+/** Housing from each improvement that provides it. */
+const IMPROVEMENT_HOUSING: Partial<Record<Improvement, number>> = {
+  farm: 0.5,
+  pasture: 0.5,
+  plantation: 0.5,
+  camp: 0.5,
+  fishing_boats: 0.5,
+};
+
+/** Housing from buildings. */
+const BUILDING_HOUSING: Record<string, number> = {
+  palace: 1,
+  granary: 2,
+  sewer: 2,
+  lighthouse: 1,
+  barracks: 1,
+  stable: 1,
+};
+
+/** Aqueduct housing for cities with and without fresh water. */
+const AQUEDUCT_FRESH_WATER_HOUSING = 2;
+const AQUEDUCT_DRY_HOUSING = 6;
+
+/** Neighborhood housing at average appeal (appeal is not tracked). */
+const NEIGHBORHOOD_HOUSING = 4;
+
+/** Free housing at which growth starts to slow. */
+const APPROACHING_MARGIN = 1;
+
+const isWater = (tile: Tile): boolean => tile.terrain === "coast" || tile.terrain === "ocean";
+
+const getCenterNeighbors = (
+  city: City,
+  tiles: Map<string, Tile>,
+  map: MapBounds | undefined,
+): Tile[] =>
+  hexNeighbors(city.location, map)
+    .map((c) => tiles.get(coordKey(c)))
+    .filter((t): t is Tile => !!t);
+
+const formatImprovement = (improvement: Improvement): string =>
+  improvement.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Find the water available to a city center.
+ *
+ * Fresh water wins over coast: a river city next to the sea counts as `river`.
+ *
+ * @param city - City to check
+ * @param tiles - Map of all tiles
+ * @param map - Map extent, for neighbors across the seam (optional)
+ * @returns The best water source for the center
+ *
+ * @example
+ * getCenterWater(city, tiles); // "coast"
+ */
+export const getCenterWater = (
+  city: City,
+  tiles: Map<string, Tile>,
+  map?: MapBounds,
+): WaterSource => {
+  const center = tiles.get(coordKey(city.location));
+  if (center?.riverEdges?.some((e) => e)) return "river";
+  const neighbors = getCenterNeighbors(city, tiles, map);
+  if (neighbors.some((t) => t.features.includes("oasis"))) return "oasis";
+  if (neighbors.some(isWater)) return "coast";
+  return "none";
+};
+
+/**
+ * Derive a city's housing from its center water, improvements, districts,
+ * buildings and civ abilities.
+ *
+ * @param city - City to calculate
+ * @param tiles - Map of all tiles
+ * @param playerCiv - Optional player civilization for civ abilities
+ * @param map - Map extent, for neighbors across the seam (optional)
+ * @returns Total housing with its breakdown
+ *
+ * @example
+ * const { total, breakdown } = calculateHousing(city, tiles, setup.playerCiv, setup.map);
+ * breakdown.forEach((b) => console.log(b.source, b.housing));
+ */
+export const calculateHousing = (
+  city: City,
+  tiles: Map<string, Tile>,
+  playerCiv?: string,
+  map?: MapBounds,
+): HousingResult => {
+  const civ = playerCiv?.toLowerCase();
+  const water = getCenterWater(city, tiles, map);
+  const hasFreshWater = water === "river" || water === "oasis";
+  const breakdown: HousingSource[] = [];
+
+  // City center water
+  if (civ === "maya") {
+    // Mayab: no housing from fresh water or coast
+    breakdown.push({ source: "City center (Mayab)", housing: DRY_HOUSING });
+  } else {
+    const label = hasFreshWater
+      ? `Fresh water (${water})`
+      : water === "coast"
+        ? "Coastal"
+        : "No water";
+    breakdown.push({ source: label, housing: WATER_HOUSING[water] });
+  }
+
+  // Improvements on owned tiles
+  const improvementCounts = new Map<Improvement, number>();
+  city.ownedTiles.forEach((coord) => {
+    const tile = tiles.get(coordKey(coord));
+    if (!tile?.improvement || tile.isPillaged || !IMPROVEMENT_HOUSING[tile.improvement]) return;
+    improvementCounts.set(tile.improvement, (improvementCounts.get(tile.improvement) ?? 0) + 1);
+  });
+  improvementCounts.forEach((count, improvement) => {
+    breakdown.push({
+      source: `${formatImprovement(improvement)} ×${count}`,
+      housing: count * IMPROVEMENT_HOUSING[improvement]!,
+    });
+  });
+  const farms = improvementCounts.get("farm") ?? 0;
+  if (civ === "maya" && farms > 0) {
+    breakdown.push({ source: `Farm ×${farms} (Mayab)`, housing: farms * 0.5 });
+  }
+
+  // Districts and buildings
+  const activeDistricts = city.districts.filter((d) => !d.isPillaged);
+  const districtHousing: Partial<Record<DistrictType, number>> = {
+    aqueduct: hasFreshWater ? AQUEDUCT_FRESH_WATER_HOUSING : AQUEDUCT_DRY_HOUSING,
+    neighborhood: NEIGHBORHOOD_HOUSING,
+  };
+  activeDistricts.forEach((d) => {
+    const housing = districtHousing[d.type];
+    if (housing) {
+      breakdown.push({ source: getDistrictDisplayName(d.type), housing });
+    }
+    if (d.type === "aqueduct" && civ === "rome") {
+      breakdown.push({ source: "Bath (Rome)", housing: 2 });
+    }
+    d.buildings.forEach((b) => {
+      if (BUILDING_HOUSING[b]) {
+        breakdown.push({ source: getBuildingName(b), housing: BUILDING_HOUSING[b] });
+      }
+    });
+  });
+
+  // Civ abilities
+  if (civ === "australia" && getCenterNeighbors(city, tiles, map).some(isWater)) {
+    breakdown.push({ source: "Coastal city (Land Down Under)", housing: 3 });
+  }
+
+  return {
+    water,
+    total: breakdown.reduce((sum, b) => sum + b.housing, 0),
+    breakdown,
+  };
+};
+
+/**
+ * Compare population with housing.
+ *
+ * @param population - Current population
+ * @param housing - Housing capacity
+ * @returns Whether the city still has room to grow
+ *
+ * @example
+ * getHousingStatus(6, 7); // "approaching"
+ * getHousingStatus(7, 7); // "capped"
+ */
+export const getHousingStatus = (population: number, housing: number): HousingStatus => {
+  const free = housing - population;
+  if (free <= 0) return "capped";
+  if (free <= APPROACHING_MARGIN) return "approaching";
+  return "ok";
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { hexDistance, hexesInRange } from "./hexUtils";
+import {
+  applyLayoutToPlannedDistricts,
+  getLayoutCandidateTiles,
+  solveDistrictLayout,
+} from "./layoutSolver";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "grassland",
+    modifier: partial.modifier,
+    features: partial.features ?? [],
+    riverEdges: [false, false, false, false, false, false],
+    district: partial.district,
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeCity(partial: Partial<City> = {}): City {
+  return {
+    id: "c1",
+    name: "Seoul",
+    location: { q: 0, r: 0 },
+    population: 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? hexesInRange({ q: 0, r: 0 }, 3),
+    workedTiles: [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: partial.plannedDistricts ?? [],
+  };
+}
+
+const mountains = [
+  { q: 2, r: 0 },
+  { q: 2, r: -1 },
+];
+
+/** Grassland within 4 of the center, a city center and two mountains. */
+const makeMap = () =>
+  new Map(
+    hexesInRange({ q: 0, r: 0 }, 4).map((coord) => {
+      const key = coordKey(coord);
+      const tile = makeTile({
+        coord,
+        district: key === "0,0" ? "city_center" : undefined,
+        modifier: mountains.some((m) => coordKey(m) === key) ? "mountain" : undefined,
+      });
+      return [key, tile];
+    }),
+  );
+
+describe("layoutSolver", () => {
+  it("getLayoutCandidateTiles excludes the center, built tiles and out-of-range tiles", () => {
+    const tiles = makeMap();
+    tiles.set("1,0", { ...tiles.get("1,0")!, district: "campus" });
+    const city = makeCity({ ownedTiles: hexesInRange({ q: 0, r: 0 }, 4) });
+
+    const keys = getLayoutCandidateTiles(city, tiles).map(coordKey);
+    expect(keys).not.toContain("0,0");
+    expect(keys).not.toContain("1,0");
+    expect(
+      keys.every((k) => {
+        const [q, r] = k.split(",").map(Number);
+        return hexDistance({ q, r }, { q: 0, r: 0 }) <= 3;
+      }),
+    ).toBe(true);
+  });
+
+  it("finds the highest-adjacency layouts, counting district-to-district bonuses", () => {
+    const layouts = solveDistrictLayout(makeCity(), makeMap(), ["campus", "holy_site"]);
+
+    expect(layouts).toHaveLength(3);
+    const [best] = layouts;
+    expect(best.placements.map((p) => p.district)).toEqual(["campus", "holy_site"]);
+    // The campus takes a tile next to both mountains
+    expect(["1,0", "3,-1"]).toContain(coordKey(best.placements[0].coord));
+    // No district on a mountain, no two districts on one tile
+    const keys = best.placements.map((p) => coordKey(p.coord));
+    expect(keys.some((k) => mountains.some((m) => coordKey(m) === k))).toBe(false);
+    expect(new Set(keys).size).toBe(2);
+    // Score is the sum of each district's adjacency with the other in place
+    expect(best.score).toBe(best.placements.reduce((sum, p) => sum + p.adjacency.bonus, 0));
+    expect(layouts.map((l) => l.score)).toEqual(
+      [...layouts.map((l) => l.score)].sort((a, b) => b - a),
+    );
+  });
+
+  it("applies weights and skips districts with no valid tile", () => {
+    const layouts = solveDistrictLayout(makeCity(), makeMap(), ["harbor", "campus"], undefined, {
+      weights: { campus: 2 },
+      maxResults: 1,
+    });
+
+    expect(layouts).toHaveLength(1);
+    expect(layouts[0].placements.map((p) => p.district)).toEqual(["campus"]);
+    expect(layouts[0].score).toBe(layouts[0].placements[0].adjacency.bonus * 2);
+  });
+
+  it("places districts across the seam of a wrapping map", () => {
+    const wrapping = { width: 10, height: 6, wrapX: true };
+    // Mountains just west of the seam, in the last columns
+    const tiles = new Map(
+      hexesInRange({ q: 0, r: 0 }, 4, wrapping).map((coord) => {
+        const key = coordKey(coord);
+        const tile = makeTile({
+          coord,
+          district: key === "0,0" ? "city_center" : undefined,
+          modifier: key === "8,0" || key === "8,1" ? "mountain" : undefined,
+        });
+        return [key, tile];
+      }),
+    );
+    const city = makeCity({ ownedTiles: hexesInRange({ q: 0, r: 0 }, 3, wrapping) });
+
+    expect(getLayoutCandidateTiles(city, tiles).map(coordKey)).not.toContain("9,0");
+    const [best] = solveDistrictLayout(city, tiles, ["campus"], undefined, { map: wrapping });
+    // Both tiles next to the two mountains are across the seam from the city
+    expect(["9,0", "7,1"]).toContain(coordKey(best.placements[0].coord));
+    expect(best.placements[0].adjacency.bonus).toBeGreaterThanOrEqual(2);
+  });
+
+  it("applyLayoutToPlannedDistricts replaces plans of the same type or tile", () => {
+    const existing: City["plannedDistricts"] = [
+      { type: "campus", tile: { q: -1, r: 0 }, trigger: { type: "immediate" } },
+      { type: "harbor", tile: { q: 1, r: 0 }, trigger: { type: "immediate" } },
+      { type: "theater_square", tile: { q: 0, r: -1 }, trigger: { type: "immediate" } },
+    ];
+    const [layout] = solveDistrictLayout(makeCity(), makeMap(), ["campus"]);
+    const layoutWithTile = {
+      ...layout,
+      placements: [{ ...layout.placements[0], coord: { q: 1, r: 0 } }],
+    };
+
+    expect(applyLayoutToPlannedDistricts(existing, layoutWithTile)).toEqual([
+      existing[2],
+      { type: "campus", tile: { q: 1, r: 0 }, trigger: { type: "manual" } },
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Multi-district layout solver for a single city.
+ *
+ * `calculateAdjacency` scores one district on one tile, but districts also
+ * boost each other (+0.5 per adjacent district, +1 more next to a Government
+ * Plaza). This module searches for placements of several districts at once
+ * that maximize the city's total weighted adjacency, taking those
+ * district-to-district effects into account.
+ *
+ * The search is a beam search: districts are placed one at a time and only
+ * the best partial layouts are expanded further. Every layout is scored by
+ * placing its districts on a copy of the map and recomputing adjacency for
+ * all of them.
+ *
+ * @module renderer/utils/layoutSolver
+ */
+
+import {
+  City,
+  DistrictType,
+  HexCoord,
+  MapBounds,
+  StateTrigger,
+  Tile,
+  coordKey,
+} from "../../types/model";
+import { AdjacencyResult, calculateAdjacency } from "./adjacencyCalculator";
+import { validateDistrictPlacement } from "./districtRules";
+import { hexDistance } from "./hexUtils";
+import { getPlanActionUpdates } from "./tilePlans";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for {@link solveDistrictLayout}.
+ */
+export interface LayoutSolverOptions {
+  /** Per-district weight applied to adjacency (default 1) */
+  weights?: Partial<Record<DistrictType, number>>;
+  /** Number of layouts to return (default 3) */
+  maxResults?: number;
+  /** Partial layouts kept at each step of the search (default 40) */
+  beamWidth?: number;
+  /** Map extent, so distances and adjacency wrap across the seam */
+  map?: MapBounds;
+}
+
+/**
+ * One district placed by a layout.
+ */
+export interface DistrictPlacement {
+  /** District type */
+  district: DistrictType;
+  /** Tile the district is placed on */
+  coord: HexCoord;
+  /** Adjacency of the district with the whole layout in place */
+  adjacency: AdjacencyResult;
+}
+
+/**
+ * A complete layout for the requested districts.
+ */
+export interface DistrictLayout {
+  /** Placements in the order the districts were requested */
+  placements: DistrictPlacement[];
+  /** Total weighted adjacency */
+  score: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Maximum distance from the city center at which districts can be placed. */
+export const DISTRICT_RANGE = 3;
+
+const DEFAULT_MAX_RESULTS = 3;
+const DEFAULT_BEAM_WIDTH = 40;
+
+/** Rules that depend on what the city has already built, not on the tile. */
+const LIMIT_RULES = ["one_per_city", "population_cap", "unique"];
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+/**
+ * Get the tiles a city can place new districts on: owned tiles within
+ * {@link DISTRICT_RANGE} of the center that are mapped and free of districts
+ * and wonders.
+ *
+ * @param city - The city
+ * @param tiles - Map of all tiles
+ * @param map - Map extent, for wrapping distances (optional)
+ * @returns Candidate tile coordinates
+ */
+export const getLayoutCandidateTiles = (
+  city: City,
+  tiles: Map<string, Tile>,
+  map?: MapBounds,
+): HexCoord[] =>
+  city.ownedTiles.filter((coord) => {
+    const distance = hexDistance(coord, city.location, map);
+    if (distance === 0 || distance > DISTRICT_RANGE) return false;
+    const tile = tiles.get(coordKey(coord));
+    return !!tile && !tile.district && !tile.wonder;
+  });
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Place districts on a copy of the map, as a district plan would.
+ */
+const placeDistricts = (
+  tiles: Map<string, Tile>,
+  assignments: Array<{ district: DistrictType; coord: HexCoord }>,
+): Map<string, Tile> => {
+  const placed = new Map(tiles);
+  for (const { district, coord } of assignments) {
+    const key = coordKey(coord);
+    const tile = placed.get(key);
+    if (!tile) continue;
+    placed.set(key, {
+      ...tile,
+      ...getPlanActionUpdates(tile, { type: "place_district", district }),
+    });
+  }
+  return placed;
+};
+
+/**
+ * Score a (possibly partial) layout.
+ *
+ * @param tiles - Map of all tiles
+ * @param assignments - District placements
+ * @param playerCiv - Player civilization for civ-specific bonuses
+ * @param weights - Per-district weights
+ * @param map - Map extent, for wrapping adjacency
+ * @returns The scored layout
+ */
+const scoreLayout = (
+  tiles: Map<string, Tile>,
+  assignments: Array<{ district: DistrictType; coord: HexCoord }>,
+  playerCiv: string | undefined,
+  weights: Partial<Record<DistrictType, number>>,
+  map: MapBounds | undefined,
+): DistrictLayout => {
+  const placed = placeDistricts(tiles, assignments);
+  const placements = assignments.map(({ district, coord }) => ({
+    district,
+    coord,
+    adjacency: calculateAdjacency(coord, district, placed, playerCiv, map),
+  }));
+  const score = placements.reduce(
+    (sum, p) => sum + p.adjacency.bonus * (weights[p.district] ?? 1),
+    0,
+  );
+  return { placements, score };
+};
+
+const layoutKey = (assignments: Array<{ district: DistrictType; coord: HexCoord }>): string =>
+  assignments
+    .map((a) => `${a.district}@${coordKey(a.coord)}`)
+    .sort()
+    .join("|");
+
+// ============================================================================
+// SOLVER
+// ============================================================================
+
+/**
+ * Find the best layouts for placing a set of districts in a city.
+ *
+ * Each district may only go on a candidate tile whose terrain allows it
+ * (see `validateDistrictPlacement`; per-city limits are ignored since the
+ * target list is the player's choice). Districts with no valid tile are
+ * left out of the layouts.
+ *
+ * @param city - The city to plan
+ * @param tiles - Map of all tiles
+ * @param targets - Districts to place
+ * @param playerCiv - Player civilization for civ-specific bonuses
+ * @param options - Weights, search limits and the map extent
+ * @returns Best layouts, highest score first
+ *
+ * @example
+ * const [best] = solveDistrictLayout(city, tiles, ["campus", "industrial_zone"], "korea");
+ * best.placements.forEach((p) => console.log(p.district, p.coord, p.adjacency.bonus));
+ */
+export const solveDistrictLayout = (
+  city: City,
+  tiles: Map<string, Tile>,
+  targets: DistrictType[],
+  playerCiv?: string,
+  options: LayoutSolverOptions = {},
+): DistrictLayout[] => {
+  const weights = options.weights ?? {};
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const beamWidth = Math.max(options.beamWidth ?? DEFAULT_BEAM_WIDTH, maxResults);
+  const map = options.map;
+
+  // Adjacency only looks one ring past the district, so scoring can work on
+  // the tiles around the city instead of copying the whole map per candidate.
+  const localTiles = new Map(
+    [...tiles].filter(([, t]) => hexDistance(t.coord, city.location, map) <= DISTRICT_RANGE + 1),
+  );
+
+  const candidates = getLayoutCandidateTiles(city, tiles, map);
+  const context = { tiles, cities: [city], map };
+  const validTiles = targets.map((district) =>
+    candidates.filter((coord) =>
+      validateDistrictPlacement(district, coord, context, city.id).every((v) =>
+        LIMIT_RULES.includes(v.rule),
+      ),
+    ),
+  );
+
+  let beam: DistrictLayout[] = [{ placements: [], score: 0 }];
+  targets.forEach((district, i) => {
+    if (validTiles[i].length === 0) return;
+
+    const next = new Map<string, DistrictLayout>();
+    for (const layout of beam) {
+      const used = new Set(layout.placements.map((p) => coordKey(p.coord)));
+      for (const coord of validTiles[i]) {
+        if (used.has(coordKey(coord))) continue;
+        const assignments = [...layout.placements, { district, coord }];
+        const key = layoutKey(assignments);
+        if (!next.has(key)) {
+          next.set(key, scoreLayout(localTiles, assignments, playerCiv, weights, map));
+        }
+      }
+    }
+    // Keep the previous beam if no placement was possible (all tiles taken)
+    if (next.size > 0) {
+      beam = [...next.values()].sort((a, b) => b.score - a.score).slice(0, beamWidth);
+    }
+  });
+
+  return beam.filter((l) => l.placements.length > 0).slice(0, maxResults);
+};
+
+// ============================================================================
+// APPLYING LAYOUTS
+// ============================================================================
+
+/**
+ * Merge a layout into a city's planned districts.
+ *
+ * Existing planned districts of the same types, or on the same tiles, are
+ * replaced by the layout's placements.
+ *
+ * @param plannedDistricts - The city's current planned districts
+ * @param layout - Layout to apply
+ * @param trigger - Trigger for the new entries (default manual)
+ * @returns New planned districts list
+ */
+export const applyLayoutToPlannedDistricts = (
+  plannedDistricts: City["plannedDistricts"],
+  layout: DistrictLayout,
+  trigger: StateTrigger = { type: "manual" },
+): City["plannedDistricts"] => {
+  const types = new Set(layout.placements.map((p) => p.district));
+  const keys = new Set(layout.placements.map((p) => coordKey(p.coord)));
+  return [
+    ...plannedDistricts.filter((d) => !types.has(d.type) && !keys.has(coordKey(d.tile))),
+    ...layout.placements.map((p) => ({ type: p.district, tile: p.coord, trigger })),
+  ];
+};
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+
+import type { Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { applyBrush, floodFill, getStrokeHexes, traceStroke } from "./mapPainter";
+
+function makeTile(coord: Tile["coord"], terrain: Tile["terrain"] = "grassland"): Tile {
+  return {
+    coord,
+    terrain,
+    features: [],
+    riverEdges: [false, false, false, false, false, false],
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeTiles(...tiles: Tile[]): Map<string, Tile> {
+  return new Map(tiles.map((t) => [coordKey(t.coord), t]));
+}
+
+// In-game columns 0–9 and rows 0–5
+const flat = { width: 10, height: 6, wrapX: false };
+const wrapping = { ...flat, wrapX: true };
+
+describe("mapPainter", () => {
+  it("traceStroke fills in the hexes between two mouse positions", () => {
+    expect(traceStroke({ q: 0, r: 0 }, { q: 3, r: 0 })).toEqual([
+      { q: 1, r: 0 },
+      { q: 2, r: 0 },
+      { q: 3, r: 0 },
+    ]);
+    expect(traceStroke({ q: 2, r: 2 }, { q: 2, r: 2 })).toEqual([]);
+  });
+
+  it("traceStroke takes the short way across the seam of a wrapping map", () => {
+    expect(traceStroke({ q: 9, r: 0 }, { q: 0, r: 0 }, wrapping)).toEqual([{ q: 10, r: 0 }]);
+    expect(traceStroke({ q: 9, r: 0 }, { q: 0, r: 0 }, flat)).toHaveLength(9);
+  });
+
+  it("getStrokeHexes covers the brush radius around the path without duplicates", () => {
+    const brush = { kind: "terrain", terrain: "plains" } as const;
+    expect(getStrokeHexes([{ q: 0, r: 0 }], brush, 1)).toHaveLength(7);
+    expect(
+      getStrokeHexes(
+        [
+          { q: 0, r: 0 },
+          { q: 1, r: 0 },
+        ],
+        brush,
+        1,
+      ),
+    ).toHaveLength(10);
+  });
+
+  it("getStrokeHexes drops hexes off the map", () => {
+    const stroke = getStrokeHexes(
+      [{ q: 0, r: 0 }],
+      { kind: "terrain", terrain: "plains" },
+      1,
+      flat,
+    );
+    expect(stroke.map(coordKey).sort()).toEqual(["0,0", "0,1", "1,0"]);
+  });
+
+  it("getStrokeHexes keeps the path itself for rivers", () => {
+    const path = [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+    ];
+    expect(getStrokeHexes(path, { kind: "river", erase: false }, 2)).toEqual(path);
+  });
+
+  it("floodFill covers contiguous tiles of the same terrain", () => {
+    const tiles = makeTiles(
+      makeTile({ q: 0, r: 0 }),
+      makeTile({ q: 1, r: 0 }),
+      makeTile({ q: 2, r: 0 }),
+      makeTile({ q: 0, r: 1 }, "plains"),
+      makeTile({ q: 5, r: 5 }),
+    );
+    const filled = floodFill({ q: 0, r: 0 }, tiles);
+    expect(filled.map(coordKey).sort()).toEqual(["0,0", "1,0", "2,0"]);
+    expect(floodFill({ q: 7, r: 7 }, tiles)).toEqual([]);
+  });
+
+  it("floodFill crosses the seam of a wrapping map", () => {
+    const tiles = makeTiles(makeTile({ q: 0, r: 0 }), makeTile({ q: 9, r: 0 }));
+    expect(floodFill({ q: 0, r: 0 }, tiles, wrapping)).toHaveLength(2);
+    expect(floodFill({ q: 0, r: 0 }, tiles, flat)).toHaveLength(1);
+  });
+
+  it("applyBrush returns only changed tiles and creates tiles with the terrain brush", () => {
+    const tiles = makeTiles(makeTile({ q: 0, r: 0 }, "plains"), makeTile({ q: 1, r: 0 }));
+    const painted = applyBrush(
+      tiles,
+      [
+        { q: 0, r: 0 },
+        { q: 1, r: 0 },
+        { q: 2, r: 0 },
+      ],
+      { kind: "terrain", terrain: "grassland" },
+    );
+    expect([...painted.keys()].sort()).toEqual(["0,0", "2,0"]);
+    expect(painted.get("0,0")?.terrain).toBe("grassland");
+    expect(painted.get("2,0")?.terrain).toBe("grassland");
+  });
+
+  it("applyBrush only creates tiles with the terrain brush", () => {
+    const painted = applyBrush(new Map(), [{ q: 0, r: 0 }], {
+      kind: "feature",
+      feature: "woods",
+      erase: false,
+    });
+    expect(painted.size).toBe(0);
+  });
+
+  it("applyBrush clears modifiers on water and skips water with the modifier brush", () => {
+    const tiles = makeTiles(
+      { ...makeTile({ q: 0, r: 0 }), modifier: "hills" },
+      makeTile({ q: 1, r: 0 }, "coast"),
+    );
+    const water = applyBrush(tiles, [{ q: 0, r: 0 }], { kind: "terrain", terrain: "ocean" });
+    expect(water.get("0,0")?.modifier).toBeUndefined();
+
+    const hills = applyBrush(tiles, [{ q: 1, r: 0 }], { kind: "modifier", modifier: "hills" });
+    expect(hills.size).toBe(0);
+  });
+
+  it("applyBrush adds and erases features", () => {
+    const tiles = makeTiles(
+      { ...makeTile({ q: 0, r: 0 }), features: ["woods"] },
+      makeTile({ q: 1, r: 0 }),
+    );
+    const stroke = [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+    ];
+
+    const added = applyBrush(tiles, stroke, { kind: "feature", feature: "woods", erase: false });
+    expect([...added.keys()]).toEqual(["1,0"]);
+    expect(added.get("1,0")?.features).toEqual(["woods"]);
+
+    const erased = applyBrush(tiles, stroke, { kind: "feature", feature: "woods", erase: true });
+    expect([...erased.keys()]).toEqual(["0,0"]);
+    expect(erased.get("0,0")?.features).toEqual([]);
+  });
+
+  it("applyBrush sets and clears resources", () => {
+    const iron = { name: "Iron", type: "strategic", revealed: true } as const;
+    const tiles = makeTiles(makeTile({ q: 0, r: 0 }));
+
+    const set = applyBrush(tiles, [{ q: 0, r: 0 }], { kind: "resource", resource: iron });
+    expect(set.get("0,0")?.resource).toEqual(iron);
+
+    const cleared = applyBrush(makeTiles(set.get("0,0")!), [{ q: 0, r: 0 }], {
+      kind: "resource",
+      resource: null,
+    });
+    expect(cleared.get("0,0")?.resource).toBeUndefined();
+  });
+
+  it("applyBrush draws a river on the shared edge of both tiles", () => {
+    const tiles = makeTiles(makeTile({ q: 0, r: 0 }), makeTile({ q: 1, r: 0 }));
+    const path = [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+    ];
+
+    const drawn = applyBrush(tiles, path, { kind: "river", erase: false });
+    expect(drawn.get("0,0")?.riverEdges).toEqual([true, false, false, false, false, false]);
+    expect(drawn.get("1,0")?.riverEdges).toEqual([false, false, false, true, false, false]);
+
+    const erased = applyBrush(makeTiles(...drawn.values()), path, { kind: "river", erase: true });
+    expect(erased.get("0,0")?.riverEdges.some(Boolean)).toBe(false);
+    expect(erased.get("1,0")?.riverEdges.some(Boolean)).toBe(false);
+  });
+
+  it("applyBrush draws a river across the seam of a wrapping map", () => {
+    const tiles = makeTiles(makeTile({ q: 9, r: 0 }), makeTile({ q: 0, r: 0 }));
+    const path = [
+      { q: 9, r: 0 },
+      { q: 0, r: 0 },
+    ];
+
+    const drawn = applyBrush(tiles, path, { kind: "river", erase: false }, wrapping);
+    expect(drawn.get("9,0")?.riverEdges).toEqual([true, false, false, false, false, false]);
+    expect(drawn.get("0,0")?.riverEdges).toEqual([false, false, false, true, false, false]);
+  });
+
+  it("applyBrush leaves hexes off the map alone", () => {
+    const painted = applyBrush(
+      new Map(),
+      [{ q: -1, r: 0 }],
+      { kind: "terrain", terrain: "plains" },
+      flat,
+    );
+    expect(painted.size).toBe(0);
+
+    const wrapped = applyBrush(
+      new Map(),
+      [{ q: -1, r: 0 }],
+      { kind: "terrain", terrain: "plains" },
+      wrapping,
+    );
+    expect([...wrapped.keys()]).toEqual(["9,0"]);
+  });
+});
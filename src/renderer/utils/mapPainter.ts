@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Brush painting for entering maps quickly.
+ *
+ * A stroke is the path of hexes the cursor passes over while the mouse is
+ * held down. Each brush changes one property of the tiles it covers:
+ *
+ * - Terrain (also creates tiles in empty hexes, so a map can be painted from scratch)
+ * - Modifier (hills or mountain; water tiles are skipped)
+ * - A feature, added or erased
+ * - The resource, set or cleared
+ * - River edges, drawn on the edge between each pair of hexes the cursor
+ *   crosses between, so dragging across a river's course draws it
+ *
+ * Brushes cover every hex within a radius of the path; flood fill instead
+ * covers the contiguous tiles of the same terrain. Hexes off the map are
+ * left alone.
+ *
+ * @module renderer/utils/mapPainter
+ */
+
+import {
+  Feature,
+  HexCoord,
+  MapBounds,
+  Resource,
+  Terrain,
+  TerrainModifier,
+  Tile,
+  coordKey,
+} from "../../types/model";
+import { hexDistance, hexNeighbors, hexRound, hexesInRange, isOnMap, wrapCoord } from "./hexUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What a paint stroke changes.
+ */
+export type PaintBrush =
+  | { kind: "terrain"; terrain: Terrain }
+  | { kind: "modifier"; modifier: TerrainModifier | null }
+  | { kind: "feature"; feature: Feature; erase: boolean }
+  | { kind: "resource"; resource: Resource | null }
+  | { kind: "river"; erase: boolean };
+
+/**
+ * How a stroke picks hexes: along the cursor path, or by flood fill.
+ */
+export type PaintTool = "brush" | "fill";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Largest brush radius (3 covers a city's workable area). */
+export const MAX_BRUSH_RADIUS = 3;
+
+const isWater = (terrain: Terrain): boolean => terrain === "coast" || terrain === "ocean";
+
+// ============================================================================
+// STROKES
+// ============================================================================
+
+/**
+ * Hexes on a straight line between two hexes, so a fast drag doesn't skip
+ * the hexes between mouse events.
+ *
+ * On a wrapping map the line takes the short way around. Its hexes continue
+ * on from `from` without being wrapped, so the path stays connected;
+ * {@link getStrokeHexes} and {@link applyBrush} wrap them.
+ *
+ * @param from - Last hex of the path so far (not included)
+ * @param to - Hex under the cursor
+ * @param map - Map extent (optional)
+ * @returns Hexes from the one after `from` up to and including `to` (or its copy past the seam)
+ *
+ * @example
+ * traceStroke({ q: 0, r: 0 }, { q: 3, r: 0 }); // [{1,0}, {2,0}, {3,0}]
+ */
+export const traceStroke = (from: HexCoord, to: HexCoord, map?: MapBounds): HexCoord[] => {
+  const end = map?.wrapX
+    ? [to, { q: to.q + map.width, r: to.r }, { q: to.q - map.width, r: to.r }].reduce((a, b) =>
+        hexDistance(from, b) < hexDistance(from, a) ? b : a,
+      )
+    : to;
+  const steps = hexDistance(from, end);
+  const line: HexCoord[] = [];
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    // Nudge off exact midpoints so ties round the same way every step
+    line.push(
+      hexRound({
+        q: from.q + (end.q - from.q) * t + 1e-6,
+        r: from.r + (end.r - from.r) * t + 1e-6,
+      }),
+    );
+  }
+  return line;
+};
+
+/**
+ * Hexes a brush covers along a path.
+ *
+ * River brushes work on the path itself; other brushes cover every hex within
+ * `radius` of it. Hexes past the seam of a wrapping map are wrapped, and hexes
+ * off the map are dropped.
+ *
+ * @param path - Hexes the cursor passed over, in order
+ * @param brush - Brush in use
+ * @param radius - Brush radius (0 = just the hex under the cursor)
+ * @param map - Map extent (optional)
+ * @returns Covered hexes without duplicates; for rivers, the path in order
+ */
+export const getStrokeHexes = (
+  path: HexCoord[],
+  brush: PaintBrush,
+  radius: number,
+  map?: MapBounds,
+): HexCoord[] => {
+  if (brush.kind === "river") return path;
+
+  const covered = new Map<string, HexCoord>();
+  path.forEach((center) =>
+    hexesInRange(center, radius, map).forEach((c) => {
+      if (!map || isOnMap(c, map)) covered.set(coordKey(c), c);
+    }),
+  );
+  return [...covered.values()];
+};
+
+/**
+ * Contiguous tiles with the same terrain as the starting tile.
+ *
+ * @param start - Hex to fill from
+ * @param tiles - All tiles
+ * @param map - Map extent, to fill across the seam (optional)
+ * @returns The filled hexes, or an empty list if there's no tile at `start`
+ *
+ * @example
+ * // Turn a whole grassland region into plains
+ * paintStroke(floodFill(coord, tiles, setup.map), { kind: "terrain", terrain: "plains" });
+ */
+export const floodFill = (
+  start: HexCoord,
+  tiles: Map<string, Tile>,
+  map?: MapBounds,
+): HexCoord[] => {
+  const origin = tiles.get(coordKey(wrapCoord(start, map)));
+  if (!origin) return [];
+
+  const filled = new Map<string, HexCoord>([[coordKey(origin.coord), origin.coord]]);
+  const queue = [origin.coord];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    hexNeighbors(current, map).forEach((n) => {
+      const key = coordKey(n);
+      if (filled.has(key) || tiles.get(key)?.terrain !== origin.terrain) return;
+      filled.set(key, n);
+      queue.push(n);
+    });
+  }
+  return [...filled.values()];
+};
+
+// ============================================================================
+// PAINTING
+// ============================================================================
+
+/**
+ * Paint one tile with a non-river brush.
+ *
+ * @returns The painted tile, or null if the brush doesn't change it
+ */
+const paintTile = (tile: Tile, brush: Exclude<PaintBrush, { kind: "river" }>): Tile | null => {
+  switch (brush.kind) {
+    case "terrain": {
+      if (tile.terrain === brush.terrain) return null;
+      const modifier = isWater(brush.terrain) ? undefined : tile.modifier;
+      return { ...tile, terrain: brush.terrain, modifier };
+    }
+    case "modifier": {
+      const modifier = brush.modifier ?? undefined;
+      if (isWater(tile.terrain) || tile.modifier === modifier) return null;
+      return { ...tile, modifier };
+    }
+    case "feature": {
+      const has = tile.features.includes(brush.feature);
+      if (has !== brush.erase) return null;
+      const features = brush.erase
+        ? tile.features.filter((f) => f !== brush.feature)
+        : [...tile.features, brush.feature];
+      return { ...tile, features };
+    }
+    case "resource": {
+      const resource = brush.resource ?? undefined;
+      if (JSON.stringify(tile.resource) === JSON.stringify(resource)) return null;
+      return { ...tile, resource };
+    }
+  }
+};
+
+/**
+ * Apply a brush to the hexes of a stroke.
+ *
+ * River edges are numbered as drawn (see `RiverEdges`): edge `e` borders the
+ * neighbor at index `(6 - e) % 6` of {@link hexNeighbors}.
+ *
+ * @param tiles - All tiles
+ * @param stroke - Hexes from {@link getStrokeHexes} or {@link floodFill}
+ * @param brush - Brush to apply
+ * @param map - Map extent (optional)
+ * @returns Tiles the stroke changed or created, keyed by coordinate
+ *
+ * @example
+ * const painted = applyBrush(tiles, stroke, brush, setup.map);
+ * const next = new Map(tiles);
+ * painted.forEach((tile, key) => next.set(key, tile));
+ */
+export const applyBrush = (
+  tiles: Map<string, Tile>,
+  stroke: HexCoord[],
+  brush: PaintBrush,
+  map?: MapBounds,
+): Map<string, Tile> => {
+  const painted = new Map<string, Tile>();
+  const current = (key: string) => painted.get(key) ?? tiles.get(key);
+
+  if (brush.kind === "river") {
+    const setEdge = (coord: HexCoord, edge: number) => {
+      const key = coordKey(wrapCoord(coord, map));
+      const tile = current(key);
+      if (!tile || tile.riverEdges[edge] === !brush.erase) return;
+      const riverEdges = [...tile.riverEdges];
+      riverEdges[edge] = !brush.erase;
+      painted.set(key, { ...tile, riverEdges });
+    };
+
+    for (let i = 1; i < stroke.length; i++) {
+      const [from, to] = [stroke[i - 1], stroke[i]];
+      const next = coordKey(wrapCoord(to, map));
+      const direction = hexNeighbors(from, map).findIndex((n) => coordKey(n) === next);
+      if (direction < 0) continue;
+      const edge = (6 - direction) % 6;
+      setEdge(from, edge);
+      setEdge(to, (edge + 3) % 6);
+    }
+    return painted;
+  }
+
+  stroke.forEach((hex) => {
+    const coord = wrapCoord(hex, map);
+    if (map && !isOnMap(coord, map)) return;
+    const key = coordKey(coord);
+    const tile = current(key);
+
+    if (!tile) {
+      // Only terrain can create tiles
+      if (brush.kind === "terrain") {
+        painted.set(key, {
+          coord,
+          terrain: brush.terrain,
+          features: [],
+          riverEdges: [false, false, false, false, false, false],
+          isPillaged: false,
+          plannedStates: [],
+          isLocked: false,
+        });
+      }
+      return;
+    }
+
+    const next = paintTile(tile, brush);
+    if (next) painted.set(key, next);
+  });
+  return painted;
+};
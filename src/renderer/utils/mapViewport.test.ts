@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+
+import type { Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { hexToPixel } from "./hexUtils";
+import {
+  MAX_VIEW_WIDTH,
+  centerViewBoxOn,
+  getHexesInRect,
+  getMapBounds,
+  getTilesInRect,
+  getUnitsPerPixel,
+  getVisibleRect,
+  isHexInRect,
+  mapToScreen,
+  screenToMap,
+  zoomViewBox,
+} from "./mapViewport";
+
+function makeTile(q: number, r: number): Tile {
+  return {
+    coord: { q, r },
+    terrain: "grassland",
+    features: [],
+    riverEdges: [false, false, false, false, false, false],
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+const viewBox = { x: 0, y: 0, w: 800, h: 600 };
+// Twice as wide as tall, so 200 extra map units show on each side
+const wide = { width: 1200, height: 600 };
+
+describe("viewport coordinates", () => {
+  it("widens the visible area to the element's aspect ratio", () => {
+    expect(getVisibleRect(viewBox, wide)).toEqual({ x: -200, y: 0, w: 1200, h: 600 });
+    expect(getVisibleRect(viewBox, { width: 400, height: 600 })).toEqual({
+      x: 0,
+      y: -300,
+      w: 800,
+      h: 1200,
+    });
+    // Not measured yet
+    expect(getVisibleRect(viewBox, { width: 0, height: 0 })).toBe(viewBox);
+  });
+
+  it("converts screen points to map points", () => {
+    expect(getUnitsPerPixel(viewBox, wide)).toBe(1);
+    expect(screenToMap({ x: 0, y: 0 }, viewBox, wide)).toEqual({ x: -200, y: 0 });
+    expect(screenToMap({ x: 600, y: 300 }, viewBox, { width: 600, height: 450 })).toEqual({
+      x: 800,
+      y: 400,
+    });
+    expect(mapToScreen({ x: 800, y: 400 }, viewBox, { width: 600, height: 450 })).toEqual({
+      x: 600,
+      y: 300,
+    });
+  });
+
+  it("zooms around the cursor and clamps the width", () => {
+    const point = { x: 300, y: 150 };
+    const anchor = screenToMap(point, viewBox, wide);
+
+    const zoomed = zoomViewBox(viewBox, wide, point, 0.5);
+
+    expect(zoomed.w).toBe(400);
+    expect(zoomed.h).toBe(300);
+    expect(screenToMap(point, zoomed, wide)).toEqual(anchor);
+    expect(zoomViewBox(viewBox, wide, point, 10).w).toBe(MAX_VIEW_WIDTH);
+  });
+
+  it("centers the viewBox on a map point", () => {
+    expect(centerViewBoxOn(viewBox, { x: 1000, y: 500 })).toEqual({
+      x: 600,
+      y: 200,
+      w: 800,
+      h: 600,
+    });
+  });
+});
+
+describe("culling", () => {
+  const rect = { x: 0, y: 0, w: 400, h: 300 };
+
+  it("keeps hexes that overlap the rectangle", () => {
+    expect(isHexInRect({ q: 0, r: 0 }, rect)).toBe(true);
+    // Center just outside the left edge, but the hex reaches in
+    expect(isHexInRect({ q: 0, r: 0 }, { ...rect, x: 30 })).toBe(true);
+    expect(isHexInRect({ q: -2, r: 1 }, rect)).toBe(false);
+  });
+
+  it("filters tiles to the rectangle", () => {
+    const tiles = [makeTile(0, 0), makeTile(3, 0), makeTile(50, 0), makeTile(0, -10)];
+
+    expect(getTilesInRect(tiles, rect).map((t) => coordKey(t.coord))).toEqual(["0,0", "3,0"]);
+  });
+
+  it("lists every hex position in the rectangle", () => {
+    const coords = getHexesInRect(rect);
+
+    expect(coords.length).toBeGreaterThan(0);
+    expect(coords.every((c) => isHexInRect(c, rect))).toBe(true);
+    expect(new Set(coords.map(coordKey)).size).toBe(coords.length);
+    // Spot-check one hex near each corner
+    const corners = [
+      { x: 0, y: 0 },
+      { x: 400, y: 300 },
+    ];
+    corners.forEach(({ x, y }) =>
+      expect(
+        coords.some((c) => {
+          const p = hexToPixel(c);
+          return Math.abs(p.x - x) <= 60 && Math.abs(p.y - y) <= 60;
+        }),
+      ).toBe(true),
+    );
+  });
+});
+
+describe("getMapBounds", () => {
+  it("covers every tile plus one hex radius", () => {
+    // Centers at (0, 0) and (120, 69.28)
+    const bounds = getMapBounds([makeTile(0, 0), makeTile(2, 0)])!;
+
+    expect(bounds.x).toBe(-40);
+    expect(bounds.y).toBe(-40);
+    expect(bounds.w).toBe(200);
+    expect(bounds.h).toBeCloseTo(40 * Math.sqrt(3) + 80);
+  });
+
+  it("returns null for an empty map", () => {
+    expect(getMapBounds([])).toBeNull();
+  });
+});
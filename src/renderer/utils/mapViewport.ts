@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Viewport math for the hex map.
+ *
+ * The map is an SVG whose `viewBox` is panned and zoomed. The SVG scales the
+ * viewBox to fit its element while keeping the aspect ratio (`xMidYMid meet`),
+ * so the area actually on screen is usually larger than the viewBox in one
+ * direction. These helpers work out that visible area, convert between screen
+ * and map coordinates, and pick the tiles and empty hexes inside it so only
+ * those are rendered.
+ *
+ * @module renderer/utils/mapViewport
+ */
+
+import { HexCoord, Tile } from "../../types/model";
+import { HEX_SIZE, hexToPixel } from "./hexUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A rectangle in map (SVG) coordinates.
+ */
+export interface ViewBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Size of the map element on screen, in CSS pixels.
+ */
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Narrowest viewBox (most zoomed in). */
+export const MIN_VIEW_WIDTH = 200;
+
+/** Widest viewBox (most zoomed out). */
+export const MAX_VIEW_WIDTH = 3000;
+
+/** Above this many tiles, terrain is drawn on a canvas instead of as SVG. */
+export const CANVAS_TILE_THRESHOLD = 3000;
+
+const SQRT3 = Math.sqrt(3);
+
+// ============================================================================
+// COORDINATES
+// ============================================================================
+
+/**
+ * Area of the map on screen, including the margins `meet` scaling adds
+ * around the viewBox.
+ *
+ * @param viewBox - The SVG viewBox
+ * @param size - Element size (the viewBox is returned as is until measured)
+ * @returns Visible rectangle in map coordinates, centered on the viewBox
+ *
+ * @example
+ * // A 4:3 viewBox in a 2:1 element shows extra map on the left and right
+ * getVisibleRect({ x: 0, y: 0, w: 800, h: 600 }, { width: 1200, height: 600 });
+ * // { x: -200, y: 0, w: 1200, h: 600 }
+ */
+export const getVisibleRect = (viewBox: ViewBox, size: ViewportSize): ViewBox => {
+  if (size.width <= 0 || size.height <= 0) return viewBox;
+  const scale = Math.min(size.width / viewBox.w, size.height / viewBox.h);
+  const w = size.width / scale;
+  const h = size.height / scale;
+  return {
+    x: viewBox.x - (w - viewBox.w) / 2,
+    y: viewBox.y - (h - viewBox.h) / 2,
+    w,
+    h,
+  };
+};
+
+/**
+ * Map units per screen pixel at the current zoom.
+ *
+ * @param viewBox - The SVG viewBox
+ * @param size - Element size
+ * @returns Map units covered by one CSS pixel
+ */
+export const getUnitsPerPixel = (viewBox: ViewBox, size: ViewportSize): number =>
+  size.width > 0 ? getVisibleRect(viewBox, size).w / size.width : 1;
+
+/**
+ * Convert a point on the map element to map coordinates.
+ *
+ * @param point - Position relative to the element's top-left corner
+ * @param viewBox - The SVG viewBox
+ * @param size - Element size
+ * @returns The same point in map coordinates
+ *
+ * @example
+ * const rect = svg.getBoundingClientRect();
+ * const { x, y } = screenToMap({ x: e.clientX - rect.left, y: e.clientY - rect.top }, viewBox, size);
+ * const coord = pixelToHex(x, y);
+ */
+export const screenToMap = (
+  point: { x: number; y: number },
+  viewBox: ViewBox,
+  size: ViewportSize,
+): { x: number; y: number } => {
+  const visible = getVisibleRect(viewBox, size);
+  const unitsPerPixel = getUnitsPerPixel(viewBox, size);
+  return { x: visible.x + point.x * unitsPerPixel, y: visible.y + point.y * unitsPerPixel };
+};
+
+/**
+ * Convert a map point to a position on the map element.
+ * Inverse of {@link screenToMap}.
+ *
+ * @param point - Point in map coordinates
+ * @param viewBox - The SVG viewBox
+ * @param size - Element size
+ * @returns Position relative to the element's top-left corner
+ */
+export const mapToScreen = (
+  point: { x: number; y: number },
+  viewBox: ViewBox,
+  size: ViewportSize,
+): { x: number; y: number } => {
+  const visible = getVisibleRect(viewBox, size);
+  const unitsPerPixel = getUnitsPerPixel(viewBox, size);
+  return { x: (point.x - visible.x) / unitsPerPixel, y: (point.y - visible.y) / unitsPerPixel };
+};
+
+/**
+ * Zoom the viewBox by a factor, keeping the map point under the cursor fixed.
+ *
+ * The width is clamped to {@link MIN_VIEW_WIDTH}–{@link MAX_VIEW_WIDTH} and the
+ * height follows it, so the aspect ratio never changes.
+ *
+ * @param viewBox - Current viewBox
+ * @param size - Element size
+ * @param point - Cursor position relative to the element
+ * @param factor - Scale factor (> 1 zooms out)
+ * @returns The zoomed viewBox
+ */
+export const zoomViewBox = (
+  viewBox: ViewBox,
+  size: ViewportSize,
+  point: { x: number; y: number },
+  factor: number,
+): ViewBox => {
+  const w = Math.max(MIN_VIEW_WIDTH, Math.min(MAX_VIEW_WIDTH, viewBox.w * factor));
+  const scale = w / viewBox.w;
+  const h = viewBox.h * scale;
+
+  // Scale the visible area around the cursor, then recenter the viewBox in it
+  const anchor = screenToMap(point, viewBox, size);
+  const visible = getVisibleRect(viewBox, size);
+  const centerX = anchor.x + (visible.x + visible.w / 2 - anchor.x) * scale;
+  const centerY = anchor.y + (visible.y + visible.h / 2 - anchor.y) * scale;
+  return { x: centerX - w / 2, y: centerY - h / 2, w, h };
+};
+
+/**
+ * Move the viewBox so the visible area is centered on a map point.
+ *
+ * @param viewBox - Current viewBox (its size is kept)
+ * @param point - Map point to center on
+ * @returns The moved viewBox
+ *
+ * @example
+ * // Jump to a city
+ * setViewBox((prev) => centerViewBoxOn(prev, hexToPixel(city.location)));
+ */
+export const centerViewBoxOn = (viewBox: ViewBox, point: { x: number; y: number }): ViewBox => ({
+  ...viewBox,
+  x: point.x - viewBox.w / 2,
+  y: point.y - viewBox.h / 2,
+});
+
+// ============================================================================
+// CULLING
+// ============================================================================
+
+/**
+ * Check whether any part of a hex can be inside a rectangle.
+ *
+ * @param coord - Hex to check
+ * @param rect - Rectangle in map coordinates
+ * @param margin - Extra distance around the rectangle (default: one hex radius)
+ * @returns True if the hex's center is within `margin` of the rectangle
+ */
+export const isHexInRect = (coord: HexCoord, rect: ViewBox, margin = HEX_SIZE): boolean => {
+  const { x, y } = hexToPixel(coord);
+  return (
+    x >= rect.x - margin &&
+    x <= rect.x + rect.w + margin &&
+    y >= rect.y - margin &&
+    y <= rect.y + rect.h + margin
+  );
+};
+
+/**
+ * Pick the tiles that are at least partly inside a rectangle.
+ *
+ * @param tiles - Tiles to filter
+ * @param rect - Rectangle in map coordinates
+ * @returns Tiles in their original order
+ *
+ * @example
+ * const visible = getTilesInRect(tiles.values(), getVisibleRect(viewBox, size));
+ */
+export const getTilesInRect = (tiles: Iterable<Tile>, rect: ViewBox): Tile[] => {
+  const result: Tile[] = [];
+  for (const tile of tiles) {
+    if (isHexInRect(tile.coord, rect)) result.push(tile);
+  }
+  return result;
+};
+
+/**
+ * List every hex position that is at least partly inside a rectangle,
+ * whether or not a tile exists there.
+ *
+ * @param rect - Rectangle in map coordinates
+ * @returns Hex coordinates, column by column
+ */
+export const getHexesInRect = (rect: ViewBox): HexCoord[] => {
+  const coords: HexCoord[] = [];
+  const colWidth = HEX_SIZE * 1.5;
+  const rowHeight = HEX_SIZE * SQRT3;
+  const minQ = Math.floor((rect.x - HEX_SIZE) / colWidth);
+  const maxQ = Math.ceil((rect.x + rect.w + HEX_SIZE) / colWidth);
+
+  for (let q = minQ; q <= maxQ; q++) {
+    const minR = Math.floor((rect.y - HEX_SIZE) / rowHeight - q / 2);
+    const maxR = Math.ceil((rect.y + rect.h + HEX_SIZE) / rowHeight - q / 2);
+    for (let r = minR; r <= maxR; r++) {
+      if (isHexInRect({ q, r }, rect)) coords.push({ q, r });
+    }
+  }
+  return coords;
+};
+
+/**
+ * Bounding box of every tile, including the hexes' own extent.
+ *
+ * @param tiles - Tiles on the map
+ * @returns Rectangle in map coordinates, or null for an empty map
+ */
+export const getMapBounds = (tiles: Iterable<Tile>): ViewBox | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const tile of tiles) {
+    const { x, y } = hexToPixel(tile.coord);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  if (minX === Infinity) return null;
+  return {
+    x: minX - HEX_SIZE,
+    y: minY - HEX_SIZE,
+    w: maxX - minX + HEX_SIZE * 2,
+    h: maxY - minY + HEX_SIZE * 2,
+  };
+};
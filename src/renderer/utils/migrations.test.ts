@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { CURRENT_SCHEMA_VERSION } from "../../types/model";
+
+import { MIGRATIONS, SaveMigration, VersionedSave, migrateSave } from "./migrations";
+
+// A save as written before the expansion planner and research estimates existed
+function makeV1Save(): VersionedSave {
+  return {
+    schemaVersion: 1,
+    currentTurn: 30,
+    cities: [],
+    plannedSettlements: [{ id: "site", location: { q: 4, r: 0 } }],
+  };
+}
+
+describe("MIGRATIONS", () => {
+  it("has a step from every version before the current one", () => {
+    for (let version = 1; version < CURRENT_SCHEMA_VERSION; version++) {
+      expect(MIGRATIONS[version], `v${version}`).toBeDefined();
+    }
+  });
+
+  it("v1 → v2 fills in settlement status and research rates", () => {
+    expect(MIGRATIONS[1].migrate(makeV1Save())).toEqual({
+      schemaVersion: 2,
+      currentTurn: 30,
+      cities: [],
+      plannedSettlements: [{ id: "site", location: { q: 4, r: 0 }, status: "planned" }],
+      sciencePerTurn: 0,
+      culturePerTurn: 0,
+    });
+  });
+
+  it("v1 → v2 keeps values that are already there", () => {
+    const migrated = MIGRATIONS[1].migrate({
+      schemaVersion: 1,
+      sciencePerTurn: 12,
+      culturePerTurn: 7,
+      plannedSettlements: [{ id: "site", location: { q: 4, r: 0 }, status: "en_route" }],
+    });
+
+    expect(migrated).toMatchObject({
+      sciencePerTurn: 12,
+      culturePerTurn: 7,
+      plannedSettlements: [{ status: "en_route" }],
+    });
+    expect(MIGRATIONS[1].migrate({ schemaVersion: 1 })).toMatchObject({
+      plannedSettlements: [],
+    });
+  });
+
+  it("v2 → v3 merges settlement rationales into justifications", () => {
+    const migrated = MIGRATIONS[2].migrate({
+      schemaVersion: 2,
+      plannedSettlements: [
+        { id: "a", location: { q: 4, r: 0 }, status: "planned", rationale: "River" },
+        {
+          id: "b",
+          location: { q: 8, r: 0 },
+          status: "planned",
+          rationale: "Blocks Aztecs",
+          justification: "Shares 2 tiles",
+        },
+        { id: "c", location: { q: 12, r: 0 }, status: "planned" },
+      ],
+    });
+
+    expect(migrated).toEqual({
+      schemaVersion: 3,
+      plannedSettlements: [
+        { id: "a", location: { q: 4, r: 0 }, status: "planned", justification: "River" },
+        {
+          id: "b",
+          location: { q: 8, r: 0 },
+          status: "planned",
+          justification: "Blocks Aztecs; Shares 2 tiles",
+        },
+        { id: "c", location: { q: 12, r: 0 }, status: "planned" },
+      ],
+    });
+  });
+});
+
+describe("migrateSave", () => {
+  it("runs every step up to the current version", () => {
+    const { data, migratedFrom } = migrateSave(makeV1Save());
+
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.plannedSettlements[0].status).toBe("planned");
+    expect(migratedFrom).toBe(1);
+  });
+
+  it("returns current saves unchanged", () => {
+    const save = { schemaVersion: CURRENT_SCHEMA_VERSION, currentTurn: 5 };
+
+    const result = migrateSave(save);
+
+    expect(result.data).toBe(save);
+    expect(result.migratedFrom).toBeUndefined();
+  });
+
+  it("refuses saves from newer versions", () => {
+    expect(() => migrateSave({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(
+      `schema v${CURRENT_SCHEMA_VERSION + 1}; this version reads up to v${CURRENT_SCHEMA_VERSION}`,
+    );
+  });
+
+  it("fails on missing or broken steps", () => {
+    expect(() => migrateSave({ schemaVersion: 0 })).toThrow("No migration from schema v0");
+    expect(() => migrateSave({} as VersionedSave)).toThrow("no schema version");
+
+    const skipping: Record<number, SaveMigration> = {
+      1: { description: "Skips v2", migrate: (data) => ({ ...data, schemaVersion: 3 }) },
+    };
+    expect(() => migrateSave({ schemaVersion: 1 }, skipping)).toThrow(
+      "Migration from schema v1 didn't produce the next version",
+    );
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Schema migrations for save files.
+ *
+ * Each save records the `schemaVersion` it was written with. When the data
+ * model changes, `CURRENT_SCHEMA_VERSION` is bumped and a migration from the
+ * previous version is added to {@link MIGRATIONS}. Loading runs the steps in
+ * order (v1 → v2 → …) until the save reaches the current version. Each step
+ * is annotated with the save type it produces (`SaveV2`, …, and
+ * `SerializedGameState` for the last), so a step that misses a field fails
+ * the type-check.
+ *
+ * Saves from a newer version than this build are refused rather than loaded
+ * with fields it doesn't know about.
+ *
+ * @module renderer/utils/migrations
+ */
+
+import { CURRENT_SCHEMA_VERSION, PlannedSettlement, SerializedGameState } from "../../types/model";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A parsed save file at any schema version.
+ */
+export type VersionedSave = { schemaVersion: number } & Record<string, unknown>;
+
+/**
+ * One migration step, from the version it's registered under to the next.
+ */
+export interface SaveMigration {
+  /** What the step changes */
+  description: string;
+  /** Upgrade a save by one version */
+  migrate: (data: VersionedSave) => { schemaVersion: number };
+}
+
+/**
+ * A v2 save: settlements may still carry a `rationale` apart from their
+ * justification.
+ */
+type SaveV2 = Omit<SerializedGameState, "schemaVersion" | "plannedSettlements"> & {
+  schemaVersion: 2;
+  plannedSettlements: Array<PlannedSettlement & { rationale?: string }>;
+};
+
+/**
+ * A v1 save: settlements may have no status, and research rates weren't saved.
+ */
+type SaveV1 = Omit<
+  SaveV2,
+  "schemaVersion" | "plannedSettlements" | "sciencePerTurn" | "culturePerTurn"
+> & {
+  schemaVersion: 1;
+  plannedSettlements?: Array<
+    Omit<SaveV2["plannedSettlements"][number], "status"> & {
+      status?: PlannedSettlement["status"];
+    }
+  >;
+  sciencePerTurn?: number;
+  culturePerTurn?: number;
+};
+
+/**
+ * A save upgraded to the current schema version.
+ */
+export interface MigrationResult {
+  /** The save at `CURRENT_SCHEMA_VERSION` */
+  data: SerializedGameState;
+  /** Version the save was written with, if it had to be migrated */
+  migratedFrom?: number;
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Migration steps, keyed by the version they upgrade from.
+ */
+export const MIGRATIONS: Record<number, SaveMigration> = {
+  1: {
+    description: "Fill in planned settlements, their status and research rates",
+    migrate: (data): SaveV2 => {
+      const v1 = data as SaveV1;
+      return {
+        ...v1,
+        schemaVersion: 2,
+        plannedSettlements: (v1.plannedSettlements ?? []).map((site) => ({
+          ...site,
+          status: site.status ?? "planned",
+        })),
+        sciencePerTurn: v1.sciencePerTurn ?? 0,
+        culturePerTurn: v1.culturePerTurn ?? 0,
+      };
+    },
+  },
+  2: {
+    description: "Merge each planned settlement's rationale into its justification",
+    migrate: (data): SerializedGameState => {
+      const v2 = data as SaveV2;
+      return {
+        ...v2,
+        schemaVersion: 3,
+        plannedSettlements: v2.plannedSettlements.map(({ rationale, ...site }) => {
+          const justification = [rationale, site.justification].filter(Boolean).join("; ");
+          return justification ? { ...site, justification } : site;
+        }),
+      };
+    },
+  },
+};
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/**
+ * Check whether a save is at the current schema version.
+ *
+ * @param save - Save at any version
+ * @returns True if no migrations are left to run
+ */
+const isCurrentSave = (save: { schemaVersion: number }): save is SerializedGameState =>
+  save.schemaVersion === CURRENT_SCHEMA_VERSION;
+
+/**
+ * Upgrade a save to the current schema version, one step at a time.
+ *
+ * @param data - Parsed save file
+ * @param migrations - Steps to use (default: {@link MIGRATIONS})
+ * @returns The upgraded save and the version it started at, if it changed
+ * @throws If the save has no version, is newer than this build, or a step is
+ *   missing or skips a version
+ *
+ * @example
+ * const { data, migratedFrom } = migrateSave(JSON.parse(json));
+ * if (migratedFrom !== undefined) await window.electronAPI.backupSave();
+ * loadState(deserialize(data));
+ */
+export const migrateSave = (
+  data: VersionedSave,
+  migrations: Record<number, SaveMigration> = MIGRATIONS,
+): MigrationResult => {
+  const version = data.schemaVersion;
+  if (typeof version !== "number") {
+    throw new Error("Save file has no schema version");
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This save was written by a newer version of the planner (schema v${version}; ` +
+        `this version reads up to v${CURRENT_SCHEMA_VERSION}). Update the planner to open it.`,
+    );
+  }
+
+  let current: { schemaVersion: number } = data;
+  while (!isCurrentSave(current)) {
+    const step = migrations[current.schemaVersion];
+    if (!step) {
+      throw new Error(`No migration from schema v${current.schemaVersion}`);
+    }
+    const next = step.migrate(current);
+    if (next.schemaVersion !== current.schemaVersion + 1) {
+      throw new Error(
+        `Migration from schema v${current.schemaVersion} didn't produce the next version`,
+      );
+    }
+    current = next;
+  }
+
+  return {
+    data: current,
+    ...(version !== CURRENT_SCHEMA_VERSION && { migratedFrom: version }),
+  };
+};
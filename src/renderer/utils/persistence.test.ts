@@ -1,8 +1,9 @@
-import { describe, expect, it, vi } from "vitest";
+import { describe, expect, it } from "vitest";
 
 import type { GameState, SerializedGameState, Tile } from "../../types/model";
 import { CURRENT_SCHEMA_VERSION, coordKey } from "../../types/model";
 
+import { VersionedSave } from "./migrations";
 import { deserialize, serialize } from "./persistence";
 
 function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
@@ -48,6 +49,9 @@ function makeState(overrides: Partial<GameState> = {}): GameState {
     currentEra: "classical",
     tiles,
     cities: [],
+    plannedSettlements: [
+      { id: "settle-1", location: { q: 4, r: 0 }, status: "planned", justification: "River" },
+    ],
     completedTechs: new Set(["writing"]),
     completedCivics: new Set(["foreign_trade"]),
     currentTech: { techId: "apprenticeship", progress: 10, turnsRemaining: 5 },
@@ -60,6 +64,8 @@ function makeState(overrides: Partial<GameState> = {}): GameState {
     },
     gold: 123,
     faith: 45,
+    sciencePerTurn: 12,
+    culturePerTurn: 7,
     strategicResources: new Map([
       ["iron", 2],
       ["horses", 0],
@@ -102,25 +108,34 @@ describe("persistence", () => {
     expect(roundTripped.strategicResources).toBeInstanceOf(Map);
     expect(roundTripped.strategicResources.get("iron")).toBe(2);
 
+    expect(roundTripped.plannedSettlements).toEqual(state.plannedSettlements);
+
     expect(roundTripped.lastUpdated).toBeInstanceOf(Date);
     expect(roundTripped.lastUpdated.toISOString()).toBe("2020-01-01T00:00:00.000Z");
   });
 
-  it("deserialize warns on schema version mismatch", () => {
-    const state = makeState();
-    const serialized = serialize(state);
+  it("deserialize migrates saves from older schema versions", () => {
+    const v1: VersionedSave = {
+      ...serialize(makeState()),
+      schemaVersion: 1,
+      plannedSettlements: [{ id: "settle-1", location: { q: 4, r: 0 } }],
+    };
+    delete v1.sciencePerTurn;
+    delete v1.culturePerTurn;
 
-    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const state = deserialize(v1);
 
+    expect(state.plannedSettlements[0].status).toBe("planned");
+    expect(state.sciencePerTurn).toBe(0);
+    expect(state.culturePerTurn).toBe(0);
+  });
+
+  it("deserialize refuses saves from newer schema versions", () => {
     const mismatched: SerializedGameState = {
-      ...serialized,
+      ...serialize(makeState()),
       schemaVersion: CURRENT_SCHEMA_VERSION + 1,
     };
-    deserialize(mismatched);
-
-    expect(warnSpy).toHaveBeenCalledTimes(1);
-    expect(warnSpy.mock.calls[0]?.[0]).toContain("Schema version mismatch");
 
-    warnSpy.mockRestore();
+    expect(() => deserialize(mismatched)).toThrow("newer version of the planner");
   });
 });
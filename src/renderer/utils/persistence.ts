@@ -19,6 +19,7 @@
  */
 
 import { GameState, SerializedGameState, CURRENT_SCHEMA_VERSION, Tile } from "../../types/model";
+import { VersionedSave, migrateSave } from "./migrations";
 
 /**
  * Convert runtime GameState to a JSON-serializable format.
@@ -54,12 +55,15 @@ export const serialize = (state: GameState): SerializedGameState => {
     currentEra: state.currentEra,
     tiles: Array.from(state.tiles.entries()),
     cities: state.cities,
+    plannedSettlements: state.plannedSettlements,
     completedTechs: Array.from(state.completedTechs),
     completedCivics: Array.from(state.completedCivics),
     currentTech: state.currentTech,
     currentCivic: state.currentCivic,
     techQueue: state.techQueue,
     civicQueue: state.civicQueue,
+    sciencePerTurn: state.sciencePerTurn,
+    culturePerTurn: state.culturePerTurn,
     policyLoadout: state.policyLoadout,
     gold: state.gold,
     faith: state.faith,
@@ -73,8 +77,8 @@ export const serialize = (state: GameState): SerializedGameState => {
  * Convert serialized JSON data back to runtime GameState.
  *
  * Restores Map and Set objects from their array representations, and
- * parses ISO date strings back to Date objects. Handles schema version
- * checking and will log warnings for version mismatches.
+ * parses ISO date strings back to Date objects. Saves from older schema
+ * versions are migrated first; saves from newer versions are refused.
  *
  * Type conversions:
  * - `Array<[K, V]>` → `Map<K, V>`
@@ -83,6 +87,7 @@ export const serialize = (state: GameState): SerializedGameState => {
  *
  * @param data - The serialized game state from JSON.parse()
  * @returns A runtime GameState object ready for use in the store
+ * @throws If the save is from a newer schema version or can't be migrated
  *
  * @example
  * // Load from file
@@ -99,22 +104,17 @@ export const serialize = (state: GameState): SerializedGameState => {
  * });
  *
  * @remarks
- * Schema migrations should be handled in this function when breaking
- * changes are made to the data model. Check `data.schemaVersion` and
- * transform the data as needed before conversion.
+ * Schema migrations live in `migrations.ts`. Callers that overwrite the
+ * original file should call `migrateSave()` themselves first, so they can
+ * back it up when `migratedFrom` is set.
  *
  * @see serialize - The inverse operation
  * @see GameState - The output format
  * @see CURRENT_SCHEMA_VERSION - Current schema version constant
+ * @see migrateSave - The migration pipeline
  */
-export const deserialize = (data: SerializedGameState): GameState => {
-  // Handle schema migrations here as needed
-  if (data.schemaVersion !== CURRENT_SCHEMA_VERSION) {
-    console.warn(
-      `Schema version mismatch: file is v${data.schemaVersion}, current is v${CURRENT_SCHEMA_VERSION}`,
-    );
-    // Add migration logic here when schema changes
-  }
+export const deserialize = (save: SerializedGameState | VersionedSave): GameState => {
+  const { data } = migrateSave(save as VersionedSave);
 
   return {
     setup: data.setup,
@@ -122,12 +122,15 @@ export const deserialize = (data: SerializedGameState): GameState => {
     currentEra: data.currentEra,
     tiles: new Map(data.tiles as [string, Tile][]),
     cities: data.cities,
+    plannedSettlements: data.plannedSettlements,
     completedTechs: new Set(data.completedTechs),
     completedCivics: new Set(data.completedCivics),
     currentTech: data.currentTech,
     currentCivic: data.currentCivic,
     techQueue: data.techQueue,
     civicQueue: data.civicQueue,
+    sciencePerTurn: data.sciencePerTurn,
+    culturePerTurn: data.culturePerTurn,
     policyLoadout: data.policyLoadout,
     gold: data.gold,
     faith: data.faith,
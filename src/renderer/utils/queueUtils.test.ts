@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+
+import { reorderRespectingLocks, setQueueItemLocked } from "./queueUtils";
+
+const item = (id: string, isLocked = false) => ({ id, isLocked });
+
+describe("queueUtils", () => {
+  it("reorders unlocked items around locked ones", () => {
+    const queue = [item("a"), item("b", true), item("c")];
+
+    const next = reorderRespectingLocks(queue, "c", 0);
+
+    expect(next.map((i) => i.id)).toEqual(["c", "b", "a"]);
+    expect(next[1]).toBe(queue[1]);
+  });
+
+  it("is a no-op for locked or missing items", () => {
+    const queue = [item("a"), item("b", true), item("c")];
+
+    expect(reorderRespectingLocks(queue, "b", 0)).toBe(queue);
+    expect(reorderRespectingLocks(queue, "missing", 0)).toBe(queue);
+  });
+
+  it("clamps the target index to the queue bounds", () => {
+    const queue = [item("a"), item("b"), item("c")];
+
+    expect(reorderRespectingLocks(queue, "a", 99).map((i) => i.id)).toEqual(["b", "c", "a"]);
+  });
+
+  it("setQueueItemLocked updates only the matching item", () => {
+    const queue = [item("a"), item("b")];
+
+    const next = setQueueItemLocked(queue, "b", true);
+
+    expect(next[0]).toBe(queue[0]);
+    expect(next[1]).toEqual({ id: "b", isLocked: true });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Shared helpers for ordered, lockable queues.
+ *
+ * Build, tech, and civic queues all hold items with an `isLocked` flag.
+ * Locked items are pinned to their position: they can't be moved, and
+ * other items flow around them when reordered.
+ *
+ * @module renderer/utils/queueUtils
+ */
+
+/**
+ * Minimal shape of a lockable queue item.
+ */
+export interface LockableQueueItem {
+  /** Unique identifier for the queue entry */
+  id: string;
+  /** If true, the item keeps its position in the queue */
+  isLocked: boolean;
+}
+
+/**
+ * Move an item to a new index while keeping locked items at their positions.
+ *
+ * - Moving a locked item is a no-op
+ * - Unlocked items are reordered among the unlocked slots only
+ * - `newIndex` is clamped to the queue bounds
+ *
+ * @param queue - The queue to reorder
+ * @param itemId - ID of the item to move
+ * @param newIndex - Target position in the full queue
+ * @returns A new queue array, or the original array if nothing changed
+ *
+ * @example
+ * // [A, B(locked), C] → move C to index 0 → [C, B(locked), A]
+ * const next = reorderRespectingLocks(queue, "C", 0);
+ */
+export const reorderRespectingLocks = <T extends LockableQueueItem>(
+  queue: T[],
+  itemId: string,
+  newIndex: number,
+): T[] => {
+  const oldIndex = queue.findIndex((i) => i.id === itemId);
+  if (oldIndex === -1 || queue[oldIndex].isLocked) return queue;
+
+  const target = Math.max(0, Math.min(queue.length - 1, newIndex));
+  if (target === oldIndex) return queue;
+
+  // Reorder only the unlocked items, then put them back into the unlocked slots
+  const unlocked = queue.filter((i) => !i.isLocked);
+  const fromSlot = unlocked.findIndex((i) => i.id === itemId);
+  const toSlot = queue.slice(0, target + 1).filter((i) => !i.isLocked).length - 1;
+  const slotIndex = Math.max(0, toSlot);
+
+  const [item] = unlocked.splice(fromSlot, 1);
+  unlocked.splice(slotIndex, 0, item);
+
+  let next = 0;
+  return queue.map((i) => (i.isLocked ? i : unlocked[next++]));
+};
+
+/**
+ * Set the locked flag of a single queue item.
+ *
+ * @param queue - The queue to update
+ * @param itemId - ID of the item to lock/unlock
+ * @param locked - Whether the item should be locked
+ * @returns A new queue array with the item updated
+ */
+export const setQueueItemLocked = <T extends LockableQueueItem>(
+  queue: T[],
+  itemId: string,
+  locked: boolean,
+): T[] => queue.map((i) => (i.id === itemId ? { ...i, isLocked: locked } : i));
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import type { GameSetup } from "../../types/model";
+
+import { EUREKA_BOOST, estimateResearchOrder, estimateTechs } from "./researchEstimator";
+
+const setup: GameSetup = {
+  playerCiv: "korea",
+  playerLeader: "seondeok",
+  victoryType: "science",
+  gameSpeed: "standard",
+  dlc: {
+    gatheringStorm: true,
+    riseFall: true,
+    dramaticAges: false,
+    heroes: false,
+    secretSocieties: false,
+  },
+};
+
+describe("researchEstimator", () => {
+  it("estimateResearchOrder applies game speed and boosts cumulatively", () => {
+    const items = [
+      { baseCost: 100, progress: 20, boosted: false },
+      { baseCost: 100, progress: 0, boosted: true },
+    ];
+
+    // Epic: 150 - 20 = 130 -> 13 turns; then 150 * 0.6 = 90 -> 220 -> 22 turns
+    expect(estimateResearchOrder(items, 10, "epic", EUREKA_BOOST, 5)).toEqual([
+      { turnsRemaining: 13, projectedTurn: 18 },
+      { turnsRemaining: 22, projectedTurn: 27 },
+    ]);
+    expect(estimateResearchOrder(items, 0, "epic", EUREKA_BOOST, 5)).toEqual([]);
+  });
+
+  it("estimateTechs researches the current tech first, then the rest of the queue", () => {
+    const result = estimateTechs({
+      setup,
+      currentTurn: 10,
+      currentTech: { techId: "writing", progress: 10, turnsRemaining: 0 },
+      techQueue: [
+        { id: "q1", techId: "mining", isLocked: false },
+        { id: "q2", techId: "writing", isLocked: false },
+      ],
+      sciencePerTurn: 5,
+    });
+
+    // Writing: 50 - 10 = 40 -> 8 turns; Mining: 25 more -> 65 -> 13 turns
+    expect(result.currentTech?.turnsRemaining).toBe(8);
+    expect(result.techQueue.map((t) => [t.techId, t.turnsRemaining, t.projectedTurn])).toEqual([
+      ["mining", 13, 23],
+      ["writing", 8, 18],
+    ]);
+  });
+
+  it("estimateTechs uses the Eureka on a current tech that isn't queued", () => {
+    const result = estimateTechs({
+      setup,
+      currentTurn: 10,
+      currentTech: {
+        techId: "writing",
+        progress: 10,
+        turnsRemaining: 0,
+        eurekaProgress: { current: 1, required: 1, description: "Meet another civilization" },
+      },
+      techQueue: [{ id: "q1", techId: "mining", isLocked: false }],
+      sciencePerTurn: 5,
+    });
+
+    // Writing: 50 * 0.6 - 10 = 20 -> 4 turns; Mining: 25 more -> 45 -> 9 turns
+    expect(result.currentTech?.turnsRemaining).toBe(4);
+    expect(result.techQueue[0]).toMatchObject({ turnsRemaining: 9, projectedTurn: 19 });
+  });
+
+  it("estimateTechs skips tech IDs missing from the tree", () => {
+    const result = estimateTechs({
+      setup,
+      currentTurn: 10,
+      currentTech: { techId: "removed_tech", progress: 10, turnsRemaining: 3 },
+      techQueue: [
+        { id: "q1", techId: "unknown_tech", isLocked: false },
+        { id: "q2", techId: "mining", isLocked: false },
+      ],
+      sciencePerTurn: 5,
+    });
+
+    expect(result.currentTech?.turnsRemaining).toBe(3);
+    expect(result.techQueue.map((t) => [t.techId, t.turnsRemaining, t.projectedTurn])).toEqual([
+      ["unknown_tech", undefined, undefined],
+      ["mining", 5, 15],
+    ]);
+  });
+});
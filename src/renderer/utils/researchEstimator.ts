@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Turns-to-complete estimates for the tech and civic queues.
+ *
+ * Estimates are based on the empire's science/culture per turn, the game
+ * speed cost multiplier, and triggered Eureka (40%) or Inspiration (50%)
+ * boosts. The item currently being researched comes first, followed by the
+ * rest of the queue in order; overflow from one item carries into the next.
+ *
+ * @module renderer/utils/researchEstimator
+ */
+
+import { GameSpeed, GameState } from "../../types/model";
+import { getCivic } from "../data/civics";
+import { getTech } from "../data/techs";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Research cost multipliers by game speed (Standard = 1).
+ */
+export const GAME_SPEED_COST_MULTIPLIERS: Record<GameSpeed, number> = {
+  online: 0.5,
+  quick: 0.67,
+  standard: 1,
+  epic: 1.5,
+  marathon: 3,
+};
+
+/** Fraction of a technology's cost granted by its Eureka. */
+export const EUREKA_BOOST = 0.4;
+
+/** Fraction of a civic's cost granted by its Inspiration. */
+export const INSPIRATION_BOOST = 0.5;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One item to estimate, in research order.
+ */
+export interface ResearchEstimateInput {
+  /** Base cost on Standard speed */
+  baseCost: number;
+  /** Points already accumulated toward this item */
+  progress: number;
+  /** Whether the item's boost has been triggered */
+  boosted: boolean;
+}
+
+/**
+ * Estimated completion of one item.
+ */
+export interface ResearchEstimate {
+  /** Turns from now until the item completes */
+  turnsRemaining: number;
+  /** Turn number on which the item completes */
+  projectedTurn: number;
+}
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+/**
+ * Get the cost of a tech or civic after game speed and boost.
+ *
+ * @param baseCost - Base cost on Standard speed
+ * @param gameSpeed - Game speed setting
+ * @param boost - Fraction of the cost granted by a triggered boost (0 if none)
+ * @returns Effective cost, rounded to whole points
+ *
+ * @example
+ * getResearchCost(275, "epic", EUREKA_BOOST); // 248
+ */
+export const getResearchCost = (baseCost: number, gameSpeed: GameSpeed, boost = 0): number =>
+  Math.round(baseCost * GAME_SPEED_COST_MULTIPLIERS[gameSpeed] * (1 - boost));
+
+/**
+ * Estimate when each item in a research order completes.
+ *
+ * @param items - Items in research order
+ * @param perTurn - Science or culture per turn
+ * @param gameSpeed - Game speed setting
+ * @param boost - Boost fraction for triggered items (EUREKA_BOOST or INSPIRATION_BOOST)
+ * @param currentTurn - The current turn number
+ * @returns One estimate per item, or an empty array if perTurn is not positive
+ */
+export const estimateResearchOrder = (
+  items: ResearchEstimateInput[],
+  perTurn: number,
+  gameSpeed: GameSpeed,
+  boost: number,
+  currentTurn: number,
+): ResearchEstimate[] => {
+  if (perTurn <= 0) return [];
+
+  let cumulative = 0;
+  return items.map((item) => {
+    const cost = getResearchCost(item.baseCost, gameSpeed, item.boosted ? boost : 0);
+    cumulative += Math.max(0, cost - item.progress);
+    const turnsRemaining = Math.max(1, Math.ceil(cumulative / perTurn));
+    return { turnsRemaining, projectedTurn: currentTurn + turnsRemaining };
+  });
+};
+
+// ============================================================================
+// STATE HELPERS
+// ============================================================================
+
+type TechEstimateState = Pick<
+  GameState,
+  "setup" | "currentTurn" | "currentTech" | "techQueue" | "sciencePerTurn"
+>;
+type CivicEstimateState = Pick<
+  GameState,
+  "setup" | "currentTurn" | "currentCivic" | "civicQueue" | "culturePerTurn"
+>;
+
+const isBoosted = (boost?: { current: number; required: number }): boolean =>
+  !!boost && boost.current >= boost.required;
+
+/**
+ * Fill in turn estimates for the current tech and every tech queue entry.
+ *
+ * The current tech is researched first, then the rest of the queue in order.
+ * The current tech's Eureka comes from its queue entry, or from the current
+ * tech itself when it isn't queued. Queue estimates are cleared when science
+ * per turn is zero; the current tech's turns remaining is then left as
+ * entered. Unknown tech IDs are skipped and get no estimate.
+ *
+ * @param state - Research-related slice of the game state
+ * @returns Updated currentTech and techQueue
+ */
+export const estimateTechs = (
+  state: TechEstimateState,
+): Pick<GameState, "currentTech" | "techQueue"> => {
+  const { currentTech, techQueue, sciencePerTurn, setup, currentTurn } = state;
+  const currentEntry = techQueue.find((t) => t.techId === currentTech?.techId);
+  // Techs missing from the tree (e.g. from a stale save) get no estimate
+  const order = [
+    ...(currentTech
+      ? [
+          {
+            techId: currentTech.techId,
+            progress: currentTech.progress,
+            boost: currentEntry?.eurekaProgress ?? currentTech.eurekaProgress,
+          },
+        ]
+      : []),
+    ...techQueue
+      .filter((t) => t !== currentEntry)
+      .map((t) => ({ techId: t.techId, progress: 0, boost: t.eurekaProgress })),
+  ].flatMap((o) => {
+    const tech = getTech(o.techId);
+    return tech ? [{ ...o, baseCost: tech.cost }] : [];
+  });
+
+  const estimates = estimateResearchOrder(
+    order.map((o) => ({
+      baseCost: o.baseCost,
+      progress: o.progress,
+      boosted: isBoosted(o.boost),
+    })),
+    sciencePerTurn,
+    setup.gameSpeed,
+    EUREKA_BOOST,
+    currentTurn,
+  );
+  const byTechId = new Map(order.map((o, i) => [o.techId, estimates[i]]));
+  const currentEstimate = currentTech && byTechId.get(currentTech.techId);
+
+  return {
+    currentTech:
+      currentTech && currentEstimate
+        ? { ...currentTech, turnsRemaining: currentEstimate.turnsRemaining }
+        : currentTech,
+    techQueue: techQueue.map((t) => ({
+      ...t,
+      turnsRemaining: byTechId.get(t.techId)?.turnsRemaining,
+      projectedTurn: byTechId.get(t.techId)?.projectedTurn,
+    })),
+  };
+};
+
+/**
+ * Fill in turn estimates for the current civic and every civics queue entry.
+ *
+ * @param state - Civic-related slice of the game state
+ * @returns Updated currentCivic and civicQueue
+ *
+ * @see estimateTechs - Same rules, applied to the tech queue
+ */
+export const estimateCivics = (
+  state: CivicEstimateState,
+): Pick<GameState, "currentCivic" | "civicQueue"> => {
+  const { currentCivic, civicQueue, culturePerTurn, setup, currentTurn } = state;
+  const currentEntry = civicQueue.find((c) => c.civicId === currentCivic?.civicId);
+  const order = [
+    ...(currentCivic
+      ? [
+          {
+            civicId: currentCivic.civicId,
+            progress: currentCivic.progress,
+            boost: currentEntry?.inspirationProgress ?? currentCivic.inspirationProgress,
+          },
+        ]
+      : []),
+    ...civicQueue
+      .filter((c) => c !== currentEntry)
+      .map((c) => ({ civicId: c.civicId, progress: 0, boost: c.inspirationProgress })),
+  ].flatMap((o) => {
+    const civic = getCivic(o.civicId);
+    return civic ? [{ ...o, baseCost: civic.cost }] : [];
+  });
+
+  const estimates = estimateResearchOrder(
+    order.map((o) => ({
+      baseCost: o.baseCost,
+      progress: o.progress,
+      boosted: isBoosted(o.boost),
+    })),
+    culturePerTurn,
+    setup.gameSpeed,
+    INSPIRATION_BOOST,
+    currentTurn,
+  );
+  const byCivicId = new Map(order.map((o, i) => [o.civicId, estimates[i]]));
+  const currentEstimate = currentCivic && byCivicId.get(currentCivic.civicId);
+
+  return {
+    currentCivic:
+      currentCivic && currentEstimate
+        ? { ...currentCivic, turnsRemaining: currentEstimate.turnsRemaining }
+        : currentCivic,
+    civicQueue: civicQueue.map((c) => ({
+      ...c,
+      turnsRemaining: byCivicId.get(c.civicId)?.turnsRemaining,
+      projectedTurn: byCivicId.get(c.civicId)?.projectedTurn,
+    })),
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveQueueAdditions, validateQueueOrder } from "./researchQueue";
+
+const tree: Record<string, string[]> = {
+  a: [],
+  b: ["a"],
+  c: ["a"],
+  d: ["b", "c"],
+};
+const getPrerequisites = (id: string) => tree[id] ?? [];
+
+describe("researchQueue", () => {
+  it("resolveQueueAdditions orders prerequisites before the target", () => {
+    expect(resolveQueueAdditions("d", getPrerequisites, new Set(), new Set())).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+  });
+
+  it("resolveQueueAdditions skips completed and queued items", () => {
+    expect(resolveQueueAdditions("d", getPrerequisites, new Set(["a"]), new Set(["c"]))).toEqual([
+      "b",
+      "d",
+    ]);
+    expect(resolveQueueAdditions("b", getPrerequisites, new Set(["b"]), new Set())).toEqual([]);
+  });
+
+  it("validateQueueOrder flags items queued before their prerequisites", () => {
+    const queue = [
+      { itemId: "q1", researchId: "b" },
+      { itemId: "q2", researchId: "a" },
+      { itemId: "q3", researchId: "c" },
+    ];
+
+    expect(validateQueueOrder(queue, getPrerequisites, new Set())).toEqual([
+      { itemId: "q1", researchId: "b", missingPrerequisites: ["a"] },
+    ]);
+    expect(validateQueueOrder(queue, getPrerequisites, new Set(["a"]))).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Prerequisite-aware helpers for the tech and civic queues.
+ *
+ * Both research trees are directed acyclic graphs where each node lists its
+ * prerequisites. These helpers expand a queued item into the missing
+ * prerequisites it depends on and check that a queue is ordered so every
+ * item comes after its prerequisites.
+ *
+ * The functions are tree-agnostic: callers pass a prerequisite lookup for the
+ * tech tree or the civics tree.
+ *
+ * @module renderer/utils/researchQueue
+ */
+
+import { QueuedCivic, QueuedTech } from "../../types/model";
+import { getCivic, getCivicPrerequisites } from "../data/civics";
+import { getTech, getTechPrerequisites } from "../data/techs";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Returns the prerequisite IDs of a tech or civic.
+ * Unknown IDs should return an empty array.
+ */
+export type PrerequisiteLookup = (id: string) => string[];
+
+/**
+ * A queue entry placed before one or more of its prerequisites.
+ */
+export interface QueueOrderIssue {
+  /** Queue entry ID of the misplaced item */
+  itemId: string;
+  /** Tech or civic ID of the misplaced item */
+  researchId: string;
+  /** Prerequisites that are neither completed nor queued before this item */
+  missingPrerequisites: string[];
+}
+
+// ============================================================================
+// QUEUE EXPANSION
+// ============================================================================
+
+/**
+ * Resolve the research IDs to append to a queue when queuing a target.
+ *
+ * Walks the prerequisite graph depth-first and returns the target together
+ * with every prerequisite that is neither completed nor already queued,
+ * ordered so that each ID comes after its own prerequisites.
+ *
+ * @param targetId - Tech or civic the player wants to queue
+ * @param getPrerequisites - Prerequisite lookup for the tree
+ * @param completed - IDs that are already researched
+ * @param queued - IDs that are already in the queue
+ * @returns IDs to append, in order (empty if the target is completed or queued)
+ *
+ * @example
+ * // Only Pottery is completed
+ * resolveQueueAdditions("currency", getTechPrerequisites, completedTechs, new Set());
+ * // ["writing", "currency"]
+ */
+export const resolveQueueAdditions = (
+  targetId: string,
+  getPrerequisites: PrerequisiteLookup,
+  completed: Set<string>,
+  queued: Set<string>,
+): string[] => {
+  const result: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string) => {
+    if (visited.has(id) || completed.has(id) || queued.has(id)) return;
+    visited.add(id);
+    for (const prereq of getPrerequisites(id)) {
+      visit(prereq);
+    }
+    result.push(id);
+  };
+
+  visit(targetId);
+  return result;
+};
+
+// ============================================================================
+// ORDER VALIDATION
+// ============================================================================
+
+/**
+ * Find queue entries that come before any of their prerequisites.
+ *
+ * A prerequisite is satisfied if it is completed or queued earlier. Missing
+ * prerequisites that aren't queued at all are reported too.
+ *
+ * @param queue - Queue entries in order, with their tech/civic IDs
+ * @param getPrerequisites - Prerequisite lookup for the tree
+ * @param completed - IDs that are already researched
+ * @returns One issue per misplaced entry (empty if the order is valid)
+ */
+export const validateQueueOrder = (
+  queue: Array<{ itemId: string; researchId: string }>,
+  getPrerequisites: PrerequisiteLookup,
+  completed: Set<string>,
+): QueueOrderIssue[] => {
+  const issues: QueueOrderIssue[] = [];
+  const available = new Set(completed);
+
+  for (const { itemId, researchId } of queue) {
+    const missingPrerequisites = getPrerequisites(researchId).filter((p) => !available.has(p));
+    if (missingPrerequisites.length > 0) {
+      issues.push({ itemId, researchId, missingPrerequisites });
+    }
+    available.add(researchId);
+  }
+
+  return issues;
+};
+
+// ============================================================================
+// TECH QUEUE
+// ============================================================================
+
+/**
+ * Build the entries to append to the tech queue when queuing a technology,
+ * including any missing prerequisites with their Eureka progress filled in.
+ *
+ * @param techId - Technology to queue
+ * @param techQueue - The current tech queue
+ * @param completedTechs - Technologies already researched
+ * @param createId - Generates a queue entry ID
+ * @returns New queue entries, prerequisites first
+ */
+export const buildTechQueueAdditions = (
+  techId: string,
+  techQueue: QueuedTech[],
+  completedTechs: Set<string>,
+  createId: () => string,
+): QueuedTech[] => {
+  const queued = new Set(techQueue.map((t) => t.techId));
+  return resolveQueueAdditions(techId, getTechPrerequisites, completedTechs, queued).map((id) => {
+    const eureka = getTech(id)?.eureka;
+    return {
+      id: createId(),
+      techId: id,
+      ...(eureka && { eurekaProgress: { current: 0, ...eureka } }),
+      isLocked: false,
+    };
+  });
+};
+
+/**
+ * Find technologies queued before their prerequisites.
+ *
+ * @param techQueue - The tech queue in order
+ * @param completedTechs - Technologies already researched
+ * @returns Order issues for misplaced queue entries
+ */
+export const getTechQueueIssues = (
+  techQueue: QueuedTech[],
+  completedTechs: Set<string>,
+): QueueOrderIssue[] =>
+  validateQueueOrder(
+    techQueue.map((t) => ({ itemId: t.id, researchId: t.techId })),
+    getTechPrerequisites,
+    completedTechs,
+  );
+
+// ============================================================================
+// CIVIC QUEUE
+// ============================================================================
+
+/**
+ * Build the entries to append to the civics queue when queuing a civic,
+ * including any missing prerequisites with their Inspiration progress filled in.
+ *
+ * @param civicId - Civic to queue
+ * @param civicQueue - The current civics queue
+ * @param completedCivics - Civics already completed
+ * @param createId - Generates a queue entry ID
+ * @returns New queue entries, prerequisites first
+ */
+export const buildCivicQueueAdditions = (
+  civicId: string,
+  civicQueue: QueuedCivic[],
+  completedCivics: Set<string>,
+  createId: () => string,
+): QueuedCivic[] => {
+  const queued = new Set(civicQueue.map((c) => c.civicId));
+  return resolveQueueAdditions(civicId, getCivicPrerequisites, completedCivics, queued).map(
+    (id) => {
+      const inspiration = getCivic(id)?.inspiration;
+      return {
+        id: createId(),
+        civicId: id,
+        ...(inspiration && { inspirationProgress: { current: 0, ...inspiration } }),
+        isLocked: false,
+      };
+    },
+  );
+};
+
+/**
+ * Find civics queued before their prerequisites.
+ *
+ * @param civicQueue - The civics queue in order
+ * @param completedCivics - Civics already completed
+ * @returns Order issues for misplaced queue entries
+ */
+export const getCivicQueueIssues = (
+  civicQueue: QueuedCivic[],
+  completedCivics: Set<string>,
+): QueueOrderIssue[] =>
+  validateQueueOrder(
+    civicQueue.map((c) => ({ itemId: c.id, researchId: c.civicId })),
+    getCivicPrerequisites,
+    completedCivics,
+  );
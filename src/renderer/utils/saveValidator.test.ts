@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, SerializedGameState, Tile } from "../../types/model";
+import { CURRENT_SCHEMA_VERSION, coordKey } from "../../types/model";
+
+import { repairSave, validateSave } from "./saveValidator";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: "grassland",
+    features: [],
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    owningCityId: partial.owningCityId,
+    isPillaged: false,
+    plannedStates: partial.plannedStates ?? [],
+    isLocked: false,
+  };
+}
+
+function makeCity(partial: Partial<City> & Pick<City, "id" | "name">): City {
+  return {
+    id: partial.id,
+    name: partial.name,
+    location: { q: 0, r: 0 },
+    population: 2,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+    ],
+    workedTiles: partial.workedTiles ?? [{ q: 1, r: 0 }],
+    districts: [],
+    buildQueue: partial.buildQueue ?? [],
+    plannedDistricts: partial.plannedDistricts ?? [],
+  };
+}
+
+function makeSave(overrides: Partial<SerializedGameState> = {}): SerializedGameState {
+  const tiles = [
+    makeTile({ coord: { q: 0, r: 0 }, owningCityId: "seoul" }),
+    makeTile({ coord: { q: 1, r: 0 }, owningCityId: "seoul" }),
+  ];
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    setup: {
+      playerCiv: "korea",
+      playerLeader: "seondeok",
+      victoryType: "science",
+      gameSpeed: "standard",
+      dlc: {
+        gatheringStorm: true,
+        riseFall: true,
+        dramaticAges: false,
+        heroes: false,
+        secretSocieties: false,
+      },
+    },
+    currentTurn: 40,
+    currentEra: "classical",
+    tiles: tiles.map((t) => [coordKey(t.coord), t]),
+    cities: [makeCity({ id: "seoul", name: "Seoul" })],
+    plannedSettlements: [],
+    sciencePerTurn: 0,
+    culturePerTurn: 0,
+    completedTechs: [],
+    completedCivics: [],
+    techQueue: [],
+    civicQueue: [],
+    policyLoadout: { government: "chiefdom", slots: [] },
+    gold: 0,
+    faith: 0,
+    strategicResources: [],
+    aiCivs: [],
+    lastUpdated: "2020-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// One problem of every kind
+function makeBrokenSave(): SerializedGameState {
+  const save = makeSave();
+  return {
+    ...save,
+    tiles: [
+      save.tiles[0],
+      ["9,9", makeTile({ coord: { q: 1, r: 0 }, riverEdges: [true, false] })],
+      [
+        "2,0",
+        makeTile({
+          coord: { q: 2, r: 0 },
+          owningCityId: "gone",
+          plannedStates: [
+            {
+              id: "plan-1",
+              trigger: { type: "population", cityId: "gone", pop: 5 },
+              action: { type: "remove_feature" },
+            },
+          ],
+        }),
+      ],
+    ],
+    cities: [
+      makeCity({
+        id: "seoul",
+        name: "Seoul",
+        workedTiles: [
+          { q: 1, r: 0 },
+          { q: 3, r: 0 },
+        ],
+        buildQueue: [{ id: "plan-1", type: "unit", itemId: "builder", isLocked: false }],
+      }),
+    ],
+    plannedSettlements: [
+      { id: "site", location: { q: 6, r: 0 }, status: "in_production", producingCityId: "gone" },
+    ],
+  };
+}
+
+describe("validateSave", () => {
+  it("reports nothing for a consistent save", () => {
+    expect(validateSave(makeSave())).toEqual({ issues: [], counts: {} });
+  });
+
+  it("finds bad keys, edges, worked tiles, missing cities and duplicate ids", () => {
+    const report = validateSave(makeBrokenSave());
+
+    expect(report.counts).toEqual({
+      tile_key: 1,
+      river_edges: 1,
+      worked_tile: 1,
+      missing_city: 3,
+      duplicate_id: 1,
+    });
+    expect(report.issues.map((i) => i.message)).toEqual([
+      'Tile (1, 0) is stored under "9,9".',
+      "Tile (1, 0) has 2 river edges instead of 6.",
+      "Seoul works (3, 0) outside its borders.",
+      "Tile (2, 0) is owned by a missing city (gone).",
+      "A plan on tile (2, 0) waits on a missing city (gone).",
+      "The settler for (6, 0) is built by a missing city (gone).",
+      "Plan on tile 2,0 reuses the id of Seoul build item builder (plan-1).",
+    ]);
+  });
+});
+
+describe("repairSave", () => {
+  it("fixes every problem when asked for all fixes", () => {
+    const broken = makeBrokenSave();
+    const repaired = repairSave(broken);
+
+    expect(validateSave(repaired).issues).toEqual([]);
+    expect(repaired.tiles.map(([key]) => key)).toEqual(["0,0", "1,0", "2,0"]);
+    expect(repaired.tiles[1][1].riverEdges).toEqual([true, false, false, false, false, false]);
+    expect(repaired.tiles[2][1].owningCityId).toBeUndefined();
+    expect(repaired.tiles[2][1].plannedStates[0].trigger).toEqual({ type: "manual" });
+    expect(repaired.tiles[2][1].plannedStates[0].id).not.toBe("plan-1");
+    expect(repaired.cities[0].buildQueue[0].id).toBe("plan-1");
+    expect(repaired.cities[0].workedTiles).toEqual([{ q: 1, r: 0 }]);
+    expect(repaired.plannedSettlements[0]).toMatchObject({ status: "planned" });
+    expect(repaired.plannedSettlements[0].producingCityId).toBeUndefined();
+    // The input is left alone
+    expect(validateSave(broken).issues).toHaveLength(7);
+  });
+
+  it("only applies the chosen fixes", () => {
+    const repaired = repairSave(makeBrokenSave(), ["worked_tile", "river_edges"]);
+
+    expect(validateSave(repaired).counts).toEqual({
+      tile_key: 1,
+      missing_city: 3,
+      duplicate_id: 1,
+    });
+  });
+
+  it("drops a misfiled copy of a tile that is already stored under its key", () => {
+    const save = makeSave();
+    const repaired = repairSave(
+      { ...save, tiles: [...save.tiles, ["5,5", makeTile({ coord: { q: 0, r: 0 } })]] },
+      ["tile_key"],
+    );
+
+    expect(repaired.tiles.map(([key]) => key)).toEqual(["0,0", "1,0"]);
+    expect(repaired.tiles[0][1].owningCityId).toBe("seoul");
+  });
+});
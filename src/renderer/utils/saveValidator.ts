@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Integrity checks and repairs for save files.
+ *
+ * `deserialize()` trusts its input, so a hand-edited or partly corrupted save
+ * loads with references that point nowhere. This module checks a
+ * `SerializedGameState` for those problems and repairs them:
+ *
+ * - Tiles stored under a key that doesn't match `coordKey(coord)`
+ * - `riverEdges` arrays that don't have one entry per hex edge
+ * - `workedTiles` outside the city's `ownedTiles`
+ * - City references (population triggers, tile owners, settler producers)
+ *   pointing at cities that don't exist
+ * - The same id used by more than one entity
+ *
+ * Each kind of problem has one fix, so the report can offer them as options.
+ *
+ * @module renderer/utils/saveValidator
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { HexCoord, SerializedGameState, StateTrigger, Tile, coordKey } from "../../types/model";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Kinds of save problems. Each has one fix in {@link SAVE_ISSUE_FIXES}.
+ */
+export type SaveIssueKind =
+  "tile_key" | "river_edges" | "worked_tile" | "missing_city" | "duplicate_id";
+
+/**
+ * A problem found in a save file.
+ */
+export interface SaveIssue {
+  /** What's wrong */
+  kind: SaveIssueKind;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of checking a save file.
+ */
+export interface SaveReport {
+  /** Every problem found, grouped by kind */
+  issues: SaveIssue[];
+  /** Number of issues of each kind that was found */
+  counts: Partial<Record<SaveIssueKind, number>>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Hex edges per tile. */
+const EDGE_COUNT = 6;
+
+/**
+ * What each fix does, for display next to the option.
+ */
+export const SAVE_ISSUE_FIXES: Record<SaveIssueKind, string> = {
+  tile_key: "Re-key tiles by their coordinates (dropping copies of a tile already stored)",
+  river_edges: "Pad or trim river edges to 6 entries",
+  worked_tile: "Stop working tiles outside the city's borders",
+  missing_city:
+    "Make population triggers manual and clear owners and settler producers that don't exist",
+  duplicate_id: "Give repeated ids a new id (references keep pointing at the first)",
+};
+
+const ISSUE_ORDER = Object.keys(SAVE_ISSUE_FIXES) as SaveIssueKind[];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const formatCoord = (coord: HexCoord): string => `(${coord.q}, ${coord.r})`;
+
+const hasValidEdges = (tile: Tile): boolean =>
+  Array.isArray(tile.riverEdges) && tile.riverEdges.length === EDGE_COUNT;
+
+/**
+ * Visit every entity id in the save, in save order.
+ */
+const forEachId = (data: SerializedGameState, visit: (id: string, label: string) => void): void => {
+  data.cities.forEach((city) => {
+    visit(city.id, `City ${city.name}`);
+    city.buildQueue.forEach((item) => visit(item.id, `${city.name} build item ${item.itemId}`));
+  });
+  data.tiles.forEach(([key, tile]) =>
+    tile.plannedStates.forEach((plan) => visit(plan.id, `Plan on tile ${key}`)),
+  );
+  data.plannedSettlements.forEach((site) =>
+    visit(site.id, `Planned city at ${formatCoord(site.location)}`),
+  );
+  data.techQueue.forEach((t) => visit(t.id, `Queued tech ${t.techId}`));
+  data.civicQueue.forEach((c) => visit(c.id, `Queued civic ${c.civicId}`));
+  data.aiCivs.forEach((civ) => visit(civ.id, `AI civ ${civ.civName}`));
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a save file for broken references and malformed tiles.
+ *
+ * @param data - Parsed save file
+ * @returns Issues found, grouped by kind, with counts
+ *
+ * @example
+ * const report = validateSave(JSON.parse(json));
+ * if (report.issues.length > 0) console.warn(report.issues.map((i) => i.message));
+ */
+export const validateSave = (data: SerializedGameState): SaveReport => {
+  const issues: SaveIssue[] = [];
+  const add = (kind: SaveIssueKind, message: string) => issues.push({ kind, message });
+  const cityIds = new Set(data.cities.map((c) => c.id));
+
+  const checkTrigger = (trigger: StateTrigger, where: string) => {
+    if (trigger.type === "population" && !cityIds.has(trigger.cityId)) {
+      add("missing_city", `${where} waits on a missing city (${trigger.cityId}).`);
+    }
+  };
+
+  data.tiles.forEach(([key, tile]) => {
+    const where = formatCoord(tile.coord);
+    if (key !== coordKey(tile.coord)) {
+      add("tile_key", `Tile ${where} is stored under "${key}".`);
+    }
+    if (!hasValidEdges(tile)) {
+      const length = Array.isArray(tile.riverEdges) ? tile.riverEdges.length : 0;
+      add("river_edges", `Tile ${where} has ${length} river edges instead of ${EDGE_COUNT}.`);
+    }
+    if (tile.owningCityId && !cityIds.has(tile.owningCityId)) {
+      add("missing_city", `Tile ${where} is owned by a missing city (${tile.owningCityId}).`);
+    }
+    tile.plannedStates.forEach((plan) => checkTrigger(plan.trigger, `A plan on tile ${where}`));
+  });
+
+  data.cities.forEach((city) => {
+    const owned = new Set(city.ownedTiles.map(coordKey));
+    city.workedTiles
+      .filter((t) => !owned.has(coordKey(t)))
+      .forEach((t) =>
+        add("worked_tile", `${city.name} works ${formatCoord(t)} outside its borders.`),
+      );
+    city.plannedDistricts.forEach((planned) =>
+      checkTrigger(planned.trigger, `${city.name}'s planned ${planned.type}`),
+    );
+  });
+
+  data.plannedSettlements.forEach((site) => {
+    if (site.producingCityId && !cityIds.has(site.producingCityId)) {
+      add(
+        "missing_city",
+        `The settler for ${formatCoord(site.location)} is built by a missing city (${site.producingCityId}).`,
+      );
+    }
+  });
+
+  const seen = new Map<string, string>();
+  forEachId(data, (id, label) => {
+    const first = seen.get(id);
+    if (first) {
+      add("duplicate_id", `${label} reuses the id of ${first} (${id}).`);
+    } else {
+      seen.set(id, label);
+    }
+  });
+
+  issues.sort((a, b) => ISSUE_ORDER.indexOf(a.kind) - ISSUE_ORDER.indexOf(b.kind));
+  const counts: SaveReport["counts"] = {};
+  issues.forEach((issue) => (counts[issue.kind] = (counts[issue.kind] ?? 0) + 1));
+  return { issues, counts };
+};
+
+// ============================================================================
+// REPAIR
+// ============================================================================
+
+/**
+ * Apply the fixes for the chosen kinds of problems.
+ *
+ * See {@link SAVE_ISSUE_FIXES} for what each fix does. The input is not
+ * modified.
+ *
+ * @param data - Parsed save file
+ * @param kinds - Kinds of problems to fix (default: all)
+ * @returns Repaired save file
+ *
+ * @example
+ * const report = validateSave(data);
+ * const fixed = repairSave(data, ["worked_tile", "river_edges"]);
+ * const state = deserialize(fixed);
+ */
+export const repairSave = (
+  data: SerializedGameState,
+  kinds: SaveIssueKind[] = ISSUE_ORDER,
+): SerializedGameState => {
+  const fix = new Set(kinds);
+  const cityIds = new Set(data.cities.map((c) => c.id));
+  const fixTrigger = (trigger: StateTrigger): StateTrigger =>
+    fix.has("missing_city") && trigger.type === "population" && !cityIds.has(trigger.cityId)
+      ? { type: "manual" }
+      : trigger;
+
+  let tiles = data.tiles.map(([key, tile]): [string, Tile] => {
+    let repaired = tile;
+    if (fix.has("river_edges") && !hasValidEdges(tile)) {
+      const edges = Array.isArray(tile.riverEdges) ? tile.riverEdges : [];
+      repaired = {
+        ...repaired,
+        riverEdges: Array.from({ length: EDGE_COUNT }, (_, i) => edges[i] ?? false),
+      };
+    }
+    if (fix.has("missing_city") && tile.owningCityId && !cityIds.has(tile.owningCityId)) {
+      repaired = { ...repaired, owningCityId: undefined };
+    }
+    if (fix.has("missing_city")) {
+      repaired = {
+        ...repaired,
+        plannedStates: repaired.plannedStates.map((p) => ({
+          ...p,
+          trigger: fixTrigger(p.trigger),
+        })),
+      };
+    }
+    return [key, repaired];
+  });
+
+  if (fix.has("tile_key")) {
+    const correct = new Set(tiles.filter(([key, t]) => key === coordKey(t.coord)).map(([k]) => k));
+    const rekeyed = new Set<string>();
+    tiles = tiles.flatMap(([key, tile]): Array<[string, Tile]> => {
+      const expected = coordKey(tile.coord);
+      if (key === expected) return [[key, tile]];
+      if (correct.has(expected) || rekeyed.has(expected)) return [];
+      rekeyed.add(expected);
+      return [[expected, tile]];
+    });
+  }
+
+  let cities = data.cities.map((city) => {
+    const owned = new Set(city.ownedTiles.map(coordKey));
+    return {
+      ...city,
+      workedTiles: fix.has("worked_tile")
+        ? city.workedTiles.filter((t) => owned.has(coordKey(t)))
+        : city.workedTiles,
+      plannedDistricts: city.plannedDistricts.map((p) => ({
+        ...p,
+        trigger: fixTrigger(p.trigger),
+      })),
+    };
+  });
+
+  let plannedSettlements = data.plannedSettlements.map((site) =>
+    fix.has("missing_city") && site.producingCityId && !cityIds.has(site.producingCityId)
+      ? {
+          ...site,
+          producingCityId: undefined,
+          status: site.status === "in_production" ? ("planned" as const) : site.status,
+        }
+      : site,
+  );
+
+  let { techQueue, civicQueue, aiCivs } = data;
+  if (fix.has("duplicate_id")) {
+    const seen = new Set<string>();
+    const unique = <T extends { id: string }>(item: T): T => {
+      if (!seen.has(item.id)) {
+        seen.add(item.id);
+        return item;
+      }
+      const id = uuidv4();
+      seen.add(id);
+      return { ...item, id };
+    };
+    // Same order as forEachId, so the first use of an id keeps it
+    cities = cities.map((city) => {
+      const kept = unique(city);
+      return { ...kept, buildQueue: city.buildQueue.map(unique) };
+    });
+    tiles = tiles.map(([key, tile]) => [
+      key,
+      { ...tile, plannedStates: tile.plannedStates.map(unique) },
+    ]);
+    plannedSettlements = plannedSettlements.map(unique);
+    techQueue = techQueue.map(unique);
+    civicQueue = civicQueue.map(unique);
+    aiCivs = aiCivs.map(unique);
+  }
+
+  return { ...data, tiles, cities, plannedSettlements, techQueue, civicQueue, aiCivs };
+};
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+
+import type { AICiv, City, GameSetup, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { hexDistance, hexesInRange } from "./hexUtils";
+import {
+  findBestSettleLocations,
+  MIN_CITY_DISTANCE,
+  scoreSettleLocation,
+  SettleState,
+} from "./settleScorer";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "plains",
+    modifier: partial.modifier,
+    features: partial.features ?? [],
+    resource: partial.resource,
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    district: partial.district,
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeCity(partial: Partial<City> & Pick<City, "id" | "location">): City {
+  return {
+    id: partial.id,
+    name: "Seoul",
+    location: partial.location,
+    population: 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [partial.location],
+    workedTiles: [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+/** Plains within the given radius of the origin, with per-tile overrides. */
+function makeState(
+  overrides: Array<Partial<Tile> & Pick<Tile, "coord">> = [],
+  extra: Partial<SettleState> = {},
+  radius = 6,
+): SettleState {
+  const tiles = new Map(
+    hexesInRange({ q: 0, r: 0 }, radius).map((coord) => [coordKey(coord), makeTile({ coord })]),
+  );
+  overrides.forEach((o) => tiles.set(coordKey(o.coord), makeTile(o)));
+  return {
+    setup: { playerCiv: "korea" } as GameSetup,
+    tiles,
+    cities: [],
+    aiCivs: [],
+    completedTechs: new Set(),
+    completedCivics: new Set(),
+    ...extra,
+  };
+}
+
+const labels = (coord: { q: number; r: number }, state: SettleState) =>
+  scoreSettleLocation(coord, state)?.factors.map((f) => f.label) ?? [];
+
+describe("settleScorer", () => {
+  it("rejects water, mountains, AI territory and tiles too close to a city", () => {
+    const ai: AICiv = {
+      id: "ai-1",
+      leader: "montezuma",
+      civName: "Aztec",
+      status: "neutral",
+      threatLevel: "low",
+      knownCities: [],
+      claimedTiles: [{ q: -3, r: 0 }],
+    };
+    const state = makeState(
+      [
+        { coord: { q: 1, r: 0 }, terrain: "coast" },
+        { coord: { q: 2, r: 0 }, modifier: "mountain" },
+      ],
+      { cities: [makeCity({ id: "c1", location: { q: 0, r: 3 } })], aiCivs: [ai] },
+    );
+
+    expect(scoreSettleLocation({ q: 1, r: 0 }, state)).toBeNull();
+    expect(scoreSettleLocation({ q: 2, r: 0 }, state)).toBeNull();
+    expect(scoreSettleLocation({ q: -3, r: 0 }, state)).toBeNull();
+    expect(scoreSettleLocation({ q: 0, r: 0 }, state)).toBeNull(); // 3 from the city
+    expect(scoreSettleLocation({ q: 0, r: -1 }, state)).not.toBeNull(); // 4 from the city
+  });
+
+  it("explains fresh water, coast, resources and district potential", () => {
+    const state = makeState([
+      { coord: { q: 0, r: 0 }, riverEdges: [true, false, false, false, false, false] },
+      { coord: { q: 1, r: -1 }, terrain: "coast" },
+      { coord: { q: 2, r: 0 }, modifier: "mountain" },
+      { coord: { q: 2, r: -1 }, modifier: "mountain" },
+      { coord: { q: -1, r: 0 }, resource: { name: "Iron", type: "strategic", revealed: true } },
+      { coord: { q: -2, r: 0 }, resource: { name: "Silk", type: "luxury", revealed: true } },
+      { coord: { q: -2, r: 1 }, resource: { name: "Wine", type: "luxury", revealed: false } },
+    ]);
+
+    const result = labels({ q: 0, r: 0 }, state);
+    expect(result).toContain("Fresh water (river)");
+    expect(result).toContain("Coastal");
+    expect(result).toContain("Strategic: Iron");
+    expect(result).toContain("New luxuries: Silk");
+    expect(result.some((l) => l.startsWith("District adjacency: Campus +"))).toBe(true);
+  });
+
+  it("counts civ-specific district adjacency", () => {
+    const state = makeState([
+      { coord: { q: 1, r: 0 }, features: ["rainforest"] },
+      { coord: { q: 2, r: -1 }, features: ["rainforest"] },
+      { coord: { q: 1, r: -1 }, features: ["rainforest"] },
+    ]);
+    const theater = (result: string[]) =>
+      result.some((l) => l.startsWith("District adjacency") && l.includes("Theater Square"));
+
+    expect(theater(labels({ q: 0, r: 0 }, state))).toBe(false);
+    expect(
+      theater(labels({ q: 0, r: 0 }, { ...state, setup: { playerCiv: "brazil" } as GameSetup })),
+    ).toBe(true);
+  });
+
+  it("doesn't count luxuries we already own and penalizes overlap", () => {
+    const owned = { q: 4, r: 0 };
+    const state = makeState(
+      [
+        { coord: owned, resource: { name: "Silk", type: "luxury", revealed: true } },
+        { coord: { q: 0, r: 1 }, resource: { name: "Silk", type: "luxury", revealed: true } },
+      ],
+      {
+        cities: [makeCity({ id: "c1", location: { q: 5, r: 0 }, ownedTiles: [owned] })],
+      },
+      8,
+    );
+
+    const candidate = scoreSettleLocation({ q: 1, r: 0 }, state)!;
+    expect(candidate.factors.map((f) => f.label)).not.toContain("New luxuries: Silk");
+    expect(candidate.factors.find((f) => f.label.startsWith("Overlaps 1 tile"))?.score).toBe(-1);
+  });
+
+  it("findBestSettleLocations returns distinct sites, best first", () => {
+    const state = makeState([
+      { coord: { q: 3, r: 0 }, riverEdges: [true, false, false, false, false, false] },
+    ]);
+
+    const spots = findBestSettleLocations(state);
+    expect(spots.length).toBeGreaterThan(0);
+    expect(spots.length).toBeLessThanOrEqual(5);
+    expect(coordKey(spots[0].coord)).toBe("3,0");
+    for (let i = 1; i < spots.length; i++) {
+      expect(spots[i].score).toBeLessThanOrEqual(spots[i - 1].score);
+      spots.slice(0, i).forEach((s) => {
+        expect(hexDistance(s.coord, spots[i].coord)).toBeGreaterThanOrEqual(MIN_CITY_DISTANCE);
+      });
+    }
+  });
+  it("looks across the seam of a wrapping map", () => {
+    const map = { size: "custom", width: 10, height: 6, wrapX: true } as const;
+    const tiles = new Map(
+      hexesInRange({ q: 0, r: 0 }, 3, map).map((coord) => [coordKey(coord), makeTile({ coord })]),
+    );
+    tiles.set("9,0", makeTile({ coord: { q: 9, r: 0 }, terrain: "coast" }));
+    const wrapping = makeState([], { setup: { playerCiv: "korea", map } as GameSetup, tiles });
+    const flat = { ...wrapping, setup: { playerCiv: "korea" } as GameSetup };
+
+    expect(labels({ q: 0, r: 0 }, wrapping)).toContain("Coastal");
+    expect(labels({ q: 0, r: 0 }, flat)).not.toContain("Coastal");
+
+    const city = makeCity({ id: "c1", location: { q: 8, r: 0 } });
+    expect(scoreSettleLocation({ q: 0, r: 0 }, { ...wrapping, cities: [city] })).toBeNull();
+    expect(scoreSettleLocation({ q: 0, r: 0 }, { ...flat, cities: [city] })).not.toBeNull();
+  });
+});
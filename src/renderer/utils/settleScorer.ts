@@ -0,0 +1,343 @@
+/**
+ * @fileoverview Settle location scoring for expansion planning.
+ *
+ * Scores every mapped land tile as a potential city site by looking at the
+ * tiles the city would be able to work (`hexesInRange(coord, 3)`):
+ *
+ * - Yields of workable tiles (rings 1-2 count fully, ring 3 at half weight)
+ * - Fresh water (river on the tile, or an adjacent oasis)
+ * - Coastal access (adjacent coast, needed for a Harbor)
+ * - Strategic resources and luxuries the empire doesn't own yet
+ * - District adjacency potential (best Campus, Holy Site, etc. spot)
+ * - Overlap with existing cities and AI `claimedTiles` (penalized)
+ *
+ * Each score comes with a list of factors so the UI can explain the ranking.
+ * Yields and district adjacency are computed at most once per tile in a
+ * scoring pass, since neighboring candidates share most of their tiles.
+ *
+ * @module renderer/utils/settleScorer
+ */
+
+import { DistrictType, GameState, HexCoord, MapBounds, Tile, coordKey } from "../../types/model";
+import { calculateAdjacency, getDistrictDisplayName } from "./adjacencyCalculator";
+import { hexDistance, hexNeighbors, hexesInRange } from "./hexUtils";
+import { YieldResult, calculateAllTileYields, emptyYields, getTotalYield } from "./yieldCalculator";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Game state needed to score settle locations.
+ */
+export type SettleState = Pick<
+  GameState,
+  "setup" | "tiles" | "cities" | "aiCivs" | "completedTechs" | "completedCivics"
+>;
+
+/**
+ * One contribution to a settle score.
+ */
+export interface SettleFactor {
+  /** Human-readable explanation (e.g., "Fresh water (river)") */
+  label: string;
+  /** Points added (or subtracted) by this factor */
+  score: number;
+}
+
+/**
+ * A scored settle location.
+ */
+export interface SettleCandidate {
+  /** Tile to settle on */
+  coord: HexCoord;
+  /** Total score (sum of factor scores) */
+  score: number;
+  /** Contributions to the score, largest first */
+  factors: SettleFactor[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Radius of tiles a city can work. */
+export const SETTLE_RADIUS = 3;
+
+/** Minimum distance between city centers (3 tiles in between). */
+export const MIN_CITY_DISTANCE = 4;
+
+const YIELD_WEIGHT = 0.5;
+const OUTER_RING_WEIGHT = 0.5;
+const FRESH_WATER_SCORE = 6;
+const COASTAL_SCORE = 3;
+const STRATEGIC_SCORE = 2;
+const NEW_LUXURY_SCORE = 4;
+const ADJACENCY_WEIGHT = 0.5;
+const OVERLAP_PENALTY = 1;
+
+/** Districts whose best adjacency spot counts toward a site's potential. */
+const POTENTIAL_DISTRICTS: DistrictType[] = [
+  "campus",
+  "holy_site",
+  "theater_square",
+  "commercial_hub",
+  "industrial_zone",
+];
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+/**
+ * Data shared by every candidate, computed once per scoring pass.
+ */
+interface SettleContext {
+  tiles: Map<string, Tile>;
+  /** Map extent, so areas and distances wrap across the seam */
+  map?: MapBounds;
+  yields: Map<string, YieldResult>;
+  /** Player civ, for civ-specific adjacency bonuses */
+  playerCiv: string;
+  /** Adjacency bonus of each potential district, by tile, calculated on demand */
+  adjacency: Map<string, number[]>;
+  /** Tiles owned by our cities or claimed by AI civs */
+  takenKeys: Set<string>;
+  /** Tiles claimed by AI civs (can't be settled) */
+  claimedKeys: Set<string>;
+  /** City centers of all known cities, ours and AI */
+  cityLocations: HexCoord[];
+  /** Luxury resources already inside our borders */
+  ownedLuxuries: Set<string>;
+}
+
+const buildContext = (state: SettleState): SettleContext => {
+  const ownedKeys = new Set<string>();
+  state.cities.forEach((c) => c.ownedTiles.forEach((t) => ownedKeys.add(coordKey(t))));
+  state.tiles.forEach((t, key) => {
+    if (t.owningCityId) ownedKeys.add(key);
+  });
+
+  const claimedKeys = new Set<string>();
+  state.aiCivs.forEach((civ) => civ.claimedTiles.forEach((t) => claimedKeys.add(coordKey(t))));
+
+  const ownedLuxuries = new Set<string>();
+  ownedKeys.forEach((key) => {
+    const resource = state.tiles.get(key)?.resource;
+    if (resource?.revealed && resource.type === "luxury") ownedLuxuries.add(resource.name);
+  });
+
+  return {
+    tiles: state.tiles,
+    map: state.setup.map,
+    yields: calculateAllTileYields(state.tiles, state, state.setup.map),
+    playerCiv: state.setup.playerCiv,
+    adjacency: new Map(),
+    takenKeys: new Set([...ownedKeys, ...claimedKeys]),
+    claimedKeys,
+    cityLocations: [
+      ...state.cities.map((c) => c.location),
+      ...state.aiCivs.flatMap((civ) => civ.knownCities.map((c) => c.location)),
+    ],
+    ownedLuxuries,
+  };
+};
+
+const isWater = (tile: Tile): boolean => tile.terrain === "coast" || tile.terrain === "ocean";
+
+/**
+ * Check whether a city can be founded on a tile: mapped land that isn't a
+ * mountain, has no district or wonder, isn't AI territory, and is far enough
+ * from every known city.
+ */
+const canSettle = (coord: HexCoord, context: SettleContext): boolean => {
+  const key = coordKey(coord);
+  const tile = context.tiles.get(key);
+  if (!tile || isWater(tile) || tile.modifier === "mountain") return false;
+  if (tile.district || tile.wonder || context.claimedKeys.has(key)) return false;
+  return context.cityLocations.every(
+    (loc) => hexDistance(coord, loc, context.map) >= MIN_CITY_DISTANCE,
+  );
+};
+
+const formatList = (names: string[]): string => [...new Set(names)].join(", ");
+
+/**
+ * Adjacency bonuses of the potential districts on a tile, in
+ * {@link POTENTIAL_DISTRICTS} order, calculated once per context.
+ */
+const getAdjacencyBonuses = (key: string, tile: Tile, context: SettleContext): number[] => {
+  let bonuses = context.adjacency.get(key);
+  if (!bonuses) {
+    bonuses = POTENTIAL_DISTRICTS.map(
+      (district) =>
+        calculateAdjacency(tile.coord, district, context.tiles, context.playerCiv, context.map)
+          .bonus,
+    );
+    context.adjacency.set(key, bonuses);
+  }
+  return bonuses;
+};
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Score a settle location against a precomputed context.
+ */
+const scoreWithContext = (coord: HexCoord, context: SettleContext): SettleCandidate | null => {
+  if (!canSettle(coord, context)) return null;
+
+  const centerKey = coordKey(coord);
+  const center = context.tiles.get(centerKey)!;
+  const factors: SettleFactor[] = [];
+
+  // Workable tiles: mapped, in range, and not already someone else's
+  const area: { key: string; tile: Tile }[] = [];
+  hexesInRange(coord, SETTLE_RADIUS, context.map).forEach((c) => {
+    const key = coordKey(c);
+    const tile = context.tiles.get(key);
+    if (tile && key !== centerKey) area.push({ key, tile });
+  });
+  const freeArea = area.filter(({ key }) => !context.takenKeys.has(key));
+  const free = freeArea.map(({ tile }) => tile);
+  const overlap = area.length - free.length;
+
+  // Yields
+  const yieldTotal = freeArea.reduce((sum, { key, tile }) => {
+    const total = getTotalYield(context.yields.get(key)?.total ?? emptyYields());
+    const weight =
+      hexDistance(tile.coord, coord, context.map) < SETTLE_RADIUS ? 1 : OUTER_RING_WEIGHT;
+    return sum + total * weight;
+  }, 0);
+  if (yieldTotal > 0) {
+    factors.push({
+      label: `${yieldTotal} yields from ${free.length} workable tiles`,
+      score: yieldTotal * YIELD_WEIGHT,
+    });
+  }
+
+  // Fresh water and coast
+  const neighbors = hexNeighbors(coord, context.map)
+    .map((c) => context.tiles.get(coordKey(c)))
+    .filter((t): t is Tile => !!t);
+  if (center.riverEdges?.some((e) => e)) {
+    factors.push({ label: "Fresh water (river)", score: FRESH_WATER_SCORE });
+  } else if (neighbors.some((t) => t.features.includes("oasis"))) {
+    factors.push({ label: "Fresh water (oasis)", score: FRESH_WATER_SCORE });
+  }
+  if (neighbors.some((t) => t.terrain === "coast")) {
+    factors.push({ label: "Coastal", score: COASTAL_SCORE });
+  }
+
+  // Resources
+  const resources = [center, ...free]
+    .map((t) => t.resource)
+    .filter((r): r is NonNullable<Tile["resource"]> => !!r?.revealed);
+  const strategic = resources.filter((r) => r.type === "strategic").map((r) => r.name);
+  if (strategic.length > 0) {
+    factors.push({
+      label: `Strategic: ${formatList(strategic)}`,
+      score: strategic.length * STRATEGIC_SCORE,
+    });
+  }
+  const newLuxuries = [
+    ...new Set(
+      resources
+        .filter((r) => r.type === "luxury" && !context.ownedLuxuries.has(r.name))
+        .map((r) => r.name),
+    ),
+  ];
+  if (newLuxuries.length > 0) {
+    factors.push({
+      label: `New luxuries: ${formatList(newLuxuries)}`,
+      score: newLuxuries.length * NEW_LUXURY_SCORE,
+    });
+  }
+
+  // District adjacency potential: the best spot for each key district
+  const best = POTENTIAL_DISTRICTS.map(() => 0);
+  freeArea.forEach(({ key, tile }) => {
+    if (isWater(tile) || tile.modifier === "mountain") return;
+    getAdjacencyBonuses(key, tile, context).forEach((bonus, i) => {
+      best[i] = Math.max(best[i], bonus);
+    });
+  });
+  const bestAdjacency = POTENTIAL_DISTRICTS.map((district, i) => ({
+    district,
+    bonus: best[i],
+  })).filter((a) => a.bonus > 0);
+  if (bestAdjacency.length > 0) {
+    factors.push({
+      label: `District adjacency: ${bestAdjacency
+        .map((a) => `${getDistrictDisplayName(a.district)} +${a.bonus}`)
+        .join(", ")}`,
+      score: bestAdjacency.reduce((sum, a) => sum + a.bonus, 0) * ADJACENCY_WEIGHT,
+    });
+  }
+
+  // Overlap with existing borders
+  if (overlap > 0) {
+    factors.push({
+      label: `Overlaps ${overlap} tile(s) owned or claimed by other cities`,
+      score: -overlap * OVERLAP_PENALTY,
+    });
+  }
+
+  factors.sort((a, b) => b.score - a.score);
+  return {
+    coord,
+    score: factors.reduce((sum, f) => sum + f.score, 0),
+    factors,
+  };
+};
+
+/**
+ * Score a single tile as a city site.
+ *
+ * @param coord - Tile to settle on
+ * @param state - Map, cities, AI civs and research progress
+ * @returns Scored candidate, or null if a city can't be founded there
+ *
+ * @example
+ * const candidate = scoreSettleLocation({ q: 5, r: -2 }, useGameStore.getState());
+ * candidate?.factors.forEach((f) => console.log(f.label, f.score));
+ */
+export const scoreSettleLocation = (coord: HexCoord, state: SettleState): SettleCandidate | null =>
+  scoreWithContext(coord, buildContext(state));
+
+/**
+ * Rank every mapped tile as a city site and return the best ones.
+ *
+ * Returned locations are at least {@link MIN_CITY_DISTANCE} apart, so the
+ * list offers distinct sites rather than neighboring tiles of one good spot.
+ *
+ * @param state - Map, cities, AI civs and research progress
+ * @param count - Number of locations to return (default 5)
+ * @returns Best settle locations, highest score first
+ *
+ * @example
+ * const spots = findBestSettleLocations(useGameStore.getState());
+ * spots.forEach((s, i) => console.log(`#${i + 1}`, s.coord, s.score));
+ */
+export const findBestSettleLocations = (state: SettleState, count = 5): SettleCandidate[] => {
+  const context = buildContext(state);
+  const candidates: SettleCandidate[] = [];
+  state.tiles.forEach((tile) => {
+    const candidate = scoreWithContext(tile.coord, context);
+    if (candidate) candidates.push(candidate);
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const best: SettleCandidate[] = [];
+  for (const candidate of candidates) {
+    if (best.length >= count) break;
+    if (
+      best.every((b) => hexDistance(b.coord, candidate.coord, context.map) >= MIN_CITY_DISTANCE)
+    ) {
+      best.push(candidate);
+    }
+  }
+  return best;
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import type { AICiv, City, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import {
+  OwnershipState,
+  detectOwnershipConflicts,
+  findOwnershipIssues,
+  reconcileOwnership,
+} from "./tileOwnership";
+
+function makeTile(coord: Tile["coord"], owningCityId?: string): Tile {
+  return {
+    coord,
+    terrain: "grassland",
+    features: [],
+    riverEdges: [false, false, false, false, false, false],
+    owningCityId,
+    isPillaged: false,
+    plannedStates: [],
+    isLocked: false,
+  };
+}
+
+function makeCity(id: string, name: string, ownedTiles: City["ownedTiles"]): City {
+  return {
+    id,
+    name,
+    location: ownedTiles[0] ?? { q: 0, r: 0 },
+    population: 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles,
+    workedTiles: [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: [],
+  };
+}
+
+function makeState(tiles: Tile[], cities: City[], aiCivs: AICiv[] = []): OwnershipState {
+  return { tiles: new Map(tiles.map((t) => [coordKey(t.coord), t])), cities, aiCivs };
+}
+
+const a = { q: 0, r: 0 };
+const b = { q: 1, r: 0 };
+const c = { q: 2, r: 0 };
+
+describe("findOwnershipIssues", () => {
+  it("reports nothing when both sides agree", () => {
+    const state = makeState(
+      [makeTile(a, "seoul"), makeTile(b, "seoul")],
+      [makeCity("seoul", "Seoul", [a, b])],
+    );
+    expect(findOwnershipIssues(state)).toEqual([]);
+  });
+
+  it("reports drift, double claims and AI claims", () => {
+    const aztec: AICiv = {
+      id: "ai-1",
+      leader: "montezuma",
+      civName: "Aztec",
+      status: "neutral",
+      threatLevel: "low",
+      knownCities: [],
+      claimedTiles: [a],
+    };
+    const state = makeState(
+      [makeTile(a, "seoul"), makeTile(b), makeTile(c, "gone")],
+      [makeCity("seoul", "Seoul", [a, b]), makeCity("busan", "Busan", [b])],
+      [aztec],
+    );
+
+    const issues = findOwnershipIssues(state);
+
+    expect(issues.map((i) => [i.kind, coordKey(i.coord)])).toEqual([
+      ["ai_claim", "0,0"],
+      ["double_claim", "1,0"],
+      ["drift", "2,0"],
+    ]);
+    expect(issues[1].message).toBe("(1, 0) is claimed by Seoul and Busan.");
+    expect(detectOwnershipConflicts(state)[0]).toMatchObject({
+      type: "conflict",
+      title: "Tile claimed by an AI civ",
+      relatedCityId: "seoul",
+    });
+  });
+});
+
+describe("reconcileOwnership", () => {
+  it("syncs both sides from the recorded owner or the only listing city", () => {
+    const seoul = makeCity("seoul", "Seoul", [a, b]);
+    const busan = makeCity("busan", "Busan", [c]);
+    const state = makeState(
+      [makeTile(a), makeTile(b, "busan"), makeTile(c, "busan"), makeTile({ q: 3, r: 0 }, "gone")],
+      [seoul, busan],
+    );
+
+    const { tiles, cities, repairs } = reconcileOwnership(state);
+
+    expect(tiles.get("0,0")?.owningCityId).toBe("seoul");
+    expect(tiles.get("3,0")?.owningCityId).toBeUndefined();
+    expect(cities[0].ownedTiles).toEqual([a]);
+    expect(cities[1].ownedTiles).toEqual([c, b]);
+    expect(repairs).toHaveLength(4);
+    expect(findOwnershipIssues({ tiles, cities, aiCivs: [] })).toEqual([]);
+  });
+
+  it("leaves unresolvable double claims alone", () => {
+    const state = makeState(
+      [makeTile(b)],
+      [makeCity("seoul", "Seoul", [b]), makeCity("busan", "Busan", [b])],
+    );
+
+    const { cities, repairs } = reconcileOwnership(state);
+
+    expect(repairs).toEqual([]);
+    expect(cities.map((city) => city.ownedTiles)).toEqual([[b], [b]]);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Tile ownership consistency checks and repair.
+ *
+ * Ownership is stored twice: on each tile (`Tile.owningCityId`) and on each
+ * city (`City.ownedTiles`). Edits that update one side drift out of sync with
+ * the other. This module finds the problems and repairs what it can:
+ *
+ * - Drift: the tile's owner and the cities' `ownedTiles` disagree, or the
+ *   tile points at a city that no longer exists (repairable)
+ * - Double claims: two cities list the same tile in `ownedTiles`
+ * - AI claims: a tile one of our cities owns is also in an AI civ's
+ *   `claimedTiles`
+ *
+ * The tile's recorded owner is trusted first; a tile without one belongs to
+ * the only city that lists it. Double claims without a recorded owner can't be
+ * resolved automatically and are only reported.
+ *
+ * @module renderer/utils/tileOwnership
+ */
+
+import { City, GameState, HexCoord, Tile, coordKey } from "../../types/model";
+import { ConflictRecommendation } from "./conflictDetector";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Kinds of ownership problems.
+ */
+export type OwnershipIssueKind = "drift" | "double_claim" | "ai_claim";
+
+/**
+ * An ownership problem on one tile.
+ */
+export interface OwnershipIssue {
+  /** What's wrong */
+  kind: OwnershipIssueKind;
+  /** The affected tile */
+  coord: HexCoord;
+  /** Cities involved */
+  cityIds: string[];
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of repairing ownership drift.
+ */
+export interface OwnershipRepair {
+  /** Tiles with corrected owners */
+  tiles: Map<string, Tile>;
+  /** Cities with corrected `ownedTiles` */
+  cities: City[];
+  /** One line per repaired tile */
+  repairs: string[];
+}
+
+/**
+ * Game state needed to check ownership.
+ */
+export type OwnershipState = Pick<GameState, "tiles" | "cities" | "aiCivs">;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const formatCoord = (coord: HexCoord): string => `(${coord.q}, ${coord.r})`;
+
+const parseKey = (key: string): HexCoord => {
+  const [q, r] = key.split(",").map(Number);
+  return { q, r };
+};
+
+/**
+ * Index every tile that has an owner on either side.
+ */
+const indexOwnership = (state: Pick<GameState, "tiles" | "cities">) => {
+  const cityIds = new Set(state.cities.map((c) => c.id));
+  const listers = new Map<string, string[]>();
+  state.cities.forEach((city) => {
+    new Set(city.ownedTiles.map(coordKey)).forEach((key) => {
+      listers.set(key, [...(listers.get(key) ?? []), city.id]);
+    });
+  });
+
+  const keys = new Set(listers.keys());
+  state.tiles.forEach((tile, key) => {
+    if (tile.owningCityId) keys.add(key);
+  });
+
+  return { cityIds, listers, keys };
+};
+
+/**
+ * Decide who owns a tile: its recorded owner if that city exists, else the
+ * only city listing it.
+ */
+const resolveOwner = (
+  recorded: string | undefined,
+  listedBy: string[],
+  cityIds: Set<string>,
+): string | undefined => {
+  if (recorded && cityIds.has(recorded)) return recorded;
+  return listedBy.length === 1 ? listedBy[0] : undefined;
+};
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Find every ownership problem on the map.
+ *
+ * @param state - Tiles, cities and AI civs
+ * @returns Issues, one per problem per tile
+ *
+ * @example
+ * const issues = findOwnershipIssues(useGameStore.getState());
+ * issues.filter((i) => i.kind === "double_claim").forEach((i) => console.warn(i.message));
+ */
+export const findOwnershipIssues = (state: OwnershipState): OwnershipIssue[] => {
+  const { cityIds, listers, keys } = indexOwnership(state);
+  const cityName = (id: string) => state.cities.find((c) => c.id === id)?.name ?? id;
+  const aiClaims = new Map<string, string>();
+  state.aiCivs.forEach((civ) =>
+    civ.claimedTiles.forEach((t) => aiClaims.set(coordKey(t), civ.civName)),
+  );
+
+  const issues: OwnershipIssue[] = [];
+  keys.forEach((key) => {
+    const coord = state.tiles.get(key)?.coord ?? parseKey(key);
+    const where = formatCoord(coord);
+    const recorded = state.tiles.get(key)?.owningCityId;
+    const listedBy = listers.get(key) ?? [];
+
+    if (listedBy.length > 1) {
+      issues.push({
+        kind: "double_claim",
+        coord,
+        cityIds: listedBy,
+        message: `${where} is claimed by ${listedBy.map(cityName).join(" and ")}.`,
+      });
+    } else if (recorded && !cityIds.has(recorded)) {
+      issues.push({
+        kind: "drift",
+        coord,
+        cityIds: listedBy,
+        message: `${where} belongs to a city that no longer exists.`,
+      });
+    } else if (state.tiles.has(key) && recorded !== listedBy[0]) {
+      const owner = resolveOwner(recorded, listedBy, cityIds)!;
+      issues.push({
+        kind: "drift",
+        coord,
+        cityIds: [...new Set([owner, ...listedBy])],
+        message: recorded
+          ? `${where} belongs to ${cityName(recorded)} but ${
+              listedBy.length ? `is listed by ${cityName(listedBy[0])}` : "isn't in its borders"
+            }.`
+          : `${where} is in ${cityName(owner)}'s borders but has no owner.`,
+      });
+    }
+
+    const aiCiv = aiClaims.get(key);
+    const owner = resolveOwner(recorded, listedBy, cityIds) ?? listedBy[0];
+    if (aiCiv && owner) {
+      issues.push({
+        kind: "ai_claim",
+        coord,
+        cityIds: [owner],
+        message: `${where} is owned by ${cityName(owner)} and claimed by ${aiCiv}.`,
+      });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Report ownership problems as conflict recommendations.
+ *
+ * @param state - Tiles, cities and AI civs
+ * @returns One conflict per ownership issue
+ */
+export const detectOwnershipConflicts = (state: OwnershipState): ConflictRecommendation[] => {
+  const titles: Record<OwnershipIssueKind, string> = {
+    drift: "Tile ownership out of sync",
+    double_claim: "Tile claimed by two cities",
+    ai_claim: "Tile claimed by an AI civ",
+  };
+  return findOwnershipIssues(state).map((issue) => ({
+    type: "conflict",
+    confidence: "high",
+    title: titles[issue.kind],
+    shortReason: issue.message,
+    relatedCoord: issue.coord,
+    ...(issue.cityIds.length === 1 && { relatedCityId: issue.cityIds[0] }),
+  }));
+};
+
+// ============================================================================
+// REPAIR
+// ============================================================================
+
+/**
+ * Bring `Tile.owningCityId` and `City.ownedTiles` back in sync.
+ *
+ * Each tile goes to its recorded owner (or the only city listing it): the
+ * tile's `owningCityId` is set, the owner lists it, and other cities drop it.
+ * Owners pointing at deleted cities are cleared. Double claims without a
+ * recorded owner are left alone.
+ *
+ * @param state - Tiles and cities
+ * @returns Repaired tiles and cities (unchanged objects are reused) and what changed
+ *
+ * @example
+ * const { tiles, cities, repairs } = reconcileOwnership(state);
+ * if (repairs.length > 0) set({ tiles, cities });
+ */
+export const reconcileOwnership = (state: Pick<GameState, "tiles" | "cities">): OwnershipRepair => {
+  const { cityIds, listers, keys } = indexOwnership(state);
+  const cityName = (id: string) => state.cities.find((c) => c.id === id)?.name ?? id;
+  const tiles = new Map(state.tiles);
+  const owners = new Map<string, string>();
+  const repairs: string[] = [];
+
+  keys.forEach((key) => {
+    const tile = tiles.get(key);
+    const listedBy = listers.get(key) ?? [];
+    const owner = resolveOwner(tile?.owningCityId, listedBy, cityIds);
+    const where = formatCoord(tile?.coord ?? parseKey(key));
+
+    if (owner) owners.set(key, owner);
+    if (tile && tile.owningCityId !== owner && (owner || !cityIds.has(tile.owningCityId!))) {
+      tiles.set(key, { ...tile, owningCityId: owner });
+      repairs.push(owner ? `${where}: owner set to ${cityName(owner)}` : `${where}: owner cleared`);
+    }
+    if (owner && listedBy.some((id) => id !== owner)) {
+      repairs.push(`${where}: removed from other cities' borders`);
+    }
+    if (owner && !listedBy.includes(owner)) {
+      repairs.push(`${where}: added to its owner's borders`);
+    }
+  });
+
+  const cities = state.cities.map((city) => {
+    const kept = city.ownedTiles.filter((t) => {
+      const owner = owners.get(coordKey(t));
+      return !owner || owner === city.id;
+    });
+    const listed = new Set(kept.map(coordKey));
+    const added: HexCoord[] = [];
+    owners.forEach((owner, key) => {
+      if (owner === city.id && !listed.has(key)) {
+        added.push(tiles.get(key)?.coord ?? parseKey(key));
+      }
+    });
+    return kept.length === city.ownedTiles.length && added.length === 0
+      ? city
+      : { ...city, ownedTiles: [...kept, ...added] };
+  });
+
+  return { tiles, cities, repairs };
+};
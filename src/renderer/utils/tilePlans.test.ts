@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { applyAllPlans, getPlanActionUpdates, projectPlannedTiles } from "./tilePlans";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "grassland",
+    modifier: partial.modifier,
+    features: partial.features ?? [],
+    resource: partial.resource,
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    improvement: partial.improvement,
+    district: partial.district,
+    wonder: partial.wonder,
+    owningCityId: partial.owningCityId,
+    isPillaged: partial.isPillaged ?? false,
+    plannedStates: partial.plannedStates ?? [],
+    isLocked: partial.isLocked ?? false,
+  };
+}
+
+describe("tilePlans", () => {
+  it("getPlanActionUpdates removes only choppable features", () => {
+    const tile = makeTile({ coord: { q: 0, r: 0 }, features: ["woods", "floodplains"] });
+
+    expect(getPlanActionUpdates(tile, { type: "remove_feature" })).toEqual({
+      features: ["floodplains"],
+    });
+  });
+
+  it("applyAllPlans applies plans in order and clears the timeline", () => {
+    const tile = makeTile({
+      coord: { q: 0, r: 0 },
+      features: ["woods"],
+      improvement: "lumber_mill",
+      plannedStates: [
+        { id: "p1", trigger: { type: "manual" }, action: { type: "remove_feature" } },
+        {
+          id: "p2",
+          trigger: { type: "tech", techId: "writing" },
+          action: { type: "place_district", district: "campus" },
+        },
+      ],
+    });
+
+    const projected = applyAllPlans(tile);
+
+    expect(projected.features).toEqual([]);
+    expect(projected.district).toBe("campus");
+    expect(projected.improvement).toBeUndefined();
+    expect(projected.plannedStates).toEqual([]);
+    // The original tile is untouched
+    expect(tile.district).toBeUndefined();
+  });
+
+  it("projectPlannedTiles shares tiles that have no plans", () => {
+    const coord = { q: 1, r: 0 };
+    const tile = makeTile({ coord });
+    const tiles = new Map([[coordKey(coord), tile]]);
+
+    expect(projectPlannedTiles(tiles).get(coordKey(coord))).toBe(tile);
+  });
+
+  it("projectPlannedTiles places each city's planned districts", () => {
+    const coord = { q: 2, r: 0 };
+    const tile = makeTile({ coord, improvement: "farm" });
+    const tiles = new Map([[coordKey(coord), tile]]);
+    const city: City = {
+      id: "seoul",
+      name: "Seoul",
+      location: { q: 0, r: 0 },
+      population: 3,
+      housingCap: 4,
+      amenities: 0,
+      ownedTiles: [coord],
+      workedTiles: [],
+      districts: [],
+      buildQueue: [],
+      plannedDistricts: [
+        { type: "campus", tile: coord, trigger: { type: "manual" } },
+        { type: "harbor", tile: { q: 9, r: 9 }, trigger: { type: "manual" } },
+      ],
+    };
+
+    const projected = projectPlannedTiles(tiles, [city]);
+
+    expect(projected.get(coordKey(coord))).toMatchObject({
+      district: "campus",
+      improvement: undefined,
+    });
+    expect(projected.size).toBe(1);
+    expect(tile.district).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Helpers for applying planned tile actions.
+ *
+ * This module turns `TilePlannedState` actions into concrete tile changes,
+ * either for a single plan or for a tile's entire timeline. Used to preview
+ * the map "after all plans" and to execute plans when they come due.
+ *
+ * @module renderer/utils/tilePlans
+ */
+
+import { City, Tile, TilePlannedState, Feature, coordKey } from "../../types/model";
+
+/**
+ * Features that are removed by a "remove_feature" (chop/clear) action.
+ */
+const REMOVABLE_FEATURES: Feature[] = ["woods", "rainforest", "marsh"];
+
+/**
+ * Get the tile field updates produced by a planned action.
+ *
+ * - `improve` sets the improvement
+ * - `remove_feature` removes woods, rainforest, and marsh
+ * - `place_district` sets the district and removes any improvement
+ * - `place_wonder` sets the wonder and removes any improvement
+ * - `harvest_resource` removes the resource
+ *
+ * @param tile - The tile the action applies to
+ * @param action - The planned action
+ * @returns Partial tile suitable for `updateTile`
+ *
+ * @example
+ * const updates = getPlanActionUpdates(tile, { type: "remove_feature" });
+ * updateTile(tile.coord, updates);
+ */
+export const getPlanActionUpdates = (
+  tile: Tile,
+  action: TilePlannedState["action"],
+): Partial<Tile> => {
+  switch (action.type) {
+    case "improve":
+      return { improvement: action.improvement, isPillaged: false };
+    case "remove_feature":
+      return { features: tile.features.filter((f) => !REMOVABLE_FEATURES.includes(f)) };
+    case "place_district":
+      return { district: action.district, improvement: undefined, isPillaged: false };
+    case "place_wonder":
+      return { wonder: action.wonderId, improvement: undefined };
+    case "harvest_resource":
+      return { resource: undefined };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Apply every planned state of a tile, in order, to produce its projected future state.
+ *
+ * @param tile - The tile to project
+ * @returns A new tile with all plans applied and an empty plan list
+ */
+export const applyAllPlans = (tile: Tile): Tile => {
+  if (tile.plannedStates.length === 0) return tile;
+
+  let projected: Tile = tile;
+  for (const plan of tile.plannedStates) {
+    projected = { ...projected, ...getPlanActionUpdates(projected, plan.action) };
+  }
+  return { ...projected, plannedStates: [] };
+};
+
+/**
+ * Project the whole map as it will look once every plan has been carried out.
+ *
+ * Each tile's planned states are applied first, then every city's planned
+ * districts are placed on their tiles.
+ *
+ * @param tiles - Map of all tiles
+ * @param cities - Cities whose `plannedDistricts` should be placed
+ * @returns A new Map with projected tiles (unplanned tiles are shared, not copied)
+ */
+export const projectPlannedTiles = (
+  tiles: Map<string, Tile>,
+  cities: City[] = [],
+): Map<string, Tile> => {
+  const projected = new Map<string, Tile>();
+  tiles.forEach((tile, key) => {
+    projected.set(key, applyAllPlans(tile));
+  });
+  cities.forEach((city) =>
+    city.plannedDistricts.forEach((planned) => {
+      const key = coordKey(planned.tile);
+      const tile = projected.get(key);
+      if (!tile) return;
+      projected.set(key, {
+        ...tile,
+        ...getPlanActionUpdates(tile, { type: "place_district", district: planned.type }),
+      });
+    }),
+  );
+  return projected;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import type { City, Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+
+import { findDueItems, isTriggerMet, TriggerState } from "./triggerEngine";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "grassland",
+    features: partial.features ?? [],
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    district: partial.district,
+    isPillaged: false,
+    plannedStates: partial.plannedStates ?? [],
+    isLocked: false,
+  };
+}
+
+function makeCity(partial: Partial<City> & Pick<City, "id">): City {
+  return {
+    id: partial.id,
+    name: "Seoul",
+    location: { q: 0, r: 0 },
+    population: partial.population ?? 1,
+    housingCap: 4,
+    amenities: 0,
+    ownedTiles: partial.ownedTiles ?? [{ q: 0, r: 0 }],
+    workedTiles: [],
+    districts: [],
+    buildQueue: [],
+    plannedDistricts: partial.plannedDistricts ?? [],
+  };
+}
+
+function makeState(overrides: Partial<TriggerState> = {}): TriggerState {
+  return {
+    tiles: new Map(),
+    cities: [],
+    completedTechs: new Set(),
+    completedCivics: new Set(),
+    currentTurn: 1,
+    ...overrides,
+  };
+}
+
+describe("triggerEngine", () => {
+  it("isTriggerMet evaluates each trigger type", () => {
+    const state = makeState({
+      cities: [makeCity({ id: "c1", population: 5, ownedTiles: [{ q: 1, r: 0 }] })],
+      completedTechs: new Set(["writing"]),
+      completedCivics: new Set(["code_of_laws"]),
+      currentTurn: 30,
+    });
+
+    expect(isTriggerMet({ type: "immediate" }, state)).toBe(true);
+    expect(isTriggerMet({ type: "manual" }, state)).toBe(false);
+    expect(isTriggerMet({ type: "tech", techId: "writing" }, state)).toBe(true);
+    expect(isTriggerMet({ type: "tech", techId: "currency" }, state)).toBe(false);
+    expect(isTriggerMet({ type: "civic", civicId: "code_of_laws" }, state)).toBe(true);
+    expect(isTriggerMet({ type: "turn", turn: 30 }, state)).toBe(true);
+    expect(isTriggerMet({ type: "turn", turn: 31 }, state)).toBe(false);
+    expect(isTriggerMet({ type: "population", cityId: "c1", pop: 5 }, state)).toBe(true);
+    expect(isTriggerMet({ type: "population", cityId: "c1", pop: 6 }, state)).toBe(false);
+    // No city ID: falls back to the city owning the tile
+    expect(isTriggerMet({ type: "population", cityId: "", pop: 5 }, state, { q: 1, r: 0 })).toBe(
+      true,
+    );
+    expect(isTriggerMet({ type: "population", cityId: "", pop: 5 }, state, { q: 2, r: 0 })).toBe(
+      false,
+    );
+  });
+
+  it("findDueItems lists due tile plans and unbuilt planned districts", () => {
+    const coord = { q: 1, r: 0 };
+    const tile = makeTile({
+      coord,
+      plannedStates: [
+        {
+          id: "p1",
+          trigger: { type: "tech", techId: "writing" },
+          action: { type: "remove_feature" },
+        },
+        { id: "p2", trigger: { type: "manual" }, action: { type: "harvest_resource" } },
+      ],
+    });
+    const built = makeTile({ coord: { q: 2, r: 0 }, district: "campus" });
+    const city = makeCity({
+      id: "c1",
+      plannedDistricts: [
+        { type: "campus", tile: { q: 2, r: 0 }, trigger: { type: "immediate" } },
+        { type: "holy_site", tile: { q: 3, r: 0 }, trigger: { type: "turn", turn: 10 } },
+      ],
+    });
+    const state = makeState({
+      tiles: new Map([
+        [coordKey(coord), tile],
+        [coordKey(built.coord), built],
+      ]),
+      cities: [city],
+      completedTechs: new Set(["writing"]),
+      currentTurn: 10,
+    });
+
+    expect(findDueItems(state).map((d) => d.id)).toEqual(["plan:p1", "district:c1:3,0"]);
+  });
+});
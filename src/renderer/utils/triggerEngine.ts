@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Evaluates planned-state triggers against the game state.
+ *
+ * Tiles carry a timeline of `TilePlannedState`s and cities carry a list of
+ * planned districts, each gated by a `StateTrigger`. This module checks those
+ * triggers and returns the plans that are due now, so they can be surfaced as
+ * notifications and applied to the map.
+ *
+ * Manual triggers are never due automatically. Population triggers without a
+ * city ID refer to the city that owns the plan's tile.
+ *
+ * @module renderer/utils/triggerEngine
+ */
+
+import {
+  City,
+  GameState,
+  HexCoord,
+  StateTrigger,
+  TilePlannedState,
+  coordKey,
+} from "../../types/model";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The parts of the game state that triggers depend on.
+ */
+export type TriggerState = Pick<
+  GameState,
+  "tiles" | "cities" | "completedTechs" | "completedCivics" | "currentTurn"
+>;
+
+/**
+ * A planned action whose trigger condition has been met.
+ */
+export interface DueItem {
+  /** Stable identifier derived from the plan's source */
+  id: string;
+  /** Where the plan came from */
+  source: "tile_plan" | "planned_district";
+  /** Tile the action applies to */
+  coord: HexCoord;
+  /** The action to perform */
+  action: TilePlannedState["action"];
+  /** The trigger that was met */
+  trigger: StateTrigger;
+  /** Tile plan ID (tile_plan items only) */
+  planId?: string;
+  /** Owning city ID (planned_district items only) */
+  cityId?: string;
+  /** User note from the plan, if any */
+  rationale?: string;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Check whether a trigger condition is met.
+ *
+ * @param trigger - Trigger to evaluate
+ * @param state - Current game state
+ * @param coord - Tile the trigger belongs to, used when a population trigger has no city ID
+ * @returns True if the trigger has fired
+ *
+ * @example
+ * isTriggerMet({ type: "turn", turn: 50 }, state); // true from turn 50 onward
+ */
+export const isTriggerMet = (
+  trigger: StateTrigger,
+  state: TriggerState,
+  coord?: HexCoord,
+): boolean => {
+  switch (trigger.type) {
+    case "immediate":
+      return true;
+    case "tech":
+      return state.completedTechs.has(trigger.techId);
+    case "civic":
+      return state.completedCivics.has(trigger.civicId);
+    case "turn":
+      return state.currentTurn >= trigger.turn;
+    case "population": {
+      const city = trigger.cityId
+        ? state.cities.find((c) => c.id === trigger.cityId)
+        : coord &&
+          state.cities.find((c) => c.ownedTiles.some((t) => coordKey(t) === coordKey(coord)));
+      return !!city && city.population >= trigger.pop;
+    }
+    case "manual":
+    default:
+      return false;
+  }
+};
+
+/**
+ * Get a stable ID for a city's planned district.
+ *
+ * @param city - The owning city
+ * @param coord - Tile of the planned district
+ * @returns ID of the form "district:<cityId>:<q,r>"
+ */
+export const getPlannedDistrictDueId = (city: City, coord: HexCoord): string =>
+  `district:${city.id}:${coordKey(coord)}`;
+
+/**
+ * Find every tile plan and planned district that is due now.
+ *
+ * Tile plans are listed first, in map order and timeline order, followed by
+ * planned districts in city order. Planned districts that are already built
+ * on their tile are skipped.
+ *
+ * @param state - Current game state
+ * @returns Due items (empty if nothing is due)
+ */
+export const findDueItems = (state: TriggerState): DueItem[] => {
+  const due: DueItem[] = [];
+
+  state.tiles.forEach((tile) => {
+    for (const plan of tile.plannedStates) {
+      if (!isTriggerMet(plan.trigger, state, tile.coord)) continue;
+      due.push({
+        id: `plan:${plan.id}`,
+        source: "tile_plan",
+        coord: tile.coord,
+        action: plan.action,
+        trigger: plan.trigger,
+        planId: plan.id,
+        rationale: plan.rationale,
+      });
+    }
+  });
+
+  for (const city of state.cities) {
+    for (const planned of city.plannedDistricts) {
+      if (!isTriggerMet(planned.trigger, state, planned.tile)) continue;
+      if (state.tiles.get(coordKey(planned.tile))?.district === planned.type) continue;
+      due.push({
+        id: getPlannedDistrictDueId(city, planned.tile),
+        source: "planned_district",
+        coord: planned.tile,
+        action: { type: "place_district", district: planned.type },
+        trigger: planned.trigger,
+        cityId: city.id,
+      });
+    }
+  }
+
+  return due;
+};
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+
+import type { Tile } from "../../types/model";
+import { coordKey } from "../../types/model";
+import { IMPROVEMENT_UPGRADES, describeUpgrade } from "../data/improvementUpgrades";
+import { TECHS, getTech } from "../data/techs";
+
+import { calculateTileYields } from "./yieldCalculator";
+
+function makeTile(partial: Partial<Tile> & Pick<Tile, "coord">): Tile {
+  return {
+    coord: partial.coord,
+    terrain: partial.terrain ?? "grassland",
+    modifier: partial.modifier,
+    features: partial.features ?? [],
+    resource: partial.resource,
+    riverEdges: partial.riverEdges ?? [false, false, false, false, false, false],
+    improvement: partial.improvement,
+    district: partial.district,
+    wonder: partial.wonder,
+    owningCityId: partial.owningCityId,
+    isPillaged: partial.isPillaged ?? false,
+    plannedStates: partial.plannedStates ?? [],
+    isLocked: partial.isLocked ?? false,
+  };
+}
+
+function tileMap(...tiles: Tile[]): Map<string, Tile> {
+  return new Map(tiles.map((t) => [coordKey(t.coord), t]));
+}
+
+const noProgress = { completedTechs: new Set<string>(), completedCivics: new Set<string>() };
+
+describe("yieldCalculator", () => {
+  it("sums terrain, hills, feature and revealed resource yields", () => {
+    const coord = { q: 0, r: 0 };
+    const tiles = tileMap(
+      makeTile({
+        coord,
+        terrain: "plains",
+        modifier: "hills",
+        features: ["woods"],
+        resource: { name: "Deer", type: "bonus", revealed: true },
+      }),
+    );
+
+    const result = calculateTileYields(coord, tiles, noProgress);
+
+    // Plains (1F 1P) + Hills (1P) + Woods (1P) + Deer (1P)
+    expect(result.total.food).toBe(1);
+    expect(result.total.production).toBe(4);
+    expect(result.breakdown.map((s) => s.source)).toEqual(["Plains", "Hills", "Woods", "Deer"]);
+  });
+
+  it("applies tech-gated improvement upgrades only once researched", () => {
+    const coord = { q: 0, r: 0 };
+    const tiles = tileMap(
+      makeTile({ coord, terrain: "plains", modifier: "hills", improvement: "mine" }),
+    );
+
+    const before = calculateTileYields(coord, tiles, noProgress);
+    const after = calculateTileYields(coord, tiles, {
+      completedTechs: new Set(["apprenticeship"]),
+      completedCivics: new Set(),
+    });
+
+    expect(before.total.production).toBe(3);
+    expect(after.total.production).toBe(4);
+    expect(after.breakdown.some((s) => s.source === "Apprenticeship")).toBe(true);
+  });
+
+  it("gives farm adjacency food from Feudalism", () => {
+    const center = { q: 0, r: 0 };
+    const tiles = tileMap(
+      makeTile({ coord: center, improvement: "farm" }),
+      makeTile({ coord: { q: 1, r: 0 }, improvement: "farm" }),
+      makeTile({ coord: { q: -1, r: 0 }, improvement: "farm" }),
+    );
+
+    const result = calculateTileYields(center, tiles, {
+      completedTechs: new Set(),
+      completedCivics: new Set(["feudalism"]),
+    });
+
+    // Grassland (2F) + Farm (1F) + 2 adjacent farms (+1F)
+    expect(result.total.food).toBe(4);
+  });
+
+  it("counts farms across the seam of a wrapping map", () => {
+    const center = { q: 0, r: 0 };
+    // West of column 0 are columns 9 of rows 0 and 1
+    const tiles = tileMap(
+      makeTile({ coord: center, improvement: "farm" }),
+      makeTile({ coord: { q: 9, r: 0 }, improvement: "farm" }),
+      makeTile({ coord: { q: 9, r: 1 }, improvement: "farm" }),
+    );
+    const progress = { completedTechs: new Set<string>(), completedCivics: new Set(["feudalism"]) };
+
+    const map = { width: 10, height: 6, wrapX: true };
+    expect(calculateTileYields(center, tiles, progress, map).total.food).toBe(4);
+    expect(calculateTileYields(center, tiles, progress).total.food).toBe(3);
+  });
+
+  it("enforces the City Center minimum and ignores improvements on districts", () => {
+    const coord = { q: 0, r: 0 };
+    const tiles = tileMap(makeTile({ coord, terrain: "tundra", district: "city_center" }));
+
+    const result = calculateTileYields(coord, tiles, noProgress);
+
+    expect(result.total.food).toBe(2);
+    expect(result.total.production).toBe(1);
+
+    const campusTiles = tileMap(makeTile({ coord, district: "campus", improvement: "farm" }));
+    expect(calculateTileYields(coord, campusTiles, noProgress).breakdown).toEqual([]);
+  });
+
+  it("ignores pillaged improvements, unrevealed resources and mountains", () => {
+    const coord = { q: 0, r: 0 };
+    const tiles = tileMap(
+      makeTile({
+        coord,
+        improvement: "farm",
+        isPillaged: true,
+        resource: { name: "Wheat", type: "bonus", revealed: false },
+      }),
+    );
+    expect(calculateTileYields(coord, tiles, noProgress).total.food).toBe(2);
+
+    const mountain = tileMap(makeTile({ coord, modifier: "mountain" }));
+    expect(calculateTileYields(coord, mountain, noProgress).breakdown).toEqual([]);
+  });
+});
+
+describe("improvement upgrades", () => {
+  it("lists every tech upgrade in its tech's unlocks", () => {
+    for (const upgrade of IMPROVEMENT_UPGRADES) {
+      if (upgrade.requires.type !== "tech") continue;
+      const tech = getTech(upgrade.requires.techId);
+      expect(tech, upgrade.requires.techId).toBeDefined();
+      expect(tech?.unlocks).toContain(describeUpgrade(upgrade));
+    }
+  });
+
+  it("lists no improvement yield in the tech tree that the yield table does not apply", () => {
+    const described = new Set(IMPROVEMENT_UPGRADES.map(describeUpgrade));
+    const improvementLines = TECHS.flatMap((t) => t.unlocks)
+      .filter((line) => /^\+\d+ \w+ from /.test(line))
+      // Farm adjacency is applied by the farm rule, not the upgrade table
+      .filter((line) => !line.endsWith("next to Farms"));
+    for (const line of improvementLines) {
+      expect(described).toContain(line);
+    }
+  });
+
+  it("only references techs that exist", () => {
+    for (const tech of TECHS) {
+      for (const prereq of tech.prerequisites) {
+        expect(getTech(prereq), `${tech.id} -> ${prereq}`).toBeDefined();
+      }
+    }
+    expect(getTech("buttress")).toBeDefined();
+    expect(getTech("refining")?.unlocks).toContain("Reveals Oil");
+  });
+});
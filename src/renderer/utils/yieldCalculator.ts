@@ -0,0 +1,491 @@
+/**
+ * @fileoverview Tile yield calculator for Civilization 6.
+ *
+ * This module calculates the food, production, gold, science, culture, and
+ * faith a tile produces from its terrain, modifier, features, resource, and
+ * improvement, including tech/civic-gated improvement upgrades.
+ *
+ * @module renderer/utils/yieldCalculator
+ */
+
+import { HexCoord, Tile, Improvement, GameState, MapBounds, coordKey } from "../../types/model";
+import { hexNeighbors } from "./hexUtils";
+import { IMPROVEMENT_UPGRADES, ImprovementUpgrade } from "../data/improvementUpgrades";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The six yield types a tile can produce.
+ */
+export type YieldType = "food" | "production" | "gold" | "science" | "culture" | "faith";
+
+/**
+ * A full set of yields, one value per yield type.
+ */
+export type Yields = Record<YieldType, number>;
+
+/**
+ * Research state used to gate improvement upgrades.
+ */
+export type ResearchProgress = Pick<GameState, "completedTechs" | "completedCivics">;
+
+/**
+ * A single source of tile yields.
+ *
+ * @example
+ * const hills: YieldSource = {
+ *   source: "Hills",
+ *   yields: { production: 1 }
+ * };
+ */
+export interface YieldSource {
+  /** Display name of the yield source (e.g., "Grassland", "Woods", "Mine") */
+  source: string;
+  /** Yields contributed by this source (omitted types are 0) */
+  yields: Partial<Yields>;
+}
+
+/**
+ * Complete yield calculation result for a tile.
+ *
+ * @example
+ * const result: YieldResult = {
+ *   coord: { q: 0, r: 0 },
+ *   total: { food: 3, production: 1, gold: 0, science: 0, culture: 0, faith: 0 },
+ *   breakdown: [
+ *     { source: "Grassland", yields: { food: 2 } },
+ *     { source: "Farm", yields: { food: 1 } },
+ *     { source: "Woods", yields: { production: 1 } }
+ *   ]
+ * };
+ */
+export interface YieldResult {
+  /** The tile coordinate this calculation is for */
+  coord: HexCoord;
+  /** Total yields (sum of all sources, never negative) */
+  total: Yields;
+  /** Detailed breakdown of yield sources */
+  breakdown: YieldSource[];
+}
+
+/** Display order for yield types. */
+export const YIELD_TYPES: YieldType[] = [
+  "food",
+  "production",
+  "gold",
+  "science",
+  "culture",
+  "faith",
+];
+
+// ============================================================================
+// YIELD TABLES
+// ============================================================================
+
+/**
+ * Base yields for each terrain type.
+ */
+const TERRAIN_YIELDS: Record<Tile["terrain"], Partial<Yields>> = {
+  grassland: { food: 2 },
+  plains: { food: 1, production: 1 },
+  desert: {},
+  tundra: { food: 1 },
+  snow: {},
+  coast: { food: 1, gold: 1 },
+  ocean: { food: 1 },
+};
+
+/**
+ * Yields added by natural features.
+ * Floodplains are handled separately since desert floodplains yield more food.
+ */
+const FEATURE_YIELDS: Partial<Record<Tile["features"][number], Partial<Yields>>> = {
+  woods: { production: 1 },
+  rainforest: { food: 1 },
+  marsh: { production: 1 },
+  reef: { food: 1, production: 1 },
+  geothermal: { science: 2 },
+  volcanic_soil: { food: 1, production: 1 },
+  oasis: { food: 3, gold: 1 },
+};
+
+/**
+ * Yields provided by revealed resources, keyed by resource name.
+ * Artifact luxuries (Cosmetics, Jeans, Perfume, Toys) provide no tile yields.
+ */
+const RESOURCE_YIELDS: Record<string, Partial<Yields>> = {
+  // Bonus
+  Bananas: { food: 1 },
+  Cattle: { food: 1 },
+  Copper: { gold: 2 },
+  Crabs: { gold: 2 },
+  Deer: { production: 1 },
+  Fish: { food: 1 },
+  Maize: { gold: 2 },
+  Rice: { food: 1 },
+  Sheep: { food: 1 },
+  Stone: { production: 1 },
+  Wheat: { food: 1 },
+  // Strategic
+  Horses: { food: 1, production: 1 },
+  Iron: { science: 1 },
+  Niter: { food: 1, production: 1 },
+  Coal: { production: 2 },
+  Oil: { production: 3 },
+  Aluminum: { science: 1 },
+  Uranium: { production: 2 },
+  // Luxury
+  Amber: { culture: 1 },
+  Citrus: { food: 2 },
+  Cocoa: { gold: 3 },
+  Coffee: { culture: 1 },
+  Cotton: { gold: 3 },
+  Diamonds: { gold: 3 },
+  Dyes: { faith: 1 },
+  Furs: { food: 1, gold: 1 },
+  Gypsum: { production: 1, gold: 1 },
+  Incense: { faith: 1 },
+  Ivory: { production: 1, gold: 1 },
+  Jade: { culture: 1 },
+  Marble: { culture: 1 },
+  Mercury: { science: 1 },
+  Olives: { culture: 1 },
+  Pearls: { faith: 1 },
+  Salt: { food: 1, gold: 1 },
+  Silk: { culture: 1 },
+  Silver: { gold: 3 },
+  Spices: { food: 2 },
+  Sugar: { food: 2 },
+  Tea: { science: 1 },
+  Tobacco: { faith: 1 },
+  Truffles: { gold: 3 },
+  Turtles: { science: 1 },
+  Whales: { production: 1, gold: 1 },
+  Wine: { food: 1, gold: 1 },
+};
+
+/**
+ * Base yields provided by each improvement.
+ * Tourism-focused and military improvements provide no tile yields.
+ */
+const IMPROVEMENT_YIELDS: Record<Improvement, Partial<Yields>> = {
+  farm: { food: 1 },
+  mine: { production: 1 },
+  quarry: { production: 1 },
+  plantation: { gold: 2 },
+  camp: { gold: 1 },
+  pasture: { production: 1 },
+  fishing_boats: { food: 1 },
+  lumber_mill: { production: 1 },
+  oil_well: { production: 2 },
+  offshore_platform: { production: 1 },
+  seaside_resort: {},
+  ski_resort: {},
+  fort: {},
+  airstrip: {},
+  missile_silo: {},
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a zeroed yield set.
+ *
+ * @returns Yields with every type set to 0
+ */
+export const emptyYields = (): Yields => ({
+  food: 0,
+  production: 0,
+  gold: 0,
+  science: 0,
+  culture: 0,
+  faith: 0,
+});
+
+/**
+ * Sum a list of yield sources into a single yield set.
+ *
+ * @param sources - Yield sources to sum
+ * @returns Summed yields (not clamped)
+ */
+const sumSources = (sources: YieldSource[]): Yields => {
+  const total = emptyYields();
+  for (const s of sources) {
+    for (const type of YIELD_TYPES) {
+      total[type] += s.yields[type] ?? 0;
+    }
+  }
+  return total;
+};
+
+/**
+ * Check whether a tech/civic requirement has been met.
+ *
+ * @param requires - Requirement to check
+ * @param progress - Completed techs and civics
+ * @returns True if the requirement is completed
+ */
+const isUnlocked = (
+  requires: ImprovementUpgrade["requires"],
+  progress: ResearchProgress,
+): boolean => {
+  return requires.type === "tech"
+    ? progress.completedTechs.has(requires.techId)
+    : progress.completedCivics.has(requires.civicId);
+};
+
+/**
+ * Format an enum-style id as a display name (e.g., "fishing_boats" → "Fishing Boats").
+ *
+ * @param id - Snake-case identifier
+ * @returns Title-cased display name
+ */
+const formatName = (id: string): string =>
+  id.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+/**
+ * Calculate the natural (terrain, modifier, features, resource) yield sources of a tile.
+ *
+ * @param tile - The tile to calculate
+ * @returns Yield sources, excluding improvements
+ */
+const getNaturalSources = (tile: Tile): YieldSource[] => {
+  const sources: YieldSource[] = [];
+
+  // Mountains are impassable and produce nothing
+  if (tile.modifier === "mountain") return sources;
+
+  sources.push({ source: formatName(tile.terrain), yields: TERRAIN_YIELDS[tile.terrain] });
+
+  if (tile.modifier === "hills") {
+    sources.push({ source: "Hills", yields: { production: 1 } });
+  }
+
+  for (const feature of tile.features) {
+    if (feature === "floodplains") {
+      sources.push({
+        source: "Floodplains",
+        yields: { food: tile.terrain === "desert" ? 3 : 1 },
+      });
+      continue;
+    }
+    const featureYields = FEATURE_YIELDS[feature];
+    if (featureYields) {
+      sources.push({ source: formatName(feature), yields: featureYields });
+    }
+  }
+
+  if (tile.resource?.revealed) {
+    const resourceYields = RESOURCE_YIELDS[tile.resource.name];
+    if (resourceYields) {
+      sources.push({ source: tile.resource.name, yields: resourceYields });
+    }
+  }
+
+  return sources;
+};
+
+/**
+ * Calculate yield sources from a tile's improvement and its unlocked upgrades.
+ *
+ * @param tile - The improved tile
+ * @param tiles - Map of all tiles (for farm adjacency)
+ * @param progress - Completed techs and civics
+ * @param map - Map extent, for farms across the seam
+ * @returns Improvement yield sources
+ */
+const getImprovementSources = (
+  tile: Tile,
+  tiles: Map<string, Tile>,
+  progress: ResearchProgress,
+  map: MapBounds | undefined,
+): YieldSource[] => {
+  const improvement = tile.improvement;
+  if (!improvement || tile.isPillaged) return [];
+
+  const sources: YieldSource[] = [];
+  const baseYields = IMPROVEMENT_YIELDS[improvement];
+  if (Object.keys(baseYields).length > 0) {
+    sources.push({ source: formatName(improvement), yields: baseYields });
+  }
+
+  for (const upgrade of IMPROVEMENT_UPGRADES) {
+    if (upgrade.improvement === improvement && isUnlocked(upgrade.requires, progress)) {
+      sources.push({ source: upgrade.source, yields: upgrade.yields });
+    }
+  }
+
+  // Farm adjacency: Feudalism gives +0.5 food per adjacent farm,
+  // Replaceable Parts raises it to +1 food per adjacent farm
+  if (improvement === "farm") {
+    const adjacentFarms = hexNeighbors(tile.coord, map)
+      .map((n) => tiles.get(coordKey(n)))
+      .filter((t) => t?.improvement === "farm" && !t.isPillaged).length;
+
+    if (adjacentFarms > 0) {
+      if (progress.completedTechs.has("replaceable_parts")) {
+        sources.push({
+          source: "Adjacent Farms (Replaceable Parts)",
+          yields: { food: adjacentFarms },
+        });
+      } else if (progress.completedCivics.has("feudalism")) {
+        const food = Math.floor(adjacentFarms / 2);
+        if (food > 0) {
+          sources.push({ source: "Adjacent Farms (Feudalism)", yields: { food } });
+        }
+      }
+    }
+  }
+
+  return sources;
+};
+
+// ============================================================================
+// MAIN CALCULATION FUNCTIONS
+// ============================================================================
+
+/**
+ * Calculate the yields of the tile at a given coordinate.
+ *
+ * Rules applied:
+ * - Mountains, wonders, and districts other than the City Center produce no tile yields
+ * - City Centers keep natural yields (improvements removed) with a minimum of 2 food, 1 production
+ * - Pillaged improvements provide no yields
+ *
+ * @param coord - The hex coordinate to calculate yields for
+ * @param tiles - Map of all tiles in the game
+ * @param progress - Completed techs and civics (gates improvement upgrades)
+ * @param map - Map extent, so farm adjacency wraps across the seam (optional)
+ * @returns Complete yield result with breakdown; all zero if the tile doesn't exist
+ *
+ * @example
+ * const result = calculateTileYields({ q: 3, r: -1 }, gameStore.tiles, gameStore);
+ * console.log(`Food: ${result.total.food}`);
+ */
+export const calculateTileYields = (
+  coord: HexCoord,
+  tiles: Map<string, Tile>,
+  progress: ResearchProgress,
+  map?: MapBounds,
+): YieldResult => {
+  const tile = tiles.get(coordKey(coord));
+  if (!tile) {
+    return { coord, total: emptyYields(), breakdown: [] };
+  }
+
+  let breakdown: YieldSource[];
+
+  if (tile.district === "city_center") {
+    breakdown = getNaturalSources(tile);
+    const natural = sumSources(breakdown);
+    const minimum: Partial<Yields> = {};
+    if (natural.food < 2) minimum.food = 2 - natural.food;
+    if (natural.production < 1) minimum.production = 1 - natural.production;
+    if (Object.keys(minimum).length > 0) {
+      breakdown.push({ source: "City Center minimum", yields: minimum });
+    }
+  } else if (tile.district || tile.wonder) {
+    // Districts and wonders replace the tile's yields
+    breakdown = [];
+  } else {
+    breakdown = [...getNaturalSources(tile), ...getImprovementSources(tile, tiles, progress, map)];
+  }
+
+  const total = sumSources(breakdown);
+  for (const type of YIELD_TYPES) {
+    total[type] = Math.max(0, total[type]);
+  }
+
+  return { coord, total, breakdown };
+};
+
+/**
+ * Calculate yields for every tile on the map.
+ *
+ * @param tiles - Map of all tiles in the game
+ * @param progress - Completed techs and civics
+ * @param map - Map extent, so farm adjacency wraps across the seam (optional)
+ * @returns Map of coordinate key to yield result
+ */
+export const calculateAllTileYields = (
+  tiles: Map<string, Tile>,
+  progress: ResearchProgress,
+  map?: MapBounds,
+): Map<string, YieldResult> => {
+  const results = new Map<string, YieldResult>();
+  tiles.forEach((tile, key) => {
+    results.set(key, calculateTileYields(tile.coord, tiles, progress, map));
+  });
+  return results;
+};
+
+/**
+ * Get the total of all yield types (useful for ranking tiles).
+ *
+ * @param yields - Yields to sum
+ * @returns Sum of every yield type
+ */
+export const getTotalYield = (yields: Yields): number =>
+  YIELD_TYPES.reduce((sum, type) => sum + yields[type], 0);
+
+// ============================================================================
+// DISPLAY HELPERS
+// ============================================================================
+
+/**
+ * Get the display name for a yield type.
+ *
+ * @param type - Yield type
+ * @returns Human-readable display name
+ */
+export const getYieldDisplayName = (type: YieldType): string => {
+  const names: Record<YieldType, string> = {
+    food: "Food",
+    production: "Production",
+    gold: "Gold",
+    science: "Science",
+    culture: "Culture",
+    faith: "Faith",
+  };
+  return names[type];
+};
+
+/**
+ * Get the emoji icon for a yield type.
+ *
+ * @param type - Yield type
+ * @returns Emoji string representing the yield
+ */
+export const getYieldIcon = (type: YieldType): string => {
+  const icons: Record<YieldType, string> = {
+    food: "🌾",
+    production: "⚙️",
+    gold: "💰",
+    science: "🧪",
+    culture: "🎵",
+    faith: "🕊️",
+  };
+  return icons[type];
+};
+
+/**
+ * Get the theme color for a yield type.
+ *
+ * @param type - Yield type
+ * @returns CSS color string
+ */
+export const getYieldColor = (type: YieldType): string => {
+  const colors: Record<YieldType, string> = {
+    food: "#84cc16", // Lime green
+    production: "#f97316", // Orange
+    gold: "#eab308", // Gold
+    science: "#3b82f6", // Blue
+    culture: "#a855f7", // Purple
+    faith: "#e2e8f0", // Pale white
+  };
+  return colors[type];
+};
@@ -424,6 +424,8 @@ export interface City {
   ownedTiles: HexCoord[];
   /** Tiles currently being worked by citizens */
   workedTiles: HexCoord[];
+  /** Citizens working as specialists, by district */
+  specialists?: Partial<Record<DistrictType, number>>;
 
   // Infrastructure
   /** Built districts with their buildings */
@@ -454,6 +456,44 @@ export interface City {
   };
 }
 
+/**
+ * Progress of a planned settlement.
+ *
+ * - `planned` - Site chosen, no settler yet
+ * - `in_production` - A city is building the settler
+ * - `en_route` - The settler is walking to the site
+ * - `settled` - The city has been founded
+ */
+export type SettlementStatus = "planned" | "in_production" | "en_route" | "settled";
+
+/**
+ * A city site in the expansion queue.
+ *
+ * @example
+ * const site: PlannedSettlement = {
+ *   id: "settle-001",
+ *   location: { q: 6, r: -2 },
+ *   targetTurn: 40,
+ *   status: "in_production",
+ *   producingCityId: "city-001",
+ *   justification: "Shares 3 tiles with Seoul, but it's the last river site"
+ * };
+ */
+export interface PlannedSettlement {
+  /** Unique identifier for this planned settlement */
+  id: string;
+  /** Tile the city will be founded on */
+  location: HexCoord;
+  /** Turn the city should be founded by */
+  targetTurn?: number;
+  /** Progress toward founding the city */
+  status: SettlementStatus;
+  /** City building the settler */
+  producingCityId?: string;
+  /** Why this site is in the expansion plan, and worth any overlap or spacing problems */
+  justification?: string;
+}
+
 // ============================================================================
 // CIVS
 // ============================================================================
@@ -545,6 +585,10 @@ export interface QueuedTech {
     required: number;
     description: string;
   };
+  /** Estimated turns from now until this tech completes */
+  turnsRemaining?: number;
+  /** Estimated turn number on which this tech completes */
+  projectedTurn?: number;
   /** If true, don't reorder in the queue */
   isLocked: boolean;
 }
@@ -571,6 +615,10 @@ export interface QueuedCivic {
     required: number;
     description: string;
   };
+  /** Estimated turns from now until this civic completes */
+  turnsRemaining?: number;
+  /** Estimated turn number on which this civic completes */
+  projectedTurn?: number;
   /** If true, don't reorder in the queue */
   isLocked: boolean;
 }
@@ -663,6 +711,32 @@ export type VictoryType =
  */
 export type GameSpeed = "online" | "quick" | "standard" | "epic" | "marathon";
 
+/**
+ * Map size presets from the game's setup screen, or a custom size.
+ */
+export type MapSize = "duel" | "tiny" | "small" | "standard" | "large" | "huge" | "custom";
+
+/**
+ * Extent of the map in the game's offset coordinates: columns 0 to
+ * `width - 1` and rows 0 to `height - 1`.
+ */
+export interface MapBounds {
+  /** Number of columns */
+  width: number;
+  /** Number of rows */
+  height: number;
+  /** Whether the map wraps east–west, joining the last column to the first */
+  wrapX: boolean;
+}
+
+/**
+ * Map settings chosen at setup.
+ */
+export interface MapSettings extends MapBounds {
+  /** Preset the size came from */
+  size: MapSize;
+}
+
 /**
  * Initial game configuration selected at game start.
  *
@@ -672,6 +746,7 @@ export type GameSpeed = "online" | "quick" | "standard" | "epic" | "marathon";
  *   playerLeader: "seondeok",
  *   victoryType: "science",
  *   gameSpeed: "standard",
+ *   map: { size: "standard", width: 84, height: 54, wrapX: true },
  *   dlc: {
  *     gatheringStorm: true,
  *     riseFall: true,
@@ -690,6 +765,8 @@ export interface GameSetup {
   victoryType: VictoryType;
   /** Game speed setting */
   gameSpeed: GameSpeed;
+  /** Map size and wrapping (absent for plans made before maps had bounds) */
+  map?: MapSettings;
   /** Enabled DLC and game modes */
   dlc: {
     gatheringStorm: boolean;
@@ -724,6 +801,8 @@ export interface GameState {
   // Player state
   /** Player's cities */
   cities: City[];
+  /** Planned city sites, in the order they should be settled */
+  plannedSettlements: PlannedSettlement[];
   /** Completed technology IDs */
   completedTechs: Set<string>;
   /** Completed civic IDs */
@@ -735,12 +814,16 @@ export interface GameState {
     techId: string;
     progress: number;
     turnsRemaining: number;
+    /** Eureka progress, used when the tech isn't also in the queue */
+    eurekaProgress?: QueuedTech["eurekaProgress"];
   };
   /** Currently researching civic */
   currentCivic?: {
     civicId: string;
     progress: number;
     turnsRemaining: number;
+    /** Inspiration progress, used when the civic isn't also in the queue */
+    inspirationProgress?: QueuedCivic["inspirationProgress"];
   };
 
   // Queues
@@ -749,6 +832,12 @@ export interface GameState {
   /** Planned civic research order */
   civicQueue: QueuedCivic[];
 
+  // Yields
+  /** Empire-wide science per turn, used for research estimates */
+  sciencePerTurn: number;
+  /** Empire-wide culture per turn, used for civic estimates */
+  culturePerTurn: number;
+
   // Government
   /** Current policy configuration */
   policyLoadout: PolicyLoadout;
@@ -858,6 +947,7 @@ export interface SerializedGameState {
   /** Tiles as [key, value] pairs */
   tiles: Array<[string, Tile]>;
   cities: City[];
+  plannedSettlements: PlannedSettlement[];
   /** Completed techs as array of IDs */
   completedTechs: string[];
   /** Completed civics as array of IDs */
@@ -866,6 +956,8 @@ export interface SerializedGameState {
   currentCivic?: GameState["currentCivic"];
   techQueue: QueuedTech[];
   civicQueue: QueuedCivic[];
+  sciencePerTurn: number;
+  culturePerTurn: number;
   policyLoadout: PolicyLoadout;
   gold: number;
   faith: number;
@@ -879,7 +971,13 @@ export interface SerializedGameState {
 /**
  * Current schema version for save files.
  *
- * Increment this when making breaking changes to the data model.
- * The deserialize function should handle migration from older versions.
+ * Increment this when making breaking changes to the data model, and add a
+ * step from the previous version to `MIGRATIONS` in
+ * `renderer/utils/migrations.ts`.
+ *
+ * - v1: Initial schema
+ * - v2: `plannedSettlements`, settlement `status`, `sciencePerTurn` and
+ *   `culturePerTurn` are always present
+ * - v3: settlement `rationale` is merged into `justification`
  */
-export const CURRENT_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 3;
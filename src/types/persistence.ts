@@ -18,6 +18,7 @@ export const serialize = (state: GameState): SerializedGameState => {
     currentEra: state.currentEra,
     tiles: Array.from(state.tiles.entries()),
     cities: state.cities,
+    plannedSettlements: state.plannedSettlements,
     completedTechs: Array.from(state.completedTechs),
     completedCivics: Array.from(state.completedCivics),
     currentTech: state.currentTech,
@@ -27,6 +28,8 @@ export const serialize = (state: GameState): SerializedGameState => {
     policyLoadout: state.policyLoadout,
     gold: state.gold,
     faith: state.faith,
+    sciencePerTurn: state.sciencePerTurn,
+    culturePerTurn: state.culturePerTurn,
     strategicResources: Array.from(state.strategicResources.entries()),
     aiCivs: state.aiCivs,
     lastUpdated: state.lastUpdated.toISOString(),
@@ -49,6 +52,7 @@ export const deserialize = (data: SerializedGameState): GameState => {
     currentEra: data.currentEra,
     tiles: new Map(data.tiles),
     cities: data.cities,
+    plannedSettlements: data.plannedSettlements ?? [],
     completedTechs: new Set(data.completedTechs),
     completedCivics: new Set(data.completedCivics),
     currentTech: data.currentTech,
@@ -58,6 +62,8 @@ export const deserialize = (data: SerializedGameState): GameState => {
     policyLoadout: data.policyLoadout,
     gold: data.gold,
     faith: data.faith,
+    sciencePerTurn: data.sciencePerTurn ?? 0,
+    culturePerTurn: data.culturePerTurn ?? 0,
     strategicResources: new Map(data.strategicResources),
     aiCivs: data.aiCivs,
     lastUpdated: new Date(data.lastUpdated),
@@ -79,6 +79,9 @@ const createEmptyState = (): Omit<GameState, "setup"> => ({
   },
   gold: 0,
   faith: 0,
+  sciencePerTurn: 0,
+  culturePerTurn: 0,
+  plannedSettlements: [],
   strategicResources: new Map(),
   aiCivs: [],
   lastUpdated: new Date(),